@@ -0,0 +1,16 @@
+-- Migration 07: Streaks are maintained by the application (src/lib/streaks.ts)
+-- The trigger from migration 03 keyed streaks on user_sessions.date, which is a UTC
+-- date, and would double-count alongside the app-side update. Remove it so the app
+-- is the single writer of current_streak / longest_streak / last_login_date.
+
+BEGIN;
+
+DROP TRIGGER IF EXISTS trigger_update_user_streak ON user_sessions;
+DROP FUNCTION IF EXISTS update_user_streak();
+
+COMMIT;
+
+-- Verify the trigger is gone
+SELECT trigger_name FROM information_schema.triggers
+WHERE event_object_table = 'user_sessions'
+AND trigger_name = 'trigger_update_user_streak';
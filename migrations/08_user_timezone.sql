@@ -0,0 +1,17 @@
+-- Migration 08: Per-user timezone for date-keyed features
+-- "Today" for daily question sets, user_sessions.date and streaks is computed in
+-- this IANA timezone (e.g. 'Asia/Kolkata'). NULL falls back to Asia/Kolkata in the app.
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN users.timezone IS 'IANA timezone used to compute the user''s calendar day (NULL = Asia/Kolkata)';
+
+COMMIT;
+
+-- Verify the column exists
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'users'
+AND column_name = 'timezone';
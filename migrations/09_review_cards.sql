@@ -0,0 +1,44 @@
+-- Migration 09: Spaced-repetition review queue
+-- One SM-2 card per student and question, seeded from incorrect student_attempts
+-- by /api/student/review and rescheduled after every review answer.
+-- Answering a card reveals the answer key, so students can only read their cards;
+-- the API seeds and reschedules them with the service role.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS review_cards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.5,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    due_date DATE NOT NULL,
+    review_count INTEGER NOT NULL DEFAULT 0,
+    last_quality INTEGER,
+    last_reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(student_id, question_id)
+);
+
+ALTER TABLE review_cards ADD CONSTRAINT review_cards_ease_factor_check CHECK (ease_factor >= 1.3);
+ALTER TABLE review_cards ADD CONSTRAINT review_cards_interval_check CHECK (interval_days >= 0);
+ALTER TABLE review_cards ADD CONSTRAINT review_cards_quality_check CHECK (last_quality IS NULL OR last_quality BETWEEN 0 AND 5);
+
+CREATE INDEX IF NOT EXISTS idx_review_cards_student_due ON review_cards(student_id, due_date);
+
+ALTER TABLE review_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their own review cards" ON review_cards
+    FOR SELECT USING (auth.uid() = student_id);
+
+COMMENT ON TABLE review_cards IS 'SM-2 spaced-repetition schedule per student and question';
+COMMENT ON COLUMN review_cards.due_date IS 'Next review date in the student''s timezone';
+
+COMMIT;
+
+-- Verify the table exists
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name = 'review_cards';
@@ -0,0 +1,26 @@
+-- Migration 10: Multi-subject daily question sets
+-- Students set a per-subject daily quota on user_subjects; each daily set records
+-- the subject of every slot (question_subjects runs parallel to questions) and,
+-- once completed, the per-subject score breakdown.
+
+BEGIN;
+
+ALTER TABLE user_subjects ADD COLUMN IF NOT EXISTS daily_quota INTEGER;
+ALTER TABLE user_subjects ADD CONSTRAINT user_subjects_daily_quota_check
+    CHECK (daily_quota IS NULL OR (daily_quota >= 0 AND daily_quota <= 20));
+
+COMMENT ON COLUMN user_subjects.daily_quota IS 'Questions per day from this subject (NULL/0 = none; no quotas at all = 10 from the primary subject)';
+
+ALTER TABLE daily_question_sets ADD COLUMN IF NOT EXISTS question_subjects UUID[];
+ALTER TABLE daily_question_sets ADD COLUMN IF NOT EXISTS subject_scores JSONB;
+
+COMMENT ON COLUMN daily_question_sets.question_subjects IS 'Subject of each slot, same order as questions';
+COMMENT ON COLUMN daily_question_sets.subject_scores IS 'Per-subject {correct, total} recorded on completion';
+
+COMMIT;
+
+-- Verify the new columns
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'user_subjects' AND column_name = 'daily_quota')
+OR (table_name = 'daily_question_sets' AND column_name IN ('question_subjects', 'subject_scores'));
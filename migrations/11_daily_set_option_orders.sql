@@ -0,0 +1,18 @@
+-- Migration 11: Persist option order for daily question sets
+-- option_orders runs parallel to questions; each entry is a 4-letter permutation
+-- of ABCD giving the canonical option shown in each displayed position.
+-- Submitted answers use displayed positions and are mapped back before grading.
+
+BEGIN;
+
+ALTER TABLE daily_question_sets ADD COLUMN IF NOT EXISTS option_orders TEXT[];
+
+COMMENT ON COLUMN daily_question_sets.option_orders IS 'Per-slot option permutation, e.g. CADB = option C shown first';
+
+COMMIT;
+
+-- Verify the column exists
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'daily_question_sets'
+AND column_name = 'option_orders';
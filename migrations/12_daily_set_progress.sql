@@ -0,0 +1,25 @@
+-- Migration 12: Saved progress for daily question sets
+-- saved_answers holds autosaved picks keyed by question ID:
+--   { "<questionId>": { "selectedOption": "B", "timeSpentSeconds": 42, "savedAt": "..." } }
+-- selectedOption is the displayed position (see option_orders). Only saved answers are
+-- graded; sets left unfinished are finalized automatically once their date has passed.
+
+BEGIN;
+
+ALTER TABLE daily_question_sets ADD COLUMN IF NOT EXISTS saved_answers JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE daily_question_sets ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE daily_question_sets ADD COLUMN IF NOT EXISTS auto_finalized BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_daily_question_sets_open
+ON daily_question_sets (studentid, date) WHERE completed = FALSE;
+
+COMMENT ON COLUMN daily_question_sets.saved_answers IS 'Autosaved answers keyed by question ID (displayed option, time spent)';
+COMMENT ON COLUMN daily_question_sets.auto_finalized IS 'TRUE when the set was graded automatically after its day ended';
+
+COMMIT;
+
+-- Verify the new columns
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'daily_question_sets'
+AND column_name IN ('saved_answers', 'finalized_at', 'auto_finalized');
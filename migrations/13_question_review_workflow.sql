@@ -0,0 +1,154 @@
+-- Migration 13: Question review workflow
+-- Questions move draft -> in_review -> published | rejected. Only published questions
+-- are served to students. Existing questions were already live, so they are backfilled
+-- as published; new questions start as drafts.
+-- question_reviews keeps every status change and reviewer comment.
+
+BEGIN;
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS status TEXT;
+UPDATE questions SET status = 'published' WHERE status IS NULL;
+ALTER TABLE questions ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE questions ALTER COLUMN status SET NOT NULL;
+ALTER TABLE questions ADD CONSTRAINT questions_status_check
+    CHECK (status IN ('draft', 'in_review', 'published', 'rejected'));
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_questions_status ON questions(status);
+CREATE INDEX IF NOT EXISTS idx_questions_subject_status ON questions(subject_id, status);
+
+CREATE TABLE IF NOT EXISTS question_reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    action TEXT NOT NULL,
+    from_status TEXT,
+    to_status TEXT,
+    comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE question_reviews ADD CONSTRAINT question_reviews_action_check
+    CHECK (action IN ('submit', 'withdraw', 'approve', 'reject', 'comment'));
+
+CREATE INDEX IF NOT EXISTS idx_question_reviews_question ON question_reviews(question_id, created_at);
+
+ALTER TABLE question_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors and reviewers can view question reviews" ON question_reviews
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('QAUTHOR', 'SUPERADMIN'))
+    );
+
+CREATE POLICY "Authors and reviewers can add question reviews" ON question_reviews
+    FOR INSERT WITH CHECK (
+        auth.uid() = reviewer_id
+        AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('QAUTHOR', 'SUPERADMIN'))
+    );
+
+-- Peer QAUTHORs review each other's questions, so they may update questions awaiting review
+CREATE POLICY "QAUTHORs can review questions awaiting review" ON questions
+    FOR UPDATE USING (
+        status = 'in_review'
+        AND created_by <> auth.uid()
+        AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'QAUTHOR')
+    )
+    WITH CHECK (
+        status IN ('in_review', 'published', 'rejected')
+        AND created_by <> auth.uid()
+        AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'QAUTHOR')
+    );
+
+-- The update policies decide whose rows a user may write, not which status changes
+-- are allowed, so the workflow is enforced here for requests made as a signed-in
+-- user (the service role and SECURITY DEFINER functions are trusted):
+-- - new questions start as draft or in_review
+-- - authors submit and withdraw their own questions, never approve them
+-- - reviewers take in_review questions to published or rejected, and peer QAUTHORs
+--   change nothing else
+-- - an author's edit to a published question sends it back to review, which is
+--   logged in question_reviews
+-- Runs as the caller, so current_user is the request's role.
+CREATE OR REPLACE FUNCTION enforce_question_review_workflow()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor_role TEXT;
+    is_author BOOLEAN;
+    content_changed BOOLEAN;
+BEGIN
+    IF current_user NOT IN ('authenticated', 'anon') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status NOT IN ('draft', 'in_review') THEN
+            RAISE EXCEPTION 'New questions must start as draft or in_review'
+                USING ERRCODE = 'check_violation';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+        RAISE EXCEPTION 'The author of a question cannot be changed'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT role INTO actor_role FROM users WHERE id = auth.uid();
+    is_author := OLD.created_by = auth.uid();
+    content_changed := (to_jsonb(NEW) - 'status' - 'status_updated_at' - 'updated_at' - 'open_report_count')
+        IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'status_updated_at' - 'updated_at' - 'open_report_count');
+
+    IF is_author THEN
+        IF content_changed AND OLD.status = 'published' AND NEW.status = 'published' THEN
+            NEW.status := 'in_review';
+            NEW.status_updated_at := NOW();
+            INSERT INTO question_reviews (question_id, reviewer_id, action, from_status, to_status, comment)
+            VALUES (OLD.id, auth.uid(), 'submit', 'published', 'in_review', 'Edited after publishing');
+        ELSIF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+            (OLD.status IN ('draft', 'rejected') AND NEW.status = 'in_review')
+            OR (OLD.status = 'in_review' AND NEW.status = 'draft')
+        ) THEN
+            RAISE EXCEPTION 'Authors cannot move their question from % to %', OLD.status, NEW.status
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF COALESCE(actor_role, '') NOT IN ('QAUTHOR', 'SUPERADMIN') THEN
+        RAISE EXCEPTION 'Only authors and reviewers can update questions'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status
+        AND NOT (OLD.status = 'in_review' AND NEW.status IN ('published', 'rejected')) THEN
+        RAISE EXCEPTION 'Reviewers cannot move a question from % to %', OLD.status, NEW.status
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF actor_role = 'QAUTHOR' AND content_changed THEN
+        RAISE EXCEPTION 'Reviewers can only change the status of a question'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_question_review_workflow ON questions;
+CREATE TRIGGER trigger_enforce_question_review_workflow
+    BEFORE INSERT OR UPDATE ON questions
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_question_review_workflow();
+
+COMMENT ON COLUMN questions.status IS 'Review state: draft, in_review, published or rejected';
+COMMENT ON TABLE question_reviews IS 'Status changes and reviewer comments on questions';
+
+COMMIT;
+
+-- Verify the new column and table
+SELECT status, COUNT(*) FROM questions GROUP BY status;
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name = 'question_reviews';
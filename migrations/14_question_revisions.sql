@@ -0,0 +1,79 @@
+-- Migration 14: Question revision history
+-- Every create, edit and rollback of a question stores a revision with the full
+-- snapshot of its editable fields and the field-level diff against the previous
+-- revision. Existing questions get revision 1 from their current content.
+-- regraded_attempts records how many student_attempts were regraded when an edit
+-- that changed correct_option was approved (NULL when regrading was not requested,
+-- see migration 28).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS question_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    snapshot JSONB NOT NULL,
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    rollback_to INTEGER,
+    regraded_attempts INTEGER,
+    edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(question_id, revision_number)
+);
+
+ALTER TABLE question_revisions ADD CONSTRAINT question_revisions_action_check
+    CHECK (action IN ('create', 'edit', 'rollback'));
+ALTER TABLE question_revisions ADD CONSTRAINT question_revisions_number_check
+    CHECK (revision_number >= 1);
+
+ALTER TABLE question_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors and SUPERADMINs can view question revisions" ON question_revisions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM questions WHERE questions.id = question_id AND questions.created_by = auth.uid())
+        OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'SUPERADMIN')
+    );
+
+CREATE POLICY "Authors can add revisions of their questions" ON question_revisions
+    FOR INSERT WITH CHECK (
+        auth.uid() = edited_by
+        AND EXISTS (SELECT 1 FROM questions WHERE questions.id = question_id AND questions.created_by = auth.uid())
+    );
+
+-- Baseline revision for questions created before revisions were recorded
+INSERT INTO question_revisions (question_id, revision_number, action, snapshot, edited_by, created_at)
+SELECT
+    q.id,
+    1,
+    'create',
+    jsonb_build_object(
+        'title', q.title,
+        'content', q.content,
+        'option_a', q.option_a,
+        'option_b', q.option_b,
+        'option_c', q.option_c,
+        'option_d', q.option_d,
+        'correct_option', TRIM(q.correct_option),
+        'explanation', q.explanation,
+        'difficulty', q.difficulty,
+        'exam_category', q.exam_category,
+        'subject_id', q.subject_id,
+        'year', q.year,
+        'source', q.source
+    ),
+    q.created_by,
+    COALESCE(q.created_at, NOW())
+FROM questions q
+ON CONFLICT (question_id, revision_number) DO NOTHING;
+
+COMMENT ON TABLE question_revisions IS 'Snapshots and diffs of every question create, edit and rollback';
+COMMENT ON COLUMN question_revisions.changes IS 'Changed fields: { "<column>": { "from": ..., "to": ... } }';
+COMMENT ON COLUMN question_revisions.rollback_to IS 'Revision number restored by a rollback';
+
+COMMIT;
+
+-- Verify every question has a revision
+SELECT COUNT(*) AS questions_without_revisions
+FROM questions q
+WHERE NOT EXISTS (SELECT 1 FROM question_revisions r WHERE r.question_id = q.id);
@@ -0,0 +1,63 @@
+-- Migration 15: Topic taxonomy and question tags
+-- topics holds the two levels below a subject: chapters (parent_id NULL) and the
+-- topics inside a chapter. Questions may be placed in a chapter and, optionally,
+-- a topic of that chapter, and carry free-form lowercase tags.
+-- Deleting a chapter deletes its topics; questions keep their subject and lose
+-- the deleted placement.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS topics (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subject_id UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES topics(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE topics ADD CONSTRAINT topics_kind_check
+    CHECK (kind IN ('chapter', 'topic'));
+ALTER TABLE topics ADD CONSTRAINT topics_parent_check
+    CHECK ((kind = 'chapter' AND parent_id IS NULL) OR (kind = 'topic' AND parent_id IS NOT NULL));
+
+-- Names are unique among siblings, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_topics_sibling_name
+ON topics (subject_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), LOWER(name));
+
+CREATE INDEX IF NOT EXISTS idx_topics_subject_parent ON topics(subject_id, parent_id);
+
+ALTER TABLE topics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "SUPERADMIN can manage topics" ON topics
+    USING (
+        (SELECT role FROM users WHERE id = auth.uid()) = 'SUPERADMIN'
+    );
+
+CREATE POLICY "All roles can view topics" ON topics
+    FOR SELECT USING (
+        (SELECT role FROM users WHERE id = auth.uid()) IN ('QAUTHOR', 'STUDENT', 'SUPERADMIN')
+    );
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS chapter_id UUID REFERENCES topics(id) ON DELETE SET NULL;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS topic_id UUID REFERENCES topics(id) ON DELETE SET NULL;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_questions_chapter_id ON questions(chapter_id);
+CREATE INDEX IF NOT EXISTS idx_questions_topic_id ON questions(topic_id);
+CREATE INDEX IF NOT EXISTS idx_questions_tags ON questions USING GIN (tags);
+
+COMMENT ON TABLE topics IS 'Chapters (parent_id NULL) and topics within chapters, per subject';
+COMMENT ON COLUMN questions.chapter_id IS 'Chapter of the question within its subject';
+COMMENT ON COLUMN questions.topic_id IS 'Topic within chapter_id';
+COMMENT ON COLUMN questions.tags IS 'Free-form lowercase tags';
+
+COMMIT;
+
+-- Verify the new table and columns
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'topics' AND column_name IN ('parent_id', 'kind'))
+OR (table_name = 'questions' AND column_name IN ('chapter_id', 'topic_id', 'tags'));
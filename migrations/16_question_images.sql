@@ -0,0 +1,24 @@
+-- Migration 16: Storage bucket for question images
+-- Question content, options and explanations are Markdown and may embed images.
+-- With IMAGE_STORAGE_DRIVER=supabase uploads go to this public bucket through
+-- the service role; in development they are kept on local disk instead.
+-- Uploads are validated by /api/question-images, so no insert policy is granted.
+
+BEGIN;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'question-images',
+    'question-images',
+    TRUE,
+    2097152,
+    ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+COMMIT;
+
+-- Verify the bucket
+SELECT id, public, file_size_limit, allowed_mime_types
+FROM storage.buckets
+WHERE id = 'question-images';
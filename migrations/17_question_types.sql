@@ -0,0 +1,91 @@
+-- Migration 17: Question types
+-- Besides single-correct A-D questions there are multiple-correct, numeric,
+-- assertion-reason and match-the-following questions. Answers are encoded as
+-- strings (see src/lib/question-types.ts): 'AC' for multiple-correct, '42' for
+-- numeric, 'CADB' for match-the-following, so correct_option and selectedoption
+-- become TEXT. correct_option is checked against its question type; responses are
+-- validated by the API. type_data holds the assertion and reason statements or
+-- the two match lists.
+-- student_attempts.score and daily set scores hold credit earned, which is
+-- fractional when a multiple-correct answer earns partial marks.
+
+BEGIN;
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS question_type TEXT NOT NULL DEFAULT 'single';
+ALTER TABLE questions ADD CONSTRAINT questions_question_type_check
+    CHECK (question_type IN ('single', 'multiple', 'numeric', 'assertion_reason', 'match'));
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS type_data JSONB;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS numeric_tolerance NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE questions ADD CONSTRAINT questions_numeric_tolerance_check CHECK (numeric_tolerance >= 0);
+
+-- correct_option was a single CHARACTER; its inline A-D check would reject the
+-- new encodings, so it is dropped by column like the selectedoption one below
+DO $$
+DECLARE
+    constraint_name TEXT;
+BEGIN
+    FOR constraint_name IN
+        SELECT con.conname
+        FROM pg_constraint con
+        JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = ANY (con.conkey)
+        WHERE con.conrelid = 'questions'::regclass
+        AND con.contype = 'c'
+        AND lower(att.attname) = 'correct_option'
+    LOOP
+        EXECUTE format('ALTER TABLE questions DROP CONSTRAINT %I', constraint_name);
+    END LOOP;
+END $$;
+
+ALTER TABLE questions ALTER COLUMN correct_option TYPE TEXT USING TRIM(correct_option);
+
+-- The stored answer must be well formed for its type; numeric answers are stored
+-- as JavaScript prints them, so very small or large values use an exponent
+ALTER TABLE questions ADD CONSTRAINT questions_correct_option_check CHECK (
+    CASE question_type
+        WHEN 'multiple' THEN correct_option ~ '^A?B?C?D?$' AND correct_option <> ''
+        WHEN 'numeric' THEN correct_option ~ '^-?([0-9]+(\.[0-9]+)?|[0-9](\.[0-9]+)?e[-+][0-9]+)$'
+        WHEN 'match' THEN correct_option ~ '^[A-H]{2,8}$'
+        ELSE correct_option IN ('A', 'B', 'C', 'D')
+    END
+);
+
+CREATE INDEX IF NOT EXISTS idx_questions_question_type ON questions(question_type);
+
+-- The A-D check on selected options was created inline, so its name depends on
+-- which migration created the table
+DO $$
+DECLARE
+    constraint_name TEXT;
+BEGIN
+    FOR constraint_name IN
+        SELECT con.conname
+        FROM pg_constraint con
+        JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = ANY (con.conkey)
+        WHERE con.conrelid = 'student_attempts'::regclass
+        AND con.contype = 'c'
+        AND lower(att.attname) = 'selectedoption'
+    LOOP
+        EXECUTE format('ALTER TABLE student_attempts DROP CONSTRAINT %I', constraint_name);
+    END LOOP;
+END $$;
+
+ALTER TABLE student_attempts ADD COLUMN IF NOT EXISTS score NUMERIC(4, 3);
+UPDATE student_attempts SET score = CASE WHEN iscorrect THEN 1 ELSE 0 END WHERE score IS NULL;
+ALTER TABLE student_attempts ALTER COLUMN score SET DEFAULT 0;
+ALTER TABLE student_attempts ADD CONSTRAINT student_attempts_score_check CHECK (score >= 0 AND score <= 1);
+
+ALTER TABLE daily_question_sets ALTER COLUMN score TYPE NUMERIC(6, 3);
+
+COMMENT ON COLUMN questions.question_type IS 'single, multiple, numeric, assertion_reason or match';
+COMMENT ON COLUMN questions.type_data IS 'Assertion-reason {assertion, reason} or match {left, right} lists';
+COMMENT ON COLUMN questions.numeric_tolerance IS 'Accepted absolute difference from a numeric answer';
+COMMENT ON COLUMN student_attempts.score IS 'Credit earned, 0-1; partial for multiple-correct questions';
+
+COMMIT;
+
+-- Verify the new columns
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'questions' AND column_name IN ('question_type', 'type_data', 'numeric_tolerance', 'correct_option'))
+OR (table_name = 'student_attempts' AND column_name = 'score')
+OR (table_name = 'daily_question_sets' AND column_name = 'score');
@@ -0,0 +1,69 @@
+-- Migration 18: Scoring schemes and negative marking
+-- scoring_schemes holds the marks per question of each exam category, e.g. +4/-1
+-- for JEE. A subject may override its questions' category scheme with its own
+-- correct_marks and incorrect_marks. Unanswered questions always score 0, and a
+-- partially correct multiple-correct answer earns its credit share of correct_marks.
+-- Completed daily sets keep the marks they were finalized with next to the raw score.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS scoring_schemes (
+    exam_category TEXT PRIMARY KEY,
+    correct_marks NUMERIC(6, 3) NOT NULL,
+    incorrect_marks NUMERIC(6, 3) NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE scoring_schemes ADD CONSTRAINT scoring_schemes_exam_category_check
+    CHECK (exam_category IN ('UPSC', 'JEE', 'NEET', 'SSC', 'OTHER'));
+ALTER TABLE scoring_schemes ADD CONSTRAINT scoring_schemes_marks_check
+    CHECK (correct_marks > 0 AND incorrect_marks <= 0);
+
+-- The usual published schemes; UPSC prelims deducts a third of the 2 marks
+INSERT INTO scoring_schemes (exam_category, correct_marks, incorrect_marks) VALUES
+    ('JEE', 4, -1),
+    ('NEET', 4, -1),
+    ('UPSC', 2, -0.667),
+    ('SSC', 2, -0.5),
+    ('OTHER', 1, 0)
+ON CONFLICT (exam_category) DO NOTHING;
+
+ALTER TABLE scoring_schemes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "SUPERADMIN can manage scoring schemes" ON scoring_schemes
+    USING (
+        (SELECT role FROM users WHERE id = auth.uid()) = 'SUPERADMIN'
+    );
+
+CREATE POLICY "All roles can view scoring schemes" ON scoring_schemes
+    FOR SELECT USING (
+        (SELECT role FROM users WHERE id = auth.uid()) IN ('QAUTHOR', 'STUDENT', 'SUPERADMIN')
+    );
+
+ALTER TABLE subjects ADD COLUMN IF NOT EXISTS correct_marks NUMERIC(6, 3);
+ALTER TABLE subjects ADD COLUMN IF NOT EXISTS incorrect_marks NUMERIC(6, 3);
+ALTER TABLE subjects ADD CONSTRAINT subjects_scoring_check
+    CHECK (
+        (correct_marks IS NULL AND incorrect_marks IS NULL)
+        OR (correct_marks > 0 AND incorrect_marks <= 0)
+    );
+
+ALTER TABLE daily_question_sets ADD COLUMN IF NOT EXISTS marks NUMERIC(8, 3);
+ALTER TABLE daily_question_sets ADD COLUMN IF NOT EXISTS max_marks NUMERIC(8, 3);
+
+COMMENT ON TABLE scoring_schemes IS 'Marks per correct and incorrect answer for each exam category';
+COMMENT ON COLUMN subjects.correct_marks IS 'Overrides the exam category scheme for the subject''s questions when set';
+COMMENT ON COLUMN subjects.incorrect_marks IS 'Marks for a wrong answer (zero or negative), set together with correct_marks';
+COMMENT ON COLUMN daily_question_sets.marks IS 'Scheme-based marks at finalization; NULL for sets finalized before migration 18';
+COMMENT ON COLUMN daily_question_sets.max_marks IS 'Marks for answering every question of the set correctly';
+
+COMMIT;
+
+-- Verify the new table and columns
+SELECT * FROM scoring_schemes ORDER BY exam_category;
+
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'subjects' AND column_name IN ('correct_marks', 'incorrect_marks'))
+OR (table_name = 'daily_question_sets' AND column_name IN ('marks', 'max_marks'));
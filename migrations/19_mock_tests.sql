@@ -0,0 +1,114 @@
+-- Migration 19: Timed mock tests
+-- mock_tests are templates defined by QAUTHORs and SUPERADMINs: a duration, a
+-- scoring scheme and sections, each drawing questionCount published questions of
+-- a subject (optionally of one difficulty):
+--   [{ "name": "Physics", "subjectId": "...", "difficulty": "HARD", "questionCount": 25 }]
+-- correct_marks/incorrect_marks override the exam category's scoring scheme when set.
+--
+-- A mock_test_attempts row is one student's sitting. Questions are drawn when the
+-- attempt starts (question_sections gives each slot's section index) and the scheme
+-- is copied onto the attempt, so later template edits do not change it.
+-- responses holds autosaved answers keyed by question ID:
+--   { "<questionId>": { "selectedOption": "B", "markedForReview": true,
+--                       "timeSpentSeconds": 42, "visitedAt": "...", "savedAt": "..." } }
+-- selectedOption is the displayed position (see option_orders), null when cleared.
+-- The server rejects saves after deadline_at and grades the attempt once it passes.
+-- Students can only read their attempts: the server starts, autosaves and grades
+-- them with the service role, so the clock, questions, scheme and marks cannot be
+-- changed from the client.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS mock_tests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    title TEXT NOT NULL,
+    description TEXT,
+    exam_category TEXT NOT NULL DEFAULT 'OTHER',
+    duration_minutes INTEGER NOT NULL,
+    sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+    correct_marks NUMERIC(6, 3),
+    incorrect_marks NUMERIC(6, 3),
+    is_published BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE mock_tests ADD CONSTRAINT mock_tests_exam_category_check
+    CHECK (exam_category IN ('UPSC', 'JEE', 'NEET', 'SSC', 'OTHER'));
+ALTER TABLE mock_tests ADD CONSTRAINT mock_tests_duration_check
+    CHECK (duration_minutes BETWEEN 5 AND 360);
+ALTER TABLE mock_tests ADD CONSTRAINT mock_tests_scoring_check
+    CHECK (
+        (correct_marks IS NULL AND incorrect_marks IS NULL)
+        OR (correct_marks > 0 AND incorrect_marks <= 0)
+    );
+
+CREATE INDEX IF NOT EXISTS idx_mock_tests_published ON mock_tests(is_published);
+
+CREATE TABLE IF NOT EXISTS mock_test_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    mock_test_id UUID NOT NULL REFERENCES mock_tests(id) ON DELETE CASCADE,
+    studentid UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'in_progress',
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    deadline_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    auto_submitted BOOLEAN NOT NULL DEFAULT FALSE,
+    sections JSONB NOT NULL,
+    questions UUID[] NOT NULL,
+    question_sections INTEGER[] NOT NULL,
+    option_orders TEXT[] NOT NULL,
+    responses JSONB NOT NULL DEFAULT '{}'::jsonb,
+    correct_marks NUMERIC(6, 3) NOT NULL,
+    incorrect_marks NUMERIC(6, 3) NOT NULL,
+    score NUMERIC(8, 3),
+    marks NUMERIC(8, 3),
+    max_marks NUMERIC(8, 3),
+    section_results JSONB
+);
+
+ALTER TABLE mock_test_attempts ADD CONSTRAINT mock_test_attempts_status_check
+    CHECK (status IN ('in_progress', 'submitted'));
+
+-- One sitting of a test in progress per student
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mock_test_attempts_in_progress
+ON mock_test_attempts (mock_test_id, studentid) WHERE status = 'in_progress';
+
+CREATE INDEX IF NOT EXISTS idx_mock_test_attempts_student ON mock_test_attempts(studentid, started_at DESC);
+
+ALTER TABLE mock_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mock_test_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors can manage mock tests" ON mock_tests
+    USING (
+        (SELECT role FROM users WHERE id = auth.uid()) IN ('QAUTHOR', 'SUPERADMIN')
+    );
+
+CREATE POLICY "Students can view published mock tests" ON mock_tests
+    FOR SELECT USING (
+        is_published AND (SELECT role FROM users WHERE id = auth.uid()) = 'STUDENT'
+    );
+
+CREATE POLICY "Students can view their own mock test attempts" ON mock_test_attempts
+    FOR SELECT USING (studentid = auth.uid());
+
+CREATE POLICY "Authors can view mock test attempts" ON mock_test_attempts
+    FOR SELECT USING (
+        (SELECT role FROM users WHERE id = auth.uid()) IN ('QAUTHOR', 'SUPERADMIN')
+    );
+
+COMMENT ON TABLE mock_tests IS 'Timed mock test templates with sections drawn per subject and difficulty';
+COMMENT ON COLUMN mock_tests.sections IS 'Sections: [{name, subjectId, difficulty, questionCount}]';
+COMMENT ON TABLE mock_test_attempts IS 'A student''s timed sitting of a mock test';
+COMMENT ON COLUMN mock_test_attempts.question_sections IS 'Section index of each slot, same order as questions';
+COMMENT ON COLUMN mock_test_attempts.responses IS 'Autosaved answers keyed by question ID (displayed option, review mark, time spent)';
+COMMENT ON COLUMN mock_test_attempts.section_results IS 'Per-section correct, incorrect, unanswered, marks and time at submission';
+
+COMMIT;
+
+-- Verify the new tables
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('mock_tests', 'mock_test_attempts')
+ORDER BY table_name, ordinal_position;
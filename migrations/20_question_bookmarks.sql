@@ -0,0 +1,43 @@
+-- Migration 20: Question bookmarks and personal notes
+-- A student can bookmark any question they have seen (in practice, a daily set,
+-- review or a mock test) and keep a private Markdown note on it. A note belongs
+-- to its bookmark, so removing the bookmark removes the note.
+-- A bookmark lets a student revise a question they answered, so students can
+-- only read and remove theirs; the API checks the question was seen and writes
+-- bookmarks and notes with the service role.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS question_bookmarks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(student_id, question_id)
+);
+
+ALTER TABLE question_bookmarks ADD CONSTRAINT question_bookmarks_note_length_check
+    CHECK (note IS NULL OR char_length(note) <= 5000);
+
+CREATE INDEX IF NOT EXISTS idx_question_bookmarks_student ON question_bookmarks(student_id, created_at DESC);
+
+ALTER TABLE question_bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their own bookmarks" ON question_bookmarks
+    FOR SELECT USING (student_id = auth.uid());
+
+CREATE POLICY "Students can remove their own bookmarks" ON question_bookmarks
+    FOR DELETE USING (student_id = auth.uid());
+
+COMMENT ON TABLE question_bookmarks IS 'Questions bookmarked by students, with optional private notes';
+COMMENT ON COLUMN question_bookmarks.note IS 'Private Markdown note, at most 5000 characters';
+
+COMMIT;
+
+-- Verify the new table
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'question_bookmarks'
+ORDER BY ordinal_position;
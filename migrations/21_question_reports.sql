@@ -0,0 +1,167 @@
+-- Migration 21: Student-reported question issues
+-- Students report problems with a question they have seen (wrong answer key,
+-- ambiguous wording, typo, out of syllabus). Reports land in the question author's
+-- inbox and move open -> acknowledged -> resolved | dismissed.
+-- questions.open_report_count counts open and acknowledged reports and is kept up
+-- to date by a trigger, so daily-set selection can skip questions with several
+-- unresolved reports without reading other students' reports.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS question_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    reporter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    category TEXT NOT NULL,
+    details TEXT,
+    status TEXT NOT NULL DEFAULT 'open',
+    resolution_note TEXT,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE question_reports ADD CONSTRAINT question_reports_category_check
+    CHECK (category IN ('wrong_answer', 'ambiguous', 'typo', 'out_of_syllabus'));
+ALTER TABLE question_reports ADD CONSTRAINT question_reports_status_check
+    CHECK (status IN ('open', 'acknowledged', 'resolved', 'dismissed'));
+ALTER TABLE question_reports ADD CONSTRAINT question_reports_details_length_check
+    CHECK (details IS NULL OR char_length(details) <= 1000);
+
+-- A student has at most one unresolved report per question
+CREATE UNIQUE INDEX IF NOT EXISTS idx_question_reports_one_open
+    ON question_reports(question_id, reporter_id)
+    WHERE status IN ('open', 'acknowledged');
+
+CREATE INDEX IF NOT EXISTS idx_question_reports_question ON question_reports(question_id, status);
+CREATE INDEX IF NOT EXISTS idx_question_reports_status ON question_reports(status, created_at DESC);
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS open_report_count INTEGER NOT NULL DEFAULT 0;
+
+-- Recount a question's unresolved reports whenever its reports change. Runs as the
+-- table owner because students filing reports cannot update questions, so the
+-- search path is pinned and nobody can call it directly.
+CREATE OR REPLACE FUNCTION refresh_question_open_report_count()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+DECLARE
+    target_question UUID := COALESCE(NEW.question_id, OLD.question_id);
+BEGIN
+    UPDATE questions
+    SET open_report_count = (
+        SELECT COUNT(*)
+        FROM question_reports
+        WHERE question_id = target_question
+          AND status IN ('open', 'acknowledged')
+    )
+    WHERE id = target_question;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_question_open_report_count() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS trigger_refresh_question_open_report_count ON question_reports;
+CREATE TRIGGER trigger_refresh_question_open_report_count
+    AFTER INSERT OR UPDATE OF status OR DELETE ON question_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION refresh_question_open_report_count();
+
+-- Triage changes a report's status and resolution only; which question was reported,
+-- by whom and what they wrote stay as filed. Enforced for requests made as a
+-- signed-in user, like the question review workflow (migration 13).
+CREATE OR REPLACE FUNCTION enforce_question_report_triage()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('authenticated', 'anon') THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.question_id IS DISTINCT FROM OLD.question_id
+        OR NEW.reporter_id IS DISTINCT FROM OLD.reporter_id
+        OR NEW.category IS DISTINCT FROM OLD.category
+        OR NEW.details IS DISTINCT FROM OLD.details
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Only the status and resolution of a report can be changed'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_question_report_triage ON question_reports;
+CREATE TRIGGER trigger_enforce_question_report_triage
+    BEFORE UPDATE ON question_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_question_report_triage();
+
+ALTER TABLE question_reports ENABLE ROW LEVEL SECURITY;
+
+-- A student can report a published question or one they were served: attempted,
+-- or drawn into one of their mock test sittings. Both are written by the server,
+-- so a student cannot make a question look seen. New reports are open.
+CREATE POLICY "Students can file reports" ON question_reports
+    FOR INSERT WITH CHECK (
+        reporter_id = auth.uid()
+        AND status = 'open'
+        AND resolved_by IS NULL
+        AND resolved_at IS NULL
+        AND resolution_note IS NULL
+        AND (SELECT role FROM users WHERE id = auth.uid()) = 'STUDENT'
+        AND (
+            EXISTS (
+                SELECT 1 FROM questions
+                WHERE questions.id = question_reports.question_id AND questions.status = 'published'
+            )
+            OR EXISTS (
+                SELECT 1 FROM student_attempts
+                WHERE student_attempts.studentid = auth.uid()
+                  AND student_attempts.questionid = question_reports.question_id
+            )
+            OR EXISTS (
+                SELECT 1 FROM mock_test_attempts
+                WHERE mock_test_attempts.studentid = auth.uid()
+                  AND question_reports.question_id = ANY (mock_test_attempts.questions)
+            )
+        )
+    );
+
+CREATE POLICY "Students can view their own reports" ON question_reports
+    FOR SELECT USING (reporter_id = auth.uid());
+
+CREATE POLICY "QAUTHORs can view reports on their questions" ON question_reports
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM questions WHERE questions.id = question_id AND questions.created_by = auth.uid())
+    );
+
+CREATE POLICY "QAUTHORs can triage reports on their questions" ON question_reports
+    FOR UPDATE USING (
+        EXISTS (SELECT 1 FROM questions WHERE questions.id = question_id AND questions.created_by = auth.uid())
+    )
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM questions WHERE questions.id = question_id AND questions.created_by = auth.uid())
+    );
+
+CREATE POLICY "SUPERADMIN can manage question reports" ON question_reports
+    USING (
+        (SELECT role FROM users WHERE id = auth.uid()) = 'SUPERADMIN'
+    );
+
+COMMENT ON TABLE question_reports IS 'Issues reported by students on questions, triaged by the question author';
+COMMENT ON COLUMN question_reports.status IS 'open, acknowledged, resolved or dismissed';
+COMMENT ON COLUMN questions.open_report_count IS 'Open and acknowledged reports, maintained by trigger_refresh_question_open_report_count';
+
+COMMIT;
+
+-- Verify the new table and column
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name = 'question_reports';
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'questions' AND column_name = 'open_report_count';
@@ -0,0 +1,123 @@
+-- Migration 22: Keep question_stats up to date
+-- Migration 03's trigger only counted new attempts, and ran as the student, whom
+-- RLS does not allow to write question_stats. It is replaced by statement-level
+-- triggers that recompute the stats of every question a write to student_attempts
+-- touched, in the same transaction as the write. This covers single answers from
+-- submit-answer, the batch upsert of a daily set or mock test, regrades after a
+-- question edit and deleted attempts.
+-- option_counts counts how often each option letter was picked; each letter of a
+-- multiple-correct response counts once. Only choice questions (single,
+-- multiple, assertion_reason) have option counts.
+
+BEGIN;
+
+ALTER TABLE question_stats ADD COLUMN IF NOT EXISTS option_counts JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+DROP TRIGGER IF EXISTS trigger_update_question_stats ON student_attempts;
+DROP FUNCTION IF EXISTS update_question_stats();
+
+-- Recompute one question's stats from its attempts. Runs as the table owner so
+-- students' attempts can update the stats; like the trigger function below, its
+-- search path is pinned and only the triggers and the owner may call it.
+CREATE OR REPLACE FUNCTION refresh_question_stats(target_question UUID)
+RETURNS VOID
+SET search_path = public
+AS $$
+DECLARE
+    is_choice BOOLEAN;
+BEGIN
+    SELECT COALESCE(question_type, 'single') IN ('single', 'multiple', 'assertion_reason')
+    INTO is_choice
+    FROM questions
+    WHERE id = target_question;
+
+    -- Deleted question; its stats went with it
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO question_stats (question_id, total_attempts, unique_students, correct_attempts, option_counts, last_updated)
+    SELECT
+        target_question,
+        COUNT(*),
+        COUNT(DISTINCT studentid),
+        COUNT(*) FILTER (WHERE iscorrect),
+        CASE WHEN is_choice THEN COALESCE((
+            SELECT jsonb_object_agg(letter, picks)
+            FROM (
+                SELECT split.letter, COUNT(*) AS picks
+                FROM student_attempts picked
+                CROSS JOIN LATERAL regexp_split_to_table(picked.selectedoption, '') AS split(letter)
+                WHERE picked.questionid = target_question
+                  AND split.letter IN ('A', 'B', 'C', 'D')
+                GROUP BY split.letter
+            ) picks_by_letter
+        ), '{}'::jsonb) ELSE '{}'::jsonb END,
+        NOW()
+    FROM student_attempts
+    WHERE questionid = target_question
+    ON CONFLICT (question_id) DO UPDATE SET
+        total_attempts = EXCLUDED.total_attempts,
+        unique_students = EXCLUDED.unique_students,
+        correct_attempts = EXCLUDED.correct_attempts,
+        option_counts = EXCLUDED.option_counts,
+        last_updated = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refresh each question touched by the statement once, however many rows it wrote
+CREATE OR REPLACE FUNCTION refresh_question_stats_for_attempts()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_question_stats(changed.questionid)
+        FROM (SELECT DISTINCT questionid FROM old_attempts) changed;
+    ELSE
+        PERFORM refresh_question_stats(changed.questionid)
+        FROM (SELECT DISTINCT questionid FROM new_attempts) changed;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_question_stats(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_question_stats_for_attempts() FROM PUBLIC, anon, authenticated;
+
+-- Transition tables allow one event per trigger; an upsert fires both the INSERT
+-- and the UPDATE trigger
+DROP TRIGGER IF EXISTS trigger_question_stats_insert ON student_attempts;
+CREATE TRIGGER trigger_question_stats_insert
+    AFTER INSERT ON student_attempts
+    REFERENCING NEW TABLE AS new_attempts
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_question_stats_for_attempts();
+
+DROP TRIGGER IF EXISTS trigger_question_stats_update ON student_attempts;
+CREATE TRIGGER trigger_question_stats_update
+    AFTER UPDATE ON student_attempts
+    REFERENCING NEW TABLE AS new_attempts
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_question_stats_for_attempts();
+
+DROP TRIGGER IF EXISTS trigger_question_stats_delete ON student_attempts;
+CREATE TRIGGER trigger_question_stats_delete
+    AFTER DELETE ON student_attempts
+    REFERENCING OLD TABLE AS old_attempts
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_question_stats_for_attempts();
+
+-- Backfill every attempted question
+SELECT refresh_question_stats(questionid)
+FROM (SELECT DISTINCT questionid FROM student_attempts) attempted;
+
+COMMENT ON COLUMN question_stats.option_counts IS 'Picks per option letter, e.g. {"A": 12, "C": 3}; empty for numeric and match questions';
+
+COMMIT;
+
+-- Verify the stats match the attempts
+SELECT
+    (SELECT COALESCE(SUM(total_attempts), 0) FROM question_stats) AS counted_attempts,
+    (SELECT COUNT(*) FROM student_attempts) AS recorded_attempts;
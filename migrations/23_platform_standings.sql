@@ -0,0 +1,215 @@
+-- Migration 23: Platform comparison, percentile ranks and an opt-in leaderboard
+-- Students' accuracy per subject and per exam category is ranked against every
+-- other student. Ranking reads all of student_attempts, so the results are cached
+-- in student_standings and platform_standings and recomputed by
+-- refresh_platform_standings once they are an hour old: through pg_cron where the
+-- extension is installed, and otherwise by the API (with the service role) when it finds them
+-- stale. Only cron and the service role may run the refresh.
+-- Students appear on leaderboards only after opting in, and only under the alias
+-- the server generated for them.
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS leaderboard_opt_in BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS leaderboard_alias TEXT;
+
+COMMENT ON COLUMN users.leaderboard_opt_in IS 'Whether the student is listed on leaderboards';
+COMMENT ON COLUMN users.leaderboard_alias IS 'Anonymous name shown on leaderboards, generated on first opt-in';
+
+-- Students may update their own users row, so the alias is protected here for
+-- requests made as a signed-in user; the API sets it with the service role.
+-- Runs as the caller, so current_user is the request's role.
+CREATE OR REPLACE FUNCTION protect_leaderboard_alias()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('authenticated', 'anon')
+        AND NEW.leaderboard_alias IS DISTINCT FROM
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.leaderboard_alias END THEN
+        RAISE EXCEPTION 'Leaderboard aliases are assigned by the server'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_leaderboard_alias ON users;
+CREATE TRIGGER trigger_protect_leaderboard_alias
+    BEFORE INSERT OR UPDATE ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_leaderboard_alias();
+
+-- One row per student and scope: a subject (scope_key is the subject ID) or an
+-- exam category (scope_key is the category)
+CREATE TABLE IF NOT EXISTS student_standings (
+    scope TEXT NOT NULL CHECK (scope IN ('subject', 'exam_category')),
+    scope_key TEXT NOT NULL,
+    student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    attempts INTEGER NOT NULL,
+    correct_attempts INTEGER NOT NULL,
+    accuracy NUMERIC(5, 2) NOT NULL,
+    -- NULL while the student has fewer than the minimum attempts to be ranked
+    percentile NUMERIC(5, 2),
+    rank INTEGER,
+    PRIMARY KEY (scope, scope_key, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_standings_student ON student_standings(student_id);
+
+CREATE TABLE IF NOT EXISTS platform_standings (
+    scope TEXT NOT NULL CHECK (scope IN ('subject', 'exam_category')),
+    scope_key TEXT NOT NULL,
+    students INTEGER NOT NULL,
+    ranked_students INTEGER NOT NULL,
+    attempts INTEGER NOT NULL,
+    -- Mean of the students' accuracies, so heavy users do not dominate it
+    average_accuracy NUMERIC(5, 2) NOT NULL,
+    computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (scope, scope_key)
+);
+
+ALTER TABLE student_standings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE platform_standings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view their own standings" ON student_standings;
+CREATE POLICY "Students can view their own standings" ON student_standings
+    FOR SELECT USING (student_id = auth.uid());
+
+DROP POLICY IF EXISTS "SUPERADMINs can view all standings" ON student_standings;
+CREATE POLICY "SUPERADMINs can view all standings" ON student_standings
+    FOR SELECT USING ((SELECT role FROM users WHERE id = auth.uid()) = 'SUPERADMIN');
+
+DROP POLICY IF EXISTS "Authenticated users can view platform standings" ON platform_standings;
+CREATE POLICY "Authenticated users can view platform standings" ON platform_standings
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Recompute every standing unless the cache is newer than max_age_minutes.
+-- Returns whether it recomputed; concurrent callers skip while one refresh runs.
+-- Keep min_attempts in step with MIN_ATTEMPTS_FOR_RANKING in src/lib/standings.ts.
+DROP FUNCTION IF EXISTS refresh_platform_standings(INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION refresh_platform_standings()
+RETURNS BOOLEAN
+SET search_path = public
+AS $$
+DECLARE
+    min_attempts CONSTANT INTEGER := 10;
+    max_age_minutes CONSTANT INTEGER := 60;
+BEGIN
+    IF NOT pg_try_advisory_xact_lock(hashtext('refresh_platform_standings')) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM platform_standings
+        WHERE computed_at > NOW() - make_interval(mins => max_age_minutes)
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    DELETE FROM student_standings;
+    DELETE FROM platform_standings;
+
+    WITH scoped AS (
+        SELECT 'subject' AS scope, a.subject_id::TEXT AS scope_key, a.studentid, a.iscorrect
+        FROM student_attempts a
+        JOIN users u ON u.id = a.studentid AND u.role = 'STUDENT'
+        WHERE a.subject_id IS NOT NULL
+        UNION ALL
+        SELECT 'exam_category', q.exam_category, a.studentid, a.iscorrect
+        FROM student_attempts a
+        JOIN users u ON u.id = a.studentid AND u.role = 'STUDENT'
+        JOIN questions q ON q.id = a.questionid
+        WHERE q.exam_category IS NOT NULL
+    ),
+    totals AS (
+        SELECT scope, scope_key, studentid,
+            COUNT(*) AS attempts,
+            COUNT(*) FILTER (WHERE iscorrect) AS correct_attempts,
+            ROUND(100.0 * COUNT(*) FILTER (WHERE iscorrect) / COUNT(*), 2) AS accuracy
+        FROM scoped
+        GROUP BY scope, scope_key, studentid
+    ),
+    ranked AS (
+        SELECT scope, scope_key, studentid,
+            ROUND((100 * PERCENT_RANK() OVER w)::NUMERIC, 2) AS percentile,
+            RANK() OVER (PARTITION BY scope, scope_key ORDER BY accuracy DESC) AS rank
+        FROM totals
+        WHERE attempts >= min_attempts
+        WINDOW w AS (PARTITION BY scope, scope_key ORDER BY accuracy)
+    )
+    INSERT INTO student_standings (scope, scope_key, student_id, attempts, correct_attempts, accuracy, percentile, rank)
+    SELECT t.scope, t.scope_key, t.studentid, t.attempts, t.correct_attempts, t.accuracy, r.percentile, r.rank
+    FROM totals t
+    LEFT JOIN ranked r USING (scope, scope_key, studentid);
+
+    INSERT INTO platform_standings (scope, scope_key, students, ranked_students, attempts, average_accuracy, computed_at)
+    SELECT scope, scope_key,
+        COUNT(*),
+        COUNT(rank),
+        SUM(attempts),
+        ROUND(AVG(accuracy), 2),
+        NOW()
+    FROM student_standings
+    GROUP BY scope, scope_key;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_platform_standings() FROM PUBLIC, anon, authenticated;
+
+-- Ranked, opted-in students of one scope, best first. Only aliases leave the
+-- function; is_self marks the caller's own row.
+CREATE OR REPLACE FUNCTION get_leaderboard(target_scope TEXT, target_key TEXT, max_entries INTEGER)
+RETURNS TABLE (
+    board_position BIGINT,
+    alias TEXT,
+    accuracy NUMERIC,
+    attempts INTEGER,
+    percentile NUMERIC,
+    is_self BOOLEAN
+)
+SET search_path = public
+AS $$
+    SELECT
+        ROW_NUMBER() OVER (ORDER BY s.accuracy DESC, s.attempts DESC, s.student_id),
+        u.leaderboard_alias,
+        s.accuracy,
+        s.attempts,
+        s.percentile,
+        s.student_id = auth.uid()
+    FROM student_standings s
+    JOIN users u ON u.id = s.student_id
+    WHERE s.scope = target_scope
+      AND s.scope_key = target_key
+      AND s.rank IS NOT NULL
+      AND u.leaderboard_opt_in
+      AND u.leaderboard_alias IS NOT NULL
+    ORDER BY s.accuracy DESC, s.attempts DESC, s.student_id
+    LIMIT LEAST(GREATEST(max_entries, 1), 100);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_leaderboard(TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_leaderboard(TEXT, TEXT, INTEGER) TO authenticated;
+
+COMMIT;
+
+-- Where pg_cron is available it checks every 10 minutes, so the cache is refreshed
+-- soon after it turns an hour old; the app refreshes stale standings otherwise.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        EXECUTE $cron$
+            SELECT cron.schedule('refresh-platform-standings', '*/10 * * * *',
+                'SELECT refresh_platform_standings()')
+        $cron$;
+    END IF;
+END $$;
+
+-- Initial standings; the cache is empty, so this always recomputes
+SELECT refresh_platform_standings();
+
+-- Verify the cache was filled
+SELECT scope, COUNT(*) AS scopes, SUM(students) AS student_rows
+FROM platform_standings
+GROUP BY scope;
@@ -0,0 +1,35 @@
+-- Migration 24: Student attempts are written by the server only
+-- iscorrect, score and the other graded columns of student_attempts are computed
+-- by the API, so students must not be able to insert or change attempts through
+-- PostgREST. The baseline schemas created different student write policies
+-- (INSERT/UPDATE in migration 04, FOR ALL in the clean migration); every one of
+-- them is dropped here and students keep read access to their own rows. The API
+-- records attempts with the service role client after grading them.
+
+BEGIN;
+
+DO $$
+DECLARE
+    policy_name TEXT;
+BEGIN
+    FOR policy_name IN
+        SELECT policyname FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'student_attempts'
+          AND cmd IN ('INSERT', 'UPDATE', 'DELETE', 'ALL')
+    LOOP
+        EXECUTE format('DROP POLICY %I ON student_attempts', policy_name);
+    END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Students can view their own attempts" ON student_attempts;
+CREATE POLICY "Students can view their own attempts" ON student_attempts
+    FOR SELECT USING (studentid = auth.uid());
+
+COMMIT;
+
+-- Verify only read policies remain
+SELECT policyname, cmd
+FROM pg_policies
+WHERE tablename = 'student_attempts'
+ORDER BY policyname;
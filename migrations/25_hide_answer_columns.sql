@@ -0,0 +1,36 @@
+-- Migration 25: Answer keys are not readable by signed-in users
+-- The baseline "Everyone can view questions" policy lets any signed-in user read
+-- every questions row, including correct_option and explanation (and the legacy
+-- correct_answer column of older schemas). Row policies cannot hide columns, so
+-- SELECT on the table is replaced with SELECT on every other column. The API
+-- reads answer keys with the service role client: for students only when grading
+-- or revealing an answered published question, and for QAUTHORs and SUPERADMINs
+-- after their role has been checked.
+-- Columns added to questions later must be granted to anon and authenticated too.
+
+BEGIN;
+
+REVOKE SELECT ON questions FROM anon, authenticated;
+
+DO $$
+DECLARE
+    readable_columns TEXT;
+BEGIN
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+    INTO readable_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'questions'
+      AND column_name NOT IN ('correct_option', 'correct_answer', 'explanation');
+
+    EXECUTE format('GRANT SELECT (%s) ON questions TO anon, authenticated', readable_columns);
+END $$;
+
+COMMIT;
+
+-- Verify the answer columns are no longer readable
+SELECT column_name,
+    has_column_privilege('authenticated', 'questions', column_name, 'SELECT') AS authenticated_can_read
+FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'questions'
+ORDER BY ordinal_position;
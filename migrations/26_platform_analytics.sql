@@ -0,0 +1,140 @@
+-- Migration 26: Platform analytics aggregated in the database
+-- The SUPERADMIN analytics page summarises every attempt, session, question and
+-- report in a date range. Reading those rows into the API does not scale, so
+-- get_platform_analytics returns the per-day, per-subject and per-author counts
+-- instead; percentages and averages are derived from them in
+-- src/lib/platform-analytics.ts.
+-- Days are calendar days in time_zone and both ends of the range are inclusive.
+-- The function runs as the table owner to avoid per-row RLS checks, so it checks
+-- the caller's role itself.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION get_platform_analytics(range_from DATE, range_to DATE, time_zone TEXT)
+RETURNS JSONB
+SET search_path = public
+AS $$
+DECLARE
+    range_start TIMESTAMPTZ := range_from::TIMESTAMP AT TIME ZONE time_zone;
+    range_end TIMESTAMPTZ := (range_to + 1)::TIMESTAMP AT TIME ZONE time_zone;
+    result JSONB;
+BEGIN
+    IF (SELECT role FROM users WHERE id = auth.uid()) IS DISTINCT FROM 'SUPERADMIN' THEN
+        RAISE EXCEPTION 'Only SUPERADMINs can read platform analytics'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    WITH attempts AS (
+        SELECT studentid, questionid, iscorrect, subject_id,
+            (attemptedat AT TIME ZONE time_zone)::DATE AS day
+        FROM student_attempts
+        WHERE attemptedat >= range_start AND attemptedat < range_end
+    ),
+    sessions AS (
+        SELECT s.user_id, s.date AS day, COALESCE(s.total_duration_seconds, 0) AS seconds
+        FROM user_sessions s
+        JOIN users u ON u.id = s.user_id AND u.role = 'STUDENT'
+        WHERE s.date BETWEEN range_from AND range_to
+    ),
+    -- Students who logged in or attempted a question, once per day
+    active AS (
+        SELECT day, studentid AS student_id FROM attempts
+        UNION
+        SELECT day, user_id FROM sessions
+    ),
+    daily AS (
+        SELECT days.day,
+            COALESCE(active_by_day.students, 0) AS active_students,
+            COALESCE(registrations_by_day.registrations, 0) AS new_registrations,
+            COALESCE(attempts_by_day.attempts, 0) AS attempts,
+            COALESCE(attempts_by_day.correct_attempts, 0) AS correct_attempts,
+            COALESCE(sessions_by_day.sessions, 0) AS sessions,
+            COALESCE(sessions_by_day.timed_sessions, 0) AS timed_sessions,
+            COALESCE(sessions_by_day.session_seconds, 0) AS session_seconds
+        FROM (SELECT generate_series(range_from, range_to, INTERVAL '1 day')::DATE AS day) days
+        LEFT JOIN (
+            SELECT day, COUNT(*) AS students FROM active GROUP BY day
+        ) active_by_day USING (day)
+        LEFT JOIN (
+            SELECT (created_at AT TIME ZONE time_zone)::DATE AS day, COUNT(*) AS registrations
+            FROM users
+            WHERE role = 'STUDENT' AND created_at >= range_start AND created_at < range_end
+            GROUP BY 1
+        ) registrations_by_day USING (day)
+        LEFT JOIN (
+            SELECT day, COUNT(*) AS attempts, COUNT(*) FILTER (WHERE iscorrect) AS correct_attempts
+            FROM attempts
+            GROUP BY day
+        ) attempts_by_day USING (day)
+        LEFT JOIN (
+            SELECT day,
+                COUNT(*) AS sessions,
+                COUNT(*) FILTER (WHERE seconds > 0) AS timed_sessions,
+                SUM(seconds) AS session_seconds
+            FROM sessions
+            GROUP BY day
+        ) sessions_by_day USING (day)
+    ),
+    subjects_summary AS (
+        SELECT s.id AS subject_id, s.name,
+            COUNT(a.subject_id) AS attempts,
+            COUNT(a.subject_id) FILTER (WHERE a.iscorrect) AS correct_attempts
+        FROM subjects s
+        LEFT JOIN attempts a ON a.subject_id = s.id
+        GROUP BY s.id, s.name
+    ),
+    authors_summary AS (
+        SELECT q.author_id, u.email,
+            q.questions_authored,
+            q.total_questions,
+            COALESCE(a.attempts, 0) AS attempts,
+            COALESCE(a.correct_attempts, 0) AS correct_attempts,
+            COALESCE(r.reports, 0) AS reports_received,
+            q.unresolved_reports
+        FROM (
+            SELECT created_by AS author_id,
+                COUNT(*) FILTER (WHERE created_at >= range_start AND created_at < range_end) AS questions_authored,
+                COUNT(*) AS total_questions,
+                COALESCE(SUM(open_report_count), 0) AS unresolved_reports
+            FROM questions
+            WHERE created_by IS NOT NULL
+            GROUP BY created_by
+        ) q
+        LEFT JOIN users u ON u.id = q.author_id
+        LEFT JOIN (
+            SELECT questions.created_by AS author_id,
+                COUNT(*) AS attempts,
+                COUNT(*) FILTER (WHERE attempts.iscorrect) AS correct_attempts
+            FROM attempts
+            JOIN questions ON questions.id = attempts.questionid
+            GROUP BY questions.created_by
+        ) a USING (author_id)
+        LEFT JOIN (
+            SELECT questions.created_by AS author_id, COUNT(*) AS reports
+            FROM question_reports
+            JOIN questions ON questions.id = question_reports.question_id
+            WHERE question_reports.created_at >= range_start AND question_reports.created_at < range_end
+            GROUP BY questions.created_by
+        ) r USING (author_id)
+    )
+    SELECT jsonb_build_object(
+        'daily', (SELECT COALESCE(jsonb_agg(to_jsonb(daily) ORDER BY day), '[]'::jsonb) FROM daily),
+        'subjects', (SELECT COALESCE(jsonb_agg(to_jsonb(subjects_summary) ORDER BY name), '[]'::jsonb) FROM subjects_summary),
+        'authors', (SELECT COALESCE(jsonb_agg(to_jsonb(authors_summary)), '[]'::jsonb) FROM authors_summary),
+        'active_students', (SELECT COUNT(DISTINCT student_id) FROM active)
+    )
+    INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_platform_analytics(DATE, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_platform_analytics(DATE, DATE, TEXT) TO authenticated;
+
+COMMIT;
+
+-- Verify the function exists and who may call it
+SELECT p.proname, has_function_privilege('authenticated', p.oid, 'EXECUTE') AS authenticated_can_execute
+FROM pg_proc p
+WHERE p.proname = 'get_platform_analytics';
@@ -0,0 +1,31 @@
+-- Migration 27: Daily question sets are written by the server only
+-- A set's questions, saved answers and scores decide which answer keys a student
+-- may see and which attempts are recorded for them, so students must not be able
+-- to create or change sets through PostgREST. Migrations 01 and 02 gave students
+-- UPDATE and INSERT policies; every student write policy is dropped here and
+-- students keep read access to their own sets. The API creates, autosaves and
+-- finalizes sets with the service role client.
+
+BEGIN;
+
+DO $$
+DECLARE
+    policy_name TEXT;
+BEGIN
+    FOR policy_name IN
+        SELECT policyname FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'daily_question_sets'
+          AND cmd IN ('INSERT', 'UPDATE', 'DELETE', 'ALL')
+    LOOP
+        EXECUTE format('DROP POLICY %I ON daily_question_sets', policy_name);
+    END LOOP;
+END $$;
+
+COMMIT;
+
+-- Verify only read policies remain
+SELECT policyname, cmd
+FROM pg_policies
+WHERE tablename = 'daily_question_sets'
+ORDER BY policyname;
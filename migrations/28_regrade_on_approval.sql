@@ -0,0 +1,33 @@
+-- Migration 28: Regrade attempts when a changed answer key is approved
+-- An author's edit to a published question goes back to review (migration 13), so
+-- students keep being graded against the published answer key until a reviewer
+-- approves the change. Regrading as soon as the author saved applied an unreviewed
+-- key to every past attempt; the API now regrades when the edit is approved.
+-- pending_regrades keeps, per question, the grading columns students were graded
+-- against when its answer key first changed since it was last published, and
+-- whether the author asked for attempts to be regraded. Approving the question
+-- regrades from that key, records the count in the latest revision's
+-- regraded_attempts and removes the row.
+-- Forging the previous key would change how daily sets are rescored, so only the
+-- service role reads and writes this table.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS pending_regrades (
+    question_id UUID PRIMARY KEY REFERENCES questions(id) ON DELETE CASCADE,
+    graded_key JSONB NOT NULL,
+    regrade BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE pending_regrades ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE pending_regrades IS 'Answer keys students were graded against while a changed key awaits review';
+
+COMMIT;
+
+-- Verify the table exists and has no policies
+SELECT c.relname, c.relrowsecurity,
+    (SELECT COUNT(*) FROM pg_policies p WHERE p.tablename = c.relname) AS policies
+FROM pg_class c
+WHERE c.relname = 'pending_regrades';
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { UserRole } from '@/types';
+import { QuestionStatus, UserRole } from '@/types';
 import { 
   Layout, 
   Typography, 
@@ -24,12 +24,17 @@ import {
   ReloadOutlined,
   UserOutlined,
   CalendarOutlined,
-  BookOutlined
+  BookOutlined,
+  DownloadOutlined,
+  AuditOutlined
 } from '@ant-design/icons';
 import AspectRatioLayout from '@/components/AspectRatioLayout';
+import QuestionExport from '@/components/Question/QuestionExport';
+import RichContent from '@/components/Question/RichContent';
+import { STATUS_LABELS, STATUS_TAG_COLORS } from '@/components/Question/QuestionReviewHistory';
 
 const { Header, Content } = Layout;
-const { Title, Text, Paragraph } = Typography;
+const { Title, Text } = Typography;
 const { useBreakpoint } = Grid;
 
 interface User {
@@ -52,6 +57,7 @@ interface Question {
   exam_category: string;
   year: number;
   source: string;
+  status?: QuestionStatus;
   created_at: string;
   subjects?: {
     name: string;
@@ -69,6 +75,7 @@ export default function AdminQuestionsPage() {
   const [questions, setQuestions] = useState<Question[]>([]);
   const [selectedQuestion, setSelectedQuestion] = useState<Question | null>(null);
   const [previewVisible, setPreviewVisible] = useState(false);
+  const [exportVisible, setExportVisible] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isMounted, setIsMounted] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
@@ -310,6 +317,15 @@ export default function AdminQuestionsPage() {
         return <Tag color={color}>{difficulty}</Tag>;
       },
     },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 110,
+      render: (status: QuestionStatus = 'published') => (
+        <Tag color={STATUS_TAG_COLORS[status]}>{STATUS_LABELS[status]}</Tag>
+      ),
+    },
     {
       title: 'Created By',
       dataIndex: 'users',
@@ -374,7 +390,21 @@ export default function AdminQuestionsPage() {
             <span className="hidden-mobile">All Questions</span>
             <span className="visible-mobile">Questions</span>
           </Title>
-          <div style={{ marginLeft: 'auto' }}>
+          <Space style={{ marginLeft: 'auto' }}>
+            <Button 
+              icon={<AuditOutlined />}
+              onClick={() => router.push('/admin/review')}
+              size={isMobile ? "middle" : "large"}
+            >
+              <span className="hidden-mobile">Review Queue</span>
+            </Button>
+            <Button 
+              icon={<DownloadOutlined />}
+              onClick={() => setExportVisible(true)}
+              size={isMobile ? "middle" : "large"}
+            >
+              <span className="hidden-mobile">Export</span>
+            </Button>
             <Button 
               icon={<ReloadOutlined />}
               onClick={fetchAllQuestions}
@@ -382,7 +412,7 @@ export default function AdminQuestionsPage() {
             >
               <span className="hidden-mobile">Refresh</span>
             </Button>
-          </div>
+          </Space>
         </Header>
 
         <Content style={{ padding: isMobile ? '16px' : '24px', flex: 1, overflowY: 'auto' }}>
@@ -424,6 +454,13 @@ export default function AdminQuestionsPage() {
             />
           </Card>
 
+          {/* Export Modal */}
+          <QuestionExport
+            open={exportVisible}
+            onClose={() => setExportVisible(false)}
+            endpoint="/api/admin/questions/export"
+          />
+
           {/* Question Preview Modal */}
           <Modal
             title="Question Preview"
@@ -450,34 +487,34 @@ export default function AdminQuestionsPage() {
                 </div>
 
                 <Title level={4}>{selectedQuestion.title}</Title>
-                <Paragraph style={{ fontSize: '16px', marginBottom: 24 }}>
+                <RichContent style={{ fontSize: '16px', marginBottom: 24 }}>
                   {selectedQuestion.content}
-                </Paragraph>
+                </RichContent>
 
                 <div style={{ marginBottom: 24 }}>
                   <Title level={5}>Options:</Title>
                   <div style={{ paddingLeft: 16 }}>
                     <div style={{ marginBottom: 8 }}>
                       <Text strong={selectedQuestion.correct_option === 'A'}>
-                        A. {selectedQuestion.option_a}
+                        A. <RichContent inline>{selectedQuestion.option_a}</RichContent>
                         {selectedQuestion.correct_option === 'A' && <Tag color="green" style={{ marginLeft: 8 }}>Correct</Tag>}
                       </Text>
                     </div>
                     <div style={{ marginBottom: 8 }}>
                       <Text strong={selectedQuestion.correct_option === 'B'}>
-                        B. {selectedQuestion.option_b}
+                        B. <RichContent inline>{selectedQuestion.option_b}</RichContent>
                         {selectedQuestion.correct_option === 'B' && <Tag color="green" style={{ marginLeft: 8 }}>Correct</Tag>}
                       </Text>
                     </div>
                     <div style={{ marginBottom: 8 }}>
                       <Text strong={selectedQuestion.correct_option === 'C'}>
-                        C. {selectedQuestion.option_c}
+                        C. <RichContent inline>{selectedQuestion.option_c}</RichContent>
                         {selectedQuestion.correct_option === 'C' && <Tag color="green" style={{ marginLeft: 8 }}>Correct</Tag>}
                       </Text>
                     </div>
                     <div style={{ marginBottom: 8 }}>
                       <Text strong={selectedQuestion.correct_option === 'D'}>
-                        D. {selectedQuestion.option_d}
+                        D. <RichContent inline>{selectedQuestion.option_d}</RichContent>
                         {selectedQuestion.correct_option === 'D' && <Tag color="green" style={{ marginLeft: 8 }}>Correct</Tag>}
                       </Text>
                     </div>
@@ -486,7 +523,7 @@ export default function AdminQuestionsPage() {
 
                 <div style={{ marginBottom: 16 }}>
                   <Title level={5}>Explanation:</Title>
-                  <Paragraph>{selectedQuestion.explanation}</Paragraph>
+                  <RichContent>{selectedQuestion.explanation}</RichContent>
                 </div>
 
                 <div style={{ borderTop: '1px solid #f0f0f0', paddingTop: 16 }}>
@@ -0,0 +1,444 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { QuestionStatus, QuestionType, QuestionTypeData, UserRole } from '@/types';
+import { usesChoiceOptions } from '@/lib/question-types';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Table,
+  Tag,
+  Space,
+  Modal,
+  Input,
+  Segmented,
+  Badge,
+  message,
+  Spin,
+  Alert,
+  Divider,
+  Grid
+} from 'antd';
+import {
+  ArrowLeftOutlined,
+  ReloadOutlined,
+  UserOutlined,
+  AuditOutlined,
+  CheckOutlined,
+  CloseOutlined,
+  EyeOutlined
+} from '@ant-design/icons';
+import AspectRatioLayout from '@/components/AspectRatioLayout';
+import RichContent from '@/components/Question/RichContent';
+import { QuestionTypeContent, ResponseText } from '@/components/Question/AnswerInput';
+import QuestionReviewHistory, { STATUS_LABELS, STATUS_TAG_COLORS } from '@/components/Question/QuestionReviewHistory';
+
+const { Header, Content } = Layout;
+const { Title, Text } = Typography;
+const { useBreakpoint } = Grid;
+
+interface ReviewQueueQuestion {
+  id: string;
+  title: string;
+  content: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  correct_option: string;
+  question_type: QuestionType | null;
+  type_data: QuestionTypeData | null;
+  numeric_tolerance: number | null;
+  explanation: string;
+  difficulty: string;
+  exam_category: string;
+  year: number | null;
+  source: string | null;
+  status: QuestionStatus;
+  status_updated_at: string | null;
+  created_at: string;
+  subjects?: { name: string } | null;
+  users?: { email: string } | null;
+  latestComment: string | null;
+  commentCount: number;
+}
+
+export default function QuestionReviewQueuePage() {
+  const router = useRouter();
+  const [userRole, setUserRole] = useState<UserRole | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<QuestionStatus>('in_review');
+  const [questions, setQuestions] = useState<ReviewQueueQuestion[]>([]);
+  const [selectedQuestion, setSelectedQuestion] = useState<ReviewQueueQuestion | null>(null);
+  const [decisionComment, setDecisionComment] = useState('');
+  const [deciding, setDeciding] = useState<'approve' | 'reject' | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
+  const screens = useBreakpoint();
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  const fetchQueue = useCallback(async (queueStatus: QuestionStatus) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/questions/review-queue?status=${queueStatus}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch review queue');
+      }
+
+      const data = await response.json();
+      setQuestions(data.questions || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reviewers are SUPERADMINs and QAUTHORs
+  useEffect(() => {
+    if (!isMounted) return;
+
+    const checkAuth = async () => {
+      try {
+        const response = await fetch('/api/auth/me', {
+          method: 'GET',
+          credentials: 'include',
+        });
+
+        if (!response.ok) {
+          router.push('/login');
+          return;
+        }
+
+        const userData = await response.json();
+        if (userData.role !== 'SUPERADMIN' && userData.role !== 'QAUTHOR') {
+          router.push('/dashboard');
+          return;
+        }
+
+        setUserRole(userData.role);
+      } catch {
+        router.push('/login');
+      }
+    };
+
+    checkAuth();
+  }, [isMounted, router]);
+
+  useEffect(() => {
+    if (userRole) {
+      fetchQueue(status);
+    }
+  }, [userRole, status, fetchQueue]);
+
+  const handleOpen = (question: ReviewQueueQuestion) => {
+    setSelectedQuestion(question);
+    setDecisionComment('');
+  };
+
+  const handleDecision = async (action: 'approve' | 'reject') => {
+    if (!selectedQuestion) return;
+
+    try {
+      setDeciding(action);
+      const response = await fetch(`/api/questions/${selectedQuestion.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action, comment: decisionComment })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to save review');
+      }
+
+      message.success(action === 'approve' ? 'Question published' : 'Question rejected');
+      if (result.regrade) {
+        message.info(`Regraded ${result.regrade.attemptsRegraded} attempt(s) and rescored ${result.regrade.setsRescored} daily set(s)`);
+      }
+      setQuestions(prev => prev.filter(q => q.id !== selectedQuestion.id));
+      setSelectedQuestion(null);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  if (!isMounted || !userRole) {
+    return (
+      <AspectRatioLayout>
+        <div className="center-content">
+          <Spin size="large" tip="Loading review queue..." />
+        </div>
+      </AspectRatioLayout>
+    );
+  }
+
+  const isMobile = screens.xs;
+
+  const columns = [
+    {
+      title: 'Title',
+      dataIndex: 'title',
+      key: 'title',
+      width: 220,
+      ellipsis: true,
+      render: (title: string, record: ReviewQueueQuestion) => (
+        <div>
+          <Text strong>{title}</Text>
+          {record.latestComment && (
+            <>
+              <br />
+              <Text type="secondary" ellipsis style={{ fontSize: '12px' }}>
+                {record.latestComment}
+              </Text>
+            </>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: 'Subject',
+      dataIndex: 'subjects',
+      key: 'subject',
+      width: 120,
+      render: (subjects: ReviewQueueQuestion['subjects']) => (
+        <Tag color="blue">{subjects?.name || 'Unknown'}</Tag>
+      ),
+    },
+    {
+      title: 'Author',
+      dataIndex: 'users',
+      key: 'author',
+      width: 180,
+      render: (users: ReviewQueueQuestion['users']) => (
+        <Space>
+          <UserOutlined />
+          <Text>{users?.email || 'Unknown'}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Waiting Since',
+      dataIndex: 'status_updated_at',
+      key: 'status_updated_at',
+      width: 120,
+      render: (date: string | null, record: ReviewQueueQuestion) => new Date(date || record.created_at).toLocaleDateString(),
+    },
+    {
+      title: 'Comments',
+      dataIndex: 'commentCount',
+      key: 'commentCount',
+      width: 100,
+      render: (count: number) => <Badge count={count} showZero color={count > 0 ? 'blue' : '#d9d9d9'} />,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 100,
+      render: (_: unknown, record: ReviewQueueQuestion) => (
+        <Button
+          type="primary"
+          size="small"
+          icon={<EyeOutlined />}
+          onClick={() => handleOpen(record)}
+        >
+          <span className="hidden-mobile">Review</span>
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <AspectRatioLayout>
+      <Layout className="full-height">
+        <Header style={{
+          background: '#fff',
+          padding: '0 16px',
+          display: 'flex',
+          alignItems: 'center',
+          borderBottom: '1px solid #f0f0f0'
+        }}>
+          <Button
+            type="text"
+            icon={<ArrowLeftOutlined />}
+            onClick={() => router.push('/dashboard')}
+            style={{ marginRight: 8 }}
+            size={isMobile ? "middle" : "large"}
+          >
+            <span className="hidden-mobile">Back</span>
+          </Button>
+          <Title level={3} style={{ margin: 0 }}>
+            <span className="hidden-mobile">Question Review Queue</span>
+            <span className="visible-mobile">Review</span>
+          </Title>
+          <div style={{ marginLeft: 'auto' }}>
+            <Button
+              icon={<ReloadOutlined />}
+              onClick={() => fetchQueue(status)}
+              size={isMobile ? "middle" : "large"}
+            >
+              <span className="hidden-mobile">Refresh</span>
+            </Button>
+          </div>
+        </Header>
+
+        <Content style={{ padding: isMobile ? '16px' : '24px', flex: 1, overflowY: 'auto' }}>
+          <Card>
+            <div style={{ marginBottom: 16 }}>
+              <Title level={4}>
+                <AuditOutlined style={{ marginRight: 8 }} />
+                {STATUS_LABELS[status]} ({questions.length} questions)
+              </Title>
+              <Text type="secondary">
+                Only published questions are served to students.
+                {userRole === 'QAUTHOR' && ' Your own questions are reviewed by other authors and are not listed here.'}
+              </Text>
+            </div>
+
+            <Segmented
+              value={status}
+              onChange={(value) => setStatus(value as QuestionStatus)}
+              options={(['in_review', 'rejected', 'published', 'draft'] as QuestionStatus[]).map(value => ({
+                value,
+                label: STATUS_LABELS[value]
+              }))}
+              style={{ marginBottom: 16 }}
+            />
+
+            {error && (
+              <Alert message={error} type="error" showIcon style={{ marginBottom: 16 }} />
+            )}
+
+            <Table
+              dataSource={questions}
+              columns={columns}
+              rowKey="id"
+              loading={loading}
+              pagination={{
+                pageSize: 10,
+                showSizeChanger: true,
+                showTotal: (total, range) => `${range[0]}-${range[1]} of ${total} questions`,
+              }}
+              scroll={{ x: 'max-content' }}
+              locale={{ emptyText: 'Nothing to review' }}
+            />
+          </Card>
+
+          {/* Review Modal */}
+          <Modal
+            title="Review Question"
+            open={!!selectedQuestion}
+            onCancel={() => setSelectedQuestion(null)}
+            footer={null}
+            width={800}
+            destroyOnClose
+          >
+            {selectedQuestion && (
+              <div>
+                <Space wrap style={{ marginBottom: 16 }}>
+                  <Tag color={STATUS_TAG_COLORS[selectedQuestion.status]}>{STATUS_LABELS[selectedQuestion.status]}</Tag>
+                  <Tag color="blue">{selectedQuestion.subjects?.name || 'Unknown Subject'}</Tag>
+                  <Tag color="green">{selectedQuestion.exam_category}</Tag>
+                  <Tag color={selectedQuestion.difficulty === 'EASY' ? 'green' : selectedQuestion.difficulty === 'MEDIUM' ? 'orange' : 'red'}>
+                    {selectedQuestion.difficulty}
+                  </Tag>
+                  {selectedQuestion.year && <Tag color="purple">Year: {selectedQuestion.year}</Tag>}
+                </Space>
+
+                <Title level={4}>{selectedQuestion.title}</Title>
+                <RichContent style={{ fontSize: '16px', marginBottom: '1em' }}>{selectedQuestion.content}</RichContent>
+
+                <QuestionTypeContent questionType={selectedQuestion.question_type} typeData={selectedQuestion.type_data} />
+
+                <div style={{ paddingLeft: 16, marginBottom: 16 }}>
+                  {!usesChoiceOptions(selectedQuestion.question_type || 'single') && (
+                    <Text strong>
+                      Answer:{' '}
+                      <ResponseText
+                        questionType={selectedQuestion.question_type}
+                        value={selectedQuestion.correct_option?.trim()}
+                        options={[]}
+                        numericTolerance={selectedQuestion.numeric_tolerance}
+                      />
+                    </Text>
+                  )}
+                  {usesChoiceOptions(selectedQuestion.question_type || 'single') && (['A', 'B', 'C', 'D'] as const).map(option => {
+                    const text = selectedQuestion[`option_${option.toLowerCase()}` as 'option_a'];
+                    const isCorrect = !!selectedQuestion.correct_option?.includes(option);
+                    return (
+                      <div key={option} style={{ marginBottom: 8 }}>
+                        <Text strong={isCorrect}>
+                          {option}. <RichContent inline>{text}</RichContent>
+                          {isCorrect && <Tag color="green" style={{ marginLeft: 8 }}>Correct</Tag>}
+                        </Text>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <Title level={5}>Explanation:</Title>
+                <RichContent style={{ marginBottom: '1em' }}>{selectedQuestion.explanation}</RichContent>
+                {selectedQuestion.source && (
+                  <Text type="secondary">Source: {selectedQuestion.source}</Text>
+                )}
+
+                <Divider orientation="left">Review History</Divider>
+                <QuestionReviewHistory questionId={selectedQuestion.id} allowComment={selectedQuestion.status !== 'in_review'} />
+
+                {selectedQuestion.status === 'in_review' && (
+                  <>
+                    <Divider orientation="left">Decision</Divider>
+                    <Input.TextArea
+                      value={decisionComment}
+                      onChange={(e) => setDecisionComment(e.target.value)}
+                      placeholder="Comment for the author (required to reject)"
+                      autoSize={{ minRows: 3, maxRows: 8 }}
+                      maxLength={1000}
+                      style={{ marginBottom: 12 }}
+                    />
+                    <Space>
+                      <Button
+                        type="primary"
+                        icon={<CheckOutlined />}
+                        loading={deciding === 'approve'}
+                        disabled={deciding !== null}
+                        onClick={() => handleDecision('approve')}
+                      >
+                        Approve & Publish
+                      </Button>
+                      <Button
+                        danger
+                        icon={<CloseOutlined />}
+                        loading={deciding === 'reject'}
+                        disabled={deciding !== null || !decisionComment.trim()}
+                        onClick={() => handleDecision('reject')}
+                      >
+                        Reject
+                      </Button>
+                    </Space>
+                  </>
+                )}
+              </div>
+            )}
+          </Modal>
+        </Content>
+      </Layout>
+    </AspectRatioLayout>
+  );
+}
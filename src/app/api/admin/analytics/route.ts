@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ANALYTICS_SECTIONS,
+  AnalyticsSection,
+  buildAnalyticsCsv,
+  loadPlatformAnalytics,
+  parseDateRange
+} from '@/lib/platform-analytics';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Returns the error response for non-SUPERADMIN callers, or the caller's ID
+async function requireSuperadmin(supabase: SupabaseClient): Promise<NextResponse | string> {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  if (userData.role !== 'SUPERADMIN') {
+    return NextResponse.json({ error: 'Access denied. SUPERADMIN role required.' }, { status: 403 });
+  }
+
+  return userData.id;
+}
+
+// GET - Platform trends over a date range: daily activity, accuracy per subject
+// and QAUTHOR productivity
+// Query: from?, to? - YYYY-MM-DD, inclusive (default the last 30 days)
+//        format? - json (default) or csv; csv also needs section (daily | subjects | authors)
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const caller = await requireSuperadmin(supabase);
+    if (caller instanceof NextResponse) return caller;
+
+    const { searchParams } = new URL(req.url);
+    const range = parseDateRange(searchParams);
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 });
+    }
+
+    const format = searchParams.get('format') || 'json';
+    const section = searchParams.get('section');
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json({ error: 'format must be json or csv' }, { status: 400 });
+    }
+    if (format === 'csv' && !ANALYTICS_SECTIONS.includes(section as AnalyticsSection)) {
+      return NextResponse.json({
+        error: `section must be one of: ${ANALYTICS_SECTIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const analytics = await loadPlatformAnalytics(supabase, range);
+    if ('error' in analytics) {
+      if (isDev) {
+        console.error('❌ Error loading platform analytics:', analytics.error);
+      }
+      return NextResponse.json({ error: 'Failed to load analytics' }, { status: 500 });
+    }
+
+    if (format === 'csv') {
+      const file = buildAnalyticsCsv(section as AnalyticsSection, analytics);
+      return new NextResponse(file.content, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${file.filename}"`
+        }
+      });
+    }
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in platform analytics GET:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { QuestionReportCategory, QuestionReportStatus } from '@/types';
+import { REPORT_CATEGORIES, REPORT_STATUSES, UNRESOLVED_REPORT_STATUSES } from '@/lib/question-reports';
+import { DAILY_SELECTION_CONFIG } from '@/lib/question-selection';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// How many of the most-reported questions to list
+const TOP_QUESTION_COUNT = 20;
+
+// Returns the error response for non-SUPERADMIN callers, or the caller's ID
+async function requireSuperadmin(supabase: SupabaseClient): Promise<NextResponse | string> {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  if (userData.role !== 'SUPERADMIN') {
+    return NextResponse.json({ error: 'Access denied. SUPERADMIN role required.' }, { status: 403 });
+  }
+
+  return userData.id;
+}
+
+interface AggregateRow {
+  question_id: string;
+  category: QuestionReportCategory;
+  status: QuestionReportStatus;
+  created_at: string;
+  resolved_at: string | null;
+  questions: {
+    title: string;
+    created_by: string | null;
+    open_report_count: number | null;
+    subjects?: { name: string } | { name: string }[] | null;
+  } | null;
+}
+
+function countBy<K extends string>(keys: K[], values: K[]): Record<K, number> {
+  const counts = Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>;
+  values.forEach(value => { counts[value]++; });
+  return counts;
+}
+
+// GET - Reports across all questions: totals by status and category, the most-reported
+// questions, each author's triage backlog and the questions held out of daily sets
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const caller = await requireSuperadmin(supabase);
+    if (caller instanceof NextResponse) return caller;
+
+    const { data, error } = await supabase
+      .from('question_reports')
+      .select(`
+        question_id,
+        category,
+        status,
+        created_at,
+        resolved_at,
+        questions (
+          title,
+          created_by,
+          open_report_count,
+          subjects (
+            name
+          )
+        )
+      `);
+
+    if (error) {
+      if (isDev) {
+        console.error('❌ Error fetching question reports:', error);
+      }
+      return NextResponse.json({ error: 'Failed to fetch reports' }, { status: 500 });
+    }
+
+    const rows = (data || []).map(row => ({
+      ...row,
+      questions: Array.isArray(row.questions) ? row.questions[0] || null : row.questions
+    })) as AggregateRow[];
+    const unresolved = rows.filter(row => UNRESOLVED_REPORT_STATUSES.includes(row.status));
+
+    // Most-reported questions by unresolved reports
+    const byQuestion = new Map<string, AggregateRow[]>();
+    unresolved.forEach(row => {
+      byQuestion.set(row.question_id, [...(byQuestion.get(row.question_id) || []), row]);
+    });
+
+    const authorIds = [...new Set(rows.map(row => row.questions?.created_by).filter((id): id is string => !!id))];
+    const { data: authors } = authorIds.length > 0
+      ? await supabase.from('users').select('id, email').in('id', authorIds)
+      : { data: [] };
+    const authorEmails = new Map((authors || []).map(author => [author.id, author.email as string]));
+
+    const topQuestions = [...byQuestion.entries()]
+      .map(([questionId, reports]) => {
+        const question = reports[0].questions;
+        const subject = Array.isArray(question?.subjects) ? question?.subjects[0] : question?.subjects;
+        return {
+          questionId,
+          title: question?.title || 'Deleted question',
+          subjectName: subject?.name || null,
+          authorEmail: question?.created_by ? authorEmails.get(question.created_by) || null : null,
+          unresolvedCount: reports.length,
+          byCategory: countBy(REPORT_CATEGORIES, reports.map(report => report.category)),
+          oldestReportAt: reports.reduce((oldest, report) => report.created_at < oldest ? report.created_at : oldest, reports[0].created_at),
+          heldFromDailySets: (question?.open_report_count || 0) >= DAILY_SELECTION_CONFIG.reportThreshold
+        };
+      })
+      .sort((a, b) => b.unresolvedCount - a.unresolvedCount || a.oldestReportAt.localeCompare(b.oldestReportAt))
+      .slice(0, TOP_QUESTION_COUNT);
+
+    // Each author's backlog and how quickly they close reports
+    const byAuthor = new Map<string, { unresolved: number; closed: number; resolutionHours: number }>();
+    rows.forEach(row => {
+      const authorId = row.questions?.created_by;
+      if (!authorId) return;
+      const totals = byAuthor.get(authorId) || { unresolved: 0, closed: 0, resolutionHours: 0 };
+      if (UNRESOLVED_REPORT_STATUSES.includes(row.status)) {
+        totals.unresolved++;
+      } else {
+        totals.closed++;
+        if (row.resolved_at) {
+          totals.resolutionHours += (new Date(row.resolved_at).getTime() - new Date(row.created_at).getTime()) / 3600000;
+        }
+      }
+      byAuthor.set(authorId, totals);
+    });
+
+    const heldQuestionIds = new Set(
+      rows
+        .filter(row => (row.questions?.open_report_count || 0) >= DAILY_SELECTION_CONFIG.reportThreshold)
+        .map(row => row.question_id)
+    );
+
+    return NextResponse.json({
+      totalReports: rows.length,
+      byStatus: countBy(REPORT_STATUSES, rows.map(row => row.status)),
+      byCategory: countBy(REPORT_CATEGORIES, rows.map(row => row.category)),
+      unresolvedByCategory: countBy(REPORT_CATEGORIES, unresolved.map(row => row.category)),
+      reportThreshold: DAILY_SELECTION_CONFIG.reportThreshold,
+      heldFromDailySets: heldQuestionIds.size,
+      topQuestions,
+      authors: [...byAuthor.entries()]
+        .map(([authorId, totals]) => ({
+          authorId,
+          email: authorEmails.get(authorId) || null,
+          unresolved: totals.unresolved,
+          closed: totals.closed,
+          averageResolutionHours: totals.closed > 0 ? Math.round(totals.resolutionHours / totals.closed) : null
+        }))
+        .sort((a, b) => b.unresolved - a.unresolved)
+    });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in question reports overview GET:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { buildQuestionExport, fetchExportQuestions, parseExportRequest } from '@/lib/question-export';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// GET - Export questions from every QAUTHOR (SUPERADMIN only)
+// Query: format (csv | json | html), subject, difficulty, examCategory, year
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Get the current session
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    
+    if (sessionError || !session) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    // Get current user's role
+    const { data: currentUser, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', session.user.id)
+      .single();
+    
+    if (userError || !currentUser || currentUser.role !== 'SUPERADMIN') {
+      return NextResponse.json(
+        { error: 'Access denied. SUPERADMIN role required.' },
+        { status: 403 }
+      );
+    }
+
+    const exportRequest = parseExportRequest(new URL(request.url).searchParams);
+    if ('error' in exportRequest) {
+      return NextResponse.json(
+        { error: 'Invalid export request', details: exportRequest.error },
+        { status: 400 }
+      );
+    }
+
+    // Exports carry the answer key, which only the service role client can select
+    const result = await fetchExportQuestions(getServiceRoleClient(), exportRequest.filters);
+    if ('error' in result) {
+      console.error('❌ Error fetching questions for export:', result.error);
+      return NextResponse.json(
+        { error: 'Failed to fetch questions' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`📦 Exporting ${result.questions.length} questions as ${exportRequest.format}`);
+    const file = buildQuestionExport(exportRequest.format, result.questions, exportRequest.filters);
+
+    // The printable worksheet opens in the browser; data formats download
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${exportRequest.format === 'html' ? 'inline' : 'attachment'}; filename="${file.filename}"`
+      }
+    });
+    
+  } catch (error) {
+    console.error('❌ Error in admin question export API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
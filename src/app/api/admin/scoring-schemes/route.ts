@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ExamCategory } from '@/types';
+import { EXAM_CATEGORIES } from '@/lib/question-validation';
+import { loadScoringSchemes, validateScoringScheme } from '@/lib/scoring';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Returns the error response for non-SUPERADMIN callers, or the caller's ID
+async function requireSuperadmin(supabase: SupabaseClient): Promise<NextResponse | string> {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  if (userData.role !== 'SUPERADMIN') {
+    return NextResponse.json({ error: 'Access denied. SUPERADMIN role required.' }, { status: 403 });
+  }
+
+  return userData.id;
+}
+
+// GET - Scoring scheme of every exam category - SUPERADMIN only
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const caller = await requireSuperadmin(supabase);
+    if (caller instanceof NextResponse) return caller;
+
+    const schemes = await loadScoringSchemes(supabase, []);
+    if ('error' in schemes) {
+      if (isDev) {
+        console.error('❌ Error fetching scoring schemes:', schemes.error);
+      }
+      return NextResponse.json({ error: 'Failed to fetch scoring schemes' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      schemes: EXAM_CATEGORIES.map(examCategory => ({
+        examCategory,
+        ...schemes.categories[examCategory]
+      }))
+    });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in scoring schemes GET:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Set the scoring scheme of an exam category - SUPERADMIN only
+// Body: { examCategory: ExamCategory, correctMarks: number, incorrectMarks: number }
+// Applies to daily sets finalized from now on; completed sets keep their marks.
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const caller = await requireSuperadmin(supabase);
+    if (caller instanceof NextResponse) return caller;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    if (!EXAM_CATEGORIES.includes(body.examCategory as ExamCategory)) {
+      return NextResponse.json({ error: 'Exam category must be UPSC, JEE, NEET, SSC, or OTHER' }, { status: 400 });
+    }
+
+    const errors = validateScoringScheme(body.correctMarks, body.incorrectMarks);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('scoring_schemes')
+      .upsert({
+        exam_category: body.examCategory,
+        correct_marks: Number(body.correctMarks),
+        incorrect_marks: Number(body.incorrectMarks ?? 0),
+        updated_at: new Date().toISOString(),
+        updated_by: caller
+      }, { onConflict: 'exam_category' });
+
+    if (error) {
+      if (isDev) {
+        console.error('❌ Error updating scoring scheme:', error);
+      }
+      return NextResponse.json({ error: 'Failed to update scoring scheme' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      examCategory: body.examCategory,
+      correctMarks: Number(body.correctMarks),
+      incorrectMarks: Number(body.incorrectMarks ?? 0)
+    });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in scoring schemes PUT:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
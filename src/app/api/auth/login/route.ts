@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { recordStreakActivity } from '@/lib/streaks';
+import { getToday } from '@/lib/dates';
 
 export async function POST(request: NextRequest) {
   try {
@@ -44,7 +46,7 @@ export async function POST(request: NextRequest) {
     // Fetch user data from our users table
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('id, email, role, primarysubject, current_streak, longest_streak, last_login_date')
+      .select('id, email, role, primarysubject, current_streak, longest_streak, last_login_date, timezone')
       .eq('id', data.user.id)
       .single();
 
@@ -63,7 +65,7 @@ export async function POST(request: NextRequest) {
     console.log('✅ User data fetched successfully:', userData.email, 'Role:', userData.role);
 
     // Create or update user session for streak tracking
-    const today = new Date().toISOString().split('T')[0];
+    const today = getToday(userData.timezone);
     
     // Check if user already has an active session today
     const { data: existingSession } = await supabase
@@ -93,6 +95,22 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Maintain the login streak for students
+    let streak = {
+      currentStreak: userData.current_streak,
+      longestStreak: userData.longest_streak,
+      lastActiveDate: userData.last_login_date
+    };
+
+    if (userData.role === 'STUDENT') {
+      const streakUpdate = await recordStreakActivity(supabase, data.user.id, userData.timezone);
+      if (streakUpdate) {
+        streak = streakUpdate;
+        console.log(`✅ Streak ${streakUpdate.change}: ${streakUpdate.currentStreak} day(s)`);
+      }
+      // Don't fail login for streak update errors
+    }
+
     return NextResponse.json({
       success: true,
       user: {
@@ -100,9 +118,9 @@ export async function POST(request: NextRequest) {
         email: userData.email,
         role: userData.role,
         primarysubject: userData.primarysubject,
-        current_streak: userData.current_streak,
-        longest_streak: userData.longest_streak,
-        last_login_date: userData.last_login_date
+        current_streak: streak.currentStreak,
+        longest_streak: streak.longestStreak,
+        last_login_date: streak.lastActiveDate
       }
     });
     
@@ -21,7 +21,7 @@ export async function GET(req: NextRequest) {
     // Get user data from our users table
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('id, email, role, primarysubject, created_at, updated_at')
+      .select('id, email, role, primarysubject, timezone, created_at, updated_at')
       .eq('id', authData.user.id)
       .single();
 
@@ -53,6 +53,7 @@ export async function GET(req: NextRequest) {
       role: userData.role,
       primarysubject: userData.primarysubject,
       primarySubjectData: primarySubjectData,
+      timezone: userData.timezone,
       created_at: userData.created_at,
       updated_at: userData.updated_at
     };
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { isValidTimeZone } from '@/lib/dates';
+
+// PUT - Set the IANA timezone used for the user's calendar day.
+// With onlyIfUnset the stored timezone is left alone when one already exists
+// (used to seed the profile from the browser on login).
+export async function PUT(req: NextRequest) {
+  console.log('🔄 /api/auth/update-timezone: Starting update...');
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Parse request body
+    const body = await req.json();
+    const { timeZone, onlyIfUnset } = body;
+
+    if (!isValidTimeZone(timeZone)) {
+      console.log('❌ /api/auth/update-timezone: Invalid timezone:', timeZone);
+      return NextResponse.json({
+        error: 'Invalid timezone',
+        details: 'timeZone must be an IANA timezone such as Asia/Kolkata'
+      }, { status: 400 });
+    }
+
+    // Check if user is authenticated
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authData.user) {
+      console.log('❌ /api/auth/update-timezone: User not authenticated');
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, timezone')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      console.log('❌ /api/auth/update-timezone: User data not found');
+      return NextResponse.json({ error: 'User data not found' }, { status: 404 });
+    }
+
+    if (onlyIfUnset && userData.timezone) {
+      return NextResponse.json({
+        message: 'Timezone already set',
+        timezone: userData.timezone,
+        updated: false
+      });
+    }
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({
+        timezone: timeZone,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', authData.user.id);
+
+    if (updateError) {
+      console.log('❌ /api/auth/update-timezone: Update failed:', updateError);
+      return NextResponse.json({ error: 'Failed to update timezone' }, { status: 500 });
+    }
+
+    console.log('✅ /api/auth/update-timezone: Timezone set to', timeZone);
+
+    return NextResponse.json({
+      message: 'Timezone updated successfully',
+      timezone: timeZone,
+      updated: true
+    });
+
+  } catch (error) {
+    console.error('❌ /api/auth/update-timezone: Server error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
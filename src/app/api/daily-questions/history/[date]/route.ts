@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getToday, isValidDateString } from '@/lib/dates';
+import { finalizeExpiredDailySets, SavedAnswers } from '@/lib/daily-sets';
+import { VALID_OPTIONS, gradeQuestionResponse, questionTypeOf } from '@/lib/grading';
+import { CANONICAL_ORDER, isValidOptionOrder, toCanonicalResponse, toDisplayedResponse } from '@/lib/option-order';
+import { normalizeResponse, usesChoiceOptions } from '@/lib/question-types';
+import { loadScoringSchemes, marksFor, schemeFor } from '@/lib/scoring';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// GET - Read-only view of a completed daily set with the student's answers,
+// correct options and explanations. Options use the set's displayed order.
+// Answer keys are only shown for published questions the student has a recorded
+// attempt on; a question sent back to review drops out until it is republished.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  const { date } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Verify user is a STUDENT
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role, timezone')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied. Only students have daily set history.' }, { status: 403 });
+    }
+
+    if (!isValidDateString(date)) {
+      return NextResponse.json({ error: 'Invalid date', details: 'date must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    await finalizeExpiredDailySets(supabase, authData.user.id, getToday(userData.timezone));
+
+    const { data: questionSet, error: setError } = await supabase
+      .from('daily_question_sets')
+      .select('date, questions, question_subjects, option_orders, saved_answers, completed, score, marks, max_marks, subject_scores, auto_finalized')
+      .eq('studentid', authData.user.id)
+      .eq('date', date)
+      .maybeSingle();
+
+    if (setError) {
+      console.error('Error fetching daily set:', setError);
+      return NextResponse.json({ error: 'Failed to fetch daily set' }, { status: 500 });
+    }
+
+    if (!questionSet) {
+      return NextResponse.json({ error: 'Question set not found for the given date' }, { status: 404 });
+    }
+
+    // Answers stay hidden while today's set is still open
+    if (!questionSet.completed) {
+      return NextResponse.json({
+        error: 'Answer not available',
+        details: 'Answers are shown once the set has been submitted'
+      }, { status: 403 });
+    }
+
+    // Answer keys are only selectable with the service role client
+    const questionIds: string[] = questionSet.questions || [];
+    const [{ data: questions, error: questionsError }, { data: attempts }] = await Promise.all([
+      getServiceRoleClient()
+        .from('questions')
+        .select('id, question_type, type_data, numeric_tolerance, title, content, option_a, option_b, option_c, option_d, correct_option, explanation, subject_id, exam_category, subjects(name)')
+        .in('id', questionIds)
+        .eq('status', PUBLISHED_STATUS),
+      supabase
+        .from('student_attempts')
+        .select('questionid, selectedoption')
+        .eq('studentid', authData.user.id)
+        .in('questionid', questionIds)
+    ]);
+
+    if (questionsError) {
+      console.error('Error fetching daily set questions:', questionsError);
+      return NextResponse.json({ error: 'Failed to fetch questions' }, { status: 500 });
+    }
+
+    const subjectIds = questionIds.map((questionId, slot) =>
+      questionSet.question_subjects?.[slot] || questions?.find(q => q.id === questionId)?.subject_id);
+    const schemes = await loadScoringSchemes(supabase, subjectIds);
+    if ('error' in schemes) {
+      console.error('Error fetching scoring schemes:', schemes.error);
+      return NextResponse.json({ error: 'Failed to fetch scoring schemes' }, { status: 500 });
+    }
+
+    const saved = (questionSet.saved_answers as SavedAnswers) || {};
+    const attemptsByQuestion = new Map((attempts || []).map(attempt => [attempt.questionid, attempt.selectedoption]));
+
+    const items = questionIds.map((questionId, slot) => {
+      const question = questions?.find(q => q.id === questionId);
+      if (!question) return null;
+
+      const order = isValidOptionOrder(questionSet.option_orders?.[slot])
+        ? questionSet.option_orders[slot]
+        : CANONICAL_ORDER;
+      const optionText: Record<string, string | null> = {
+        A: question.option_a,
+        B: question.option_b,
+        C: question.option_c,
+        D: question.option_d
+      };
+
+      // Saved answers are displayed positions; older sets only have the canonical attempt
+      const questionType = questionTypeOf(question);
+      const savedOption = normalizeResponse(questionType, saved[questionId]?.selectedOption, question.type_data);
+      const attemptOption = normalizeResponse(questionType, attemptsByQuestion.get(questionId), question.type_data);
+      const selectedOption = savedOption
+        ?? (attemptOption ? toDisplayedResponse(questionType, attemptOption, order) : null);
+
+      const attempted = attemptsByQuestion.has(questionId);
+      const correctCanonical = attempted
+        ? normalizeResponse(questionType, question.correct_option, question.type_data)
+        : null;
+      const grade = selectedOption && attempted
+        ? gradeQuestionResponse(question, toCanonicalResponse(questionType, selectedOption, order))
+        : null;
+      const subject = Array.isArray(question.subjects) ? question.subjects[0] : question.subjects;
+      const scheme = schemeFor(schemes, subjectIds[slot], question.exam_category);
+
+      return {
+        id: question.id,
+        questionType,
+        typeData: question.type_data,
+        title: question.title,
+        content: question.content,
+        subjectId: questionSet.question_subjects?.[slot] || question.subject_id,
+        subjectName: subject?.name || null,
+        options: usesChoiceOptions(questionType)
+          ? VALID_OPTIONS.map((displayed, position) => ({
+            key: displayed,
+            value: optionText[order[position]] || ''
+          }))
+          : [],
+        selectedOption,
+        correctOption: correctCanonical ? toDisplayedResponse(questionType, correctCanonical, order) : null,
+        numericTolerance: Number(question.numeric_tolerance) || 0,
+        isCorrect: grade ? grade.isCorrect : null,
+        score: grade ? grade.score : null,
+        // Marks under the current scheme; unanswered questions score 0
+        marks: grade ? marksFor(scheme, grade.score) : 0,
+        maxMarks: scheme.correctMarks,
+        timeSpentSeconds: saved[questionId]?.timeSpentSeconds ?? null,
+        explanation: attempted ? question.explanation : null
+      };
+    }).filter(item => item !== null);
+
+    return NextResponse.json({
+      date: questionSet.date,
+      completed: questionSet.completed,
+      score: questionSet.score,
+      marks: questionSet.marks ?? null,
+      maxMarks: questionSet.max_marks ?? null,
+      totalQuestions: questionIds.length,
+      autoFinalized: questionSet.auto_finalized || false,
+      subjectScores: questionSet.subject_scores || null,
+      questions: items
+    });
+
+  } catch (error) {
+    console.error('Error in daily set detail API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { addDays, getToday, isValidDateString } from '@/lib/dates';
+import { finalizeExpiredDailySets, SavedAnswers } from '@/lib/daily-sets';
+
+const DEFAULT_PAGE_SIZE = 31;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_RANGE_DAYS = 90;
+
+// GET - Student's daily sets in a date range, newest first
+// Query: from, to (YYYY-MM-DD, inclusive; default the last 90 days), page, pageSize
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Verify user is a STUDENT
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role, timezone')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied. Only students have daily set history.' }, { status: 403 });
+    }
+
+    const today = getToday(userData.timezone);
+    const { searchParams } = new URL(req.url);
+    const to = searchParams.get('to') || today;
+    const from = searchParams.get('from') || addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+
+    if (!isValidDateString(from) || !isValidDateString(to) || from > to) {
+      return NextResponse.json({
+        error: 'Invalid date range',
+        details: 'from and to must be YYYY-MM-DD dates with from on or before to'
+      }, { status: 400 });
+    }
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const pageSize = Math.min(
+      Math.max(parseInt(searchParams.get('pageSize') || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
+    // Past unfinished sets should show their final score
+    await finalizeExpiredDailySets(supabase, authData.user.id, today);
+
+    const { data: sets, error: setsError, count } = await supabase
+      .from('daily_question_sets')
+      .select('date, questions, saved_answers, completed, score, marks, max_marks, subject_scores, auto_finalized', { count: 'exact' })
+      .eq('studentid', authData.user.id)
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1);
+
+    if (setsError) {
+      console.error('Error fetching daily set history:', setsError);
+      return NextResponse.json({ error: 'Failed to fetch daily set history' }, { status: 500 });
+    }
+
+    const total = count || 0;
+
+    return NextResponse.json({
+      from,
+      to,
+      sets: (sets || []).map(set => ({
+        date: set.date,
+        completed: set.completed,
+        score: set.score,
+        marks: set.marks ?? null,
+        maxMarks: set.max_marks ?? null,
+        totalQuestions: (set.questions || []).length,
+        // Sets graded before autosave existed have no saved answers to count
+        answeredQuestions: set.completed && Object.keys(set.saved_answers || {}).length === 0
+          ? null
+          : Object.keys((set.saved_answers as SavedAnswers) || {}).length,
+        autoFinalized: set.auto_finalized || false,
+        subjectScores: set.subject_scores || null
+      })),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in daily set history API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,93 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
-import { DailyQuestionSet } from '@/types';
+import { DailyQuestionSet, QuestionTypeData } from '@/types';
+import { VALID_OPTIONS, questionTypeOf } from '@/lib/grading';
+import { isValidOptionOrder, optionOrderFor } from '@/lib/option-order';
+import { usesChoiceOptions } from '@/lib/question-types';
+import {
+  DailySetRow,
+  finalizeDailySet,
+  finalizeExpiredDailySets,
+  loadAnswerFormats,
+  mergeSavedAnswers,
+  SavedAnswers
+} from '@/lib/daily-sets';
+import { recordStreakActivity } from '@/lib/streaks';
+import { getToday } from '@/lib/dates';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import {
+  computeRecentAccuracy,
+  DAILY_SELECTION_CONFIG,
+  getSelectionStrategy,
+  planDailyQuotas,
+  SelectionCandidate
+} from '@/lib/question-selection';
+
+interface DailyQuestionRow {
+  id: string;
+  question_type: string | null;
+  type_data: QuestionTypeData | null;
+  title: string;
+  content: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  subject_id: string;
+}
+
+// Student payload for a daily question with options in the slot's stored order.
+// Option keys are displayed positions; the POST maps them back to canonical options.
+// Numeric and match questions have no options.
+function withOrderedOptions(question: DailyQuestionRow, optionOrder: string, subjectNames: Map<string, string>) {
+  const questionType = questionTypeOf(question);
+  const optionText: Record<string, string | null> = {
+    A: question.option_a,
+    B: question.option_b,
+    C: question.option_c,
+    D: question.option_d
+  };
+  const options = usesChoiceOptions(questionType)
+    ? VALID_OPTIONS.map((displayed, position) => ({
+      key: displayed,
+      value: optionText[optionOrder[position]] || ''
+    }))
+    : [];
+  
+  return {
+    id: question.id,
+    questionType,
+    typeData: question.type_data,
+    title: question.title,
+    content: question.content,
+    subjectId: question.subject_id,
+    subjectName: subjectNames.get(question.subject_id) || null,
+    options: options
+  };
+}
+
+// Saved answers as returned to the client for resuming a set
+function toResumeState(saved: SavedAnswers | null) {
+  return Object.fromEntries(
+    Object.entries(saved || {}).map(([questionId, answer]) => [
+      questionId,
+      { selectedOption: answer.selectedOption, timeSpentSeconds: answer.timeSpentSeconds }
+    ])
+  );
+}
+
+// Question count per subject, in slot order
+function summarizeSubjects(slotSubjects: string[], subjectNames: Map<string, string>) {
+  const counts = new Map<string, number>();
+  slotSubjects.forEach(subjectId => counts.set(subjectId, (counts.get(subjectId) || 0) + 1));
+  return [...counts.entries()].map(([id, questionCount]) => ({
+    id,
+    name: subjectNames.get(id) || null,
+    questionCount
+  }));
+}
 
 // GET daily questions for a student
 export async function GET(req: NextRequest) {
@@ -16,7 +102,7 @@ export async function GET(req: NextRequest) {
     // Check if user is a STUDENT
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('role')
+      .select('role, timezone')
       .eq('id', authData.session.user.id)
       .single();
     
@@ -28,42 +114,50 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Only students can access daily questions' }, { status: 403 });
     }
 
-    // Get student's primary subject from user_subjects table
-    const { data: primarySubjectData, error: primarySubjectError } = await supabase
+    // Get the student's active subjects and their daily quotas
+    const { data: userSubjects, error: userSubjectsError } = await supabase
       .from('user_subjects')
       .select(`
         subject_id,
+        is_primary,
+        daily_quota,
         subjects (
           id,
           name
         )
       `)
       .eq('user_id', authData.session.user.id)
-      .eq('is_primary', true)
-      .eq('is_active', true)
-      .single();
+      .eq('is_active', true);
+
+    const quotaPlan = planDailyQuotas(userSubjects || []);
 
-    if (primarySubjectError || !primarySubjectData) {
-      console.error('Primary subject error:', primarySubjectError);
-      console.log('Primary subject data:', primarySubjectData);
+    if (userSubjectsError || quotaPlan.length === 0) {
+      console.error('Subject selection error:', userSubjectsError);
       return NextResponse.json({ 
         error: 'No primary subject selected',
         message: 'Please select a primary subject in your dashboard to receive daily questions.',
         needsSubjectSelection: true,
         debug: {
-          error: primarySubjectError?.message,
+          error: userSubjectsError?.message,
           userId: authData.session.user.id
         }
       }, { status: 400 });
     }
 
-    const primarySubjectId = primarySubjectData.subject_id;
+    const subjectNames = new Map<string, string>();
+    (userSubjects || []).forEach(us => {
+      const subject = Array.isArray(us.subjects) ? us.subjects[0] : us.subjects;
+      if (subject) subjectNames.set(us.subject_id, subject.name);
+    });
+    
+    // Today's date (YYYY-MM-DD) in the student's timezone
+    const today = getToday(userData.timezone);
     
-    // Get today's date in YYYY-MM-DD format for consistency
-    const today = new Date().toISOString().split('T')[0];
+    // Close out unfinished sets from earlier days before serving today's
+    await finalizeExpiredDailySets(supabase, authData.session.user.id, today);
     
     // Check if student already has a question set for today
-    const { data: existingSet, error: setError } = await supabase
+    const { data: existingSet } = await supabase
       .from('daily_question_sets')
       .select('*')
       .eq('studentid', authData.session.user.id)
@@ -74,99 +168,154 @@ export async function GET(req: NextRequest) {
       // Fetch the questions for this set
       const { data: questions, error: questionsError } = await supabase
         .from('questions')
-        .select('id, title, content, option_a, option_b, option_c, option_d')
+        .select('id, question_type, type_data, title, content, option_a, option_b, option_c, option_d, subject_id')
         .in('id', existingSet.questions);
         
       if (questionsError) {
         return NextResponse.json({ error: 'Error fetching questions' }, { status: 500 });
       }
       
-      // Randomize the options for each question
-      const questionsWithRandomizedOptions = questions?.map(question => {
-        const options = [
-          { key: 'A', value: question.option_a || '' },
-          { key: 'B', value: question.option_b || '' },
-          { key: 'C', value: question.option_c || '' },
-          { key: 'D', value: question.option_d || '' }
-        ];
+      // Sets created before option orders were stored get them now, so later fetches agree
+      const slotIds = existingSet.questions as string[];
+      let optionOrders: string[] = existingSet.option_orders || [];
+      if (optionOrders.length !== slotIds.length || !optionOrders.every(isValidOptionOrder)) {
+        optionOrders = slotIds.map(id => optionOrderFor(
+          questionTypeOf(questions?.find(q => q.id === id) || {}),
+          `${authData.session.user.id}:${today}:${id}`
+        ));
+        const { error: orderError } = await getServiceRoleClient()
+          .from('daily_question_sets')
+          .update({ option_orders: optionOrders })
+          .eq('id', existingSet.id);
         
-        // Shuffle the options
-        for (let i = options.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [options[i], options[j]] = [options[j], options[i]];
+        if (orderError) {
+          console.error('Failed to store option orders:', orderError);
         }
-        
-        return {
-          id: question.id,
-          title: question.title,
-          content: question.content,
-          options: options
-        };
-      });
+      }
+      
+      // Keep the set's slot order; sets created before per-slot subjects fall back to the question's subject
+      const slotSubjects: string[] = existingSet.question_subjects || [];
+      const orderedQuestions = slotIds
+        .map((id, slot) => {
+          const question = questions?.find(q => q.id === id);
+          return question
+            ? { ...question, subject_id: slotSubjects[slot] || question.subject_id, optionOrder: optionOrders[slot] }
+            : null;
+        })
+        .filter((question): question is NonNullable<typeof question> => !!question);
       
       return NextResponse.json({
         date: today,
-        questions: questionsWithRandomizedOptions,
+        questions: orderedQuestions.map(question => withOrderedOptions(question, question.optionOrder, subjectNames)),
+        subjects: summarizeSubjects(orderedQuestions.map(q => q.subject_id), subjectNames),
         completed: existingSet.completed,
-        score: existingSet.score
+        score: existingSet.score,
+        marks: existingSet.marks ?? null,
+        maxMarks: existingSet.max_marks ?? null,
+        subjectScores: existingSet.subject_scores || null,
+        savedAnswers: toResumeState(existingSet.saved_answers)
       });
     }
     
-    // No set exists for today, create a new one
-    // First, get all questions for the primary subject that the student hasn't answered yet
-    const { data: attemptedQuestionIds } = await supabase
+    // No set exists for today, build one with the configured selection strategy
+    const { data: attemptHistory } = await supabase
       .from('student_attempts')
-      .select('questionid')
-      .eq('studentid', authData.session.user.id);
+      .select('questionid, iscorrect, attemptedat')
+      .eq('studentid', authData.session.user.id)
+      .order('attemptedat', { ascending: false });
     
-    const attemptedIds = attemptedQuestionIds?.map(item => item.questionid) || [];
+    const attemptsByQuestion = new Map(
+      (attemptHistory || []).map(attempt => [attempt.questionid, attempt.iscorrect])
+    );
     
-    // Filter questions by primary subject and exclude attempted ones
-    let query = supabase.from('questions')
-      .select('id, title, content, option_a, option_b, option_c, option_d')
-      .eq('subject_id', primarySubjectId)  // Filter by primary subject
+    // Candidates: unattempted questions plus previously-wrong ones in the planned subjects,
+    // leaving out questions students have reported several times
+    const { data: subjectQuestions, error: candidatesError } = await supabase
+      .from('questions')
+      .select('id, subject_id, difficulty, exam_category')
+      .in('subject_id', quotaPlan.map(plan => plan.subjectId))
+      .eq('status', PUBLISHED_STATUS)
+      .lt('open_report_count', DAILY_SELECTION_CONFIG.reportThreshold)
       .order('created_at', { ascending: true });
+    
+    if (candidatesError) {
+      console.error('Questions fetch error:', candidatesError);
+      return NextResponse.json({ 
+        error: 'Error fetching questions',
+        details: candidatesError.message 
+      }, { status: 500 });
+    }
+    
+    const strategy = getSelectionStrategy();
+    const recentAccuracy = computeRecentAccuracy(attemptHistory || []);
+    
+    // Fill each subject's quota independently, in the student's subject order
+    const slots: { questionId: string; subjectId: string }[] = [];
+    for (const { subjectId, quota } of quotaPlan) {
+      const candidates: SelectionCandidate[] = (subjectQuestions || [])
+        .filter(question => question.subject_id === subjectId && attemptsByQuestion.get(question.id) !== true)
+        .map(question => ({
+          id: question.id,
+          difficulty: question.difficulty,
+          examCategory: question.exam_category,
+          previouslyWrong: attemptsByQuestion.get(question.id) === false
+        }));
       
-    // Exclude previously attempted questions
-    if (attemptedIds.length > 0) {
-      query = query.not('id', 'in', `(${attemptedIds.join(',')})`);
+      // Seeded by student, date and subject so the same day always yields the same selection
+      strategy.select(candidates, {
+        count: quota,
+        recentAccuracy,
+        wrongShare: DAILY_SELECTION_CONFIG.wrongShare,
+        seed: `${authData.session.user.id}:${today}:${subjectId}`
+      }).forEach(questionId => slots.push({ questionId, subjectId }));
     }
     
-    // Get up to 10 questions
-    const { data: availableQuestions, error: questionsError } = await query.limit(10);
+    const selectedIds = slots.map(slot => slot.questionId);
+    const { data: selectedQuestions, error: questionsError } = selectedIds.length > 0
+      ? await supabase
+        .from('questions')
+        .select('id, question_type, type_data, title, content, option_a, option_b, option_c, option_d, subject_id')
+        .in('id', selectedIds)
+      : { data: [], error: null };
     
     if (questionsError) {
-      console.error('Questions fetch error:', questionsError);
+      console.error('Selected questions fetch error:', questionsError);
       return NextResponse.json({ 
         error: 'Error fetching questions',
         details: questionsError.message 
       }, { status: 500 });
     }
     
+    // Keep the planned slot order
+    const availableQuestions = selectedIds
+      .map(id => selectedQuestions?.find(question => question.id === id))
+      .filter((question): question is NonNullable<typeof question> => !!question);
+    
     // If no questions are available, return a message
-    if (!availableQuestions || availableQuestions.length === 0) {
+    if (availableQuestions.length === 0) {
       return NextResponse.json({ 
-        message: 'Congratulations, you solved all questions posted for this Subject.',
+        message: 'Congratulations, you solved all questions posted for your subjects.',
         date: today,
         completed: true
       });
     }
     
-    // Create a new daily question set
-    const questionIds = availableQuestions.map(q => q.id);
+    // Create a new daily question set, fixing each slot's option order for the day
     const newSet = {
       studentid: authData.session.user.id,
       date: today,
-      questions: questionIds,
+      questions: availableQuestions.map(q => q.id),
+      question_subjects: availableQuestions.map(q => q.subject_id),
+      option_orders: availableQuestions.map(q => optionOrderFor(questionTypeOf(q), `${authData.session.user.id}:${today}:${q.id}`)),
+      saved_answers: {},
       completed: false,
       created_at: new Date()
     };
     
-    const { data: insertedSet, error: insertError } = await supabase
+    // Students can only read their sets (migration 27), so the set is created as the server
+    const { error: insertError } = await getServiceRoleClient()
       .from('daily_question_sets')
-      .insert(newSet)
-      .select()
-      .single();
+      .insert(newSet);
       
     if (insertError) {
       console.error('Insert error:', insertError);
@@ -176,33 +325,14 @@ export async function GET(req: NextRequest) {
       }, { status: 500 });
     }
     
-    // Randomize the options for each question
-    const questionsWithRandomizedOptions = availableQuestions.map(question => {
-      const options = [
-        { key: 'A', value: question.option_a || '' },
-        { key: 'B', value: question.option_b || '' },
-        { key: 'C', value: question.option_c || '' },
-        { key: 'D', value: question.option_d || '' }
-      ];
-      
-      // Shuffle the options
-      for (let i = options.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [options[i], options[j]] = [options[j], options[i]];
-      }
-      
-      return {
-        id: question.id,
-        title: question.title,
-        content: question.content,
-        options: options
-      };
-    });
-    
     return NextResponse.json({
       date: today,
-      questions: questionsWithRandomizedOptions,
-      completed: false
+      questions: availableQuestions.map((question, slot) =>
+        withOrderedOptions(question, newSet.option_orders[slot], subjectNames)
+      ),
+      subjects: summarizeSubjects(newSet.question_subjects, subjectNames),
+      completed: false,
+      savedAnswers: {}
     });
   } catch (err) {
     console.error('Exception in daily questions GET:', err);
@@ -210,121 +340,180 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST to submit answers for daily questions
-export async function POST(req: NextRequest) {
+// Load the signed-in student's set for a date (shared by autosave and submission)
+async function getStudentSet(date: string) {
+  const supabase = createRouteHandlerClient({ cookies });
+  const { data: authData, error: authError } = await supabase.auth.getSession();
+  
+  if (authError || !authData.session) {
+    return { response: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }) };
+  }
+  
+  // Check if user is a STUDENT
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('role, timezone')
+    .eq('id', authData.session.user.id)
+    .single();
+  
+  if (userError || userData?.role !== 'STUDENT') {
+    return { response: NextResponse.json({ error: 'Only students can submit answers' }, { status: 403 }) };
+  }
+  
+  // Fetch the question set for the given date
+  const { data: questionSet, error: setError } = await supabase
+    .from('daily_question_sets')
+    .select('id, studentid, date, questions, question_subjects, option_orders, saved_answers, completed')
+    .eq('studentid', authData.session.user.id)
+    .eq('date', date)
+    .single();
+    
+  if (setError || !questionSet) {
+    return { response: NextResponse.json({ error: 'Question set not found for the given date' }, { status: 404 }) };
+  }
+  
+  return {
+    supabase,
+    studentId: authData.session.user.id,
+    today: getToday(userData.timezone),
+    questionSet: questionSet as DailySetRow
+  };
+}
+
+// PATCH - Autosave answers (and time spent) for today's set without grading
+export async function PATCH(req: NextRequest) {
   try {
-    const supabase = createRouteHandlerClient({ cookies });
-    const { data: authData, error: authError } = await supabase.auth.getSession();
+    // Parse request body
+    const body = await req.json();
+    const { date, answers } = body;
     
-    if (authError || !authData.session) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    if (!date || !Array.isArray(answers)) {
+      return NextResponse.json({ error: 'Invalid autosave format' }, { status: 400 });
     }
     
-    // Check if user is a STUDENT
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('role')
-      .eq('id', authData.session.user.id)
-      .single();
+    const context = await getStudentSet(date);
+    if ('response' in context) return context.response;
+    const { supabase, today, questionSet } = context;
     
-    if (userError || userData?.role !== 'STUDENT') {
-      return NextResponse.json({ error: 'Only students can submit answers' }, { status: 403 });
+    if (questionSet.completed) {
+      return NextResponse.json({ error: 'This question set has already been completed' }, { status: 400 });
     }
     
-    // Parse request body
-    const body = await req.json();
-    const { date, answers } = body;
+    if (date !== today) {
+      return NextResponse.json({ error: 'This question set has closed' }, { status: 409 });
+    }
     
-    if (!date || !answers || !Array.isArray(answers)) {
-      return NextResponse.json({ error: 'Invalid submission format' }, { status: 400 });
+    const formats = await loadAnswerFormats(supabase, questionSet.questions);
+    if ('error' in formats) {
+      console.error('Autosave question lookup error:', formats.error);
+      return NextResponse.json({ error: 'Failed to save progress' }, { status: 500 });
+    }
+    
+    const merged = mergeSavedAnswers(questionSet.saved_answers, answers, questionSet.questions, formats);
+    if ('error' in merged) {
+      return NextResponse.json({ error: merged.error }, { status: 400 });
     }
     
-    // Fetch the question set for the given date
-    const { data: questionSet, error: setError } = await supabase
+    const { error: saveError } = await getServiceRoleClient()
       .from('daily_question_sets')
-      .select('*')
-      .eq('studentid', authData.session.user.id)
-      .eq('date', date)
-      .single();
+      .update({ saved_answers: merged.answers })
+      .eq('id', questionSet.id)
+      .eq('completed', false);
       
-    if (setError || !questionSet) {
-      return NextResponse.json({ error: 'Question set not found for the given date' }, { status: 404 });
+    if (saveError) {
+      console.error('Autosave error:', saveError);
+      return NextResponse.json({ error: 'Failed to save progress' }, { status: 500 });
     }
     
+    return NextResponse.json({
+      date,
+      savedAnswers: merged.answers,
+      answeredCount: Object.keys(merged.answers).length,
+      totalQuestions: questionSet.questions.length
+    });
+  } catch (err) {
+    console.error('Exception in daily questions autosave:', err);
+    return NextResponse.json({ error: 'Server error' }, { status: 500 });
+  }
+}
+
+// POST - Final submission: grades only the saved answers and completes the set.
+// Any answers in the body are saved first, so a last unsaved pick is not lost.
+export async function POST(req: NextRequest) {
+  try {
+    // Parse request body
+    const body = await req.json();
+    const { date, answers = [] } = body;
+    
+    if (!date || !Array.isArray(answers)) {
+      return NextResponse.json({ error: 'Invalid submission format' }, { status: 400 });
+    }
+    
+    const context = await getStudentSet(date);
+    if ('response' in context) return context.response;
+    const { supabase, studentId, today, questionSet } = context;
+    
     if (questionSet.completed) {
       return NextResponse.json({ error: 'This question set has already been completed' }, { status: 400 });
     }
     
-    // Validate that all submitted answers correspond to questions in the set
-    const questionIds = questionSet.questions;
-    const submittedQuestionIds = answers.map((a: any) => a.questionId);
+    // A past day's set can still be finalized, but no longer takes new answers
+    if (date !== today && answers.length > 0) {
+      return NextResponse.json({ error: 'This question set has closed' }, { status: 409 });
+    }
     
-    const invalidQuestions = submittedQuestionIds.filter((id: string) => !questionIds.includes(id));
-    if (invalidQuestions.length > 0) {
-      return NextResponse.json({ error: 'Invalid question IDs in submission' }, { status: 400 });
+    const formats = await loadAnswerFormats(supabase, questionSet.questions);
+    if ('error' in formats) {
+      console.error('Submission question lookup error:', formats.error);
+      return NextResponse.json({ error: 'Failed to grade question set' }, { status: 500 });
     }
     
-    // Fetch correct answers for validation
-    const { data: questionsData, error: questionsError } = await supabase
-      .from('questions')
-      .select('id, correct_option')
-      .in('id', questionIds);
-      
-    if (questionsError || !questionsData) {
-      return NextResponse.json({ error: 'Error fetching questions for validation' }, { status: 500 });
+    const merged = mergeSavedAnswers(questionSet.saved_answers, answers, questionSet.questions, formats);
+    if ('error' in merged) {
+      return NextResponse.json({ error: merged.error }, { status: 400 });
     }
     
-    // Create a map for quick lookup of correct answers
-    const correctAnswers = new Map();
-    questionsData.forEach(q => correctAnswers.set(q.id, q.correct_option));
+    if (answers.length > 0) {
+      const { error: saveError } = await getServiceRoleClient()
+        .from('daily_question_sets')
+        .update({ saved_answers: merged.answers })
+        .eq('id', questionSet.id)
+        .eq('completed', false);
+        
+      if (saveError) {
+        console.error('Save before submit error:', saveError);
+        return NextResponse.json({ error: 'Failed to save answers' }, { status: 500 });
+      }
+    }
     
-    // Process answers and record attempts
-    let correctCount = 0;
-    const attempts = [];
+    const result = await finalizeDailySet(supabase, { ...questionSet, saved_answers: merged.answers });
     
-    for (const answer of answers) {
-      const isCorrect = correctAnswers.get(answer.questionId) === answer.selectedOption;
-      if (isCorrect) correctCount++;
-      
-      attempts.push({
-        studentid: authData.session.user.id,
-        questionid: answer.questionId,
-        selectedoption: answer.selectedOption,
-        iscorrect: isCorrect,
-        attemptedat: new Date()
-      });
+    if (!result) {
+      return NextResponse.json({ error: 'Failed to grade question set' }, { status: 500 });
     }
     
-    // Insert student attempts
-    const { error: insertError } = await supabase
-      .from('student_attempts')
-      .insert(attempts);
-      
-    if (insertError) {
-      return NextResponse.json({ error: 'Failed to record attempts' }, { status: 500 });
+    // A concurrent submission finalized the set first and has recorded the streak
+    if ('alreadyCompleted' in result) {
+      return NextResponse.json({ error: 'This question set has already been completed' }, { status: 400 });
     }
     
-    // Update the question set as completed
-    const { error: updateError } = await supabase
-      .from('daily_question_sets')
-      .update({
-        completed: true,
-        score: correctCount
-      })
-      .eq('id', questionSet.id);
-      
-    if (updateError) {
-      return NextResponse.json({ error: 'Failed to update question set status' }, { status: 500 });
-    }
+    // Completing the daily set counts as activity for the streak
+    const streak = await recordStreakActivity(supabase, studentId);
     
     return NextResponse.json({
       date,
       completed: true,
-      score: correctCount,
-      totalQuestions: questionIds.length
+      score: result.score,
+      marks: result.marks,
+      maxMarks: result.maxMarks,
+      totalQuestions: result.totalQuestions,
+      answeredQuestions: result.answeredQuestions,
+      subjectScores: result.subjectScores,
+      currentStreak: streak?.currentStreak,
+      longestStreak: streak?.longestStreak
     });
   } catch (err) {
     console.error('Exception in daily questions submission:', err);
     return NextResponse.json({ error: 'Server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
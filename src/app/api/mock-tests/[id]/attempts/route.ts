@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  MOCK_TEST_COLUMNS,
+  MockTestRow,
+  buildAttemptRow,
+  drawMockTestQuestions,
+  finalizeExpiredMockAttempts,
+  testScheme
+} from '@/lib/mock-tests';
+import { loadScoringSchemes } from '@/lib/scoring';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// POST - Start a sitting of a published mock test, or resume the one in progress.
+// The deadline is fixed now from the test's duration and enforced by the server.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied. Only students can take mock tests.' }, { status: 403 });
+    }
+
+    const { data: test, error: testError } = await supabase
+      .from('mock_tests')
+      .select(MOCK_TEST_COLUMNS)
+      .eq('id', id)
+      .eq('is_published', true)
+      .maybeSingle();
+
+    if (testError) {
+      if (isDev) {
+        console.error('❌ Error fetching mock test:', testError);
+      }
+      return NextResponse.json({ error: 'Failed to fetch mock test' }, { status: 500 });
+    }
+
+    if (!test) {
+      return NextResponse.json({ error: 'Mock test not found' }, { status: 404 });
+    }
+
+    // A sitting whose time ran out is graded before a new one can start
+    await finalizeExpiredMockAttempts(supabase, userData.id);
+
+    const findInProgress = () => supabase
+      .from('mock_test_attempts')
+      .select('id, deadline_at')
+      .eq('mock_test_id', id)
+      .eq('studentid', userData.id)
+      .eq('status', 'in_progress')
+      .maybeSingle();
+
+    const { data: inProgress } = await findInProgress();
+    if (inProgress) {
+      return NextResponse.json({ attemptId: inProgress.id, deadlineAt: inProgress.deadline_at, resumed: true });
+    }
+
+    const schemes = await loadScoringSchemes(supabase, []);
+    if ('error' in schemes) {
+      if (isDev) {
+        console.error('❌ Error fetching scoring schemes:', schemes.error);
+      }
+      return NextResponse.json({ error: 'Failed to fetch scoring schemes' }, { status: 500 });
+    }
+
+    const now = new Date();
+    const testRow = test as MockTestRow;
+    const drawn = await drawMockTestQuestions(supabase, testRow.sections, `${userData.id}:${id}:${now.toISOString()}`);
+    if ('error' in drawn) {
+      return NextResponse.json({ error: 'Mock test unavailable', details: drawn.error }, { status: 409 });
+    }
+
+    // Students can only read their attempts (migration 19), so the sitting is
+    // created as the server with the clock and questions drawn here
+    const { data: created, error: insertError } = await getServiceRoleClient()
+      .from('mock_test_attempts')
+      .insert(buildAttemptRow(testRow, userData.id, testScheme(schemes, testRow), drawn, now))
+      .select('id, deadline_at')
+      .single();
+
+    if (insertError || !created) {
+      // A concurrent start won the unique index on in-progress sittings
+      const { data: existing } = await findInProgress();
+      if (existing) {
+        return NextResponse.json({ attemptId: existing.id, deadlineAt: existing.deadline_at, resumed: true });
+      }
+
+      if (isDev) {
+        console.error('❌ Error starting mock test attempt:', insertError);
+      }
+      return NextResponse.json({ error: 'Failed to start mock test' }, { status: 500 });
+    }
+
+    return NextResponse.json({ attemptId: created.id, deadlineAt: created.deadline_at, resumed: false }, { status: 201 });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in mock test attempts POST:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,407 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { gradeQuestionResponse, questionTypeOf } from '@/lib/grading';
+import { toCanonicalResponse, toDisplayedResponse } from '@/lib/option-order';
+import { normalizeResponse } from '@/lib/question-types';
+import { loadAnswerFormats } from '@/lib/daily-sets';
+import { marksFor } from '@/lib/scoring';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import {
+  DEADLINE_GRACE_SECONDS,
+  MOCK_ATTEMPT_COLUMNS,
+  MockAttemptRow,
+  MockQuestionRow,
+  finalizeMockAttempt,
+  isPastDeadline,
+  mergeMockResponses,
+  slotOrder,
+  toAttemptQuestion
+} from '@/lib/mock-tests';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Load the signed-in student's attempt (shared by every method)
+async function getStudentAttempt(supabase: SupabaseClient, attemptId: string) {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return { response: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }) };
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return { response: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  if (userData.role !== 'STUDENT') {
+    return { response: NextResponse.json({ error: 'Access denied. Only students can take mock tests.' }, { status: 403 }) };
+  }
+
+  const { data: attempt, error: attemptError } = await supabase
+    .from('mock_test_attempts')
+    .select(MOCK_ATTEMPT_COLUMNS)
+    .eq('id', attemptId)
+    .eq('studentid', userData.id)
+    .maybeSingle();
+
+  if (attemptError) {
+    if (isDev) {
+      console.error('❌ Error fetching mock test attempt:', attemptError);
+    }
+    return { response: NextResponse.json({ error: 'Failed to fetch mock test attempt' }, { status: 500 }) };
+  }
+
+  if (!attempt) {
+    return { response: NextResponse.json({ error: 'Mock test attempt not found' }, { status: 404 }) };
+  }
+
+  return { attempt: attempt as MockAttemptRow };
+}
+
+// Title of the test and names of the sections' subjects
+async function loadAttemptLabels(supabase: SupabaseClient, attempt: MockAttemptRow) {
+  const [{ data: test }, { data: subjects }] = await Promise.all([
+    supabase
+      .from('mock_tests')
+      .select('title, duration_minutes')
+      .eq('id', attempt.mock_test_id)
+      .maybeSingle(),
+    supabase
+      .from('subjects')
+      .select('id, name')
+      .in('id', (attempt.sections || []).map(section => section.subjectId))
+  ]);
+
+  const subjectNames = new Map((subjects || []).map(subject => [subject.id, subject.name]));
+  return {
+    title: test?.title || 'Mock test',
+    sections: (attempt.sections || []).map(section => ({
+      ...section,
+      subjectName: subjectNames.get(section.subjectId) || null
+    }))
+  };
+}
+
+// State of a sitting in progress: questions without answers, saved responses and the clock
+async function inProgressPayload(supabase: SupabaseClient, attempt: MockAttemptRow) {
+  const { data: questions, error } = await supabase
+    .from('questions')
+    .select('id, question_type, type_data, title, content, option_a, option_b, option_c, option_d, difficulty')
+    .in('id', attempt.questions);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  const questionsById = new Map(((questions || []) as MockQuestionRow[]).map(question => [question.id, question]));
+  const labels = await loadAttemptLabels(supabase, attempt);
+
+  return {
+    id: attempt.id,
+    mockTestId: attempt.mock_test_id,
+    title: labels.title,
+    status: attempt.status,
+    sections: labels.sections,
+    startedAt: attempt.started_at,
+    deadlineAt: attempt.deadline_at,
+    // Lets the client correct its countdown for clock skew
+    serverNow: new Date().toISOString(),
+    scheme: { correctMarks: Number(attempt.correct_marks), incorrectMarks: Number(attempt.incorrect_marks) },
+    questions: attempt.questions
+      .map((questionId, slot) => {
+        const question = questionsById.get(questionId);
+        return question ? toAttemptQuestion(question, slotOrder(attempt, slot), attempt.question_sections[slot]) : null;
+      })
+      .filter(question => question !== null),
+    responses: attempt.responses || {}
+  };
+}
+
+// Result report of a submitted sitting, with correct answers and explanations.
+// Answer keys are only selectable with the service role client.
+async function reportPayload(supabase: SupabaseClient, attempt: MockAttemptRow) {
+  const { data: questions, error } = await getServiceRoleClient()
+    .from('questions')
+    .select('id, question_type, type_data, numeric_tolerance, title, content, option_a, option_b, option_c, option_d, difficulty, correct_option, explanation')
+    .in('id', attempt.questions);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  const questionsById = new Map((questions || []).map(question => [question.id, question]));
+  const labels = await loadAttemptLabels(supabase, attempt);
+  const scheme = { correctMarks: Number(attempt.correct_marks), incorrectMarks: Number(attempt.incorrect_marks) };
+  const responses = attempt.responses || {};
+
+  const items = attempt.questions.map((questionId, slot) => {
+    const question = questionsById.get(questionId);
+    if (!question) return null;
+
+    const order = slotOrder(attempt, slot);
+    const questionType = questionTypeOf(question);
+    const response = responses[questionId];
+    const selectedOption = typeof response?.selectedOption === 'string' ? response.selectedOption : null;
+    const grade = selectedOption
+      ? gradeQuestionResponse(question, toCanonicalResponse(questionType, selectedOption, order))
+      : null;
+    const correctCanonical = normalizeResponse(questionType, question.correct_option, question.type_data);
+
+    return {
+      ...toAttemptQuestion(question as MockQuestionRow, order, attempt.question_sections[slot]),
+      selectedOption,
+      correctOption: correctCanonical ? toDisplayedResponse(questionType, correctCanonical, order) : null,
+      numericTolerance: Number(question.numeric_tolerance) || 0,
+      isCorrect: grade ? grade.isCorrect : null,
+      score: grade ? grade.score : null,
+      marks: grade ? marksFor(scheme, grade.score) : 0,
+      markedForReview: response?.markedForReview || false,
+      timeSpentSeconds: response?.timeSpentSeconds || 0,
+      explanation: question.explanation
+    };
+  }).filter(item => item !== null);
+
+  const timeTakenSeconds = attempt.submitted_at
+    ? Math.max(Math.round((new Date(attempt.submitted_at).getTime() - new Date(attempt.started_at).getTime()) / 1000), 0)
+    : null;
+
+  return {
+    id: attempt.id,
+    mockTestId: attempt.mock_test_id,
+    title: labels.title,
+    status: attempt.status,
+    sections: labels.sections,
+    startedAt: attempt.started_at,
+    deadlineAt: attempt.deadline_at,
+    submittedAt: attempt.submitted_at,
+    autoSubmitted: attempt.auto_submitted,
+    timeTakenSeconds,
+    scheme,
+    score: attempt.score,
+    marks: attempt.marks,
+    maxMarks: attempt.max_marks,
+    totalQuestions: attempt.questions.length,
+    sectionResults: (attempt.section_results || []).map((result, index) => ({
+      ...result,
+      subjectName: labels.sections[index]?.subjectName || null
+    })),
+    questions: items
+  };
+}
+
+// GET - A sitting: its questions and clock while in progress, its report once submitted.
+// A sitting past its deadline is submitted with the answers saved so far.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ attemptId: string }> }
+) {
+  const { attemptId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const context = await getStudentAttempt(supabase, attemptId);
+    if ('response' in context) return context.response;
+    let { attempt } = context;
+
+    if (attempt.status === 'in_progress' && isPastDeadline(attempt, new Date(), DEADLINE_GRACE_SECONDS)) {
+      await finalizeMockAttempt(attempt, { auto: true });
+      const reloaded = await getStudentAttempt(supabase, attemptId);
+      if ('response' in reloaded) return reloaded.response;
+      attempt = reloaded.attempt;
+    }
+
+    const payload = attempt.status === 'submitted'
+      ? await reportPayload(supabase, attempt)
+      : await inProgressPayload(supabase, attempt);
+
+    if ('error' in payload) {
+      if (isDev) {
+        console.error('❌ Error fetching mock test questions:', payload.error);
+      }
+      return NextResponse.json({ error: 'Failed to fetch questions' }, { status: 500 });
+    }
+
+    return NextResponse.json(payload);
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in mock test attempt GET:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Autosave responses, review marks and time spent
+// Body: { responses: [{ questionId, selectedOption?, markedForReview?, timeSpentSeconds? }] }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ attemptId: string }> }
+) {
+  const { attemptId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    if (!Array.isArray(body?.responses)) {
+      return NextResponse.json({ error: 'Invalid autosave format' }, { status: 400 });
+    }
+
+    const context = await getStudentAttempt(supabase, attemptId);
+    if ('response' in context) return context.response;
+    const { attempt } = context;
+
+    if (attempt.status !== 'in_progress') {
+      return NextResponse.json({ error: 'This mock test has already been submitted' }, { status: 400 });
+    }
+
+    if (isPastDeadline(attempt, new Date(), DEADLINE_GRACE_SECONDS)) {
+      await finalizeMockAttempt(attempt, { auto: true });
+      return NextResponse.json({ error: 'Time is up', details: 'The test was submitted with your saved answers' }, { status: 409 });
+    }
+
+    const formats = await loadAnswerFormats(supabase, attempt.questions);
+    if ('error' in formats) {
+      if (isDev) {
+        console.error('❌ Mock test autosave question lookup error:', formats.error);
+      }
+      return NextResponse.json({ error: 'Failed to save progress' }, { status: 500 });
+    }
+
+    const merged = mergeMockResponses(attempt.responses, body.responses, attempt.questions, formats);
+    if ('error' in merged) {
+      return NextResponse.json({ error: merged.error }, { status: 400 });
+    }
+
+    const { error: saveError } = await getServiceRoleClient()
+      .from('mock_test_attempts')
+      .update({ responses: merged.responses })
+      .eq('id', attempt.id)
+      .eq('status', 'in_progress');
+
+    if (saveError) {
+      if (isDev) {
+        console.error('❌ Mock test autosave error:', saveError);
+      }
+      return NextResponse.json({ error: 'Failed to save progress' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      responses: merged.responses,
+      deadlineAt: attempt.deadline_at,
+      serverNow: new Date().toISOString()
+    });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in mock test attempt PATCH:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Submit the sitting. Responses in the body are saved first unless the
+// deadline (plus grace) has passed; a submission after the deadline counts as automatic.
+// Body: { responses?: [...] } as for PATCH
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ attemptId: string }> }
+) {
+  const { attemptId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      body = {};
+    }
+    const updates = body?.responses ?? [];
+
+    if (!Array.isArray(updates)) {
+      return NextResponse.json({ error: 'Invalid submission format' }, { status: 400 });
+    }
+
+    const context = await getStudentAttempt(supabase, attemptId);
+    if ('response' in context) return context.response;
+    const { attempt } = context;
+
+    if (attempt.status !== 'in_progress') {
+      return NextResponse.json({ error: 'This mock test has already been submitted' }, { status: 400 });
+    }
+
+    const now = new Date();
+    const closed = isPastDeadline(attempt, now, DEADLINE_GRACE_SECONDS);
+    let responses = attempt.responses;
+
+    if (!closed && updates.length > 0) {
+      const formats = await loadAnswerFormats(supabase, attempt.questions);
+      if ('error' in formats) {
+        if (isDev) {
+          console.error('❌ Mock test submission question lookup error:', formats.error);
+        }
+        return NextResponse.json({ error: 'Failed to grade mock test' }, { status: 500 });
+      }
+
+      const merged = mergeMockResponses(attempt.responses, updates, attempt.questions, formats, now);
+      if ('error' in merged) {
+        return NextResponse.json({ error: merged.error }, { status: 400 });
+      }
+
+      const { error: saveError } = await getServiceRoleClient()
+        .from('mock_test_attempts')
+        .update({ responses: merged.responses })
+        .eq('id', attempt.id)
+        .eq('status', 'in_progress');
+
+      if (saveError) {
+        if (isDev) {
+          console.error('❌ Mock test save before submit error:', saveError);
+        }
+        return NextResponse.json({ error: 'Failed to save answers' }, { status: 500 });
+      }
+      responses = merged.responses;
+    }
+
+    const result = await finalizeMockAttempt(
+      { ...attempt, responses },
+      { auto: isPastDeadline(attempt, now) }
+    );
+
+    if (!result) {
+      return NextResponse.json({ error: 'Failed to grade mock test' }, { status: 500 });
+    }
+
+    if ('alreadySubmitted' in result) {
+      return NextResponse.json({ error: 'This mock test has already been submitted' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      id: attempt.id,
+      status: 'submitted',
+      ...result
+    });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in mock test attempt POST:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
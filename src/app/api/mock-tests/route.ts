@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  MOCK_TEST_COLUMNS,
+  MockTestRow,
+  buildMockTestRow,
+  finalizeExpiredMockAttempts,
+  toMockTest,
+  totalQuestionCount,
+  validateMockTestInput
+} from '@/lib/mock-tests';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Returns the error response for signed-out callers, or the caller's ID and role
+async function getCaller(supabase: SupabaseClient): Promise<NextResponse | { id: string; role: string }> {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  return userData;
+}
+
+// Subject names of the sections, for display
+async function loadSubjectNames(supabase: SupabaseClient, rows: MockTestRow[]) {
+  const subjectIds = [...new Set(rows.flatMap(row => (row.sections || []).map(section => section.subjectId)))];
+  if (subjectIds.length === 0) return new Map<string, string>();
+
+  const { data } = await supabase
+    .from('subjects')
+    .select('id, name')
+    .in('id', subjectIds);
+
+  return new Map((data || []).map(subject => [subject.id, subject.name]));
+}
+
+// GET - Mock tests
+// QAUTHOR/SUPERADMIN get every template; students get published tests with their attempts.
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const caller = await getCaller(supabase);
+    if (caller instanceof NextResponse) return caller;
+
+    const isAuthor = caller.role === 'QAUTHOR' || caller.role === 'SUPERADMIN';
+    if (!isAuthor && caller.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    // Close out sittings whose time ran out before listing their results
+    if (!isAuthor) {
+      await finalizeExpiredMockAttempts(supabase, caller.id);
+    }
+
+    let query = supabase
+      .from('mock_tests')
+      .select(MOCK_TEST_COLUMNS)
+      .order('created_at', { ascending: false });
+    if (!isAuthor) {
+      query = query.eq('is_published', true);
+    }
+
+    const { data: rows, error } = await query;
+    if (error) {
+      if (isDev) {
+        console.error('❌ Error fetching mock tests:', error);
+      }
+      return NextResponse.json({ error: 'Failed to fetch mock tests' }, { status: 500 });
+    }
+
+    const testRows = (rows || []) as MockTestRow[];
+    const subjectNames = await loadSubjectNames(supabase, testRows);
+
+    // Students see their sittings of each test, newest first
+    const attemptsByTest = new Map<string, unknown[]>();
+    if (!isAuthor && testRows.length > 0) {
+      const { data: attempts, error: attemptsError } = await supabase
+        .from('mock_test_attempts')
+        .select('id, mock_test_id, status, started_at, deadline_at, submitted_at, auto_submitted, marks, max_marks')
+        .eq('studentid', caller.id)
+        .in('mock_test_id', testRows.map(row => row.id))
+        .order('started_at', { ascending: false });
+
+      if (attemptsError) {
+        if (isDev) {
+          console.error('❌ Error fetching mock test attempts:', attemptsError);
+        }
+        return NextResponse.json({ error: 'Failed to fetch mock test attempts' }, { status: 500 });
+      }
+
+      (attempts || []).forEach(attempt => {
+        const list = attemptsByTest.get(attempt.mock_test_id) || [];
+        list.push({
+          id: attempt.id,
+          status: attempt.status,
+          startedAt: attempt.started_at,
+          deadlineAt: attempt.deadline_at,
+          submittedAt: attempt.submitted_at,
+          autoSubmitted: attempt.auto_submitted,
+          marks: attempt.marks,
+          maxMarks: attempt.max_marks
+        });
+        attemptsByTest.set(attempt.mock_test_id, list);
+      });
+    }
+
+    return NextResponse.json({
+      tests: testRows.map(row => ({
+        ...toMockTest(row),
+        sections: (row.sections || []).map(section => ({
+          ...section,
+          subjectName: subjectNames.get(section.subjectId) || null
+        })),
+        totalQuestions: totalQuestionCount(row.sections || []),
+        ...(isAuthor ? {} : { attempts: attemptsByTest.get(row.id) || [] })
+      }))
+    });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in mock tests GET:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create a mock test template - QAUTHOR/SUPERADMIN only
+// Body: { title, description?, examCategory, durationMinutes, sections: MockTestSection[],
+//         correctMarks?, incorrectMarks?, isPublished? }
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const caller = await getCaller(supabase);
+    if (caller instanceof NextResponse) return caller;
+
+    if (caller.role !== 'QAUTHOR' && caller.role !== 'SUPERADMIN') {
+      return NextResponse.json({ error: 'Access denied. QAUTHOR or SUPERADMIN role required.' }, { status: 403 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    const errors = validateMockTestInput(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const row = buildMockTestRow(body);
+    const subjectIds = [...new Set(row.sections.map(section => section.subjectId))];
+    const { data: subjects, error: subjectsError } = await supabase
+      .from('subjects')
+      .select('id')
+      .in('id', subjectIds);
+
+    if (subjectsError || (subjects || []).length !== subjectIds.length) {
+      return NextResponse.json({ error: 'Every section must use an existing subject' }, { status: 400 });
+    }
+
+    const { data: created, error } = await supabase
+      .from('mock_tests')
+      .insert({ ...row, created_by: caller.id })
+      .select(MOCK_TEST_COLUMNS)
+      .single();
+
+    if (error || !created) {
+      if (isDev) {
+        console.error('❌ Error creating mock test:', error);
+      }
+      return NextResponse.json({ error: 'Failed to create mock test' }, { status: 500 });
+    }
+
+    return NextResponse.json(toMockTest(created as MockTestRow), { status: 201 });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in mock tests POST:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
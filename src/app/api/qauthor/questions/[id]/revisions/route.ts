@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { QuestionSnapshot } from '@/lib/question-revisions';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// GET - Revision history of one of the author's questions, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: questionId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'QAUTHOR') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs can view question revisions.' }, { status: 403 });
+    }
+
+    const { data: question, error: questionError } = await supabase
+      .from('questions')
+      .select('id, created_by')
+      .eq('id', questionId)
+      .single();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    if (question.created_by !== userData.id) {
+      return NextResponse.json({ error: 'Access denied. You can only view revisions of your own questions.' }, { status: 403 });
+    }
+
+    const { data: revisions, error: revisionsError } = await supabase
+      .from('question_revisions')
+      .select('id, revision_number, action, snapshot, changes, rollback_to, regraded_attempts, edited_by, created_at')
+      .eq('question_id', questionId)
+      .order('revision_number', { ascending: false });
+
+    if (revisionsError) {
+      if (isDev) {
+        console.error('❌ Error fetching question revisions:', revisionsError);
+      }
+      return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 });
+    }
+
+    // Names of every subject, chapter and topic a revision refers to, so placement
+    // changes read as names
+    const subjectIds = new Set<string>();
+    const topicIds = new Set<string>();
+    (revisions || []).forEach(revision => {
+      const snapshot = revision.snapshot as QuestionSnapshot;
+      if (typeof snapshot?.subject_id === 'string') subjectIds.add(snapshot.subject_id);
+      if (typeof snapshot?.chapter_id === 'string') topicIds.add(snapshot.chapter_id);
+      if (typeof snapshot?.topic_id === 'string') topicIds.add(snapshot.topic_id);
+    });
+    const { data: subjects } = subjectIds.size > 0
+      ? await supabase.from('subjects').select('id, name').in('id', [...subjectIds])
+      : { data: [] };
+    const { data: topics } = topicIds.size > 0
+      ? await supabase.from('topics').select('id, name').in('id', [...topicIds])
+      : { data: [] };
+
+    const editorIds = [...new Set((revisions || []).map(revision => revision.edited_by).filter(Boolean))];
+    const { data: editors } = editorIds.length > 0
+      ? await supabase.from('users').select('id, email').in('id', editorIds)
+      : { data: [] };
+    const emails = new Map((editors || []).map(editor => [editor.id, editor.email]));
+
+    return NextResponse.json({
+      questionId,
+      currentRevision: revisions?.[0]?.revision_number ?? null,
+      subjects: Object.fromEntries((subjects || []).map(subject => [subject.id, subject.name])),
+      topics: Object.fromEntries((topics || []).map(topic => [topic.id, topic.name])),
+      revisions: (revisions || []).map(revision => ({
+        id: revision.id,
+        revisionNumber: revision.revision_number,
+        action: revision.action,
+        snapshot: revision.snapshot,
+        changes: revision.changes || {},
+        rollbackTo: revision.rollback_to,
+        regradedAttempts: revision.regraded_attempts,
+        editorEmail: emails.get(revision.edited_by) || null,
+        createdAt: revision.created_at
+      }))
+    });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error fetching question revisions:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
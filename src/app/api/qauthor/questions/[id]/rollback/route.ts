@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { QuestionSnapshot, toQuestionSnapshot, updateQuestionWithRevision } from '@/lib/question-revisions';
+import { checkQuestionPlacement } from '@/lib/topics';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// POST - Restore one of the author's questions to an earlier revision. The rollback
+// is itself recorded as a new revision, so it can be undone the same way.
+// Body: { revisionNumber: number, regradeAttempts?: boolean }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: questionId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, email, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'QAUTHOR') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs can roll back questions.' }, { status: 403 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    const { revisionNumber, regradeAttempts = false } = body as {
+      revisionNumber: unknown;
+      regradeAttempts?: boolean;
+    };
+
+    if (!Number.isInteger(revisionNumber)) {
+      return NextResponse.json({ error: 'revisionNumber is required' }, { status: 400 });
+    }
+
+    // Read with the service role client for the answer key; ownership is checked below
+    const { data: question, error: questionError } = await getServiceRoleClient()
+      .from('questions')
+      .select('id, created_by, title, content, option_a, option_b, option_c, option_d, correct_option, question_type, type_data, numeric_tolerance, explanation, difficulty, exam_category, subject_id, chapter_id, topic_id, tags, year, source, status')
+      .eq('id', questionId)
+      .single();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    if (question.created_by !== userData.id) {
+      return NextResponse.json({ error: 'Access denied. You can only roll back your own questions.' }, { status: 403 });
+    }
+
+    const { data: revision, error: revisionError } = await supabase
+      .from('question_revisions')
+      .select('revision_number, snapshot')
+      .eq('question_id', questionId)
+      .eq('revision_number', revisionNumber)
+      .maybeSingle();
+
+    if (revisionError || !revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    const restored = toQuestionSnapshot(revision.snapshot as QuestionSnapshot);
+
+    // The subject may have been deleted since the revision was saved
+    if (restored.subject_id) {
+      const { data: subjectCheck } = await supabase
+        .from('subjects')
+        .select('id')
+        .eq('id', restored.subject_id)
+        .maybeSingle();
+
+      if (!subjectCheck) {
+        return NextResponse.json({
+          error: 'Cannot restore this revision',
+          details: 'Its subject no longer exists'
+        }, { status: 409 });
+      }
+    }
+
+    // Chapters and topics deleted since then are dropped rather than blocking the rollback
+    if (restored.chapter_id || restored.topic_id) {
+      const placement = await checkQuestionPlacement(
+        supabase,
+        restored.subject_id as string,
+        restored.chapter_id as string | null,
+        restored.topic_id as string | null
+      );
+      restored.chapter_id = 'error' in placement ? null : placement.chapterId;
+      restored.topic_id = 'error' in placement ? null : placement.topicId;
+    }
+
+    const result = await updateQuestionWithRevision(supabase, {
+      questionId,
+      before: toQuestionSnapshot(question),
+      after: restored,
+      editedBy: userData.id,
+      action: 'rollback',
+      rollbackTo: revision.revision_number,
+      regradeOnApproval: regradeAttempts === true
+    });
+
+    if ('error' in result) {
+      if (isDev) {
+        console.error('❌ Error rolling back question:', result.error);
+      }
+      return NextResponse.json({ error: 'Failed to roll back question', details: result.error }, { status: 500 });
+    }
+
+    if (isDev) {
+      console.log('✅ Question rolled back:', questionId, 'to revision', revision.revision_number, 'by', userData.email);
+    }
+
+    return NextResponse.json({
+      message: `Question restored to revision ${revision.revision_number}`,
+      question: result.question,
+      revisionNumber: result.revisionNumber,
+      regradePending: result.regradePending,
+      // Changing a published question sends it back to review (migration 13)
+      sentBackToReview: question.status === PUBLISHED_STATUS && result.question.status !== PUBLISHED_STATUS
+    });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error rolling back question:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
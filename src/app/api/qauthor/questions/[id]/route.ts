@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { toQuestionSnapshot, updateQuestionWithRevision } from '@/lib/question-revisions';
+import { checkQuestionPlacement } from '@/lib/topics';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+import { buildQuestionRow, validateQuestionInput } from '@/lib/question-validation';
 
 // Only log in development
 const isDev = process.env.NODE_ENV === 'development';
 
-// PUT - Update a specific question (QAUTHOR can only update their own questions)
+// PUT - Update a specific question (QAUTHOR can only update their own questions).
+// Every change is stored as a revision; set regradeAttempts to regrade existing
+// student attempts once a changed answer key is approved. A changed published
+// question goes back to review.
 export async function PUT(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -24,17 +32,13 @@ export async function PUT(
     const {
       title,
       content,
-      optionA,
-      optionB,
-      optionC,
-      optionD,
-      correctAnswer,
-      explanation,
       difficulty,
       subject,
       examCategory,
       year,
-      source
+      chapter,
+      topic,
+      regradeAttempts = false
     } = body;
 
     if (isDev) {
@@ -47,12 +51,13 @@ export async function PUT(
       });
     }
 
-    // Validate required fields
-    if (!title || !content || !optionA || !optionB || !optionC || !optionD || !correctAnswer || !explanation || !difficulty || !subject || !examCategory) {
+    // Same rules as question creation, including the type-specific ones
+    const validationErrors = validateQuestionInput(body);
+    if (validationErrors.length > 0) {
       if (isDev) {
-        console.log('❌ Missing required fields');
+        console.log('❌ Validation errors:', validationErrors);
       }
-      return NextResponse.json({ error: 'All fields are required' }, { status: 400 });
+      return NextResponse.json({ error: validationErrors.join(', ') }, { status: 400 });
     }
 
     // Check authentication
@@ -94,10 +99,11 @@ export async function PUT(
       console.log('✅ QAUTHOR access confirmed');
     }
 
-    // Check if question exists and belongs to this user
-    const { data: questionCheck, error: questionError } = await supabase
+    // Check if question exists and belongs to this user - the answer key is only
+    // selectable with the service role client
+    const { data: questionCheck, error: questionError } = await getServiceRoleClient()
       .from('questions')
-      .select('id, title, created_by')
+      .select('id, title, created_by, content, option_a, option_b, option_c, option_d, correct_option, question_type, type_data, numeric_tolerance, explanation, difficulty, exam_category, subject_id, chapter_id, topic_id, tags, year, source, status')
       .eq('id', questionId)
       .single();
 
@@ -134,61 +140,46 @@ export async function PUT(
       return NextResponse.json({ error: 'Selected subject does not exist' }, { status: 400 });
     }
 
-    // Update the question
-    const { data: updatedQuestion, error: updateError } = await supabase
-      .from('questions')
-      .update({
-        title,
-        content,
-        option_a: optionA,
-        option_b: optionB,
-        option_c: optionC,
-        option_d: optionD,
-        correct_option: correctAnswer,
-        explanation,
-        difficulty,
-        subject_id: subject,
-        exam_category: examCategory,
-        year: year || null,
-        source: source || null,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', questionId)
-      .eq('created_by', userData.id) // Double-check ownership
-      .select(`
-        id,
-        title,
-        content,
-        option_a,
-        option_b,
-        option_c,
-        option_d,
-        correct_option,
-        explanation,
-        difficulty,
-        exam_category,
-        year,
-        source,
-        created_at,
-        updated_at,
-        subjects (
-          id,
-          name
-        )
-      `)
-      .single();
+    // Chapter and topic must belong to the subject
+    const placement = await checkQuestionPlacement(supabase, subject, chapter, topic);
+    if ('error' in placement) {
+      return NextResponse.json({ error: placement.error }, { status: 400 });
+    }
 
-    if (updateError) {
-      throw updateError;
+    // Update the question and record the revision
+    const result = await updateQuestionWithRevision(supabase, {
+      questionId,
+      before: toQuestionSnapshot(questionCheck),
+      // Only the snapshot fields of the built row are written
+      after: toQuestionSnapshot(buildQuestionRow({
+        ...body,
+        chapter: placement.chapterId,
+        topic: placement.topicId,
+        year: year ? Number(year) : null
+      }, userData.id)),
+      editedBy: userData.id,
+      action: 'edit',
+      regradeOnApproval: regradeAttempts === true
+    });
+
+    if ('error' in result) {
+      throw new Error(result.error);
     }
 
     if (isDev) {
-      console.log('✅ Question updated successfully:', questionId);
+      console.log('✅ Question updated successfully:', questionId, {
+        revision: result.revisionNumber,
+        regradePending: result.regradePending
+      });
     }
 
     return NextResponse.json({ 
       message: 'Question updated successfully',
-      question: updatedQuestion
+      question: result.question,
+      revisionNumber: result.revisionNumber,
+      regradePending: result.regradePending,
+      // Changing a published question sends it back to review (migration 13)
+      sentBackToReview: questionCheck.status === PUBLISHED_STATUS && result.question.status !== PUBLISHED_STATUS
     });
 
   } catch (error) {
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { buildQuestionExport, fetchExportQuestions, parseExportRequest } from '@/lib/question-export';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// GET - Export the authenticated QAUTHOR's questions
+// Query: format (csv | json | html), subject, difficulty, examCategory, year
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Get user data from database
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, email, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Check if user is QAUTHOR
+    if (userData.role !== 'QAUTHOR') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs can access this endpoint.' }, { status: 403 });
+    }
+
+    const request = parseExportRequest(new URL(req.url).searchParams);
+    if ('error' in request) {
+      return NextResponse.json({ error: 'Invalid export request', details: request.error }, { status: 400 });
+    }
+
+    // Exports carry the answer key, which only the service role client can select
+    const result = await fetchExportQuestions(getServiceRoleClient(), request.filters, userData.id);
+    if ('error' in result) {
+      if (isDev) {
+        console.error('❌ Error fetching questions for export:', result.error);
+      }
+      return NextResponse.json({ error: 'Failed to fetch questions' }, { status: 500 });
+    }
+
+    const file = buildQuestionExport(request.format, result.questions, request.filters);
+
+    // The printable worksheet opens in the browser; data formats download
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${request.format === 'html' ? 'inline' : 'attachment'}; filename="${file.filename}"`
+      }
+    });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error exporting QAUTHOR questions:', error);
+    }
+    return NextResponse.json(
+      { error: 'Failed to export questions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,282 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { MAX_IMPORT_ROWS, QuestionFileFormat, parseQuestionFile, toQuestionInput } from '@/lib/question-import';
+import { TOPIC_COLUMNS, TopicRow, resolvePlacement } from '@/lib/topics';
+import { QuestionInput, buildQuestionRow, validateQuestionInput } from '@/lib/question-validation';
+import { toQuestionSnapshot } from '@/lib/question-revisions';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Existing hashes are looked up in chunks to keep the request URL short
+const HASH_LOOKUP_CHUNK_SIZE = 200;
+
+interface ImportRowReport {
+  row: number; // 1-based position of the question in the file
+  title: string;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+}
+
+// POST - Validate a CSV/JSON question file and, when commit is true, insert every
+// valid row in one batch. Imported questions are drafts unless submitForReview is set.
+// Body: { format: 'csv' | 'json', data: string, commit?: boolean, submitForReview?: boolean }
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Get user data from database
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, email, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Check if user is QAUTHOR
+    if (userData.role !== 'QAUTHOR') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs can import questions.' }, { status: 403 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    const { format, data, commit = false, submitForReview = false } = body as {
+      format: QuestionFileFormat;
+      data: unknown;
+      commit?: boolean;
+      submitForReview?: boolean;
+    };
+
+    if ((format !== 'csv' && format !== 'json') || typeof data !== 'string') {
+      return NextResponse.json({
+        error: 'Invalid import request',
+        details: 'format must be csv or json and data must be the file contents'
+      }, { status: 400 });
+    }
+
+    const parsed = parseQuestionFile(format, data);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: 'Invalid import file', details: parsed.error }, { status: 400 });
+    }
+
+    if (parsed.rows.length === 0) {
+      return NextResponse.json({ error: 'Invalid import file', details: 'The file contains no questions' }, { status: 400 });
+    }
+
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({
+        error: 'Import too large',
+        details: `A file can contain at most ${MAX_IMPORT_ROWS} questions`
+      }, { status: 400 });
+    }
+
+    const { data: subjects, error: subjectsError } = await supabase
+      .from('subjects')
+      .select('id, name');
+
+    if (subjectsError) {
+      if (isDev) {
+        console.error('❌ Error fetching subjects for import:', subjectsError);
+      }
+      return NextResponse.json({ error: 'Failed to load subjects' }, { status: 500 });
+    }
+
+    const { data: topics, error: topicsError } = await supabase
+      .from('topics')
+      .select(TOPIC_COLUMNS);
+
+    if (topicsError) {
+      if (isDev) {
+        console.error('❌ Error fetching topics for import:', topicsError);
+      }
+      return NextResponse.json({ error: 'Failed to load topics' }, { status: 500 });
+    }
+
+    const subjectIds = new Set((subjects || []).map(subject => subject.id));
+    const topicRows = (topics || []) as TopicRow[];
+
+    // Validate every row with the create-path rules
+    const candidates = parsed.rows.map((row, index) => {
+      const input = toQuestionInput(row, subjects || [], topicRows);
+      const errors = validateQuestionInput(input);
+      if (typeof input.subject === 'string' && input.subject && !subjectIds.has(input.subject)) {
+        errors.push(`Subject "${input.subject}" does not exist`);
+      } else if (typeof input.subject === 'string' && input.subject) {
+        const placement = resolvePlacement(topicRows, input.subject, input.chapter as string | null, input.topic as string | null);
+        if ('error' in placement) {
+          errors.push(placement.error);
+        } else {
+          input.chapter = placement.chapterId;
+          input.topic = placement.topicId;
+        }
+      }
+      return {
+        report: {
+          row: index + 1,
+          title: typeof input.title === 'string' ? input.title.trim() : '',
+          status: errors.length > 0 ? 'invalid' : 'valid',
+          errors
+        } as ImportRowReport,
+        questionRow: errors.length > 0
+          ? null
+          : buildQuestionRow(input as QuestionInput, userData.id, submitForReview ? 'in_review' : 'draft')
+      };
+    });
+
+    // Duplicates of questions already in the bank, or of an earlier row in the file.
+    // Hashes are matched across every author's questions, which the importer's
+    // client cannot all see, so only IDs and hashes are read with the service role.
+    const hashes = candidates
+      .map(candidate => candidate.questionRow?.questionhash)
+      .filter((hash): hash is string => !!hash);
+    const existingHashes = new Set<string>();
+
+    for (let i = 0; i < hashes.length; i += HASH_LOOKUP_CHUNK_SIZE) {
+      const { data: existing, error: existingError } = await getServiceRoleClient()
+        .from('questions')
+        .select('id, questionhash')
+        .in('questionhash', hashes.slice(i, i + HASH_LOOKUP_CHUNK_SIZE));
+
+      if (existingError) {
+        if (isDev) {
+          console.error('❌ Error checking for duplicate questions:', existingError);
+        }
+        return NextResponse.json({ error: 'Failed to check for duplicate questions' }, { status: 500 });
+      }
+
+      (existing || []).forEach(question => existingHashes.add(question.questionhash));
+    }
+
+    const firstRowByHash = new Map<string, number>();
+    for (const candidate of candidates) {
+      const hash = candidate.questionRow?.questionhash;
+      if (!hash) continue;
+
+      if (existingHashes.has(hash)) {
+        candidate.report.status = 'duplicate';
+        candidate.report.errors.push('An identical question already exists');
+      } else if (firstRowByHash.has(hash)) {
+        candidate.report.status = 'duplicate';
+        candidate.report.errors.push(`Duplicate of row ${firstRowByHash.get(hash)} in this file`);
+      } else {
+        firstRowByHash.set(hash, candidate.report.row);
+      }
+    }
+
+    const validRows = candidates
+      .filter(candidate => candidate.report.status === 'valid')
+      .map(candidate => candidate.questionRow!);
+
+    const summary = {
+      totalRows: candidates.length,
+      validRows: validRows.length,
+      invalidRows: candidates.filter(candidate => candidate.report.status === 'invalid').length,
+      duplicateRows: candidates.filter(candidate => candidate.report.status === 'duplicate').length
+    };
+    const rows = candidates.map(candidate => candidate.report);
+
+    if (!commit || validRows.length === 0) {
+      return NextResponse.json({ ...summary, rows, committed: false, insertedCount: 0 });
+    }
+
+    // A single insert statement, so either every valid row is imported or none is
+    const { data: insertedIds, error: insertError } = await supabase
+      .from('questions')
+      .insert(validRows)
+      .select('id');
+
+    if (insertError) {
+      if (isDev) {
+        console.error('❌ Bulk import insert error:', insertError);
+      }
+      return NextResponse.json({
+        error: 'Failed to import questions',
+        details: insertError.message
+      }, { status: 500 });
+    }
+
+    // Snapshots include the answer key, which only the service role client can select
+    const { data: inserted, error: fetchError } = await getServiceRoleClient()
+      .from('questions')
+      .select('*')
+      .in('id', (insertedIds || []).map(row => row.id));
+
+    if (fetchError && isDev) {
+      console.error('❌ Error reading imported questions back:', fetchError);
+    }
+
+    // Revision 1 of every imported question is its imported content
+    if (inserted && inserted.length > 0) {
+      const { error: revisionError } = await supabase
+        .from('question_revisions')
+        .insert(inserted.map(question => ({
+          question_id: question.id,
+          revision_number: 1,
+          action: 'create',
+          snapshot: toQuestionSnapshot(question),
+          changes: {},
+          edited_by: userData.id
+        })));
+
+      if (revisionError && isDev) {
+        console.error('❌ Error recording revisions for import:', revisionError);
+      }
+    }
+
+    if (submitForReview && insertedIds && insertedIds.length > 0) {
+      const { error: reviewError } = await supabase
+        .from('question_reviews')
+        .insert(insertedIds.map(question => ({
+          question_id: question.id,
+          reviewer_id: userData.id,
+          action: 'submit',
+          from_status: 'draft',
+          to_status: 'in_review',
+          comment: null
+        })));
+
+      if (reviewError && isDev) {
+        console.error('❌ Error recording review submissions for import:', reviewError);
+      }
+    }
+
+    if (isDev) {
+      console.log('✅ Imported questions:', insertedIds?.length || 0, 'by', userData.email);
+    }
+
+    return NextResponse.json({
+      ...summary,
+      rows,
+      committed: true,
+      insertedCount: insertedIds?.length || 0
+    }, { status: 201 });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error in question import:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
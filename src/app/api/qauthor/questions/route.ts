@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { buildQuestionAnalytics, QuestionStatsRow } from '@/lib/question-analytics';
+import { getServiceRoleClient } from '@/lib/supabase-server';
 
 // Only log in development
 const isDev = process.env.NODE_ENV === 'development';
@@ -54,7 +56,8 @@ export async function GET(req: NextRequest) {
     }
 
     // Fetch questions created by this QAUTHOR - Fixed PostgREST syntax
-    const { data: questions, error: questionsError } = await supabase
+    // Answer keys are only selectable with the service role client
+    const { data: questions, error: questionsError } = await getServiceRoleClient()
       .from('questions')
       .select(`
         id,
@@ -65,16 +68,32 @@ export async function GET(req: NextRequest) {
         option_c,
         option_d,
         correct_answer,
+        correct_option,
+        question_type,
+        type_data,
+        numeric_tolerance,
         explanation,
         difficulty,
         exam_category,
         year,
         source,
+        chapter_id,
+        topic_id,
+        tags,
+        status,
+        open_report_count,
+        status_updated_at,
         created_at,
         updated_at,
         subjects!subject_id(
           id,
           name
+        ),
+        question_stats (
+          total_attempts,
+          unique_students,
+          correct_attempts,
+          option_counts
         )
       `)
       .eq('created_by', userData.id)
@@ -93,7 +112,13 @@ export async function GET(req: NextRequest) {
 
     // Return in the format expected by QuestionManager component
     return NextResponse.json({
-      questions: questions || []
+      questions: (questions || []).map(({ question_stats, ...question }) => ({
+        ...question,
+        analytics: buildQuestionAnalytics(
+          question,
+          (Array.isArray(question_stats) ? question_stats[0] : question_stats) as QuestionStatsRow | null
+        )
+      }))
     });
 
   } catch (error) {
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { REPORT_COLUMNS, ReportRow, buildTriageUpdate, toQuestionReport } from '@/lib/question-reports';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// PATCH - Triage a report on one of the caller's questions; SUPERADMIN may triage any report
+// Body: { status: 'open' | 'acknowledged' | 'resolved' | 'dismissed', resolutionNote?: string | null }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: reportId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'QAUTHOR' && userData.role !== 'SUPERADMIN') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs and SUPERADMINs can triage reports.' }, { status: 403 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    const update = buildTriageUpdate(body, userData.id);
+    if ('error' in update) {
+      return NextResponse.json({ error: update.error }, { status: 400 });
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('question_reports')
+      .select('id, questions!inner (created_by)')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (existingError || !existing) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const question = (Array.isArray(existing.questions) ? existing.questions[0] : existing.questions) as { created_by: string | null };
+    if (userData.role !== 'SUPERADMIN' && question.created_by !== userData.id) {
+      return NextResponse.json({ error: 'Access denied. You can only triage reports on your own questions.' }, { status: 403 });
+    }
+
+    const { data: report, error } = await supabase
+      .from('question_reports')
+      .update(update)
+      .eq('id', reportId)
+      .select(REPORT_COLUMNS)
+      .single();
+
+    if (error || !report) {
+      // Reopening a report when the student has since filed another one
+      if (error?.code === '23505') {
+        return NextResponse.json({
+          error: 'The student already has another unresolved report on this question'
+        }, { status: 409 });
+      }
+      if (isDev) {
+        console.error('❌ Error updating question report:', error);
+      }
+      return NextResponse.json({ error: 'Failed to update report' }, { status: 500 });
+    }
+
+    return NextResponse.json(toQuestionReport(report as ReportRow));
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in question report PATCH:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { QuestionReportStatus } from '@/types';
+import {
+  REPORT_COLUMNS,
+  REPORT_STATUSES,
+  ReportRow,
+  UNRESOLVED_REPORT_STATUSES,
+  toQuestionReport
+} from '@/lib/question-reports';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// GET - Report inbox: reports on the QAUTHOR's own questions, newest first
+// Query: status? - one of the report statuses, or 'unresolved' (the default) for open and acknowledged
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'QAUTHOR') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs have a report inbox.' }, { status: 403 });
+    }
+
+    const url = new URL(req.url);
+    const statusFilter = url.searchParams.get('status') || 'unresolved';
+    if (statusFilter !== 'unresolved' && !REPORT_STATUSES.includes(statusFilter as QuestionReportStatus)) {
+      return NextResponse.json({
+        error: `status must be 'unresolved' or one of: ${REPORT_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const { data: rows, error } = await supabase
+      .from('question_reports')
+      .select(`
+        ${REPORT_COLUMNS},
+        questions!inner (
+          id,
+          title,
+          status,
+          created_by,
+          open_report_count,
+          subjects (
+            name
+          )
+        )
+      `)
+      .eq('questions.created_by', userData.id)
+      .in('status', statusFilter === 'unresolved' ? UNRESOLVED_REPORT_STATUSES : [statusFilter])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      if (isDev) {
+        console.error('❌ Error fetching question reports:', error);
+      }
+      return NextResponse.json({ error: 'Failed to fetch reports' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      reports: (rows || []).map(row => {
+        const question = (Array.isArray(row.questions) ? row.questions[0] : row.questions) as {
+          id: string;
+          title: string;
+          status: string;
+          open_report_count: number | null;
+          subjects?: { name: string } | { name: string }[] | null;
+        };
+        const subject = Array.isArray(question.subjects) ? question.subjects[0] : question.subjects;
+        return {
+          ...toQuestionReport(row as ReportRow),
+          question: {
+            id: question.id,
+            title: question.title,
+            status: question.status,
+            subjectName: subject?.name || null,
+            openReportCount: question.open_report_count || 0
+          }
+        };
+      })
+    });
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in question reports GET:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { contentTypeForKey, getImageStorage, isValidImageKey } from '@/lib/image-storage';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// GET - Serve an image stored by the local disk adapter. Any signed-in user may
+// read them (the middleware checks the session), as with the public Supabase bucket.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const { key } = await params;
+
+  try {
+    if (!isValidImageKey(key)) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    const data = await getImageStorage().read(key);
+    if (!data) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentTypeForKey(key),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error serving question image:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getImageStorage, storeQuestionImage } from '@/lib/image-storage';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// POST - Upload an image for question Markdown - QAUTHOR and SUPERADMIN
+// Body: multipart/form-data with a single "file" field
+// Returns the image URL and a Markdown snippet that embeds it
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'QAUTHOR' && userData.role !== 'SUPERADMIN') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs and SUPERADMINs can upload images.' }, { status: 403 });
+    }
+
+    let file: FormDataEntryValue | null;
+    try {
+      file = (await req.formData()).get('file');
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Expected multipart form data'
+      }, { status: 400 });
+    }
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'An image file is required' }, { status: 400 });
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const result = await storeQuestionImage(getImageStorage(), data, file.type);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Alt text defaults to the file name without its extension
+    const alt = file.name.replace(/\.[^.]*$/, '').replace(/[[\]]/g, '');
+
+    return NextResponse.json({
+      key: result.key,
+      url: result.url,
+      markdown: `![${alt}](${result.url})`
+    }, { status: 201 });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error uploading question image:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { PUBLISHED_STATUS, REVIEW_ACTIONS, ReviewAction, getReviewTransition, isReviewer } from '@/lib/question-review';
+import { applyPendingRegrade } from '@/lib/question-revisions';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { QuestionStatus } from '@/types';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+const MAX_COMMENT_LENGTH = 1000;
+
+// GET - Review status and comment history of a question
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: questionId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { data: question, error: questionError } = await supabase
+      .from('questions')
+      .select('id, title, status, created_by')
+      .eq('id', questionId)
+      .single();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    const actor = { role: userData.role, isAuthor: question.created_by === userData.id };
+    if (!actor.isAuthor && !isReviewer(actor)) {
+      return NextResponse.json({ error: 'Access denied. Only the author or a reviewer can view reviews.' }, { status: 403 });
+    }
+
+    const { data: reviews, error: reviewsError } = await supabase
+      .from('question_reviews')
+      .select('id, reviewer_id, action, from_status, to_status, comment, created_at')
+      .eq('question_id', questionId)
+      .order('created_at', { ascending: true });
+
+    if (reviewsError) {
+      if (isDev) {
+        console.error('❌ Error fetching question reviews:', reviewsError);
+      }
+      return NextResponse.json({ error: 'Failed to fetch reviews' }, { status: 500 });
+    }
+
+    // Reviewer emails where the users table lets us read them
+    const reviewerIds = [...new Set((reviews || []).map(review => review.reviewer_id))];
+    const { data: reviewers } = reviewerIds.length > 0
+      ? await supabase.from('users').select('id, email').in('id', reviewerIds)
+      : { data: [] };
+    const emails = new Map((reviewers || []).map(reviewer => [reviewer.id, reviewer.email]));
+
+    return NextResponse.json({
+      questionId: question.id,
+      status: question.status,
+      reviews: (reviews || []).map(review => ({
+        id: review.id,
+        action: review.action,
+        fromStatus: review.from_status,
+        toStatus: review.to_status,
+        comment: review.comment,
+        reviewerEmail: emails.get(review.reviewer_id) || null,
+        isAuthor: review.reviewer_id === question.created_by,
+        createdAt: review.created_at
+      }))
+    });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in question review GET:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Take a review action: submit, withdraw, approve, reject or comment
+// Body: { action, comment? } - a comment is required to reject
+// Approving a changed answer key regrades past attempts if the author asked for it
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: questionId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, email, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'QAUTHOR' && userData.role !== 'SUPERADMIN') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs and SUPERADMINs can review questions.' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const action = body.action as ReviewAction;
+    const comment = typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : null;
+
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return NextResponse.json({
+        error: 'Invalid review action',
+        details: `action must be one of ${REVIEW_ACTIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (comment && comment.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json({
+        error: 'Invalid comment',
+        details: `Comments cannot exceed ${MAX_COMMENT_LENGTH} characters`
+      }, { status: 400 });
+    }
+
+    const { data: question, error: questionError } = await supabase
+      .from('questions')
+      .select('id, status, created_by')
+      .eq('id', questionId)
+      .single();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    const currentStatus = question.status as QuestionStatus;
+    const transition = getReviewTransition(
+      action,
+      currentStatus,
+      { role: userData.role, isAuthor: question.created_by === userData.id },
+      comment
+    );
+
+    if ('error' in transition) {
+      const status = transition.reason === 'forbidden' ? 403 : transition.reason === 'invalid_state' ? 409 : 400;
+      return NextResponse.json({ error: transition.error }, { status });
+    }
+
+    if (transition.status !== currentStatus) {
+      // Guard on the current status so two reviewers cannot both decide
+      const now = new Date().toISOString();
+      const { data: updated, error: updateError } = await supabase
+        .from('questions')
+        .update({ status: transition.status, status_updated_at: now, updated_at: now })
+        .eq('id', questionId)
+        .eq('status', currentStatus)
+        .select('id');
+
+      if (updateError) {
+        if (isDev) {
+          console.error('❌ Error updating question status:', updateError);
+        }
+        return NextResponse.json({ error: 'Failed to update question status' }, { status: 500 });
+      }
+
+      if (!updated || updated.length === 0) {
+        return NextResponse.json({ error: 'Question status changed, please refresh and try again' }, { status: 409 });
+      }
+    }
+
+    const { error: reviewError } = await supabase
+      .from('question_reviews')
+      .insert({
+        question_id: questionId,
+        reviewer_id: userData.id,
+        action,
+        from_status: currentStatus,
+        to_status: transition.status,
+        comment
+      });
+
+    if (reviewError) {
+      console.error('❌ Error recording question review:', reviewError);
+      // A status change stands without its history entry; a lost comment is a failure
+      if (action === 'comment') {
+        return NextResponse.json({ error: 'Failed to save comment' }, { status: 500 });
+      }
+    }
+
+    // Attempts are regraded only once the new key is what students are graded against
+    const regrade = transition.status === PUBLISHED_STATUS && currentStatus !== PUBLISHED_STATUS
+      ? await applyPendingRegrade(getServiceRoleClient(), questionId)
+      : null;
+
+    if (regrade && 'error' in regrade) {
+      if (isDev) {
+        console.error('❌ Error regrading approved question:', regrade.error);
+      }
+      return NextResponse.json({ error: 'Question published but regrading failed' }, { status: 500 });
+    }
+
+    if (isDev) {
+      console.log(`✅ Question ${questionId}: ${action} by ${userData.email} (${currentStatus} -> ${transition.status})`);
+    }
+
+    return NextResponse.json({
+      questionId,
+      action,
+      status: transition.status,
+      regrade
+    });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in question review POST:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { QUESTION_STATUSES } from '@/lib/question-review';
+import { QuestionStatus } from '@/types';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// GET - Questions awaiting review, oldest submission first, with their latest comment.
+// QAUTHORs see their peers' questions only. Query: status (default in_review)
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'QAUTHOR' && userData.role !== 'SUPERADMIN') {
+      return NextResponse.json({ error: 'Access denied. Only QAUTHORs and SUPERADMINs can review questions.' }, { status: 403 });
+    }
+
+    const status = (new URL(req.url).searchParams.get('status') || 'in_review') as QuestionStatus;
+    if (!QUESTION_STATUSES.includes(status)) {
+      return NextResponse.json({
+        error: 'Invalid status',
+        details: `status must be one of ${QUESTION_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    // Reviewers need the answer key, which only the service role client can select
+    let query = getServiceRoleClient()
+      .from('questions')
+      .select(`
+        id,
+        title,
+        content,
+        option_a,
+        option_b,
+        option_c,
+        option_d,
+        correct_option,
+        question_type,
+        type_data,
+        numeric_tolerance,
+        explanation,
+        difficulty,
+        exam_category,
+        year,
+        source,
+        status,
+        status_updated_at,
+        created_by,
+        created_at,
+        subjects (
+          name
+        ),
+        users (
+          email
+        )
+      `)
+      .eq('status', status)
+      .order('status_updated_at', { ascending: true });
+
+    if (userData.role === 'QAUTHOR') {
+      query = query.neq('created_by', userData.id);
+    }
+
+    const { data: questions, error: questionsError } = await query;
+
+    if (questionsError) {
+      if (isDev) {
+        console.error('❌ Error fetching review queue:', questionsError);
+      }
+      return NextResponse.json({ error: 'Failed to fetch review queue' }, { status: 500 });
+    }
+
+    const questionIds = (questions || []).map(question => question.id);
+    const { data: reviews } = questionIds.length > 0
+      ? await supabase
+        .from('question_reviews')
+        .select('question_id, action, comment, created_at')
+        .in('question_id', questionIds)
+        .not('comment', 'is', null)
+        .order('created_at', { ascending: false })
+      : { data: [] };
+
+    // Newest comment per question, plus how many there are
+    const commentsByQuestion = new Map<string, { latest: string; count: number }>();
+    (reviews || []).forEach(review => {
+      const existing = commentsByQuestion.get(review.question_id);
+      if (existing) {
+        existing.count++;
+      } else {
+        commentsByQuestion.set(review.question_id, { latest: review.comment, count: 1 });
+      }
+    });
+
+    return NextResponse.json({
+      status,
+      questions: (questions || []).map(question => ({
+        ...question,
+        latestComment: commentsByQuestion.get(question.id)?.latest || null,
+        commentCount: commentsByQuestion.get(question.id)?.count || 0
+      })),
+      total: questions?.length || 0
+    });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Error in review queue API:', error);
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,17 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import { Question } from '@/types';
-import crypto from 'crypto';
+import { getQuestionClientForRole, getQuestionColumnsForRole } from '@/lib/question-projection';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { buildQuestionRow, generateQuestionHash, validateQuestionInput } from '@/lib/question-validation';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+import { saveQuestionRevision, toQuestionSnapshot } from '@/lib/question-revisions';
+import { checkQuestionPlacement, normalizeTags } from '@/lib/topics';
 
 // Only log in development
 const isDev = process.env.NODE_ENV === 'development';
 
-// Helper function to generate a unique hash for a question to prevent duplicates
-function generateQuestionHash(question: any): string {
-  const stringToHash = `${question.content}-${question.optionA}-${question.optionB}-${question.optionC}-${question.optionD}-${question.subject}`;
-  return crypto.createHash('md5').update(stringToHash).digest('hex');
-}
-
 // Enhanced error logging function - only log in development
 function logError(step: string, error: any, context?: any) {
   if (isDev) {
@@ -565,6 +564,10 @@ export async function GET(req: NextRequest) {
     // Parse URL parameters
     const url = new URL(req.url);
     const subjectId = url.searchParams.get('subject');
+    const chapterId = url.searchParams.get('chapter');
+    const topicId = url.searchParams.get('topic');
+    const tags = normalizeTags(url.searchParams.get('tags')) || [];
+    const difficulty = url.searchParams.get('difficulty');
     const limit = url.searchParams.get('limit');
     const health = url.searchParams.get('health');
     
@@ -627,24 +630,20 @@ export async function GET(req: NextRequest) {
         console.log('🎯 Fetching questions for subject:', subjectId);
       }
       
-      // Build query for subject-specific questions
-      let subjectQuery = supabase
+      // Build query for subject-specific questions - published questions only
+      // STUDENTs get the answer-free projection; QAUTHOR/SUPERADMIN keep full rows
+      let subjectQuery = getQuestionClientForRole(supabase, userData.role)
         .from('questions')
-        .select(`
-          id,
-          title,
-          content,
-          option_a,
-          option_b,
-          option_c,
-          option_d,
-          correct_option,
-          explanation,
-          difficulty,
-          subject_id
-        `)
+        .select(getQuestionColumnsForRole(userData.role))
         .eq('subject_id', subjectId)
+        .eq('status', PUBLISHED_STATUS)
         .order('created_at', { ascending: false });
+
+      // Taxonomy filters; tags match questions carrying all of them
+      if (chapterId) subjectQuery = subjectQuery.eq('chapter_id', chapterId);
+      if (topicId) subjectQuery = subjectQuery.eq('topic_id', topicId);
+      if (tags.length > 0) subjectQuery = subjectQuery.contains('tags', tags);
+      if (difficulty) subjectQuery = subjectQuery.eq('difficulty', difficulty);
         
       // Add limit if specified
       if (limit && !isNaN(parseInt(limit))) {
@@ -674,8 +673,8 @@ export async function GET(req: NextRequest) {
         console.log('✅ SUPERADMIN access confirmed - fetching all questions');
       }
 
-      // Fetch all questions with relations
-      const result = await supabase
+      // Fetch all questions with relations; answer keys need the service role client
+      let allQuery = getServiceRoleClient()
         .from('questions')
         .select(`
           *,
@@ -685,9 +684,22 @@ export async function GET(req: NextRequest) {
           ),
           users (
             email
+          ),
+          chapter:topics!chapter_id (
+            name
+          ),
+          topic:topics!topic_id (
+            name
           )
         `)
         .order('created_at', { ascending: false });
+
+      if (chapterId) allQuery = allQuery.eq('chapter_id', chapterId);
+      if (topicId) allQuery = allQuery.eq('topic_id', topicId);
+      if (tags.length > 0) allQuery = allQuery.contains('tags', tags);
+      if (difficulty) allQuery = allQuery.eq('difficulty', difficulty);
+
+      const result = await allQuery;
         
       questions = result.data;
       error = result.error;
@@ -763,10 +775,11 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
     
-    const { title, content, optionA, optionB, optionC, optionD, correctAnswer, explanation, subject, examCategory, difficulty, year, source } = body;
+    const { questionType, title, content, optionA, optionB, optionC, optionD, correctAnswer, subject, examCategory, difficulty, year, source } = body;
     
     if (isDev) {
       console.log('📝 Question data received:', {
+        questionType: questionType || 'single',
         title: title ? `"${title.substring(0, 30)}${title.length > 30 ? '...' : ''}"` : 'missing',
         content: content ? `"${content.substring(0, 50)}${content.length > 50 ? '...' : ''}"` : 'missing',
         optionA: optionA ? 'present' : 'missing',
@@ -783,71 +796,7 @@ export async function POST(req: NextRequest) {
     }
     
     // Enhanced validation per APPLICATION_SPECIFICATION.md
-    const validationErrors = [];
-    
-    // Required field validation
-    if (!title || title.trim().length === 0) {
-      validationErrors.push('Title is required');
-    } else if (title.length > 200) {
-      validationErrors.push('Title cannot exceed 200 characters');
-    }
-    
-    if (!content || content.trim().length === 0) {
-      validationErrors.push('Question content is required');
-    } else if (content.length > 2000) {
-      validationErrors.push('Question content cannot exceed 2000 characters');
-    }
-    
-    if (!optionA || optionA.trim().length === 0) {
-      validationErrors.push('Option A is required');
-    } else if (optionA.length > 500) {
-      validationErrors.push('Option A cannot exceed 500 characters');
-    }
-    
-    if (!optionB || optionB.trim().length === 0) {
-      validationErrors.push('Option B is required');
-    } else if (optionB.length > 500) {
-      validationErrors.push('Option B cannot exceed 500 characters');
-    }
-    
-    if (!optionC || optionC.trim().length === 0) {
-      validationErrors.push('Option C is required');
-    } else if (optionC.length > 500) {
-      validationErrors.push('Option C cannot exceed 500 characters');
-    }
-    
-    if (!optionD || optionD.trim().length === 0) {
-      validationErrors.push('Option D is required');
-    } else if (optionD.length > 500) {
-      validationErrors.push('Option D cannot exceed 500 characters');
-    }
-    
-    if (!correctAnswer || !['A', 'B', 'C', 'D'].includes(correctAnswer)) {
-      validationErrors.push('Correct answer must be exactly A, B, C, or D');
-    }
-    
-    if (!explanation || explanation.trim().length === 0) {
-      validationErrors.push('Explanation is required');
-    } else if (explanation.length > 1000) {
-      validationErrors.push('Explanation cannot exceed 1000 characters');
-    }
-    
-    if (!difficulty || !['EASY', 'MEDIUM', 'HARD'].includes(difficulty)) {
-      validationErrors.push('Difficulty must be EASY, MEDIUM, or HARD');
-    }
-    
-    if (!examCategory || !['UPSC', 'JEE', 'NEET', 'SSC', 'OTHER'].includes(examCategory)) {
-      validationErrors.push('Exam category must be UPSC, JEE, NEET, SSC, or OTHER');
-    }
-    
-    if (!subject || subject.trim().length === 0) {
-      validationErrors.push('Subject is required');
-    }
-    
-    // Year validation (if provided)
-    if (year && (isNaN(year) || year < 1900 || year > 2030)) {
-      validationErrors.push('Year must be between 1900 and 2030');
-    }
+    const validationErrors = validateQuestionInput(body);
     
     if (validationErrors.length > 0) {
       if (isDev) {
@@ -928,41 +877,18 @@ export async function POST(req: NextRequest) {
     if (isDev) {
       console.log('✅ Subject verified:', subjectCheck.name);
     }
+
+    // Chapter and topic must belong to the subject
+    const placement = await checkQuestionPlacement(supabase, subject, body.chapter, body.topic);
+    if ('error' in placement) {
+      return NextResponse.json({
+        error: 'Invalid chapter or topic',
+        details: placement.error
+      }, { status: 400 });
+    }
     
     // Prepare question data per APPLICATION_SPECIFICATION.md schema
-    const questionData = {
-      title: title.trim(),                     // TEXT NOT NULL - Brief question title/heading
-      content: content.trim(),                 // TEXT NOT NULL - Full detailed question text  
-      option_a: optionA.trim(),               // TEXT NOT NULL - Answer option A text
-      option_b: optionB.trim(),               // TEXT NOT NULL - Answer option B text
-      option_c: optionC.trim(),               // TEXT NOT NULL - Answer option C text
-      option_d: optionD.trim(),               // TEXT NOT NULL - Answer option D text
-      correct_option: correctAnswer,           // CHARACTER NOT NULL - Single character: 'A', 'B', 'C', or 'D'
-      correct_answer: null,                    // TEXT (nullable) - Legacy field, not used
-      explanation: explanation.trim(),         // TEXT NOT NULL - Detailed explanation
-      difficulty: difficulty,                  // TEXT NOT NULL - 'EASY', 'MEDIUM', 'HARD'
-      exam_category: examCategory,            // TEXT NOT NULL - 'UPSC', 'JEE', 'NEET', 'SSC', 'OTHER'
-      year: year || null,                     // INTEGER (nullable) - Year the question was from
-      source: source?.trim() || null,         // TEXT (nullable) - Source/reference information
-      questionhash: generateQuestionHash({    // TEXT (nullable) - Unique hash to prevent duplicates
-        content: content.trim(),
-        optionA: optionA.trim(),
-        optionB: optionB.trim(),
-        optionC: optionC.trim(),
-        optionD: optionD.trim(),
-        subject
-      }),
-      options: {                              // JSONB (nullable) - Alternative JSON storage
-        A: optionA.trim(),
-        B: optionB.trim(),
-        C: optionC.trim(),
-        D: optionD.trim()
-      },
-      subject_id: subject,                    // UUID (nullable) - Foreign key to subjects.id
-      created_by: userData.id,                // UUID NOT NULL - Foreign key to users.id (QAUTHOR)
-      created_at: new Date().toISOString(),   // TIMESTAMP WITH TIME ZONE
-      updated_at: new Date().toISOString()    // TIMESTAMP WITH TIME ZONE
-    };
+    const questionData = buildQuestionRow({ ...body, chapter: placement.chapterId, topic: placement.topicId }, userData.id);
 
     if (isDev) {
       console.log('💾 Inserting question into database with schema-compliant data...');
@@ -978,11 +904,11 @@ export async function POST(req: NextRequest) {
     }
     
     // Insert the question
-    const { data: finalResult, error: finalError } = await supabase
+    const { data: inserted, error: finalError } = await supabase
       .from('questions')
       .insert(questionData)
-      .select('*');
-    
+      .select('id');
+
     if (finalError) {
       if (isDev) {
         console.error('❌ Database insert error:', finalError);
@@ -999,7 +925,14 @@ export async function POST(req: NextRequest) {
         suggestion: 'Check database configuration and RLS policies'
       }, { status: 500 });
     }
-    
+
+    // The answer key cannot be selected with the author's client, so the new row
+    // is read back with the service role client
+    const { data: finalResult } = await getServiceRoleClient()
+      .from('questions')
+      .select('*')
+      .in('id', (inserted || []).map(row => row.id));
+
     if (!finalResult || finalResult.length === 0) {
       if (isDev) {
         console.log('❌ No data returned after insert');
@@ -1010,9 +943,23 @@ export async function POST(req: NextRequest) {
       }, { status: 500 });
     }
 
+    // Revision 1 is the content as created
+    const revision = await saveQuestionRevision(supabase, {
+      questionId: finalResult[0].id,
+      before: null,
+      after: toQuestionSnapshot(finalResult[0]),
+      editedBy: userData.id,
+      action: 'create'
+    });
+
+    if ('error' in revision && isDev) {
+      console.error('❌ Error recording initial question revision:', revision.error);
+    }
+
     if (isDev) {
       console.log('✅ Question created successfully:', {
         id: finalResult[0].id,
+        questionType: finalResult[0].question_type,
         title: finalResult[0].title,
         subject: subjectCheck.name,
         difficulty: finalResult[0].difficulty,
@@ -1025,6 +972,7 @@ export async function POST(req: NextRequest) {
       message: 'Question created successfully',
       question: {
         id: finalResult[0].id,
+        questionType: finalResult[0].question_type,
         title: finalResult[0].title,
         content: finalResult[0].content,
         optionA: finalResult[0].option_a,
@@ -1032,12 +980,18 @@ export async function POST(req: NextRequest) {
         optionC: finalResult[0].option_c,
         optionD: finalResult[0].option_d,
         correctAnswer: finalResult[0].correct_option,
+        typeData: finalResult[0].type_data,
+        numericTolerance: finalResult[0].numeric_tolerance,
         explanation: finalResult[0].explanation,
         difficulty: finalResult[0].difficulty,
         examCategory: finalResult[0].exam_category,
         subject: finalResult[0].subject_id,
+        chapterId: finalResult[0].chapter_id,
+        topicId: finalResult[0].topic_id,
+        tags: finalResult[0].tags,
         year: finalResult[0].year,
         source: finalResult[0].source,
+        status: finalResult[0].status,
         createdBy: finalResult[0].created_by,
         createdAt: finalResult[0].created_at
       }
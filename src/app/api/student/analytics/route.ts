@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { getDayBounds, getToday } from '@/lib/dates';
+import { TOPIC_COLUMNS, TopicRow, buildTopicAccuracy } from '@/lib/topics';
+import type { SubjectScore } from '@/lib/daily-sets';
+import { roundScore } from '@/lib/grading';
+import { MarksTotal, loadScoringSchemes, marksFor, schemeFor } from '@/lib/scoring';
+import { buildTimeAnalytics } from '@/lib/time-analytics';
+import { MIN_ATTEMPTS_FOR_RANKING, loadSubjectComparison, refreshStandingsIfStale } from '@/lib/standings';
+
+// Question IDs per .in() lookup, keeping request URLs short
+const QUESTION_LOOKUP_CHUNK_SIZE = 200;
 
 export async function GET(req: NextRequest) {
   try {
@@ -16,7 +26,7 @@ export async function GET(req: NextRequest) {
     // Verify user is a STUDENT
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('id, email, role, current_streak, longest_streak')
+      .select('id, email, role, current_streak, longest_streak, timezone')
       .eq('id', authData.user.id)
       .single();
 
@@ -52,22 +62,27 @@ export async function GET(req: NextRequest) {
     if (!userSubjects || userSubjects.length === 0) {
       return NextResponse.json({
         subjects: [],
+        topics: [],
         sessionData: {
           currentStreak: userData.current_streak || 0,
           longestStreak: userData.longest_streak || 0,
           todayTimeSpent: 0,
           totalTimeSpent: 0,
           totalQuestionsAnswered: 0,
-          overallScore: 0
+          overallScore: 0,
+          overallMarks: 0,
+          overallMaxMarks: 0
         },
+        timeAnalytics: null,
         message: 'No subjects selected. Please select subjects to view analytics.'
       });
     }
 
     const subjectIds = userSubjects.map(us => us.subject_id);
 
-    // Get today's date for session calculations
-    const today = new Date().toISOString().split('T')[0];
+    // Get today's date for session calculations, in the student's timezone
+    const today = getToday(userData.timezone);
+    const todayBounds = getDayBounds(today, userData.timezone);
 
     // Get today's session time
     const { data: todaySession, error: sessionError } = await supabase
@@ -91,7 +106,7 @@ export async function GET(req: NextRequest) {
     // Get student attempts for score calculation
     const { data: attempts, error: attemptsError } = await supabase
       .from('student_attempts')
-      .select('questionid, iscorrect, subject_id')
+      .select('questionid, iscorrect, score, subject_id, time_spent_seconds')
       .eq('studentid', authData.user.id);
 
     if (attemptsError) {
@@ -103,8 +118,8 @@ export async function GET(req: NextRequest) {
       .from('subject_time_logs')
       .select('subject_id, duration_seconds')
       .eq('user_id', authData.user.id)
-      .gte('start_time', today)
-      .lt('start_time', new Date(new Date(today).getTime() + 24 * 60 * 60 * 1000).toISOString());
+      .gte('start_time', todayBounds.start)
+      .lt('start_time', todayBounds.end);
 
     if (timeLogsError) {
       console.error('Error fetching subject time logs:', timeLogsError);
@@ -120,6 +135,89 @@ export async function GET(req: NextRequest) {
       console.error('Error fetching question counts:', questionCountsError);
     }
 
+    // Per-subject totals from completed daily sets
+    const { data: completedSets, error: completedSetsError } = await supabase
+      .from('daily_question_sets')
+      .select('subject_scores')
+      .eq('studentid', authData.user.id)
+      .eq('completed', true)
+      .not('subject_scores', 'is', null);
+
+    if (completedSetsError) {
+      console.error('Error fetching daily set scores:', completedSetsError);
+    }
+
+    // Marks only cover sets finalized with a scoring scheme
+    const dailyTotals = new Map<string, { correct: number; total: number } & MarksTotal>();
+    completedSets?.forEach(set => {
+      Object.entries(set.subject_scores as Record<string, SubjectScore>).forEach(([subjectId, result]) => {
+        const running = dailyTotals.get(subjectId) || { correct: 0, total: 0, marks: 0, maxMarks: 0 };
+        dailyTotals.set(subjectId, {
+          correct: running.correct + (result.correct || 0),
+          total: running.total + (result.total || 0),
+          marks: roundScore(running.marks + (result.marks || 0)),
+          maxMarks: roundScore(running.maxMarks + (result.maxMarks || 0))
+        });
+      });
+    });
+
+    // Exam category, difficulty and placement of each attempted question
+    const attemptedIds = [...new Set((attempts || []).map(a => a.questionid))];
+    const examCategories = new Map<string, string>();
+    const difficulties = new Map<string, string>();
+    const placements = new Map<string, { chapterId: string | null; topicId: string | null }>();
+    for (let i = 0; i < attemptedIds.length; i += QUESTION_LOOKUP_CHUNK_SIZE) {
+      const { data: attemptedQuestions, error: attemptedError } = await supabase
+        .from('questions')
+        .select('id, exam_category, difficulty, chapter_id, topic_id')
+        .in('id', attemptedIds.slice(i, i + QUESTION_LOOKUP_CHUNK_SIZE));
+
+      if (attemptedError) {
+        console.error('Error fetching attempted questions:', attemptedError);
+        break;
+      }
+
+      attemptedQuestions?.forEach(q => {
+        examCategories.set(q.id, q.exam_category);
+        if (q.difficulty) difficulties.set(q.id, q.difficulty);
+        if (q.chapter_id) {
+          placements.set(q.id, { chapterId: q.chapter_id, topicId: q.topic_id });
+        }
+      });
+    }
+
+    // Marks of every attempt under its question's scoring scheme
+    const schemes = await loadScoringSchemes(supabase, subjectIds);
+    if ('error' in schemes) {
+      console.error('Error fetching scoring schemes:', schemes.error);
+      return NextResponse.json({ error: 'Failed to fetch scoring schemes' }, { status: 500 });
+    }
+
+    const subjectMarks = new Map<string, MarksTotal>();
+    const overallMarks: MarksTotal = { marks: 0, maxMarks: 0 };
+    attempts?.forEach(attempt => {
+      const scheme = schemeFor(schemes, attempt.subject_id, examCategories.get(attempt.questionid));
+      // Attempts recorded before migration 17 have no score
+      const marks = marksFor(scheme, Number(attempt.score ?? (attempt.iscorrect ? 1 : 0)));
+      const running = subjectMarks.get(attempt.subject_id) || { marks: 0, maxMarks: 0 };
+      subjectMarks.set(attempt.subject_id, {
+        marks: roundScore(running.marks + marks),
+        maxMarks: roundScore(running.maxMarks + scheme.correctMarks)
+      });
+      overallMarks.marks = roundScore(overallMarks.marks + marks);
+      overallMarks.maxMarks = roundScore(overallMarks.maxMarks + scheme.correctMarks);
+    });
+
+    // Platform averages and percentile ranks from the standings cache
+    const refreshed = await refreshStandingsIfStale();
+    if (refreshed.error) {
+      console.error('Error refreshing platform standings:', refreshed.error);
+    }
+    const comparison = await loadSubjectComparison(supabase, authData.user.id, subjectIds);
+    if ('error' in comparison) {
+      console.error('Error fetching platform standings:', comparison.error);
+    }
+
     // Calculate subject-wise performance
     const subjectPerformance = userSubjects.map(us => {
       const subject = us.subjects;
@@ -142,16 +240,50 @@ export async function GET(req: NextRequest) {
       // Get total questions available for this subject from database
       const totalQuestions = questionCounts?.filter(q => q.subject_id === us.subject_id).length || 0;
 
+      // Daily set score for this subject, null until a daily set included it
+      const daily = dailyTotals.get(us.subject_id);
+      const dailySetScore = daily && daily.total > 0 ? Math.round((daily.correct / daily.total) * 100) : null;
+      const marks = subjectMarks.get(us.subject_id) || { marks: 0, maxMarks: 0 };
+
       return {
         id: subjectData.id,
         name: subjectData.name,
         score: score,
         timeSpent: timeSpent,
         questionsAttempted: subjectAttempts.length,
-        totalQuestions: totalQuestions
+        totalQuestions: totalQuestions,
+        dailySetScore: dailySetScore,
+        dailySetQuestions: daily?.total || 0,
+        // Scheme-based marks next to the raw percentage
+        marks: marks.marks,
+        maxMarks: marks.maxMarks,
+        scheme: schemes.subjects.get(us.subject_id) || null,
+        dailySetMarks: daily?.maxMarks ? daily.marks : null,
+        dailySetMaxMarks: daily?.maxMarks || null,
+        comparison: ('error' in comparison ? null : comparison.bySubject.get(us.subject_id)) || null
       };
     }).filter(Boolean);
 
+    // Topic-level accuracy from the chapter and topic of each attempted question
+    let topicAccuracy: ReturnType<typeof buildTopicAccuracy> = [];
+    let topicRows: TopicRow[] = [];
+    if (placements.size > 0) {
+      const { data: topicData, error: topicRowsError } = await supabase
+        .from('topics')
+        .select(TOPIC_COLUMNS)
+        .in('subject_id', subjectIds);
+
+      if (topicRowsError) {
+        console.error('Error fetching topics:', topicRowsError);
+      } else {
+        topicRows = (topicData || []) as TopicRow[];
+        topicAccuracy = buildTopicAccuracy(attempts || [], placements, topicRows);
+      }
+    }
+
+    // Time per question from the seconds recorded on each attempt
+    const timeAnalytics = buildTimeAnalytics(attempts || [], difficulties, placements, topicRows);
+
     // Calculate overall score
     const totalAttempts = attempts?.length || 0;
     const totalCorrect = attempts?.filter(a => a.iscorrect).length || 0;
@@ -160,13 +292,21 @@ export async function GET(req: NextRequest) {
     // Return analytics data
     return NextResponse.json({
       subjects: subjectPerformance,
+      topics: topicAccuracy,
       sessionData: {
         currentStreak: userData.current_streak || 0,
         longestStreak: userData.longest_streak || 0,
         todayTimeSpent: todayTimeMinutes,
         totalTimeSpent: Math.floor(totalTimeMinutes / 60), // Convert to minutes
         totalQuestionsAnswered: totalAttempts,
-        overallScore: overallScore
+        overallScore: overallScore,
+        overallMarks: overallMarks.marks,
+        overallMaxMarks: overallMarks.maxMarks
+      },
+      timeAnalytics,
+      standings: {
+        minAttempts: MIN_ATTEMPTS_FOR_RANKING,
+        computedAt: 'error' in comparison ? null : comparison.computedAt
       }
     });
 
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BOOKMARK_COLUMNS, BookmarkRow, parseNote, toBookmark } from '@/lib/bookmarks';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Returns the error response for non-STUDENT callers, or the student's ID
+async function requireStudent(supabase: SupabaseClient): Promise<NextResponse | string> {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  if (userData.role !== 'STUDENT') {
+    return NextResponse.json({ error: 'Access denied. Only students have bookmarks.' }, { status: 403 });
+  }
+
+  return userData.id;
+}
+
+// PATCH - Set or clear the note on a bookmarked question
+// Body: { note: string | null }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ questionId: string }> }
+) {
+  const { questionId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const studentId = await requireStudent(supabase);
+    if (studentId instanceof NextResponse) return studentId;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    const parsed = parseNote(body.note ?? null);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Notes are written by the server (migration 20); the filters keep it to the student's bookmark
+    const { data: bookmark, error } = await getServiceRoleClient()
+      .from('question_bookmarks')
+      .update({ note: parsed.note, updated_at: new Date().toISOString() })
+      .eq('student_id', studentId)
+      .eq('question_id', questionId)
+      .select(BOOKMARK_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating bookmark note:', error);
+      return NextResponse.json({ error: 'Failed to update note' }, { status: 500 });
+    }
+
+    if (!bookmark) {
+      return NextResponse.json({ error: 'Bookmark not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(toBookmark(bookmark as BookmarkRow));
+  } catch (error) {
+    console.error('Error in bookmark PATCH:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a bookmark and its note
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ questionId: string }> }
+) {
+  const { questionId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const studentId = await requireStudent(supabase);
+    if (studentId instanceof NextResponse) return studentId;
+
+    const { error } = await supabase
+      .from('question_bookmarks')
+      .delete()
+      .eq('student_id', studentId)
+      .eq('question_id', questionId);
+
+    if (error) {
+      console.error('Error deleting bookmark:', error);
+      return NextResponse.json({ error: 'Failed to remove bookmark' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in bookmark DELETE:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { STUDENT_QUESTION_COLUMNS } from '@/lib/question-projection';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { BOOKMARK_COLUMNS, BookmarkRow, hasSeenQuestion, parseNote, toBookmark } from '@/lib/bookmarks';
+
+// Question IDs accepted by one ?questionIds= lookup
+const MAX_QUESTION_ID_FILTER = 100;
+
+// Returns the error response for non-STUDENT callers, or the student's ID
+async function requireStudent(supabase: SupabaseClient): Promise<NextResponse | string> {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  if (userData.role !== 'STUDENT') {
+    return NextResponse.json({ error: 'Access denied. Only students have bookmarks.' }, { status: 403 });
+  }
+
+  return userData.id;
+}
+
+// GET - The student's bookmarks, newest first, with the answer-free question
+// Query: subjectId? to filter by subject, questionIds? (comma-separated) to look up
+// which of the given questions are bookmarked
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const studentId = await requireStudent(supabase);
+    if (studentId instanceof NextResponse) return studentId;
+
+    const url = new URL(req.url);
+    const subjectId = url.searchParams.get('subjectId');
+    const questionIds = (url.searchParams.get('questionIds') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+
+    if (questionIds.length > MAX_QUESTION_ID_FILTER) {
+      return NextResponse.json({ error: `At most ${MAX_QUESTION_ID_FILTER} question IDs can be looked up at once` }, { status: 400 });
+    }
+
+    let query = supabase
+      .from('question_bookmarks')
+      .select(`
+        ${BOOKMARK_COLUMNS},
+        questions!inner (
+          ${STUDENT_QUESTION_COLUMNS},
+          subjects (
+            name
+          )
+        )
+      `)
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false });
+
+    if (subjectId) query = query.eq('questions.subject_id', subjectId);
+    if (questionIds.length > 0) query = query.in('question_id', questionIds);
+
+    const { data: rows, error } = await query;
+    if (error) {
+      console.error('Error fetching bookmarks:', error);
+      return NextResponse.json({ error: 'Failed to fetch bookmarks' }, { status: 500 });
+    }
+
+    // Whether each question has been answered, and how it went
+    const bookmarkedIds = (rows || []).map(row => row.question_id);
+    const { data: attempts } = bookmarkedIds.length > 0
+      ? await supabase
+        .from('student_attempts')
+        .select('questionid, iscorrect, score')
+        .eq('studentid', studentId)
+        .in('questionid', bookmarkedIds)
+      : { data: [] };
+    const attemptsByQuestion = new Map((attempts || []).map(attempt => [attempt.questionid, attempt]));
+
+    return NextResponse.json({
+      bookmarks: (rows || []).map(row => {
+        const { subjects, ...question } = (Array.isArray(row.questions) ? row.questions[0] : row.questions) as
+          Record<string, unknown> & { subjects?: { name: string } | { name: string }[] | null };
+        const subject = Array.isArray(subjects) ? subjects[0] : subjects;
+        const attempt = attemptsByQuestion.get(row.question_id);
+        return {
+          ...toBookmark(row as BookmarkRow),
+          subjectName: subject?.name || null,
+          question,
+          lastAttempt: attempt
+            ? { isCorrect: attempt.iscorrect, score: Number(attempt.score ?? Number(attempt.iscorrect)) }
+            : null
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Error in bookmarks GET:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Bookmark a question the student has seen, optionally with a note.
+// Bookmarking an already bookmarked question updates its note when one is given.
+// Body: { questionId: string, note?: string | null }
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const studentId = await requireStudent(supabase);
+    if (studentId instanceof NextResponse) return studentId;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    if (typeof body.questionId !== 'string' || !body.questionId) {
+      return NextResponse.json({ error: 'questionId is required' }, { status: 400 });
+    }
+
+    const parsed = parseNote(body.note);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const seen = await hasSeenQuestion(supabase, studentId, body.questionId);
+    if (typeof seen === 'object') {
+      console.error('Error checking question for bookmark:', seen.error);
+      return NextResponse.json({ error: 'Failed to bookmark question' }, { status: 500 });
+    }
+    if (!seen) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    // Students cannot write bookmarks themselves (migration 20)
+    const { data: bookmark, error } = await getServiceRoleClient()
+      .from('question_bookmarks')
+      .upsert({
+        student_id: studentId,
+        question_id: body.questionId,
+        ...(parsed.note !== undefined ? { note: parsed.note } : {}),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'student_id,question_id' })
+      .select(BOOKMARK_COLUMNS)
+      .single();
+
+    if (error || !bookmark) {
+      console.error('Error creating bookmark:', error);
+      return NextResponse.json({ error: 'Failed to bookmark question' }, { status: 500 });
+    }
+
+    return NextResponse.json(toBookmark(bookmark as BookmarkRow), { status: 201 });
+  } catch (error) {
+    console.error('Error in bookmarks POST:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
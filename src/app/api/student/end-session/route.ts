@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { getToday } from '@/lib/dates';
 
 export async function POST(req: NextRequest) {
   try {
@@ -16,7 +17,7 @@ export async function POST(req: NextRequest) {
     // Verify user is a STUDENT
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('id, role')
+      .select('id, role, timezone')
       .eq('id', authData.user.id)
       .single();
 
@@ -40,7 +41,7 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getToday(userData.timezone);
 
     // Check if there's an active session for today
     const { data: existingSession, error: sessionError } = await supabase
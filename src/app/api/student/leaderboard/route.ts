@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  LEADERBOARD_SIZE,
+  LeaderboardEntry,
+  MIN_ATTEMPTS_FOR_RANKING,
+  STANDING_SCOPES,
+  StandingScope,
+  generateLeaderboardAlias,
+  refreshStandingsIfStale
+} from '@/lib/standings';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+interface StudentRow {
+  id: string;
+  role: string;
+  leaderboard_opt_in: boolean;
+  leaderboard_alias: string | null;
+}
+
+// Returns the error response for non-STUDENT callers, or the student's row
+async function requireStudent(supabase: SupabaseClient): Promise<NextResponse | StudentRow> {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role, leaderboard_opt_in, leaderboard_alias')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  if (userData.role !== 'STUDENT') {
+    return NextResponse.json({ error: 'Access denied. Only students have leaderboards.' }, { status: 403 });
+  }
+
+  return userData as StudentRow;
+}
+
+// GET - Leaderboard of opted-in students for one of the student's subjects or an
+// exam category, with the student's own standing there
+// Query: scope? - subject (default) or exam_category; key? - subject ID or category
+// (defaults to the first available)
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const student = await requireStudent(supabase);
+    if (student instanceof NextResponse) return student;
+
+    const url = new URL(req.url);
+    const scope = (url.searchParams.get('scope') || 'subject') as StandingScope;
+    if (!STANDING_SCOPES.includes(scope)) {
+      return NextResponse.json({ error: `scope must be one of: ${STANDING_SCOPES.join(', ')}` }, { status: 400 });
+    }
+
+    const refreshed = await refreshStandingsIfStale();
+    if (refreshed.error) {
+      console.error('Error refreshing platform standings:', refreshed.error);
+    }
+
+    const [subjectsResult, categoriesResult] = await Promise.all([
+      supabase
+        .from('user_subjects')
+        .select('subject_id, subjects ( id, name )')
+        .eq('user_id', student.id)
+        .eq('is_active', true),
+      supabase
+        .from('platform_standings')
+        .select('scope_key')
+        .eq('scope', 'exam_category')
+        .order('scope_key')
+    ]);
+
+    if (subjectsResult.error || categoriesResult.error) {
+      console.error('Error fetching leaderboard scopes:', subjectsResult.error || categoriesResult.error);
+      return NextResponse.json({ error: 'Failed to fetch leaderboard' }, { status: 500 });
+    }
+
+    const subjects = (subjectsResult.data || []).flatMap(row => {
+      const subject = Array.isArray(row.subjects) ? row.subjects[0] : row.subjects;
+      return subject ? [{ id: subject.id as string, name: subject.name as string }] : [];
+    });
+    const examCategories = (categoriesResult.data || []).map(row => row.scope_key as string);
+
+    const options = scope === 'subject' ? subjects.map(subject => subject.id) : examCategories;
+    const key = url.searchParams.get('key') || options[0] || null;
+    if (key && !options.includes(key)) {
+      return NextResponse.json({ error: 'No leaderboard for that key' }, { status: 404 });
+    }
+
+    let entries: LeaderboardEntry[] = [];
+    let self: { accuracy: number; attempts: number; percentile: number | null; rank: number | null } | null = null;
+    if (key) {
+      const [boardResult, ownResult] = await Promise.all([
+        supabase.rpc('get_leaderboard', { target_scope: scope, target_key: key, max_entries: LEADERBOARD_SIZE }),
+        supabase
+          .from('student_standings')
+          .select('accuracy, attempts, percentile, rank')
+          .eq('scope', scope)
+          .eq('scope_key', key)
+          .eq('student_id', student.id)
+          .maybeSingle()
+      ]);
+
+      if (boardResult.error || ownResult.error) {
+        console.error('Error fetching leaderboard:', boardResult.error || ownResult.error);
+        return NextResponse.json({ error: 'Failed to fetch leaderboard' }, { status: 500 });
+      }
+
+      entries = (boardResult.data || []).map((row: {
+        board_position: number;
+        alias: string;
+        accuracy: number;
+        attempts: number;
+        percentile: number | null;
+        is_self: boolean;
+      }) => ({
+        position: Number(row.board_position),
+        alias: row.alias,
+        accuracy: Math.round(Number(row.accuracy)),
+        attempts: row.attempts,
+        percentile: row.percentile === null ? null : Math.round(Number(row.percentile)),
+        isSelf: row.is_self
+      }));
+
+      if (ownResult.data) {
+        self = {
+          accuracy: Math.round(Number(ownResult.data.accuracy)),
+          attempts: ownResult.data.attempts,
+          percentile: ownResult.data.percentile === null ? null : Math.round(Number(ownResult.data.percentile)),
+          rank: ownResult.data.rank
+        };
+      }
+    }
+
+    return NextResponse.json({
+      optedIn: student.leaderboard_opt_in,
+      alias: student.leaderboard_alias,
+      scope,
+      key,
+      subjects,
+      examCategories,
+      entries,
+      self,
+      minAttempts: MIN_ATTEMPTS_FOR_RANKING
+    });
+  } catch (error) {
+    console.error('Error in leaderboard GET:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Join or leave the leaderboards
+// Body: { optIn: boolean }. The anonymous alias is generated on first opt-in and kept.
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const student = await requireStudent(supabase);
+    if (student instanceof NextResponse) return student;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    if (typeof body?.optIn !== 'boolean') {
+      return NextResponse.json({ error: 'optIn must be true or false' }, { status: 400 });
+    }
+
+    // Students cannot set their alias themselves (migration 23), so the server writes it
+    const alias = student.leaderboard_alias || (body.optIn ? generateLeaderboardAlias() : null);
+    const { error: updateError } = await getServiceRoleClient()
+      .from('users')
+      .update({
+        leaderboard_opt_in: body.optIn,
+        leaderboard_alias: alias,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', student.id);
+
+    if (updateError) {
+      console.error('Error updating leaderboard preference:', updateError);
+      return NextResponse.json({ error: 'Failed to update leaderboard preference' }, { status: 500 });
+    }
+
+    return NextResponse.json({ optedIn: body.optIn, alias });
+  } catch (error) {
+    console.error('Error in leaderboard PUT:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
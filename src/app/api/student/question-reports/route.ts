@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { hasSeenQuestion } from '@/lib/bookmarks';
+import { REPORT_COLUMNS, ReportRow, toQuestionReport, validateReportInput } from '@/lib/question-reports';
+
+// POST - Report a problem with a question the student has seen
+// Body: { questionId: string, category: 'wrong_answer' | 'ambiguous' | 'typo' | 'out_of_syllabus', details?: string }
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied. Only students can report questions.' }, { status: 403 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    if (typeof body.questionId !== 'string' || !body.questionId) {
+      return NextResponse.json({ error: 'questionId is required' }, { status: 400 });
+    }
+
+    const input = validateReportInput(body);
+    if ('error' in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const seen = await hasSeenQuestion(supabase, userData.id, body.questionId);
+    if (typeof seen === 'object') {
+      console.error('Error checking question for report:', seen.error);
+      return NextResponse.json({ error: 'Failed to report question' }, { status: 500 });
+    }
+    if (!seen) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    const { data: report, error } = await supabase
+      .from('question_reports')
+      .insert({
+        question_id: body.questionId,
+        reporter_id: userData.id,
+        category: input.category,
+        details: input.details
+      })
+      .select(REPORT_COLUMNS)
+      .single();
+
+    if (error) {
+      // idx_question_reports_one_open: one unresolved report per student and question
+      if (error.code === '23505') {
+        return NextResponse.json({
+          error: 'You have already reported this question. The author will look into it.'
+        }, { status: 409 });
+      }
+      console.error('Error creating question report:', error);
+      return NextResponse.json({ error: 'Failed to report question' }, { status: 500 });
+    }
+
+    return NextResponse.json(toQuestionReport(report as ReportRow), { status: 201 });
+  } catch (error) {
+    console.error('Error in question reports POST:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { questionTypeOf } from '@/lib/grading';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// GET - Reveal the correct option and explanation for a question the student has answered
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: questionId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Verify user is a STUDENT
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied. Only students can reveal answers.' }, { status: 403 });
+    }
+
+    // The answer is only released once the student has an attempt on record
+    const { data: attempt, error: attemptError } = await supabase
+      .from('student_attempts')
+      .select('id, selectedoption, iscorrect, score, attemptedat')
+      .eq('studentid', authData.user.id)
+      .eq('questionid', questionId)
+      .maybeSingle();
+
+    if (attemptError) {
+      console.error('Error checking student attempt:', attemptError);
+      return NextResponse.json({ error: 'Failed to verify attempt' }, { status: 500 });
+    }
+
+    if (!attempt) {
+      return NextResponse.json({
+        error: 'Answer not available',
+        details: 'Submit an answer for this question before viewing the solution'
+      }, { status: 403 });
+    }
+
+    // Answer keys are only selectable with the service role client
+    const { data: question, error: questionError } = await getServiceRoleClient()
+      .from('questions')
+      .select('id, question_type, correct_option, numeric_tolerance, explanation')
+      .eq('id', questionId)
+      .eq('status', PUBLISHED_STATUS)
+      .single();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      questionId: question.id,
+      questionType: questionTypeOf(question),
+      correctOption: question.correct_option?.trim(),
+      numericTolerance: Number(question.numeric_tolerance) || 0,
+      explanation: question.explanation,
+      attempt: {
+        id: attempt.id,
+        selectedOption: attempt.selectedoption,
+        isCorrect: attempt.iscorrect,
+        score: Number(attempt.score ?? Number(attempt.iscorrect)),
+        attemptedAt: attempt.attemptedat
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in student answer reveal API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
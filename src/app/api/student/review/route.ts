@@ -0,0 +1,301 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getToday } from '@/lib/dates';
+import { gradeResponse, questionTypeOf } from '@/lib/grading';
+import { normalizeResponse } from '@/lib/question-types';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+import { STUDENT_QUESTION_COLUMNS } from '@/lib/question-projection';
+import { INITIAL_EASE_FACTOR, qualityFromAnswer, scheduleReview } from '@/lib/spaced-repetition';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+const DEFAULT_REVIEW_LIMIT = 20;
+const MAX_REVIEW_LIMIT = 100;
+
+// GET - Review cards due today (or earlier), seeding new cards from incorrect attempts
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Verify user is a STUDENT
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role, timezone')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied. Only students have a review queue.' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const requestedLimit = parseInt(searchParams.get('limit') || String(DEFAULT_REVIEW_LIMIT), 10);
+    const limit = Math.min(Math.max(isNaN(requestedLimit) ? DEFAULT_REVIEW_LIMIT : requestedLimit, 1), MAX_REVIEW_LIMIT);
+
+    const today = getToday(userData.timezone);
+
+    // Every incorrect attempt gets a card; new cards are due immediately
+    const [{ data: wrongAttempts, error: attemptsError }, { data: existingCards, error: cardsError }] = await Promise.all([
+      supabase
+        .from('student_attempts')
+        .select('questionid')
+        .eq('studentid', authData.user.id)
+        .eq('iscorrect', false),
+      supabase
+        .from('review_cards')
+        .select('question_id')
+        .eq('student_id', authData.user.id)
+    ]);
+
+    if (attemptsError || cardsError) {
+      console.error('Error loading review sources:', attemptsError || cardsError);
+      return NextResponse.json({ error: 'Failed to load review queue' }, { status: 500 });
+    }
+
+    const carded = new Set((existingCards || []).map(card => card.question_id));
+    const newCards = (wrongAttempts || [])
+      .filter(attempt => !carded.has(attempt.questionid))
+      .map(attempt => ({
+        student_id: authData.user.id,
+        question_id: attempt.questionid,
+        ease_factor: INITIAL_EASE_FACTOR,
+        interval_days: 0,
+        repetitions: 0,
+        due_date: today
+      }));
+
+    // Students can only read their cards (migration 09), so they are seeded as the server
+    if (newCards.length > 0) {
+      const { error: seedError } = await getServiceRoleClient()
+        .from('review_cards')
+        .upsert(newCards, { onConflict: 'student_id,question_id', ignoreDuplicates: true });
+
+      if (seedError) {
+        console.error('Error seeding review cards:', seedError);
+        return NextResponse.json({ error: 'Failed to update review queue' }, { status: 500 });
+      }
+    }
+
+    // Due cards, oldest due first
+    const { data: dueCards, error: dueError, count: dueCount } = await supabase
+      .from('review_cards')
+      .select('question_id, ease_factor, interval_days, repetitions, due_date, review_count', { count: 'exact' })
+      .eq('student_id', authData.user.id)
+      .lte('due_date', today)
+      .order('due_date', { ascending: true })
+      .limit(limit);
+
+    if (dueError) {
+      console.error('Error fetching due review cards:', dueError);
+      return NextResponse.json({ error: 'Failed to load review queue' }, { status: 500 });
+    }
+
+    const { count: upcomingCount } = await supabase
+      .from('review_cards')
+      .select('id', { count: 'exact', head: true })
+      .eq('student_id', authData.user.id)
+      .gt('due_date', today);
+
+    const questionIds = (dueCards || []).map(card => card.question_id);
+    const { data: questions, error: questionsError } = questionIds.length > 0
+      ? await supabase
+        .from('questions')
+        .select(STUDENT_QUESTION_COLUMNS)
+        .in('id', questionIds)
+      : { data: [], error: null };
+
+    if (questionsError) {
+      console.error('Error fetching review questions:', questionsError);
+      return NextResponse.json({ error: 'Failed to load review questions' }, { status: 500 });
+    }
+
+    const questionsById = new Map((questions || []).map(question => [question.id, question]));
+
+    const cards = (dueCards || [])
+      .filter(card => questionsById.has(card.question_id))
+      .map(card => ({
+        questionId: card.question_id,
+        question: questionsById.get(card.question_id),
+        dueDate: card.due_date,
+        intervalDays: card.interval_days,
+        repetitions: card.repetitions,
+        easeFactor: Number(card.ease_factor),
+        reviewCount: card.review_count
+      }));
+
+    return NextResponse.json({
+      date: today,
+      cards,
+      dueCount: dueCount || 0,
+      upcomingCount: upcomingCount || 0
+    });
+
+  } catch (error) {
+    console.error('Error in student review GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Answer a review card; the graded outcome reschedules the card
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Verify user is a STUDENT
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role, timezone')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied. Only students can review questions.' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { questionId, selectedOption } = body;
+
+    if (!questionId || !selectedOption) {
+      return NextResponse.json({
+        error: 'Invalid review submission',
+        details: 'questionId and selectedOption are required'
+      }, { status: 400 });
+    }
+
+    const { data: card, error: cardError } = await supabase
+      .from('review_cards')
+      .select('id, ease_factor, interval_days, repetitions, review_count, due_date')
+      .eq('student_id', authData.user.id)
+      .eq('question_id', questionId)
+      .maybeSingle();
+
+    if (cardError) {
+      console.error('Error fetching review card:', cardError);
+      return NextResponse.json({ error: 'Failed to load review card' }, { status: 500 });
+    }
+
+    if (!card) {
+      return NextResponse.json({ error: 'Question is not in your review queue' }, { status: 404 });
+    }
+
+    // Cards can only be answered once due, so early answers cannot reschedule them
+    const today = getToday(userData.timezone);
+    if (card.due_date > today) {
+      return NextResponse.json({
+        error: 'Review not due',
+        details: `This card is next due on ${card.due_date}`
+      }, { status: 409 });
+    }
+
+    // Only a question the student got wrong is reviewed, so the answer key is
+    // never revealed for a question they have not answered
+    const { data: wrongAttempt, error: attemptError } = await supabase
+      .from('student_attempts')
+      .select('id')
+      .eq('studentid', authData.user.id)
+      .eq('questionid', questionId)
+      .eq('iscorrect', false)
+      .maybeSingle();
+
+    if (attemptError) {
+      console.error('Error fetching review attempt:', attemptError);
+      return NextResponse.json({ error: 'Failed to load review card' }, { status: 500 });
+    }
+
+    if (!wrongAttempt) {
+      return NextResponse.json({ error: 'Question is not in your review queue' }, { status: 404 });
+    }
+
+    // Answer keys are only selectable with the service role client
+    const { data: question, error: questionError } = await getServiceRoleClient()
+      .from('questions')
+      .select('id, question_type, type_data, numeric_tolerance, correct_option, explanation')
+      .eq('id', questionId)
+      .eq('status', PUBLISHED_STATUS)
+      .single();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    const questionType = questionTypeOf(question);
+    const response = normalizeResponse(questionType, selectedOption, question.type_data);
+    if (response === null) {
+      return NextResponse.json({
+        error: 'Invalid review submission',
+        details: 'selectedOption is not a valid answer to this question'
+      }, { status: 400 });
+    }
+
+    // A partially correct answer counts as a lapse for scheduling
+    const { isCorrect, score } = gradeResponse(questionType, response, question.correct_option, Number(question.numeric_tolerance) || 0);
+    const quality = qualityFromAnswer(isCorrect);
+    const schedule = scheduleReview({
+      easeFactor: Number(card.ease_factor),
+      intervalDays: card.interval_days,
+      repetitions: card.repetitions
+    }, quality, today);
+
+    const { error: updateError } = await getServiceRoleClient()
+      .from('review_cards')
+      .update({
+        ease_factor: schedule.easeFactor,
+        interval_days: schedule.intervalDays,
+        repetitions: schedule.repetitions,
+        due_date: schedule.dueDate,
+        review_count: (card.review_count || 0) + 1,
+        last_quality: quality,
+        last_reviewed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', card.id);
+
+    if (updateError) {
+      console.error('Error updating review card:', updateError);
+      return NextResponse.json({ error: 'Failed to update review schedule' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      questionId,
+      isCorrect,
+      score,
+      questionType,
+      correctOption: question.correct_option?.trim(),
+      explanation: question.explanation,
+      nextDueDate: schedule.dueDate,
+      intervalDays: schedule.intervalDays
+    });
+
+  } catch (error) {
+    console.error('Error in student review POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
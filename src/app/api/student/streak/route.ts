@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { recordStreakActivity } from '@/lib/streaks';
+
+// POST - Record login activity for the streak (called by the client after sign-in)
+export async function POST() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    
+    // Check authentication
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Verify user is a STUDENT
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Access denied. Only students have streaks.' }, { status: 403 });
+    }
+
+    const streak = await recordStreakActivity(supabase, authData.user.id);
+
+    if (!streak) {
+      return NextResponse.json({ error: 'Failed to update streak' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      currentStreak: streak.currentStreak,
+      longestStreak: streak.longestStreak,
+      lastActiveDate: streak.lastActiveDate,
+      change: streak.change
+    });
+
+  } catch (error) {
+    console.error('Error in student streak API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { validateDailyQuotas } from '@/lib/question-selection';
 
 // GET - Fetch user's selected subjects
 export async function GET(req: NextRequest) {
@@ -36,6 +37,7 @@ export async function GET(req: NextRequest) {
         subject_id,
         is_active,
         is_primary,
+        daily_quota,
         selected_at,
         subjects (
           id,
@@ -95,7 +97,7 @@ export async function POST(req: NextRequest) {
 
     // Parse request body
     const body = await req.json();
-    const { subjectIds, primarySubjectId } = body;
+    const { subjectIds, primarySubjectId, quotas } = body;
 
     if (!subjectIds || !Array.isArray(subjectIds) || subjectIds.length === 0) {
       return NextResponse.json({ error: 'Subject IDs are required' }, { status: 400 });
@@ -109,6 +111,14 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Primary subject must be one of the selected subjects' }, { status: 400 });
     }
 
+    // Per-subject daily quotas are optional; when omitted existing quotas are kept
+    if (quotas !== undefined) {
+      const quotaError = validateDailyQuotas(quotas, subjectIds);
+      if (quotaError) {
+        return NextResponse.json({ error: quotaError }, { status: 400 });
+      }
+    }
+
     // Validate that all subjects exist
     const { data: existingSubjects, error: validationError } = await supabase
       .from('subjects')
@@ -136,7 +146,8 @@ export async function POST(req: NextRequest) {
       subject_id: subjectId,
       is_active: true,
       is_primary: subjectId === primarySubjectId,
-      selected_at: new Date().toISOString()
+      selected_at: new Date().toISOString(),
+      ...(quotas !== undefined && { daily_quota: quotas[subjectId] || null })
     }));
 
     const { error: insertError } = await supabase
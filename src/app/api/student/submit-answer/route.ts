@@ -1,23 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
+import { gradeResponse, questionTypeOf } from '@/lib/grading';
+import { QUESTION_TYPE_LABELS, normalizeResponse } from '@/lib/question-types';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+import { toTimeSpentSeconds } from '@/lib/time-analytics';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
 
 export async function POST(req: NextRequest) {
   try {
     const supabase = createRouteHandlerClient({ cookies });
-    
-    console.log('🔄 Starting submit-answer API call');
-    
+
     // Check authentication
     const { data: authData, error: authError } = await supabase.auth.getUser();
     
     if (authError || !authData.user) {
-      console.error('❌ Authentication failed:', authError);
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    console.log('✅ User authenticated:', authData.user.id);
-
     // Verify user is a STUDENT
     const { data: userData, error: userError } = await supabase
       .from('users')
@@ -26,73 +29,94 @@ export async function POST(req: NextRequest) {
       .single();
 
     if (userError || !userData) {
-      console.error('❌ User verification failed:', userError);
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
     if (userData.role !== 'STUDENT') {
-      console.error('❌ Access denied: User role is', userData.role);
       return NextResponse.json({ error: 'Access denied. Only students can submit answers.' }, { status: 403 });
     }
 
-    console.log('✅ User verified as STUDENT:', userData.id);
-
     // Parse request body
     const body = await req.json();
-    const { questionId, selectedOption, isCorrect, subjectId, timeSpent } = body;
-
-    console.log('📝 Request data:', { questionId, selectedOption, isCorrect, subjectId, timeSpent });
+    const { questionId, selectedOption, subjectId, timeSpent, revision } = body;
 
-    // Validate required fields
-    if (!questionId || !selectedOption || !subjectId) {
-      console.error('❌ Missing required fields:', { questionId: !!questionId, selectedOption: !!selectedOption, subjectId: !!subjectId });
+    // Validate required fields; correctness is always graded here and a
+    // client-supplied isCorrect is ignored
+    if (!questionId || !selectedOption) {
       return NextResponse.json({ 
         error: 'Missing required fields',
-        details: 'questionId, selectedOption, and subjectId are required' 
+        details: 'questionId and selectedOption are required' 
       }, { status: 400 });
     }
 
-    // Validate selectedOption
-    if (!['A', 'B', 'C', 'D'].includes(selectedOption)) {
-      console.error('❌ Invalid selected option:', selectedOption);
-      return NextResponse.json({ 
-        error: 'Invalid selected option',
-        details: 'selectedOption must be A, B, C, or D' 
-      }, { status: 400 });
-    }
-
-    // First, let's verify the question exists and get its details
-    console.log('🔍 Verifying question exists:', questionId);
-    const { data: questionData, error: questionError } = await supabase
+    // First, let's verify the question exists and get its details. Only published
+    // questions can be answered; the answer key needs the service role client.
+    const { data: questionData, error: questionError } = await getServiceRoleClient()
       .from('questions')
-      .select('id, subject_id, correct_option')
+      .select('id, subject_id, question_type, type_data, numeric_tolerance, correct_option, explanation')
       .eq('id', questionId)
+      .eq('status', PUBLISHED_STATUS)
       .single();
 
     if (questionError || !questionData) {
-      console.error('❌ Question not found:', questionError);
       return NextResponse.json({ 
         error: 'Question not found',
         details: questionError?.message || 'Question does not exist' 
       }, { status: 404 });
     }
 
-    console.log('✅ Question verified:', questionData);
+    // Validate selectedOption against the question type
+    const questionType = questionTypeOf(questionData);
+    const response = normalizeResponse(questionType, selectedOption, questionData.type_data);
+    if (response === null) {
+      return NextResponse.json({ 
+        error: 'Invalid selected option',
+        details: questionType === 'single'
+          ? 'selectedOption must be A, B, C, or D'
+          : `selectedOption is not a valid answer to a ${QUESTION_TYPE_LABELS[questionType]} question`
+      }, { status: 400 });
+    }
 
     // Check if student has already attempted this question
-    console.log('🔍 Checking for existing attempts...');
-    const { data: existingAttempt, error: checkError } = await supabase
+    const { data: existingAttempt } = await supabase
       .from('student_attempts')
-      .select('id, selectedoption, iscorrect, attemptedat')
+      .select('id, selectedoption, iscorrect, score, attemptedat')
       .eq('studentid', authData.user.id)
       .eq('questionid', questionId)
       .maybeSingle();
 
-    console.log('🔍 Existing attempt check result:', { existingAttempt, checkError });
+    // Revising a bookmarked question: grade the new answer but keep the
+    // recorded first attempt, which is what analytics and review are built on
+    if (existingAttempt && revision === true) {
+      const { data: bookmark } = await supabase
+        .from('question_bookmarks')
+        .select('id')
+        .eq('student_id', authData.user.id)
+        .eq('question_id', questionId)
+        .maybeSingle();
+
+      if (bookmark) {
+        const graded = gradeResponse(questionType, response, questionData.correct_option, Number(questionData.numeric_tolerance) || 0);
+        return NextResponse.json({
+          success: true,
+          revision: true,
+          attempt: {
+            id: existingAttempt.id,
+            questionId: questionId,
+            selectedOption: response,
+            isCorrect: graded.isCorrect,
+            score: graded.score,
+            attemptedAt: new Date().toISOString()
+          },
+          questionType,
+          correctOption: questionData.correct_option?.trim(),
+          explanation: questionData.explanation
+        });
+      }
+    }
 
     // If attempt already exists, return the existing data
     if (existingAttempt) {
-      console.log(`✅ Student ${authData.user.id} already attempted question ${questionId}`);
       return NextResponse.json({
         success: true,
         alreadyAttempted: true,
@@ -101,77 +125,54 @@ export async function POST(req: NextRequest) {
           questionId: questionId,
           selectedOption: existingAttempt.selectedoption,
           isCorrect: existingAttempt.iscorrect,
+          score: Number(existingAttempt.score ?? Number(existingAttempt.iscorrect)),
           attemptedAt: existingAttempt.attemptedat
-        }
+        },
+        questionType,
+        correctOption: questionData.correct_option?.trim(),
+        explanation: questionData.explanation
       });
     }
 
-    // Log the check error for debugging, but don't fail the request
-    if (checkError) {
-      console.warn('⚠️ Warning checking existing attempts:', checkError);
-    }
+    // Grade against the stored answer key; multiple-correct answers may earn partial credit
+    const { isCorrect, score } = gradeResponse(questionType, response, questionData.correct_option, Number(questionData.numeric_tolerance) || 0);
 
     // Prepare insert data according to actual database schema
     const insertData = {
       studentid: authData.user.id,
       questionid: questionId,
-      selectedoption: selectedOption,
-      iscorrect: isCorrect === true,
-      subject_id: subjectId,
-      time_spent_seconds: timeSpent || 0,
+      selectedoption: response,
+      iscorrect: isCorrect,
+      score,
+      subject_id: questionData.subject_id || subjectId,
+      // Seconds on this question, rounded and capped
+      time_spent_seconds: toTimeSpentSeconds(timeSpent),
       attemptedat: new Date().toISOString()
     };
 
-    console.log('📤 Preparing to insert student attempt:', insertData);
-
-    // First check if the table exists and create if it doesn't
-    try {
-      const { data: tableCheck } = await supabase
-        .from('student_attempts')
-        .select('id')
-        .limit(1);
-      
-      console.log('✅ student_attempts table exists');
-    } catch (tableError: any) {
-      if (tableError?.code === '42P01') { // Table doesn't exist
-        console.error('❌ student_attempts table does not exist');
-        return NextResponse.json({ 
-          error: 'Database not properly set up',
-          details: 'student_attempts table is missing. Please run database migrations.',
-          tableError: tableError.message
-        }, { status: 500 });
-      }
-    }
-
-    // Insert the student attempt with proper error handling
-    const { data: attempt, error: attemptError } = await supabase
+    // Insert the student attempt with proper error handling. Students cannot write
+    // attempts themselves (see migration 24), so the graded row goes in as the server.
+    const { data: attempt, error: attemptError } = await getServiceRoleClient()
       .from('student_attempts')
       .insert(insertData)
       .select()
       .single();
 
     if (attemptError) {
-      console.error('❌ Error inserting student attempt:', {
-        error: attemptError,
-        insertData,
-        errorCode: attemptError.code,
-        errorMessage: attemptError.message,
-        errorDetails: attemptError.details,
-        errorHint: attemptError.hint
-      });
+      if (isDev) {
+        console.error('❌ Error inserting student attempt:', attemptError);
+      }
 
       // Handle specific error cases
       if (attemptError.code === '23505') { // Unique constraint violation
-        console.log('🔄 Duplicate attempt detected, fetching existing record...');
         const { data: existingRecord } = await supabase
           .from('student_attempts')
-          .select('id, selectedoption, iscorrect, attemptedat')
+          .select('id, selectedoption, iscorrect, score, attemptedat')
           .eq('studentid', authData.user.id)
           .eq('questionid', questionId)
           .single();
 
         if (existingRecord) {
-          console.log('✅ Returning existing attempt record');
           return NextResponse.json({
             success: true,
             alreadyAttempted: true,
@@ -180,8 +181,12 @@ export async function POST(req: NextRequest) {
               questionId: questionId,
               selectedOption: existingRecord.selectedoption,
               isCorrect: existingRecord.iscorrect,
+              score: Number(existingRecord.score ?? Number(existingRecord.iscorrect)),
               attemptedAt: existingRecord.attemptedat
-            }
+            },
+            questionType,
+            correctOption: questionData.correct_option?.trim(),
+            explanation: questionData.explanation
           });
         }
       }
@@ -195,28 +200,34 @@ export async function POST(req: NextRequest) {
     }
 
     if (!attempt) {
-      console.error('❌ No attempt data returned from insert');
+      if (isDev) {
+        console.error('❌ No attempt data returned from insert');
+      }
       return NextResponse.json({ 
         error: 'Failed to submit answer',
         details: 'No data returned from database' 
       }, { status: 500 });
     }
 
-    console.log(`✅ Answer submitted successfully: Student ${authData.user.id} answered question ${questionId} with ${selectedOption} (${isCorrect ? 'correct' : 'incorrect'})`);
-
     return NextResponse.json({
       success: true,
       attempt: {
         id: attempt.id,
         questionId: attempt.questionid || questionId,
-        selectedOption: attempt.selectedoption || selectedOption,
+        selectedOption: attempt.selectedoption || response,
         isCorrect: attempt.iscorrect,
+        score,
         attemptedAt: attempt.attemptedat
-      }
+      },
+      questionType,
+      correctOption: questionData.correct_option?.trim(),
+      explanation: questionData.explanation
     });
 
   } catch (error) {
-    console.error('💥 Unexpected error in submit-answer API:', error);
+    if (isDev) {
+      console.error('❌ Error in submit-answer POST:', error);
+    }
     return NextResponse.json(
       { 
         error: 'Internal server error',
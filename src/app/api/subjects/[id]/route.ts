@@ -3,6 +3,7 @@ import { getRouteHandlerClient, getServiceRoleClient } from '@/lib/supabase-serv
 import { createClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { validateScoringScheme } from '@/lib/scoring';
 
 // OPTIONS handler for CORS preflight requests
 export async function OPTIONS() {
@@ -41,7 +42,7 @@ export async function GET(
     // Fetch subject details
     const { data: subject, error: subjectError } = await supabase
       .from('subjects')
-      .select('id, name, examcategory, description, created_at')
+      .select('id, name, examcategory, description, correct_marks, incorrect_marks, created_at')
       .eq('id', subjectId)
       .single();
 
@@ -118,6 +119,22 @@ export async function PUT(
       return NextResponse.json({ error: 'Subject name is required' }, { status: 400 });
     }
     
+    // Optional scoring override; null for both clears it so the exam category scheme applies
+    const scoringUpdate: { correct_marks?: number | null; incorrect_marks?: number | null } = {};
+    if (body.correctMarks !== undefined) {
+      if (body.correctMarks === null) {
+        scoringUpdate.correct_marks = null;
+        scoringUpdate.incorrect_marks = null;
+      } else {
+        const errors = validateScoringScheme(body.correctMarks, body.incorrectMarks);
+        if (errors.length > 0) {
+          return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+        }
+        scoringUpdate.correct_marks = Number(body.correctMarks);
+        scoringUpdate.incorrect_marks = Number(body.incorrectMarks ?? 0);
+      }
+    }
+    
     // Check if subject exists
     const { data: existingSubject, error: checkError } = await supabaseAdmin
       .from('subjects')
@@ -137,6 +154,7 @@ export async function PUT(
       .from('subjects')
       .update({
         name,
+        ...scoringUpdate,
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
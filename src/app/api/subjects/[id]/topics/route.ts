@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { MAX_TOPIC_NAME_LENGTH, TOPIC_COLUMNS, TopicRow, buildTopicTree, toTopic } from '@/lib/topics';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// GET - Chapters of a subject with their topics nested
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: subjectId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: rows, error } = await supabase
+      .from('topics')
+      .select(TOPIC_COLUMNS)
+      .eq('subject_id', subjectId);
+
+    if (error) {
+      if (isDev) {
+        console.error('❌ Error fetching topics:', error);
+      }
+      return NextResponse.json({ error: 'Failed to fetch topics' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      subjectId,
+      chapters: buildTopicTree((rows || []) as TopicRow[])
+    });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error fetching topics:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a chapter, or a topic when parentId names a chapter - SUPERADMIN only
+// Body: { name: string, parentId?: string }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: subjectId } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const { data: authData, error: authError } = await supabase.auth.getUser();
+    if (authError || !authData.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('id, role')
+      .eq('id', authData.user.id)
+      .single();
+
+    if (userError || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (userData.role !== 'SUPERADMIN') {
+      return NextResponse.json({ error: 'Access denied. SUPERADMIN role required.' }, { status: 403 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const parentId = typeof body.parentId === 'string' && body.parentId ? body.parentId : null;
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+    if (name.length > MAX_TOPIC_NAME_LENGTH) {
+      return NextResponse.json({ error: `Name cannot exceed ${MAX_TOPIC_NAME_LENGTH} characters` }, { status: 400 });
+    }
+
+    const { data: subject } = await supabase
+      .from('subjects')
+      .select('id')
+      .eq('id', subjectId)
+      .maybeSingle();
+
+    if (!subject) {
+      return NextResponse.json({ error: 'Subject not found' }, { status: 404 });
+    }
+
+    // Topics live inside a chapter of the same subject; chapters have no parent
+    if (parentId) {
+      const { data: parent } = await supabase
+        .from('topics')
+        .select('id, subject_id, kind')
+        .eq('id', parentId)
+        .maybeSingle();
+
+      if (!parent || parent.subject_id !== subjectId || parent.kind !== 'chapter') {
+        return NextResponse.json({ error: 'Parent chapter not found in this subject' }, { status: 400 });
+      }
+    }
+
+    // New entries go to the end of their siblings
+    let siblingsQuery = supabase
+      .from('topics')
+      .select('position')
+      .eq('subject_id', subjectId)
+      .order('position', { ascending: false })
+      .limit(1);
+    siblingsQuery = parentId ? siblingsQuery.eq('parent_id', parentId) : siblingsQuery.is('parent_id', null);
+    const { data: lastSibling } = await siblingsQuery.maybeSingle();
+
+    const { data: topic, error: insertError } = await supabase
+      .from('topics')
+      .insert({
+        subject_id: subjectId,
+        parent_id: parentId,
+        kind: parentId ? 'topic' : 'chapter',
+        name,
+        position: (lastSibling?.position ?? -1) + 1
+      })
+      .select(TOPIC_COLUMNS)
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json({ error: `"${name}" already exists here` }, { status: 409 });
+      }
+      if (isDev) {
+        console.error('❌ Error creating topic:', insertError);
+      }
+      return NextResponse.json({ error: 'Failed to create topic', details: insertError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ topic: toTopic(topic as TopicRow) }, { status: 201 });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error creating topic:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MAX_TOPIC_NAME_LENGTH, TOPIC_COLUMNS, TopicRow, toTopic } from '@/lib/topics';
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Returns the error response for non-SUPERADMIN callers, or null
+async function requireSuperadmin(supabase: SupabaseClient) {
+  const { data: authData, error: authError } = await supabase.auth.getUser();
+  if (authError || !authData.user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, role')
+    .eq('id', authData.user.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  if (userData.role !== 'SUPERADMIN') {
+    return NextResponse.json({ error: 'Access denied. SUPERADMIN role required.' }, { status: 403 });
+  }
+
+  return null;
+}
+
+// PUT - Rename or reorder a chapter or topic - SUPERADMIN only
+// Body: { name?: string, position?: number }
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const denied = await requireSuperadmin(supabase);
+    if (denied) return denied;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Invalid request body',
+        details: 'Could not parse JSON request'
+      }, { status: 400 });
+    }
+
+    const updates: { name?: string; position?: number; updated_at: string } = {
+      updated_at: new Date().toISOString()
+    };
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+      }
+      if (name.length > MAX_TOPIC_NAME_LENGTH) {
+        return NextResponse.json({ error: `Name cannot exceed ${MAX_TOPIC_NAME_LENGTH} characters` }, { status: 400 });
+      }
+      updates.name = name;
+    }
+
+    if (body.position !== undefined) {
+      if (!Number.isInteger(body.position) || body.position < 0) {
+        return NextResponse.json({ error: 'Position must be a non-negative integer' }, { status: 400 });
+      }
+      updates.position = body.position;
+    }
+
+    const { data: topic, error } = await supabase
+      .from('topics')
+      .update(updates)
+      .eq('id', id)
+      .select(TOPIC_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `"${updates.name}" already exists here` }, { status: 409 });
+      }
+      if (isDev) {
+        console.error('❌ Error updating topic:', error);
+      }
+      return NextResponse.json({ error: 'Failed to update topic', details: error.message }, { status: 500 });
+    }
+
+    if (!topic) {
+      return NextResponse.json({ error: 'Topic not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ topic: toTopic(topic as TopicRow) });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error updating topic:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a chapter (with its topics) or a topic - SUPERADMIN only.
+// Like subjects, entries that still have questions cannot be deleted.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+
+    const denied = await requireSuperadmin(supabase);
+    if (denied) return denied;
+
+    const { data: topic } = await supabase
+      .from('topics')
+      .select('id, kind')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!topic) {
+      return NextResponse.json({ error: 'Topic not found' }, { status: 404 });
+    }
+
+    const { count: questionCount, error: countError } = await supabase
+      .from('questions')
+      .select('id', { count: 'exact', head: true })
+      .eq(topic.kind === 'chapter' ? 'chapter_id' : 'topic_id', id);
+
+    if (countError) {
+      if (isDev) {
+        console.error('❌ Error counting questions for topic:', countError);
+      }
+      return NextResponse.json({ error: 'Error checking for associated questions' }, { status: 500 });
+    }
+
+    if (questionCount && questionCount > 0) {
+      return NextResponse.json(
+        { error: `Cannot delete ${topic.kind} with ${questionCount} associated questions` },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('topics')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      if (isDev) {
+        console.error('❌ Error deleting topic:', error);
+      }
+      return NextResponse.json({ error: 'Failed to delete topic', details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: `${topic.kind === 'chapter' ? 'Chapter' : 'Topic'} deleted successfully` });
+
+  } catch (error) {
+    if (isDev) {
+      console.error('❌ Unexpected error deleting topic:', error);
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
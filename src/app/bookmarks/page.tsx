@@ -0,0 +1,338 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Alert,
+  Spin,
+  Space,
+  Tag,
+  Empty,
+  Select,
+  Input,
+  Popconfirm,
+  message
+} from 'antd';
+import {
+  ArrowLeftOutlined,
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  DeleteOutlined,
+  EditOutlined,
+  PlayCircleOutlined
+} from '@ant-design/icons';
+import AspectRatioLayout from '@/components/AspectRatioLayout';
+import RichContent from '@/components/Question/RichContent';
+import AnswerInput from '@/components/Question/AnswerInput';
+import { QuestionType, QuestionTypeData } from '@/types';
+
+const { Header, Content } = Layout;
+const { Title, Text } = Typography;
+const { TextArea } = Input;
+
+// Mirrors MAX_NOTE_LENGTH in src/lib/bookmarks.ts
+const MAX_NOTE_LENGTH = 5000;
+
+interface BookmarkedQuestion {
+  id: string;
+  question_type?: QuestionType | null;
+  type_data?: QuestionTypeData | null;
+  title: string;
+  content: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  difficulty: string;
+  subject_id: string;
+}
+
+interface Bookmark {
+  id: string;
+  questionId: string;
+  note: string | null;
+  createdAt: string;
+  updatedAt: string;
+  subjectName: string | null;
+  question: BookmarkedQuestion;
+  lastAttempt: { isCorrect: boolean; score: number } | null;
+}
+
+export default function BookmarksPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [subjectFilter, setSubjectFilter] = useState<string | undefined>(undefined);
+  // Question whose note is being edited, and the draft
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+
+    const fetchBookmarks = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch('/api/student/bookmarks', { credentials: 'include' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch bookmarks');
+        }
+
+        setBookmarks(data.bookmarks || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBookmarks();
+  }, [user, router]);
+
+  const subjects = useMemo(() => {
+    const names = new Map<string, string>();
+    bookmarks.forEach(bookmark => {
+      names.set(bookmark.question.subject_id, bookmark.subjectName || 'Unknown Subject');
+    });
+    return [...names.entries()]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [bookmarks]);
+
+  const visibleBookmarks = subjectFilter
+    ? bookmarks.filter(bookmark => bookmark.question.subject_id === subjectFilter)
+    : bookmarks;
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.questionId);
+    setDraft(bookmark.note || '');
+  };
+
+  const saveNote = async (questionId: string) => {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/student/bookmarks/${questionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ note: draft })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save note');
+      }
+
+      setBookmarks(prev => prev.map(bookmark => bookmark.questionId === questionId
+        ? { ...bookmark, note: data.note, updatedAt: data.updatedAt }
+        : bookmark));
+      setEditingId(null);
+      message.success('Note saved');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to save note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeBookmark = async (questionId: string) => {
+    try {
+      const response = await fetch(`/api/student/bookmarks/${questionId}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to remove bookmark');
+      }
+
+      setBookmarks(prev => prev.filter(bookmark => bookmark.questionId !== questionId));
+      if (editingId === questionId) setEditingId(null);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to remove bookmark');
+    }
+  };
+
+  const practiceBookmarks = () => {
+    router.push(`/practice?bookmarks=1${subjectFilter ? `&subject=${subjectFilter}` : ''}`);
+  };
+
+  if (!user) {
+    return (
+      <AspectRatioLayout>
+        <div className="full-height" style={{ background: '#f0f2f5' }}></div>
+      </AspectRatioLayout>
+    );
+  }
+
+  return (
+    <AspectRatioLayout>
+      <Layout className="full-height">
+        <Header style={{ background: '#fff', padding: '0 16px', display: 'flex', alignItems: 'center' }}>
+          <Button
+            type="text"
+            icon={<ArrowLeftOutlined />}
+            onClick={() => router.push('/dashboard')}
+            style={{ marginRight: 8 }}
+          >
+            <span className="hidden-mobile">Dashboard</span>
+          </Button>
+          <Title level={3} style={{ margin: 0 }}>
+            Bookmarks
+          </Title>
+        </Header>
+        <Content style={{ padding: '24px', flex: 1, overflowY: 'auto' }}>
+          <div style={{ maxWidth: 800, margin: '0 auto' }}>
+            {loading && (
+              <Card style={{ textAlign: 'center' }}>
+                <Spin tip="Loading bookmarks..." />
+              </Card>
+            )}
+
+            {error && (
+              <Alert message={error} type="error" showIcon style={{ marginBottom: 24 }} />
+            )}
+
+            {!loading && !error && bookmarks.length === 0 && (
+              <Card>
+                <Empty description="No bookmarks yet. Bookmark questions in practice, daily sets or review to find them here." />
+              </Card>
+            )}
+
+            {bookmarks.length > 0 && (
+              <Card style={{ marginBottom: 24 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 12 }}>
+                  <Select
+                    allowClear
+                    placeholder="All subjects"
+                    value={subjectFilter}
+                    onChange={setSubjectFilter}
+                    options={subjects.map(subject => ({ value: subject.id, label: subject.name }))}
+                    style={{ minWidth: 200 }}
+                  />
+                  <Button
+                    type="primary"
+                    icon={<PlayCircleOutlined />}
+                    onClick={practiceBookmarks}
+                    disabled={visibleBookmarks.length === 0}
+                  >
+                    Practice {visibleBookmarks.length} Bookmark{visibleBookmarks.length === 1 ? '' : 's'}
+                  </Button>
+                </div>
+              </Card>
+            )}
+
+            <Space direction="vertical" size="large" style={{ width: '100%' }}>
+              {visibleBookmarks.map(bookmark => {
+                const { question, lastAttempt } = bookmark;
+                const isEditing = editingId === bookmark.questionId;
+
+                return (
+                  <Card
+                    key={bookmark.id}
+                    title={question.title}
+                    extra={
+                      <Space>
+                        {bookmark.subjectName && <Tag color="blue">{bookmark.subjectName}</Tag>}
+                        <Tag color={question.difficulty === 'EASY' ? 'green' :
+                                   question.difficulty === 'MEDIUM' ? 'orange' : 'red'}>
+                          {question.difficulty}
+                        </Tag>
+                        {!lastAttempt
+                          ? <Tag>Not answered</Tag>
+                          : lastAttempt.isCorrect
+                            ? <Tag color="success" icon={<CheckCircleOutlined />}>Correct</Tag>
+                            : lastAttempt.score > 0
+                              ? <Tag color="warning">Partially correct</Tag>
+                              : <Tag color="error" icon={<CloseCircleOutlined />}>Incorrect</Tag>}
+                      </Space>
+                    }
+                    actions={[
+                      <Button
+                        key="note"
+                        type="text"
+                        icon={<EditOutlined />}
+                        onClick={() => startEditing(bookmark)}
+                        disabled={isEditing}
+                      >
+                        {bookmark.note ? 'Edit Note' : 'Add Note'}
+                      </Button>,
+                      <Popconfirm
+                        key="remove"
+                        title="Remove this bookmark?"
+                        description={bookmark.note ? 'Your note will be deleted too.' : undefined}
+                        onConfirm={() => removeBookmark(bookmark.questionId)}
+                      >
+                        <Button type="text" danger icon={<DeleteOutlined />}>
+                          Remove
+                        </Button>
+                      </Popconfirm>
+                    ]}
+                  >
+                    <RichContent style={{ marginBottom: '1em' }}>{question.content}</RichContent>
+                    <AnswerInput
+                      questionType={question.question_type}
+                      typeData={question.type_data}
+                      options={[
+                        { key: 'A', value: question.option_a },
+                        { key: 'B', value: question.option_b },
+                        { key: 'C', value: question.option_c },
+                        { key: 'D', value: question.option_d }
+                      ]}
+                      disabled
+                    />
+
+                    {isEditing ? (
+                      <div style={{ marginTop: 16 }}>
+                        <TextArea
+                          value={draft}
+                          onChange={event => setDraft(event.target.value)}
+                          rows={5}
+                          maxLength={MAX_NOTE_LENGTH}
+                          showCount
+                          placeholder="Your private note (Markdown and $math$ supported)"
+                        />
+                        {draft.trim() && (
+                          <div style={{ marginTop: 12, padding: 12, background: '#fafafa', borderRadius: 6 }}>
+                            <Text type="secondary" style={{ fontSize: 12 }}>Preview</Text>
+                            <RichContent>{draft}</RichContent>
+                          </div>
+                        )}
+                        <Space style={{ marginTop: 12 }}>
+                          <Button type="primary" loading={saving} onClick={() => saveNote(bookmark.questionId)}>
+                            Save Note
+                          </Button>
+                          <Button onClick={() => setEditingId(null)} disabled={saving}>
+                            Cancel
+                          </Button>
+                        </Space>
+                      </div>
+                    ) : bookmark.note && (
+                      <div style={{ marginTop: 16, padding: 12, background: '#fffbe6', border: '1px solid #ffe58f', borderRadius: 6 }}>
+                        <Text type="secondary" style={{ fontSize: 12 }}>My note</Text>
+                        <RichContent>{bookmark.note}</RichContent>
+                      </div>
+                    )}
+                  </Card>
+                );
+              })}
+            </Space>
+          </div>
+        </Content>
+      </Layout>
+    </AspectRatioLayout>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Alert,
+  Spin,
+  Space,
+  Tag,
+  Progress
+} from 'antd';
+import { ArrowLeftOutlined, CheckCircleOutlined, CloseCircleOutlined } from '@ant-design/icons';
+import AspectRatioLayout from '@/components/AspectRatioLayout';
+import RichContent from '@/components/Question/RichContent';
+import { QuestionTypeContent, ResponseText } from '@/components/Question/AnswerInput';
+import BookmarkButton, { useQuestionBookmarks } from '@/components/Student/BookmarkButton';
+import { QuestionType, QuestionTypeData } from '@/types';
+
+const { Header, Content } = Layout;
+const { Title, Text } = Typography;
+
+interface ReviewedQuestion {
+  id: string;
+  questionType: QuestionType;
+  typeData: QuestionTypeData | null;
+  title: string;
+  content: string;
+  subjectId: string;
+  subjectName: string | null;
+  options: { key: string; value: string }[];
+  selectedOption: string | null;
+  correctOption: string | null;
+  numericTolerance: number;
+  isCorrect: boolean | null;
+  score: number | null;
+  marks: number;
+  maxMarks: number;
+  explanation: string | null;
+}
+
+interface DailySetDetail {
+  date: string;
+  score: number | null;
+  marks: number | null; // null for sets finalized before scoring schemes
+  maxMarks: number | null;
+  totalQuestions: number;
+  autoFinalized: boolean;
+  questions: ReviewedQuestion[];
+}
+
+// Option letters are compared per letter so multiple-correct answers highlight every option
+function getOptionStyle(question: ReviewedQuestion, optionKey: string): React.CSSProperties {
+  if (question.correctOption?.includes(optionKey)) {
+    return { background: '#f6ffed', border: '1px solid #b7eb8f' };
+  }
+  if (question.selectedOption?.includes(optionKey)) {
+    return { background: '#fff1f0', border: '1px solid #ffa39e' };
+  }
+  return { border: '1px solid #f0f0f0' };
+}
+
+export default function DailySetReview({ params }: { params: Promise<{ date: string }> }) {
+  const { date } = use(params);
+  const { user } = useAuth();
+  const router = useRouter();
+  const [detail, setDetail] = useState<DailySetDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { isBookmarked, isPending, toggleBookmark } = useQuestionBookmarks(
+    detail ? detail.questions.map(question => question.id) : []
+  );
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+
+    const fetchDetail = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/daily-questions/history/${date}`, {
+          credentials: 'include'
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.details || errorData.error || 'Failed to fetch daily set');
+        }
+
+        setDetail(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDetail();
+  }, [user, router, date]);
+
+  if (!user) {
+    return (
+      <AspectRatioLayout>
+        <div className="full-height" style={{ background: '#f0f2f5' }}></div>
+      </AspectRatioLayout>
+    );
+  }
+
+  return (
+    <AspectRatioLayout>
+      <Layout className="full-height">
+        <Header style={{ background: '#fff', padding: '0 16px', display: 'flex', alignItems: 'center' }}>
+          <Button
+            type="text"
+            icon={<ArrowLeftOutlined />}
+            onClick={() => router.push('/daily-questions/history')}
+            style={{ marginRight: 8 }}
+          >
+            <span className="hidden-mobile">History</span>
+          </Button>
+          <Title level={3} style={{ margin: 0 }}>
+            {date}
+          </Title>
+        </Header>
+        <Content style={{ padding: '24px', flex: 1, overflowY: 'auto' }}>
+          <div style={{ maxWidth: 800, margin: '0 auto' }}>
+            {loading && (
+              <Card style={{ textAlign: 'center' }}>
+                <Spin tip="Loading daily set..." />
+              </Card>
+            )}
+
+            {error && (
+              <Alert message={error} type="error" showIcon style={{ marginBottom: 24 }} />
+            )}
+
+            {detail && (
+              <Space direction="vertical" size="large" style={{ width: '100%' }}>
+                <Card>
+                  <Space size="large" align="center">
+                    <Progress
+                      type="circle"
+                      size={80}
+                      percent={detail.totalQuestions > 0 ? Math.round(((detail.score || 0) / detail.totalQuestions) * 100) : 0}
+                      format={() => `${detail.score || 0}/${detail.totalQuestions}`}
+                    />
+                    <Space direction="vertical" size={0}>
+                      <Text strong>{detail.score || 0} of {detail.totalQuestions} correct</Text>
+                      {detail.maxMarks !== null && (
+                        <Text>Marks with negative marking: {detail.marks} / {detail.maxMarks}</Text>
+                      )}
+                      {detail.autoFinalized && (
+                        <Text type="secondary">Submitted automatically at the end of the day</Text>
+                      )}
+                    </Space>
+                  </Space>
+                </Card>
+
+                {detail.questions.map((question, index) => (
+                  <Card
+                    key={question.id}
+                    title={`Question ${index + 1}`}
+                    extra={
+                      <Space>
+                        {question.subjectName && <Tag color="blue">{question.subjectName}</Tag>}
+                        {detail.maxMarks !== null && (
+                          <Tag color={question.marks < 0 ? 'red' : undefined}>
+                            {question.marks > 0 ? `+${question.marks}` : question.marks} / {question.maxMarks}
+                          </Tag>
+                        )}
+                        {question.isCorrect === null
+                          ? <Tag>Not answered</Tag>
+                          : question.isCorrect
+                            ? <Tag color="success" icon={<CheckCircleOutlined />}>Correct</Tag>
+                            : question.score
+                              ? <Tag color="warning">Partially correct</Tag>
+                              : <Tag color="error" icon={<CloseCircleOutlined />}>Incorrect</Tag>}
+                        <BookmarkButton
+                          bookmarked={isBookmarked(question.id)}
+                          loading={isPending(question.id)}
+                          onToggle={() => toggleBookmark(question.id)}
+                        />
+                      </Space>
+                    }
+                    style={{ width: '100%' }}
+                  >
+                    <Title level={4}>{question.title}</Title>
+                    <RichContent style={{ marginBottom: '1em' }}>{question.content}</RichContent>
+                    <QuestionTypeContent questionType={question.questionType} typeData={question.typeData} />
+
+                    <Space direction="vertical" style={{ width: '100%' }}>
+                      {question.options.map(option => (
+                        <div
+                          key={option.key}
+                          style={{ padding: '8px 12px', borderRadius: 6, ...getOptionStyle(question, option.key) }}
+                        >
+                          <Text strong>{option.key}.</Text> <RichContent inline>{option.value}</RichContent>
+                          {question.selectedOption?.includes(option.key) && <Text type="secondary"> (your answer)</Text>}
+                        </div>
+                      ))}
+                      {question.options.length === 0 && (
+                        <>
+                          <Text>
+                            <Text strong>Your answer:</Text>{' '}
+                            {question.selectedOption
+                              ? <ResponseText questionType={question.questionType} value={question.selectedOption} options={[]} />
+                              : <Text type="secondary">Not answered</Text>}
+                          </Text>
+                          <Text>
+                            <Text strong>Correct answer:</Text>{' '}
+                            <ResponseText
+                              questionType={question.questionType}
+                              value={question.correctOption}
+                              options={[]}
+                              numericTolerance={question.numericTolerance}
+                            />
+                          </Text>
+                        </>
+                      )}
+                    </Space>
+
+                    {question.explanation && (
+                      <Alert
+                        type="info"
+                        message="Explanation"
+                        description={<RichContent>{question.explanation}</RichContent>}
+                        style={{ marginTop: 16 }}
+                      />
+                    )}
+                  </Card>
+                ))}
+              </Space>
+            )}
+          </div>
+        </Content>
+      </Layout>
+    </AspectRatioLayout>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Calendar,
+  Alert,
+  Spin,
+  Space,
+  Tooltip
+} from 'antd';
+import { ArrowLeftOutlined } from '@ant-design/icons';
+import AspectRatioLayout from '@/components/AspectRatioLayout';
+
+const { Header, Content } = Layout;
+const { Title, Text } = Typography;
+
+interface DailySetSummary {
+  date: string;
+  completed: boolean;
+  score: number | null;
+  totalQuestions: number;
+  answeredQuestions: number | null;
+  autoFinalized: boolean;
+}
+
+// Heatmap shades from low to high score; an unfinished set uses the first
+const HEATMAP_COLORS = ['#f5f5f5', '#ffccc7', '#ffe7ba', '#d9f7be', '#95de64', '#52c41a'];
+
+function getHeatmapColor(set: DailySetSummary): string {
+  if (!set.completed || set.totalQuestions === 0) return HEATMAP_COLORS[0];
+  const ratio = (set.score || 0) / set.totalQuestions;
+  return HEATMAP_COLORS[Math.min(Math.floor(ratio * 5) + 1, HEATMAP_COLORS.length - 1)];
+}
+
+function getMonthRange(year: number, month: number): { from: string; to: string } {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return {
+    from: `${year}-${pad(month + 1)}-01`,
+    to: `${year}-${pad(month + 1)}-${pad(lastDay)}`
+  };
+}
+
+export default function DailyQuestionHistory() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [sets, setSets] = useState<Record<string, DailySetSummary>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { from, to } = getMonthRange(visibleMonth.year, visibleMonth.month);
+        const response = await fetch(`/api/daily-questions/history?from=${from}&to=${to}&pageSize=31`, {
+          credentials: 'include'
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch history');
+        }
+
+        const data = await response.json();
+        setSets(Object.fromEntries((data.sets as DailySetSummary[]).map(set => [set.date, set])));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [user, router, visibleMonth]);
+
+  const completedSets = Object.values(sets).filter(set => set.completed);
+  const monthCorrect = completedSets.reduce((sum, set) => sum + (set.score || 0), 0);
+  const monthTotal = completedSets.reduce((sum, set) => sum + set.totalQuestions, 0);
+
+  if (!user) {
+    return (
+      <AspectRatioLayout>
+        <div className="full-height" style={{ background: '#f0f2f5' }}></div>
+      </AspectRatioLayout>
+    );
+  }
+
+  return (
+    <AspectRatioLayout>
+      <Layout className="full-height">
+        <Header style={{ background: '#fff', padding: '0 16px', display: 'flex', alignItems: 'center' }}>
+          <Button
+            type="text"
+            icon={<ArrowLeftOutlined />}
+            onClick={() => router.push('/dashboard')}
+            style={{ marginRight: 8 }}
+          >
+            <span className="hidden-mobile">Back</span>
+          </Button>
+          <Title level={3} style={{ margin: 0 }}>
+            <span className="hidden-mobile">Daily Question History</span>
+            <span className="visible-mobile">History</span>
+          </Title>
+        </Header>
+        <Content style={{ padding: '24px', flex: 1, overflowY: 'auto' }}>
+          <div style={{ maxWidth: 800, margin: '0 auto' }}>
+            {error && (
+              <Alert
+                message={error}
+                type="error"
+                showIcon
+                style={{ marginBottom: 24 }}
+                closable
+                onClose={() => setError(null)}
+              />
+            )}
+
+            <Card>
+              <Space style={{ width: '100%', justifyContent: 'space-between', marginBottom: 8 }} wrap>
+                <Text>
+                  {completedSets.length} set(s) completed this month
+                  {monthTotal > 0 && ` · ${Math.round((monthCorrect / monthTotal) * 100)}% correct`}
+                </Text>
+                <Space size={4}>
+                  <Text type="secondary">Less</Text>
+                  {HEATMAP_COLORS.map(color => (
+                    <span key={color} style={{ display: 'inline-block', width: 12, height: 12, background: color, borderRadius: 2 }} />
+                  ))}
+                  <Text type="secondary">More</Text>
+                </Space>
+              </Space>
+
+              <Spin spinning={loading}>
+                <Calendar
+                  fullscreen={false}
+                  onPanelChange={(value, mode) => {
+                    if (mode === 'month') {
+                      setVisibleMonth({ year: value.year(), month: value.month() });
+                    }
+                  }}
+                  onSelect={(value, { source }) => {
+                    const set = sets[value.format('YYYY-MM-DD')];
+                    if (source === 'date' && set?.completed) {
+                      router.push(`/daily-questions/history/${set.date}`);
+                    }
+                  }}
+                  fullCellRender={(current, info) => {
+                    if (info.type !== 'date') return info.originNode;
+
+                    const set = sets[current.format('YYYY-MM-DD')];
+                    const inMonth = current.month() === visibleMonth.month;
+                    const cell = (
+                      <div
+                        style={{
+                          margin: 2,
+                          padding: '4px 0',
+                          borderRadius: 4,
+                          background: set && inMonth ? getHeatmapColor(set) : 'transparent',
+                          opacity: inMonth ? 1 : 0.35,
+                          cursor: set?.completed ? 'pointer' : 'default'
+                        }}
+                      >
+                        {current.date()}
+                      </div>
+                    );
+
+                    if (!set || !inMonth) return cell;
+
+                    return (
+                      <Tooltip
+                        title={set.completed
+                          ? `${set.score || 0}/${set.totalQuestions} correct${set.autoFinalized ? ' (submitted automatically)' : ''}`
+                          : 'In progress'}
+                      >
+                        {cell}
+                      </Tooltip>
+                    );
+                  }}
+                />
+              </Spin>
+
+              <Text type="secondary">Select a completed day to review its questions and answers.</Text>
+            </Card>
+          </div>
+        </Content>
+      </Layout>
+    </AspectRatioLayout>
+  );
+}
@@ -1,41 +1,64 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
 import { getBrowserClient } from '@/lib/supabase-browser';
-import { UserRole } from '@/types';
+import { QuestionType, QuestionTypeData, UserRole } from '@/types';
 import { 
   Layout, 
   Typography, 
   Button, 
   Card, 
-  Radio, 
   Alert, 
   Spin, 
   Result,
   Progress,
   Space,
-  Divider
+  Divider,
+  Tag,
+  Modal
 } from 'antd';
 import { ArrowLeftOutlined, CheckCircleOutlined } from '@ant-design/icons';
 import AspectRatioLayout from '@/components/AspectRatioLayout';
+import RichContent from '@/components/Question/RichContent';
+import AnswerInput from '@/components/Question/AnswerInput';
+import BookmarkButton, { useQuestionBookmarks } from '@/components/Student/BookmarkButton';
+import ReportIssueButton from '@/components/Student/ReportIssueButton';
+import { isCompleteResponse } from '@/lib/question-types';
 
 const { Header, Content } = Layout;
-const { Title, Text, Paragraph } = Typography;
+const { Title, Text } = Typography;
 
 interface QuestionWithOptions {
   id: string;
+  questionType?: QuestionType;
+  typeData?: QuestionTypeData | null;
   title: string;
   content: string;
+  subjectId: string;
+  subjectName: string | null;
   options: { key: string; value: string }[];
 }
 
+interface DailySetSubject {
+  id: string;
+  name: string | null;
+  questionCount: number;
+}
+
 interface DailyQuestionSetResponse {
   date: string;
   questions: QuestionWithOptions[];
+  subjects?: DailySetSubject[];
   completed: boolean;
   score?: number;
+  // Scheme-based marks; null for sets finalized before scoring schemes
+  marks?: number | null;
+  maxMarks?: number | null;
+  subjectScores?: Record<string, { correct: number; total: number; marks?: number; maxMarks?: number }> | null;
+  savedAnswers?: Record<string, { selectedOption: string; timeSpentSeconds: number }>;
+  answeredQuestions?: number;
   message?: string;
 }
 
@@ -47,6 +70,12 @@ export default function DailyQuestions() {
   const [currentSet, setCurrentSet] = useState<DailyQuestionSetResponse | null>(null);
   const [selectedAnswers, setSelectedAnswers] = useState<Record<string, string>>({});
   const [submitting, setSubmitting] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  // Time since the last pick is credited to the question answered next
+  const lastActivityRef = useRef<number>(Date.now());
+  const { isBookmarked, isPending, toggleBookmark } = useQuestionBookmarks(
+    currentSet ? currentSet.questions.map(question => question.id) : []
+  );
   
   useEffect(() => {
     // Redirect if not logged in
@@ -82,6 +111,15 @@ export default function DailyQuestions() {
         
         const data = await response.json();
         setCurrentSet(data);
+        
+        // Resume any answers saved earlier today
+        if (data.savedAnswers) {
+          setSelectedAnswers(Object.fromEntries(
+            Object.entries(data.savedAnswers as Record<string, { selectedOption: string }>)
+              .map(([questionId, answer]) => [questionId, answer.selectedOption])
+          ));
+        }
+        lastActivityRef.current = Date.now();
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An unknown error occurred');
       } finally {
@@ -96,33 +134,70 @@ export default function DailyQuestions() {
     router.push('/dashboard');
   };
   
-  const handleAnswerChange = (questionId: string, option: string) => {
+  // Whether a question's answer is complete enough to save and grade
+  const isAnswered = (question: QuestionWithOptions) =>
+    isCompleteResponse(question.questionType || 'single', selectedAnswers[question.id], question.typeData);
+  
+  const handleAnswerChange = async (question: QuestionWithOptions, option: string) => {
+    const questionId = question.id;
     setSelectedAnswers(prev => ({
       ...prev,
       [questionId]: option
     }));
+    
+    // Half-matched lists and partly typed numbers stay local until complete
+    if (!currentSet || !isCompleteResponse(question.questionType || 'single', option, question.typeData)) return;
+    
+    const now = Date.now();
+    const timeSpentSeconds = Math.round((now - lastActivityRef.current) / 1000);
+    lastActivityRef.current = now;
+    
+    // Autosave the pick so progress survives a refresh or closed tab
+    try {
+      setSaveStatus('saving');
+      const response = await fetch('/api/daily-questions', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          date: currentSet.date,
+          answers: [{ questionId, selectedOption: option, timeSpentSeconds }]
+        }),
+      });
+      setSaveStatus(response.ok ? 'saved' : 'error');
+    } catch {
+      setSaveStatus('error');
+    }
   };
   
   const handleSubmitAnswers = async () => {
     try {
       if (!currentSet) return;
       
-      // Check if all questions have been answered
-      const unansweredQuestions = currentSet.questions.filter(
-        q => !selectedAnswers[q.id]
-      );
+      // Unanswered questions are not graded, so confirm before submitting early
+      const unansweredQuestions = currentSet.questions.filter(q => !isAnswered(q));
       
       if (unansweredQuestions.length > 0) {
-        setError(`Please answer all questions before submitting. You have ${unansweredQuestions.length} unanswered questions.`);
-        return;
+        const confirmed = await new Promise<boolean>(resolve => {
+          Modal.confirm({
+            title: 'Submit with unanswered questions?',
+            content: `You have ${unansweredQuestions.length} unanswered question(s). They will count as not attempted.`,
+            okText: 'Submit',
+            cancelText: 'Keep Answering',
+            onOk: () => resolve(true),
+            onCancel: () => resolve(false)
+          });
+        });
+        if (!confirmed) return;
       }
       
       setSubmitting(true);
       setError(null);
       
-      const answers = Object.entries(selectedAnswers).map(([questionId, selectedOption]) => ({
-        questionId,
-        selectedOption
+      const answers = currentSet.questions.filter(isAnswered).map(question => ({
+        questionId: question.id,
+        selectedOption: selectedAnswers[question.id]
       }));
       
       const response = await fetch('/api/daily-questions', {
@@ -145,7 +220,11 @@ export default function DailyQuestions() {
       setCurrentSet(prev => ({
         ...prev!,
         completed: true,
-        score: result.score
+        score: result.score,
+        marks: result.marks,
+        maxMarks: result.maxMarks,
+        answeredQuestions: result.answeredQuestions,
+        subjectScores: result.subjectScores
       }));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
@@ -255,6 +334,9 @@ export default function DailyQuestions() {
                   <Button type="primary" key="dashboard" onClick={handleBackToDashboard}>
                     Back to Dashboard
                   </Button>,
+                  <Button key="review" onClick={() => router.push(`/daily-questions/history/${currentSet.date}`)}>
+                    Review Answers
+                  </Button>,
                 ]}
               />
               <Divider />
@@ -263,6 +345,29 @@ export default function DailyQuestions() {
                 percent={Math.round(((currentSet.score || 0) / currentSet.questions.length) * 100)}
                 format={() => `${currentSet.score || 0}/${currentSet.questions.length}`}
             />
+              {currentSet.maxMarks !== null && currentSet.maxMarks !== undefined && (
+                <div style={{ marginTop: 16 }}>
+                  <Text>Marks with negative marking: </Text>
+                  <Text strong>{currentSet.marks} / {currentSet.maxMarks}</Text>
+                </div>
+              )}
+              {currentSet.subjectScores && (currentSet.subjects?.length || 0) > 1 && (
+                <Space direction="vertical" style={{ marginTop: 24, width: '100%' }}>
+                  {currentSet.subjects!.map(subject => {
+                    const subjectScore = currentSet.subjectScores?.[subject.id];
+                    if (!subjectScore) return null;
+                    return (
+                      <div key={subject.id} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Text>{subject.name || 'Subject'}</Text>
+                        <Text strong>
+                          {subjectScore.correct}/{subjectScore.total}
+                          {subjectScore.maxMarks !== undefined && ` (${subjectScore.marks} / ${subjectScore.maxMarks} marks)`}
+                        </Text>
+                      </div>
+                    );
+                  })}
+                </Space>
+              )}
           </Card>
         </Content>
       </Layout>
@@ -290,8 +395,11 @@ export default function DailyQuestions() {
             </Title>
           </div>
           <Text type="secondary">
-            <span className="hidden-mobile">{Object.keys(selectedAnswers).length} / {currentSet.questions.length} answered</span>
-            <span className="visible-mobile">{Object.keys(selectedAnswers).length}/{currentSet.questions.length}</span>
+            {saveStatus === 'saving' && <span className="hidden-mobile">Saving... · </span>}
+            {saveStatus === 'saved' && <span className="hidden-mobile">Progress saved · </span>}
+            {saveStatus === 'error' && <Text type="danger" className="hidden-mobile">Not saved · </Text>}
+            <span className="hidden-mobile">{currentSet.questions.filter(isAnswered).length} / {currentSet.questions.length} answered</span>
+            <span className="visible-mobile">{currentSet.questions.filter(isAnswered).length}/{currentSet.questions.length}</span>
           </Text>
       </Header>
         <Content style={{ padding: '24px', flex: 1, overflowY: 'auto' }}>
@@ -312,24 +420,29 @@ export default function DailyQuestions() {
           <Card 
             key={question.id} 
                   title={`Question ${index + 1}`}
+                  extra={
+                    <Space size="small">
+                      {question.subjectName && <Tag color="blue">{question.subjectName}</Tag>}
+                      <BookmarkButton
+                        bookmarked={isBookmarked(question.id)}
+                        loading={isPending(question.id)}
+                        onToggle={() => toggleBookmark(question.id)}
+                      />
+                      <ReportIssueButton questionId={question.id} />
+                    </Space>
+                  }
                   style={{ width: '100%' }}
           >
                   <Title level={4}>{question.title}</Title>
-            <Paragraph>{question.content}</Paragraph>
+            <RichContent style={{ marginBottom: '1em' }}>{question.content}</RichContent>
                   
-            <Radio.Group 
+            <AnswerInput
+              questionType={question.questionType}
+              typeData={question.typeData}
+              options={question.options}
               value={selectedAnswers[question.id]}
-                    onChange={(e) => handleAnswerChange(question.id, e.target.value)}
-                    style={{ width: '100%' }}
-                  >
-                    <Space direction="vertical" style={{ width: '100%' }}>
-                      {question.options.map((option) => (
-                        <Radio key={option.key} value={option.key} style={{ width: '100%' }}>
-                          {option.value}
-                </Radio>
-              ))}
-                    </Space>
-            </Radio.Group>
+              onChange={(value) => handleAnswerChange(question, value)}
+            />
           </Card>
         ))}
             </Space>
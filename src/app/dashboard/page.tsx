@@ -20,7 +20,8 @@ import {
   Table,
   message,
   Statistic,
-  Grid
+  Grid,
+  Space
 } from 'antd';
 import {
   LogoutOutlined,
@@ -33,12 +34,17 @@ import {
   DatabaseOutlined,
   TeamOutlined,
   FileTextOutlined,
-  WarningOutlined
+  WarningOutlined,
+  AuditOutlined
 } from '@ant-design/icons';
 import Link from 'next/link';
 import SubjectSelection from '@/components/Auth/SubjectSelection';
 import SubjectManager from '@/components/Admin/SubjectManager';
+import ScoringSchemeManager from '@/components/Admin/ScoringSchemeManager';
+import QuestionReportsOverview from '@/components/Admin/QuestionReportsOverview';
+import PlatformAnalytics from '@/components/Admin/PlatformAnalytics';
 import QuestionManager from '@/components/QAUTHOR/QuestionManager';
+import MockTestManager from '@/components/QAUTHOR/MockTestManager';
 import AspectRatioLayout from '@/components/AspectRatioLayout';
 import EnhancedStudentDashboard from '@/components/Student/EnhancedStudentDashboard';
 
@@ -564,6 +570,11 @@ export default function Dashboard() {
                         View All Questions
                       </Button>
                     </Link>
+                    <Link href="/admin/review">
+                      <Button icon={<AuditOutlined />} block style={{ marginTop: 8 }}>
+                        Review Queue
+                      </Button>
+                    </Link>
                   </Card>
                 </Col>
               </Row>
@@ -573,6 +584,14 @@ export default function Dashboard() {
                 <SubjectManager onSubjectChange={handleSubjectChange} />
               </Card>
 
+              <ScoringSchemeManager />
+
+              <MockTestManager />
+
+              <QuestionReportsOverview />
+
+              <PlatformAnalytics />
+
               {/* All Users Table */}
               <Card title={
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -673,22 +692,34 @@ export default function Dashboard() {
                   <Card>
                     <Title level={2}>Welcome, Question Author!</Title>
                     <Paragraph>
-                      As a Question Author, you can create questions for students. Your questions will be reviewed and made available to students in their daily question practice.
+                      As a Question Author, you can create questions for students. Submit your drafts for review; once another author or an admin approves them, they are published to students in their daily question practice.
                     </Paragraph>
                     <Divider />
-                    <Button 
-                      type="primary" 
-                      icon={<PlusOutlined />}
-                      size="large"
-                      onClick={() => router.push('/create-question')}
-                    >
-                      Create New Question
-                    </Button>
+                    <Space wrap>
+                      <Button 
+                        type="primary" 
+                        icon={<PlusOutlined />}
+                        size="large"
+                        onClick={() => router.push('/create-question')}
+                      >
+                        Create New Question
+                      </Button>
+                      <Button 
+                        icon={<AuditOutlined />}
+                        size="large"
+                        onClick={() => router.push('/admin/review')}
+                      >
+                        Review Peer Questions
+                      </Button>
+                    </Space>
                   </Card>
                 </Col>
                 <Col span={24}>
                   <QuestionManager />
                 </Col>
+                <Col span={24}>
+                  <MockTestManager />
+                </Col>
               </Row>
             </div>
           )}
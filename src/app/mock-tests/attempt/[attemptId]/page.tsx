@@ -0,0 +1,468 @@
+'use client';
+
+import { use, useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Alert,
+  Spin,
+  Space,
+  Tag,
+  Row,
+  Col,
+  Modal,
+  Badge
+} from 'antd';
+import { ArrowLeftOutlined, ClockCircleOutlined, FlagOutlined } from '@ant-design/icons';
+import AspectRatioLayout from '@/components/AspectRatioLayout';
+import RichContent from '@/components/Question/RichContent';
+import AnswerInput from '@/components/Question/AnswerInput';
+import MockTestReport, { MockTestReportData } from '@/components/Student/MockTestReport';
+import { isCompleteResponse } from '@/lib/question-types';
+import { QuestionType, QuestionTypeData, ScoringScheme } from '@/types';
+
+const { Header, Content } = Layout;
+const { Title, Text } = Typography;
+
+interface AttemptQuestion {
+  id: string;
+  section: number;
+  questionType: QuestionType;
+  typeData: QuestionTypeData | null;
+  title: string;
+  content: string;
+  options: { key: string; value: string }[];
+}
+
+interface SavedResponse {
+  selectedOption: string | null;
+  markedForReview: boolean;
+  timeSpentSeconds: number;
+}
+
+interface AttemptState {
+  id: string;
+  title: string;
+  status: 'in_progress';
+  sections: { name: string; subjectName: string | null; questionCount: number }[];
+  deadlineAt: string;
+  serverNow: string;
+  scheme: ScoringScheme;
+  questions: AttemptQuestion[];
+  responses: Record<string, SavedResponse>;
+}
+
+interface ResponseUpdate {
+  questionId: string;
+  selectedOption?: string | null;
+  markedForReview?: boolean;
+  timeSpentSeconds?: number;
+}
+
+type PaletteStatus = 'answered' | 'answeredMarked' | 'marked' | 'notAnswered' | 'notVisited';
+
+const PALETTE_STYLES: Record<PaletteStatus, { label: string; style: React.CSSProperties }> = {
+  answered: { label: 'Answered', style: { background: '#52c41a', borderColor: '#52c41a', color: '#fff' } },
+  answeredMarked: { label: 'Answered & marked for review', style: { background: '#722ed1', borderColor: '#52c41a', color: '#fff', borderWidth: 3 } },
+  marked: { label: 'Marked for review', style: { background: '#722ed1', borderColor: '#722ed1', color: '#fff' } },
+  notAnswered: { label: 'Not answered', style: { background: '#ff4d4f', borderColor: '#ff4d4f', color: '#fff' } },
+  notVisited: { label: 'Not visited', style: { background: '#fff', color: 'rgba(0, 0, 0, 0.88)' } }
+};
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+export default function MockTestAttemptPage({ params }: { params: Promise<{ attemptId: string }> }) {
+  const { attemptId } = use(params);
+  const { user } = useAuth();
+  const router = useRouter();
+  const [attempt, setAttempt] = useState<AttemptState | null>(null);
+  const [report, setReport] = useState<MockTestReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [marked, setMarked] = useState<Record<string, boolean>>({});
+  const [visited, setVisited] = useState<Record<string, boolean>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [clockNow, setClockNow] = useState(Date.now());
+  // Server time minus local time, so the countdown follows the server's deadline
+  const clockOffsetRef = useRef(0);
+  // Time since the current question was shown is credited to it when the student moves on
+  const lastActivityRef = useRef<number>(Date.now());
+  const autoSubmitStartedRef = useRef(false);
+
+  const loadAttempt = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/mock-tests/attempts/${attemptId}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load mock test');
+      }
+
+      if (data.status === 'submitted') {
+        setAttempt(null);
+        setReport(data);
+        return;
+      }
+
+      const state = data as AttemptState;
+      clockOffsetRef.current = new Date(state.serverNow).getTime() - Date.now();
+      setAttempt(state);
+      setAnswers(Object.fromEntries(
+        Object.entries(state.responses)
+          .filter(([, saved]) => typeof saved.selectedOption === 'string')
+          .map(([questionId, saved]) => [questionId, saved.selectedOption as string])
+      ));
+      setMarked(Object.fromEntries(
+        Object.entries(state.responses).map(([questionId, saved]) => [questionId, saved.markedForReview])
+      ));
+      setVisited({
+        ...Object.fromEntries(Object.keys(state.responses).map(questionId => [questionId, true])),
+        ...(state.questions[0] ? { [state.questions[0].id]: true } : {})
+      });
+      setCurrent(0);
+      lastActivityRef.current = Date.now();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [attemptId]);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    loadAttempt();
+  }, [user, router, loadAttempt]);
+
+  useEffect(() => {
+    if (!attempt) return;
+    const timer = setInterval(() => setClockNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [attempt]);
+
+  const remainingMs = attempt
+    ? new Date(attempt.deadlineAt).getTime() - (clockNow + clockOffsetRef.current)
+    : 0;
+
+  const isAnswered = (question: AttemptQuestion) =>
+    isCompleteResponse(question.questionType || 'single', answers[question.id], question.typeData);
+
+  // Time on the current question since it was shown or last saved
+  const takeElapsedSeconds = () => {
+    const now = Date.now();
+    const seconds = Math.round((now - lastActivityRef.current) / 1000);
+    lastActivityRef.current = now;
+    return seconds;
+  };
+
+  const saveResponses = async (updates: ResponseUpdate[]) => {
+    try {
+      setSaveStatus('saving');
+      const response = await fetch(`/api/mock-tests/attempts/${attemptId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ responses: updates })
+      });
+
+      // Time ran out on the server, which submitted the sitting; show the report
+      if (response.status === 409) {
+        loadAttempt();
+        return;
+      }
+      setSaveStatus(response.ok ? 'saved' : 'error');
+    } catch {
+      setSaveStatus('error');
+    }
+  };
+
+  const submitAttempt = async (auto: boolean) => {
+    if (!attempt) return;
+    try {
+      setSubmitting(true);
+      const question = attempt.questions[current];
+      const responses = attempt.questions.filter(isAnswered).map(answeredQuestion => ({
+        questionId: answeredQuestion.id,
+        selectedOption: answers[answeredQuestion.id],
+        ...(answeredQuestion.id === question?.id ? { timeSpentSeconds: takeElapsedSeconds() } : {})
+      }));
+
+      const response = await fetch(`/api/mock-tests/attempts/${attemptId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ responses })
+      });
+
+      if (!response.ok && response.status !== 400) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to submit mock test');
+      }
+
+      if (auto) {
+        Modal.info({ title: 'Time is up', content: 'Your test was submitted automatically.' });
+      }
+      await loadAttempt();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Submit once the countdown runs out; the server grades the sitting anyway if this never arrives
+  const submitRef = useRef(submitAttempt);
+  submitRef.current = submitAttempt;
+  useEffect(() => {
+    if (attempt && remainingMs <= 0 && !autoSubmitStartedRef.current) {
+      autoSubmitStartedRef.current = true;
+      submitRef.current(true);
+    }
+  }, [attempt, remainingMs]);
+
+  const goTo = (index: number) => {
+    if (!attempt || index < 0 || index >= attempt.questions.length || index === current) return;
+    const leaving = attempt.questions[current];
+    saveResponses([{ questionId: leaving.id, timeSpentSeconds: takeElapsedSeconds() }]);
+    setVisited(prev => ({ ...prev, [attempt.questions[index].id]: true }));
+    setCurrent(index);
+  };
+
+  const handleAnswerChange = (question: AttemptQuestion, value: string) => {
+    setAnswers(prev => ({ ...prev, [question.id]: value }));
+
+    // Half-matched lists and partly typed numbers stay local until complete
+    if (!isCompleteResponse(question.questionType || 'single', value, question.typeData)) return;
+    saveResponses([{ questionId: question.id, selectedOption: value, timeSpentSeconds: takeElapsedSeconds() }]);
+  };
+
+  const handleClear = (question: AttemptQuestion) => {
+    setAnswers(prev => {
+      const next = { ...prev };
+      delete next[question.id];
+      return next;
+    });
+    saveResponses([{ questionId: question.id, selectedOption: null, timeSpentSeconds: takeElapsedSeconds() }]);
+  };
+
+  const handleToggleMark = (question: AttemptQuestion) => {
+    const markedForReview = !marked[question.id];
+    setMarked(prev => ({ ...prev, [question.id]: markedForReview }));
+    saveResponses([{ questionId: question.id, markedForReview, timeSpentSeconds: takeElapsedSeconds() }]);
+    if (markedForReview) goTo(current + 1);
+  };
+
+  const confirmSubmit = () => {
+    if (!attempt) return;
+    const unanswered = attempt.questions.filter(question => !isAnswered(question)).length;
+    const reviewCount = attempt.questions.filter(question => marked[question.id]).length;
+    Modal.confirm({
+      title: 'Submit the test?',
+      content: (
+        <Space direction="vertical">
+          <Text>Answered: {attempt.questions.length - unanswered} of {attempt.questions.length}</Text>
+          {reviewCount > 0 && <Text>Marked for review: {reviewCount}</Text>}
+          <Text type="secondary">You cannot change your answers after submitting.</Text>
+        </Space>
+      ),
+      okText: 'Submit',
+      cancelText: 'Keep Answering',
+      onOk: () => submitAttempt(false)
+    });
+  };
+
+  const paletteStatus = (question: AttemptQuestion): PaletteStatus => {
+    const answered = isAnswered(question);
+    if (marked[question.id]) return answered ? 'answeredMarked' : 'marked';
+    if (answered) return 'answered';
+    return visited[question.id] ? 'notAnswered' : 'notVisited';
+  };
+
+  if (!user) {
+    return (
+      <AspectRatioLayout>
+        <div className="full-height" style={{ background: '#f0f2f5' }}></div>
+      </AspectRatioLayout>
+    );
+  }
+
+  const question = attempt?.questions[current];
+  const statusCounts = attempt
+    ? attempt.questions.reduce<Record<PaletteStatus, number>>((counts, item) => {
+      counts[paletteStatus(item)]++;
+      return counts;
+    }, { answered: 0, answeredMarked: 0, marked: 0, notAnswered: 0, notVisited: 0 })
+    : null;
+
+  return (
+    <AspectRatioLayout>
+      <Layout className="full-height">
+        <Header style={{ background: '#fff', padding: '0 16px', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
+            {!attempt && (
+              <Button
+                type="text"
+                icon={<ArrowLeftOutlined />}
+                onClick={() => router.push('/mock-tests')}
+                style={{ marginRight: 8 }}
+              >
+                <span className="hidden-mobile">Mock Tests</span>
+              </Button>
+            )}
+            <Title level={3} style={{ margin: 0, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+              {attempt?.title || report?.title || 'Mock Test'}
+            </Title>
+          </div>
+          {attempt && (
+            <Tag
+              icon={<ClockCircleOutlined />}
+              color={remainingMs < 5 * 60 * 1000 ? 'red' : 'blue'}
+              style={{ fontSize: 16, padding: '4px 8px' }}
+            >
+              {formatRemaining(remainingMs)}
+            </Tag>
+          )}
+        </Header>
+        <Content style={{ padding: '24px', flex: 1, overflowY: 'auto' }}>
+          <div style={{ maxWidth: 1100, margin: '0 auto' }}>
+            {loading && !attempt && !report && (
+              <Card style={{ textAlign: 'center' }}>
+                <Spin tip="Loading mock test..." />
+              </Card>
+            )}
+
+            {error && (
+              <Alert message={error} type="error" showIcon style={{ marginBottom: 24 }} />
+            )}
+
+            {report && <MockTestReport report={report} />}
+
+            {attempt && question && statusCounts && (
+              <Row gutter={[16, 16]}>
+                <Col xs={24} lg={16}>
+                  <Card
+                    title={`Question ${current + 1} of ${attempt.questions.length}`}
+                    extra={
+                      <Space>
+                        <Tag color="blue">{attempt.sections[question.section]?.name}</Tag>
+                        <Text type="secondary">
+                          +{attempt.scheme.correctMarks} / {attempt.scheme.incorrectMarks}
+                        </Text>
+                      </Space>
+                    }
+                  >
+                    <Title level={4}>{question.title}</Title>
+                    <RichContent style={{ marginBottom: '1em' }}>{question.content}</RichContent>
+                    <AnswerInput
+                      questionType={question.questionType}
+                      typeData={question.typeData}
+                      options={question.options}
+                      value={answers[question.id] || ''}
+                      onChange={(value) => handleAnswerChange(question, value)}
+                      disabled={submitting}
+                    />
+
+                    <div style={{ display: 'flex', justifyContent: 'space-between', flexWrap: 'wrap', gap: 8, marginTop: 24 }}>
+                      <Space wrap>
+                        <Button onClick={() => goTo(current - 1)} disabled={current === 0}>
+                          Previous
+                        </Button>
+                        <Button onClick={() => handleClear(question)} disabled={!answers[question.id] || submitting}>
+                          Clear Response
+                        </Button>
+                        <Button icon={<FlagOutlined />} onClick={() => handleToggleMark(question)} disabled={submitting}>
+                          {marked[question.id] ? 'Unmark' : 'Mark for Review & Next'}
+                        </Button>
+                      </Space>
+                      <Button
+                        type="primary"
+                        onClick={() => goTo(current + 1)}
+                        disabled={current === attempt.questions.length - 1}
+                      >
+                        Save & Next
+                      </Button>
+                    </div>
+                    <div style={{ marginTop: 12 }}>
+                      {saveStatus === 'saving' && <Text type="secondary">Saving...</Text>}
+                      {saveStatus === 'saved' && <Text type="secondary">Progress saved</Text>}
+                      {saveStatus === 'error' && <Text type="danger">Could not save progress</Text>}
+                    </div>
+                  </Card>
+                </Col>
+
+                <Col xs={24} lg={8}>
+                  <Card title="Questions">
+                    {attempt.sections.map((section, sectionIndex) => (
+                      <div key={sectionIndex} style={{ marginBottom: 16 }}>
+                        <Text strong>{section.name}</Text>
+                        {section.subjectName && <Text type="secondary"> · {section.subjectName}</Text>}
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
+                          {attempt.questions.map((item, index) => item.section === sectionIndex && (
+                            <Button
+                              key={item.id}
+                              size="small"
+                              style={{
+                                width: 36,
+                                ...PALETTE_STYLES[paletteStatus(item)].style,
+                                ...(index === current ? { outline: '2px solid #1677ff', outlineOffset: 1 } : {})
+                              }}
+                              onClick={() => goTo(index)}
+                            >
+                              {index + 1}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                    <Space direction="vertical" size={4} style={{ width: '100%' }}>
+                      {(Object.keys(PALETTE_STYLES) as PaletteStatus[]).map(status => (
+                        <Space key={status}>
+                          <Badge
+                            count={statusCounts[status]}
+                            showZero
+                            style={{ ...PALETTE_STYLES[status].style, boxShadow: '0 0 0 1px #d9d9d9' }}
+                          />
+                          <Text>{PALETTE_STYLES[status].label}</Text>
+                        </Space>
+                      ))}
+                    </Space>
+
+                    <Button
+                      type="primary"
+                      danger
+                      block
+                      loading={submitting}
+                      onClick={confirmSubmit}
+                      style={{ marginTop: 16 }}
+                    >
+                      Submit Test
+                    </Button>
+                  </Card>
+                </Col>
+              </Row>
+            )}
+          </div>
+        </Content>
+      </Layout>
+    </AspectRatioLayout>
+  );
+}
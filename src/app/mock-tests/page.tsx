@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Alert,
+  Spin,
+  Space,
+  Tag,
+  Empty,
+  List,
+  Modal,
+  message
+} from 'antd';
+import { ArrowLeftOutlined, ClockCircleOutlined, PlayCircleOutlined } from '@ant-design/icons';
+import AspectRatioLayout from '@/components/AspectRatioLayout';
+import { MockTest, MockTestAttemptStatus, MockTestSection } from '@/types';
+
+const { Header, Content } = Layout;
+const { Title, Text, Paragraph } = Typography;
+
+interface MockTestAttemptSummary {
+  id: string;
+  status: MockTestAttemptStatus;
+  startedAt: string;
+  deadlineAt: string;
+  submittedAt: string | null;
+  autoSubmitted: boolean;
+  marks: number | null;
+  maxMarks: number | null;
+}
+
+interface StudentMockTest extends MockTest {
+  sections: (MockTestSection & { subjectName: string | null })[];
+  totalQuestions: number;
+  attempts: MockTestAttemptSummary[];
+}
+
+export default function MockTestsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [tests, setTests] = useState<StudentMockTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+
+    const fetchTests = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch('/api/mock-tests', { credentials: 'include' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.details || data.error || 'Failed to fetch mock tests');
+        }
+
+        setTests(data.tests || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTests();
+  }, [user, router]);
+
+  const startTest = async (test: StudentMockTest) => {
+    try {
+      setStarting(test.id);
+      const response = await fetch(`/api/mock-tests/${test.id}/attempts`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to start mock test');
+      }
+      router.push(`/mock-tests/attempt/${data.attemptId}`);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to start mock test');
+      setStarting(null);
+    }
+  };
+
+  const confirmStart = (test: StudentMockTest) => {
+    Modal.confirm({
+      title: `Start ${test.title}?`,
+      content: `You will have ${test.durationMinutes} minutes for ${test.totalQuestions} questions. The timer keeps running if you leave the page, and the test is submitted automatically when time is up.`,
+      okText: 'Start',
+      onOk: () => startTest(test)
+    });
+  };
+
+  if (!user) {
+    return (
+      <AspectRatioLayout>
+        <div className="full-height" style={{ background: '#f0f2f5' }}></div>
+      </AspectRatioLayout>
+    );
+  }
+
+  return (
+    <AspectRatioLayout>
+      <Layout className="full-height">
+        <Header style={{ background: '#fff', padding: '0 16px', display: 'flex', alignItems: 'center' }}>
+          <Button
+            type="text"
+            icon={<ArrowLeftOutlined />}
+            onClick={() => router.push('/dashboard')}
+            style={{ marginRight: 8 }}
+          >
+            <span className="hidden-mobile">Dashboard</span>
+          </Button>
+          <Title level={3} style={{ margin: 0 }}>
+            Mock Tests
+          </Title>
+        </Header>
+        <Content style={{ padding: '24px', flex: 1, overflowY: 'auto' }}>
+          <div style={{ maxWidth: 800, margin: '0 auto' }}>
+            {loading && (
+              <Card style={{ textAlign: 'center' }}>
+                <Spin tip="Loading mock tests..." />
+              </Card>
+            )}
+
+            {error && (
+              <Alert message={error} type="error" showIcon style={{ marginBottom: 24 }} />
+            )}
+
+            {!loading && !error && tests.length === 0 && (
+              <Card>
+                <Empty description="No mock tests are available yet" />
+              </Card>
+            )}
+
+            <Space direction="vertical" size="large" style={{ width: '100%' }}>
+              {tests.map(test => {
+                const inProgress = test.attempts.find(attempt => attempt.status === 'in_progress');
+                const submitted = test.attempts.filter(attempt => attempt.status === 'submitted');
+
+                return (
+                  <Card
+                    key={test.id}
+                    title={test.title}
+                    extra={
+                      <Space>
+                        <Tag>{test.examCategory}</Tag>
+                        <Tag icon={<ClockCircleOutlined />}>{test.durationMinutes} min</Tag>
+                      </Space>
+                    }
+                  >
+                    {test.description && <Paragraph>{test.description}</Paragraph>}
+                    <Space wrap style={{ marginBottom: 12 }}>
+                      {test.sections.map((section, index) => (
+                        <Tag key={index} color="blue">
+                          {section.name}: {section.questionCount} questions
+                          {section.subjectName ? ` (${section.subjectName})` : ''}
+                        </Tag>
+                      ))}
+                    </Space>
+                    <div style={{ marginBottom: 12 }}>
+                      <Text type="secondary">
+                        {test.totalQuestions} questions
+                        {test.scheme && ` · +${test.scheme.correctMarks} per correct, ${test.scheme.incorrectMarks} per wrong`}
+                      </Text>
+                    </div>
+
+                    <Button
+                      type="primary"
+                      icon={<PlayCircleOutlined />}
+                      loading={starting === test.id}
+                      onClick={() => inProgress
+                        ? router.push(`/mock-tests/attempt/${inProgress.id}`)
+                        : confirmStart(test)}
+                    >
+                      {inProgress ? 'Resume' : submitted.length > 0 ? 'Take Again' : 'Start Test'}
+                    </Button>
+
+                    {submitted.length > 0 && (
+                      <List
+                        size="small"
+                        header={<Text strong>Previous attempts</Text>}
+                        style={{ marginTop: 16 }}
+                        dataSource={submitted}
+                        renderItem={attempt => (
+                          <List.Item
+                            actions={[
+                              <Button
+                                key="report"
+                                size="small"
+                                onClick={() => router.push(`/mock-tests/attempt/${attempt.id}`)}
+                              >
+                                View Report
+                              </Button>
+                            ]}
+                          >
+                            <Space>
+                              <Text>{new Date(attempt.startedAt).toLocaleString()}</Text>
+                              <Text strong>{attempt.marks ?? 0} / {attempt.maxMarks ?? 0}</Text>
+                              {attempt.autoSubmitted && <Tag>Time up</Tag>}
+                            </Space>
+                          </List.Item>
+                        )}
+                      />
+                    )}
+                  </Card>
+                );
+              })}
+            </Space>
+          </div>
+        </Content>
+      </Layout>
+    </AspectRatioLayout>
+  );
+}
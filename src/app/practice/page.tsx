@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
 import { 
@@ -8,7 +8,6 @@ import {
   Typography, 
   Button, 
   Card, 
-  Radio, 
   Alert, 
   Spin, 
   Progress,
@@ -33,6 +32,12 @@ import {
   BookOutlined
 } from '@ant-design/icons';
 import AspectRatioLayout from '@/components/AspectRatioLayout';
+import RichContent from '@/components/Question/RichContent';
+import AnswerInput, { ResponseText } from '@/components/Question/AnswerInput';
+import BookmarkButton, { useQuestionBookmarks } from '@/components/Student/BookmarkButton';
+import ReportIssueButton from '@/components/Student/ReportIssueButton';
+import { isCompleteResponse } from '@/lib/question-types';
+import { QuestionType, QuestionTypeData } from '@/types';
 
 const { Header, Content } = Layout;
 const { Title, Text, Paragraph } = Typography;
@@ -41,14 +46,14 @@ const { Countdown } = Statistic;
 
 interface Question {
   id: string;
+  question_type?: QuestionType | null;
+  type_data?: QuestionTypeData | null;
   title: string;
   content: string;
   option_a: string;
   option_b: string;
   option_c: string;
   option_d: string;
-  correct_option: string;
-  explanation: string;
   difficulty: string;
   subject_id: string;
   attemptCount?: number;
@@ -60,6 +65,17 @@ interface Subject {
   examcategory?: string;
 }
 
+// Server-graded outcome for a submitted question.
+// Practice questions arrive without correct_option/explanation; they are only
+// revealed by the server once the answer has been recorded.
+interface AnswerResult {
+  isCorrect: boolean;
+  // Credit earned, 0-1; between the two for partially correct multiple-correct answers
+  score: number;
+  correctOption: string;
+  explanation: string;
+}
+
 interface PracticeSession {
   questions: Question[];
   currentQuestionIndex: number;
@@ -74,6 +90,8 @@ export default function PracticePage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const subjectId = searchParams.get('subject');
+  // Practicing bookmarked questions, optionally limited to one subject
+  const bookmarksMode = searchParams.get('bookmarks') === '1';
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -81,9 +99,16 @@ export default function PracticePage() {
   const [currentAnswer, setCurrentAnswer] = useState<string>('');
   const [showExplanation, setShowExplanation] = useState(false);
   const [submittedAnswers, setSubmittedAnswers] = useState<Set<string>>(new Set());
+  const [answerResults, setAnswerResults] = useState<Record<string, AnswerResult>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
   const [sessionTime, setSessionTime] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  // Session time when the current question was shown; paused time is not counted
+  const questionShownAtRef = useRef(0);
+  const { isBookmarked, isPending, toggleBookmark } = useQuestionBookmarks(
+    session ? session.questions.map(question => question.id) : []
+  );
 
   // Timer effect
   useEffect(() => {
@@ -108,56 +133,68 @@ export default function PracticePage() {
       return;
     }
 
-    if (!subjectId) {
+    if (!subjectId && !bookmarksMode) {
       setError('No subject selected. Please select a subject to practice.');
       setLoading(false);
       return;
     }
 
     initializePracticeSession();
-  }, [user, router, subjectId]);
+  }, [user, router, subjectId, bookmarksMode]);
 
   const initializePracticeSession = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      // Fetch questions for the subject
-      const response = await fetch(`/api/questions?subject=${subjectId}&limit=20`, {
-        method: 'GET',
-        credentials: 'include',
-      });
+      // Fetch questions for the subject, or the student's bookmarked questions
+      const response = bookmarksMode
+        ? await fetch(`/api/student/bookmarks${subjectId ? `?subjectId=${subjectId}` : ''}`, {
+          method: 'GET',
+          credentials: 'include',
+        })
+        : await fetch(`/api/questions?subject=${subjectId}&limit=20`, {
+          method: 'GET',
+          credentials: 'include',
+        });
 
       if (!response.ok) {
         throw new Error('Failed to fetch practice questions');
       }
 
       const data = await response.json();
+      const questions: Question[] = bookmarksMode
+        ? (data.bookmarks || []).map((bookmark: { question: Question }) => bookmark.question)
+        : data.questions || [];
       
-      if (!data.questions || data.questions.length === 0) {
-        setError('No questions available for this subject yet. Please try another subject or check back later.');
+      if (questions.length === 0) {
+        setError(bookmarksMode
+          ? 'You have no bookmarked questions to practice yet. Bookmark questions while practicing to come back to them here.'
+          : 'No questions available for this subject yet. Please try another subject or check back later.');
         setLoading(false);
         return;
       }
 
-      // Get subject info
-      const subjectResponse = await fetch(`/api/subjects/${subjectId}`, {
-        method: 'GET',
-        credentials: 'include',
-      });
-
-      let subjectInfo: Subject = { id: subjectId || '', name: 'Unknown Subject' };
-      if (subjectResponse.ok) {
-        const subjectData = await subjectResponse.json();
-        subjectInfo = {
-          id: subjectData.id || subjectId || '',
-          name: subjectData.name || 'Unknown Subject',
-          examcategory: subjectData.examcategory
-        };
+      // Get subject info; a bookmarks session may span every subject
+      let subjectInfo: Subject = { id: subjectId || '', name: bookmarksMode ? 'Bookmarks' : 'Unknown Subject' };
+      if (subjectId) {
+        const subjectResponse = await fetch(`/api/subjects/${subjectId}`, {
+          method: 'GET',
+          credentials: 'include',
+        });
+
+        if (subjectResponse.ok) {
+          const subjectData = await subjectResponse.json();
+          subjectInfo = {
+            id: subjectData.id || subjectId,
+            name: subjectData.name || 'Unknown Subject',
+            examcategory: subjectData.examcategory
+          };
+        }
       }
 
       // Shuffle questions for variety
-      const shuffledQuestions = [...data.questions].sort(() => Math.random() - 0.5);
+      const shuffledQuestions = [...questions].sort(() => Math.random() - 0.5);
 
       setSession({
         questions: shuffledQuestions,
@@ -188,18 +225,17 @@ export default function PracticePage() {
     }
 
     setSubmitting(true);
+    setSubmitError(null);
     const currentQuestion = session.questions[session.currentQuestionIndex];
-    const isCorrect = currentAnswer === currentQuestion.correct_option;
 
     try {
       console.log('Submitting answer:', {
         questionId: currentQuestion.id,
         selectedOption: currentAnswer,
-        isCorrect,
         subjectId: currentQuestion.subject_id
       });
 
-      // Submit answer to backend
+      // Submit answer to backend - correctness is graded on the server
       const response = await fetch('/api/student/submit-answer', {
         method: 'POST',
         headers: {
@@ -209,63 +245,55 @@ export default function PracticePage() {
         body: JSON.stringify({
           questionId: currentQuestion.id,
           selectedOption: currentAnswer,
-          isCorrect: isCorrect,
           subjectId: currentQuestion.subject_id,
-          timeSpent: sessionTime - (session.selectedAnswers[currentQuestion.id] ? 0 : sessionTime)
+          timeSpent: sessionTime - questionShownAtRef.current,
+          // Answers to bookmarked questions that were already attempted are graded
+          // without replacing the first attempt
+          revision: bookmarksMode
         }),
       });
 
       console.log('Submit response status:', response.status);
 
-      if (response.ok) {
-        const result = await response.json();
-        console.log('Submit result:', result);
-        
-        // Handle already attempted case
-        if (result.alreadyAttempted) {
-          console.log('Question was already attempted, using existing answer');
-          setCurrentAnswer(result.attempt.selectedOption);
-        }
-        
-        // Update session state
-        setSession(prev => prev ? {
-          ...prev,
-          selectedAnswers: {
-            ...prev.selectedAnswers,
-            [currentQuestion.id]: result.alreadyAttempted ? result.attempt.selectedOption : currentAnswer
-          }
-        } : null);
-
-        setSubmittedAnswers(prev => new Set([...prev, currentQuestion.id]));
-        setShowExplanation(true);
-      } else {
+      if (!response.ok) {
         const errorData = await response.json();
         console.error('Submit failed:', errorData);
-        // Still allow local state update for better UX
-        setSession(prev => prev ? {
-          ...prev,
-          selectedAnswers: {
-            ...prev.selectedAnswers,
-            [currentQuestion.id]: currentAnswer
-          }
-        } : null);
-
-        setSubmittedAnswers(prev => new Set([...prev, currentQuestion.id]));
-        setShowExplanation(true);
+        throw new Error(errorData.error || 'Failed to submit answer');
       }
-    } catch (err) {
-      console.error('Error submitting answer:', err);
-      // Still allow local state update for better UX
+
+      const result = await response.json();
+      console.log('Submit result:', result);
+
+      // Handle already attempted case
+      if (result.alreadyAttempted) {
+        console.log('Question was already attempted, using existing answer');
+        setCurrentAnswer(result.attempt.selectedOption);
+      }
+
+      // Update session state
       setSession(prev => prev ? {
         ...prev,
         selectedAnswers: {
           ...prev.selectedAnswers,
-          [currentQuestion.id]: currentAnswer
+          [currentQuestion.id]: result.attempt.selectedOption
         }
       } : null);
 
+      setAnswerResults(prev => ({
+        ...prev,
+        [currentQuestion.id]: {
+          isCorrect: result.attempt.isCorrect,
+          score: result.attempt.score ?? Number(result.attempt.isCorrect),
+          correctOption: result.correctOption,
+          explanation: result.explanation
+        }
+      }));
+
       setSubmittedAnswers(prev => new Set([...prev, currentQuestion.id]));
       setShowExplanation(true);
+    } catch (err) {
+      console.error('Error submitting answer:', err);
+      setSubmitError(err instanceof Error ? err.message : 'Failed to submit answer');
     } finally {
       setSubmitting(false);
     }
@@ -276,6 +304,7 @@ export default function PracticePage() {
 
     if (session.currentQuestionIndex < session.questions.length - 1) {
       const nextIndex = session.currentQuestionIndex + 1;
+      questionShownAtRef.current = sessionTime;
       setSession(prev => prev ? {
         ...prev,
         currentQuestionIndex: nextIndex
@@ -293,6 +322,7 @@ export default function PracticePage() {
     if (!session) return;
 
     if (session.currentQuestionIndex > 0) {
+      questionShownAtRef.current = sessionTime;
       setSession(prev => prev ? {
         ...prev,
         currentQuestionIndex: prev.currentQuestionIndex - 1
@@ -313,6 +343,12 @@ export default function PracticePage() {
   const handleEndSession = async () => {
     if (!session) return;
 
+    // A bookmarks session can span subjects, so there is no subject session to record
+    if (!session.subject.id) {
+      router.push('/dashboard');
+      return;
+    }
+
     try {
       // Send session data to backend
       await fetch('/api/student/end-session', {
@@ -401,6 +437,15 @@ export default function PracticePage() {
   const progress = ((session.currentQuestionIndex + 1) / session.questions.length) * 100;
   const isAnswered = submittedAnswers.has(currentQuestion.id);
   const selectedAnswer = session.selectedAnswers[currentQuestion.id] || currentAnswer;
+  const answerResult = answerResults[currentQuestion.id];
+
+  const options = [
+    { key: 'A', value: currentQuestion.option_a },
+    { key: 'B', value: currentQuestion.option_b },
+    { key: 'C', value: currentQuestion.option_c },
+    { key: 'D', value: currentQuestion.option_d }
+  ];
+  const canSubmit = isCompleteResponse(currentQuestion.question_type || 'single', currentAnswer, currentQuestion.type_data);
 
   return (
     <AspectRatioLayout>
@@ -425,7 +470,7 @@ export default function PracticePage() {
           <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
             <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
               <Title level={4} style={{ margin: 0 }}>
-                {session.subject.name} Practice
+                {bookmarksMode && session.subject.id ? `${session.subject.name} Bookmarks` : session.subject.name} Practice
               </Title>
               <Text type="secondary">
                 Question {session.currentQuestionIndex + 1} of {session.questions.length}
@@ -468,13 +513,34 @@ export default function PracticePage() {
             </div>
           </div>
 
+          {submitError && (
+            <Alert
+              message={submitError}
+              type="error"
+              showIcon
+              closable
+              onClose={() => setSubmitError(null)}
+              style={{ marginBottom: '16px' }}
+            />
+          )}
+
           {/* Question Card */}
           <Card style={{ marginBottom: '24px' }}>
             <div style={{ marginBottom: '16px' }}>
-              <Title level={4}>{currentQuestion.title}</Title>
-              <Paragraph style={{ fontSize: '16px', lineHeight: '1.6' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+                <Title level={4}>{currentQuestion.title}</Title>
+                <Space size={0}>
+                  <BookmarkButton
+                    bookmarked={isBookmarked(currentQuestion.id)}
+                    loading={isPending(currentQuestion.id)}
+                    onToggle={() => toggleBookmark(currentQuestion.id)}
+                  />
+                  <ReportIssueButton key={currentQuestion.id} questionId={currentQuestion.id} />
+                </Space>
+              </div>
+              <RichContent style={{ fontSize: '16px', lineHeight: '1.6', marginBottom: '1em' }}>
                 {currentQuestion.content}
-              </Paragraph>
+              </RichContent>
               
               {currentQuestion.attemptCount && (
                 <Text type="secondary" style={{ fontSize: '12px' }}>
@@ -483,36 +549,24 @@ export default function PracticePage() {
               )}
             </div>
 
-            {/* Options */}
-            <Radio.Group
+            {/* Answer */}
+            <AnswerInput
+              questionType={currentQuestion.question_type}
+              typeData={currentQuestion.type_data}
+              options={options}
               value={selectedAnswer}
-              onChange={(e) => handleAnswerSelect(e.target.value)}
-              style={{ width: '100%' }}
+              onChange={handleAnswerSelect}
               disabled={isAnswered}
-            >
-              <Space direction="vertical" style={{ width: '100%' }}>
-                <Radio value="A" style={{ padding: '8px', fontSize: '16px' }}>
-                  <strong>A)</strong> {currentQuestion.option_a}
-                </Radio>
-                <Radio value="B" style={{ padding: '8px', fontSize: '16px' }}>
-                  <strong>B)</strong> {currentQuestion.option_b}
-                </Radio>
-                <Radio value="C" style={{ padding: '8px', fontSize: '16px' }}>
-                  <strong>C)</strong> {currentQuestion.option_c}
-                </Radio>
-                <Radio value="D" style={{ padding: '8px', fontSize: '16px' }}>
-                  <strong>D)</strong> {currentQuestion.option_d}
-                </Radio>
-              </Space>
-            </Radio.Group>
+            />
 
             {/* Explanation */}
-            {showExplanation && isAnswered && (
+            {showExplanation && isAnswered && answerResult && (
               (() => {
-                const isCorrect = selectedAnswer === currentQuestion.correct_option;
-                const backgroundColor = isCorrect ? '#f6ffed' : '#fff2f0';
-                const borderColor = isCorrect ? '#b7eb8f' : '#ffccc7';
-                const textColor = isCorrect ? '#52c41a' : '#ff4d4f';
+                const isCorrect = answerResult.isCorrect;
+                const isPartial = !isCorrect && answerResult.score > 0;
+                const backgroundColor = isCorrect ? '#f6ffed' : isPartial ? '#fffbe6' : '#fff2f0';
+                const borderColor = isCorrect ? '#b7eb8f' : isPartial ? '#ffe58f' : '#ffccc7';
+                const textColor = isCorrect ? '#52c41a' : isPartial ? '#faad14' : '#ff4d4f';
                 const icon = isCorrect ? <CheckCircleOutlined /> : <CloseCircleOutlined />;
                 
                 return (
@@ -520,30 +574,23 @@ export default function PracticePage() {
                     <Title level={5} style={{ color: textColor, marginBottom: '8px' }}>
                       {icon}
                       <span style={{ marginLeft: '8px' }}>
-                        {isCorrect ? 'Correct! Great Job!' : 'Incorrect Answer'}
+                        {isCorrect
+                          ? 'Correct! Great Job!'
+                          : isPartial ? `Partially Correct (${Math.round(answerResult.score * 100)}% credit)` : 'Incorrect Answer'}
                       </span>
                     </Title>
                     <Paragraph style={{ margin: 0 }}>
-                      <strong>Correct Answer:</strong> {currentQuestion.correct_option}) {
-                        currentQuestion.correct_option === 'A' ? currentQuestion.option_a :
-                        currentQuestion.correct_option === 'B' ? currentQuestion.option_b :
-                        currentQuestion.correct_option === 'C' ? currentQuestion.option_c :
-                        currentQuestion.option_d
-                      }
+                      <strong>Correct Answer:</strong> <ResponseText questionType={currentQuestion.question_type} value={answerResult.correctOption} options={options} />
                     </Paragraph>
                     {!isCorrect && (
                       <Paragraph style={{ margin: '8px 0', color: '#ff4d4f' }}>
-                        <strong>Your Answer:</strong> {selectedAnswer}) {
-                          selectedAnswer === 'A' ? currentQuestion.option_a :
-                          selectedAnswer === 'B' ? currentQuestion.option_b :
-                          selectedAnswer === 'C' ? currentQuestion.option_c :
-                          currentQuestion.option_d
-                        }
+                        <strong>Your Answer:</strong> <ResponseText questionType={currentQuestion.question_type} value={selectedAnswer} options={options} />
                       </Paragraph>
                     )}
-                    <Paragraph style={{ margin: '8px 0 0 0' }}>
-                      <strong>Explanation:</strong> {currentQuestion.explanation}
-                    </Paragraph>
+                    <div style={{ margin: '8px 0 0 0' }}>
+                      <strong>Explanation:</strong>
+                      <RichContent>{answerResult.explanation}</RichContent>
+                    </div>
                   </div>
                 );
               })()
@@ -570,7 +617,7 @@ export default function PracticePage() {
                       type="primary"
                       size="large"
                       onClick={handleSubmitAnswer}
-                      disabled={!currentAnswer || submitting}
+                      disabled={!canSubmit || submitting}
                       loading={submitting}
                       icon={!submitting ? <CheckCircleOutlined /> : undefined}
                     >
@@ -578,7 +625,7 @@ export default function PracticePage() {
                     </Button>
                     {process.env.NODE_ENV === 'development' && (
                       <Text type="secondary" style={{ fontSize: '12px' }}>
-                        Debug: Selected={currentAnswer || 'none'}, Can Submit={!!currentAnswer}
+                        Debug: Selected={currentAnswer || 'none'}, Can Submit={String(canSubmit)}
                       </Text>
                     )}
                     <Button
@@ -590,7 +637,7 @@ export default function PracticePage() {
                   </Space>
                 ) : (
                   <Text type="secondary">
-                    Answer submitted! {selectedAnswer === currentQuestion.correct_option ? '✅ Correct' : '❌ Incorrect'}
+                    Answer submitted! {answerResult?.isCorrect ? '✅ Correct' : answerResult?.score ? '🟡 Partially correct' : '❌ Incorrect'}
                   </Text>
                 )}
               </Col>
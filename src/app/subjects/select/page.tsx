@@ -15,7 +15,8 @@ import {
   Divider,
   message,
   Modal,
-  Grid
+  Grid,
+  InputNumber
 } from 'antd';
 import { 
   BookOutlined,
@@ -38,8 +39,13 @@ interface Subject {
 interface UserSubject {
   subject_id: string;
   is_primary: boolean;
+  daily_quota?: number | null;
 }
 
+// Mirrors DAILY_SELECTION_CONFIG in src/lib/question-selection.ts
+const MAX_SUBJECT_QUOTA = 20;
+const MAX_DAILY_SET_SIZE = 40;
+
 export default function SubjectSelection() {
   const { user } = useAuth();
   const router = useRouter();
@@ -54,6 +60,7 @@ export default function SubjectSelection() {
   const [primarySubject, setPrimarySubject] = useState<string>('');
   const [existingSelections, setExistingSelections] = useState<UserSubject[]>([]);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  const [quotas, setQuotas] = useState<Record<string, number>>({});
 
   useEffect(() => {
     if (!user) {
@@ -102,6 +109,13 @@ export default function SubjectSelection() {
         const uniqueSelections = [...new Set(currentSelections)]; // Remove duplicates
         setSelectedSubjects(uniqueSelections);
         
+        // Set daily quotas
+        const existingQuotas: Record<string, number> = {};
+        userSubjectsData.subjects?.forEach((us: UserSubject) => {
+          if (us.daily_quota) existingQuotas[us.subject_id] = us.daily_quota;
+        });
+        setQuotas(existingQuotas);
+        
         // Set primary subject
         const primary = userSubjectsData.subjects?.find((us: UserSubject) => us.is_primary);
         if (primary) {
@@ -147,6 +161,16 @@ export default function SubjectSelection() {
     setPrimarySubject(subjectId);
   };
 
+  const handleQuotaChange = (subjectId: string, value: number | null) => {
+    setQuotas(prev => ({ ...prev, [subjectId]: value || 0 }));
+  };
+
+  // Only selected subjects count towards the daily set
+  const selectedQuotas = Object.fromEntries(
+    selectedSubjects.map(subjectId => [subjectId, quotas[subjectId] || 0])
+  );
+  const totalQuota = Object.values(selectedQuotas).reduce((sum, quota) => sum + quota, 0);
+
   const handleSave = () => {
     if (selectedSubjects.length === 0) {
       message.error('Please select at least one subject');
@@ -158,6 +182,11 @@ export default function SubjectSelection() {
       return;
     }
 
+    if (totalQuota > MAX_DAILY_SET_SIZE) {
+      message.error(`Daily quotas cannot add up to more than ${MAX_DAILY_SET_SIZE} questions`);
+      return;
+    }
+
     setShowConfirmModal(true);
   };
 
@@ -174,7 +203,8 @@ export default function SubjectSelection() {
         credentials: 'include',
         body: JSON.stringify({
           subjectIds: selectedSubjects,
-          primarySubjectId: primarySubject
+          primarySubjectId: primarySubject,
+          quotas: selectedQuotas
         }),
       });
 
@@ -233,7 +263,7 @@ export default function SubjectSelection() {
           <Title level={2}>Select Your Subjects</Title>
           <Paragraph>
             Choose the subjects you want to practice. You can select multiple subjects for comprehensive exam preparation.
-            Your primary subject will be used for daily questions and main focus.
+            Your primary subject is your main focus and supplies your daily questions unless you set daily quotas below.
           </Paragraph>
           
           {existingSelections.length > 0 && (
@@ -346,6 +376,51 @@ export default function SubjectSelection() {
           </div>
         )}
 
+        {/* Daily Question Quotas */}
+        {selectedSubjects.length > 0 && (
+          <div style={{ marginTop: '32px' }}>
+            <Divider />
+            <Title level={4}>Daily Question Mix</Title>
+            <Paragraph type="secondary">
+              Choose how many questions each subject adds to your daily set (up to {MAX_SUBJECT_QUOTA} per subject).
+              Leave all at 0 to get 10 questions from your primary subject.
+            </Paragraph>
+
+            <Row gutter={[16, 16]}>
+              {selectedSubjects.map((subjectId) => {
+                const subject = subjects.find(s => s.id === subjectId);
+                if (!subject) return null;
+
+                return (
+                  <Col xs={12} sm={8} md={6} key={subjectId}>
+                    <Card size="small">
+                      <div style={{ textAlign: 'center' }}>
+                        <Text style={{ display: 'block', marginBottom: '8px' }}>{subject.name}</Text>
+                        <InputNumber
+                          min={0}
+                          max={MAX_SUBJECT_QUOTA}
+                          precision={0}
+                          value={selectedQuotas[subjectId]}
+                          onChange={(value) => handleQuotaChange(subjectId, value)}
+                        />
+                      </div>
+                    </Card>
+                  </Col>
+                );
+              })}
+            </Row>
+
+            <Text 
+              type={totalQuota > MAX_DAILY_SET_SIZE ? 'danger' : 'secondary'} 
+              style={{ display: 'block', marginTop: '12px' }}
+            >
+              {totalQuota > 0 
+                ? `${totalQuota} questions per day` 
+                : '10 questions per day from your primary subject'}
+            </Text>
+          </div>
+        )}
+
         {/* Summary */}
         {selectedSubjects.length > 0 && (
           <div style={{ marginTop: '32px' }}>
@@ -404,6 +479,7 @@ export default function SubjectSelection() {
               return (
                 <li key={subjectId}>
                   {subject?.name} {primarySubject === subjectId && <Text type="success">(Primary)</Text>}
+                  {selectedQuotas[subjectId] > 0 && <Text type="secondary"> - {selectedQuotas[subjectId]}/day</Text>}
                 </li>
               );
             })}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Button,
+  Card,
+  Col,
+  Empty,
+  Input,
+  Progress,
+  Row,
+  Segmented,
+  Space,
+  Statistic,
+  Table,
+  Tooltip,
+  Typography,
+  message
+} from 'antd';
+import { DownloadOutlined, LineChartOutlined, ReloadOutlined } from '@ant-design/icons';
+import { DEFAULT_TIMEZONE, addDays, getToday } from '@/lib/dates';
+import { DEFAULT_RANGE_DAYS } from '@/lib/platform-analytics';
+
+const { Title, Text } = Typography;
+
+interface DailyTrend {
+  date: string;
+  activeStudents: number;
+  newRegistrations: number;
+  attempts: number;
+  accuracy: number | null;
+  sessions: number;
+  averageSessionMinutes: number | null;
+}
+
+interface SubjectTrend {
+  subjectId: string;
+  name: string;
+  attempts: number;
+  accuracy: number | null;
+}
+
+interface AuthorProductivity {
+  authorId: string;
+  email: string | null;
+  questionsAuthored: number;
+  totalQuestions: number;
+  attempts: number;
+  accuracy: number | null;
+  reportsReceived: number;
+  unresolvedReports: number;
+}
+
+interface PlatformAnalyticsData {
+  range: { from: string; to: string };
+  timeZone: string;
+  totals: {
+    activeStudents: number;
+    newRegistrations: number;
+    attempts: number;
+    accuracy: number | null;
+    sessions: number;
+    averageSessionMinutes: number | null;
+  };
+  daily: DailyTrend[];
+  subjects: SubjectTrend[];
+  authors: AuthorProductivity[];
+}
+
+type TrendMetric = 'activeStudents' | 'newRegistrations' | 'attempts' | 'accuracy' | 'averageSessionMinutes';
+
+const TREND_METRICS: { label: string; value: TrendMetric; unit: string }[] = [
+  { label: 'Active Students', value: 'activeStudents', unit: 'students' },
+  { label: 'Registrations', value: 'newRegistrations', unit: 'new students' },
+  { label: 'Attempts', value: 'attempts', unit: 'attempts' },
+  { label: 'Accuracy', value: 'accuracy', unit: '% correct' },
+  { label: 'Session Length', value: 'averageSessionMinutes', unit: 'min average' }
+];
+
+const RANGE_PRESETS = [7, DEFAULT_RANGE_DAYS, 90];
+
+const CHART_HEIGHT = 160;
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// One bar per day; days without a value (no attempts or sessions) stay empty
+const TrendChart = ({ daily, metric }: { daily: DailyTrend[]; metric: TrendMetric }) => {
+  const unit = TREND_METRICS.find(entry => entry.value === metric)?.unit || '';
+  const values = daily.map(day => day[metric]);
+  const max = Math.max(1, ...values.map(value => value ?? 0));
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: CHART_HEIGHT }}>
+        {daily.map((day, index) => {
+          const value = values[index];
+          return (
+            <Tooltip key={day.date} title={`${day.date}: ${value === null ? 'no data' : `${value} ${unit}`}`}>
+              <div
+                style={{
+                  flex: 1,
+                  height: value ? Math.max(2, (value / max) * CHART_HEIGHT) : 2,
+                  background: value ? '#1890ff' : '#f0f0f0',
+                  borderRadius: '2px 2px 0 0'
+                }}
+              />
+            </Tooltip>
+          );
+        })}
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 4 }}>
+        <Text type="secondary" style={{ fontSize: '12px' }}>{daily[0]?.date}</Text>
+        <Text type="secondary" style={{ fontSize: '12px' }}>Peak: {max} {unit}</Text>
+        <Text type="secondary" style={{ fontSize: '12px' }}>{daily[daily.length - 1]?.date}</Text>
+      </div>
+    </div>
+  );
+};
+
+// Platform trends for SUPERADMINs: activity, subject accuracy and author productivity
+// over a chosen date range, each downloadable as CSV
+const PlatformAnalytics = () => {
+  const [range, setRange] = useState(() => {
+    const to = getToday(DEFAULT_TIMEZONE);
+    return { from: addDays(to, -(DEFAULT_RANGE_DAYS - 1)), to };
+  });
+  const [analytics, setAnalytics] = useState<PlatformAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [metric, setMetric] = useState<TrendMetric>('activeStudents');
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams(range);
+      const response = await fetch(`/api/admin/analytics?${params.toString()}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load analytics');
+      }
+      setAnalytics(data);
+    } catch (error) {
+      if (isDev) {
+        console.error('Error fetching platform analytics:', error);
+      }
+      message.error(error instanceof Error ? error.message : 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const applyPreset = (days: number) => {
+    const to = getToday(DEFAULT_TIMEZONE);
+    setRange({ from: addDays(to, -(days - 1)), to });
+  };
+
+  // Downloads are served by the analytics API directly
+  const downloadCsv = (section: 'daily' | 'subjects' | 'authors') => {
+    const params = new URLSearchParams({ ...range, format: 'csv', section });
+    window.open(`/api/admin/analytics?${params.toString()}`, '_blank');
+  };
+
+  const csvButton = (section: 'daily' | 'subjects' | 'authors') => (
+    <Button size="small" icon={<DownloadOutlined />} onClick={() => downloadCsv(section)}>
+      CSV
+    </Button>
+  );
+
+  const authorColumns = [
+    {
+      title: 'Author',
+      dataIndex: 'email',
+      key: 'email',
+      render: (email: string | null) => email || 'Unknown author'
+    },
+    { title: 'Authored', dataIndex: 'questionsAuthored', key: 'questionsAuthored', width: 100 },
+    { title: 'Total Questions', dataIndex: 'totalQuestions', key: 'totalQuestions', width: 130 },
+    { title: 'Attempts', dataIndex: 'attempts', key: 'attempts', width: 100 },
+    {
+      title: 'Accuracy',
+      dataIndex: 'accuracy',
+      key: 'accuracy',
+      width: 100,
+      render: (accuracy: number | null) => accuracy === null ? '-' : `${accuracy}%`
+    },
+    { title: 'Reports', dataIndex: 'reportsReceived', key: 'reportsReceived', width: 90 },
+    { title: 'Unresolved', dataIndex: 'unresolvedReports', key: 'unresolvedReports', width: 110 }
+  ];
+
+  return (
+    <Card
+      style={{ marginTop: 16 }}
+      title={
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 8 }}>
+          <Title level={4} style={{ margin: 0 }}>
+            <LineChartOutlined style={{ marginRight: 8 }} />
+            Platform Analytics
+          </Title>
+          <Space wrap>
+            {RANGE_PRESETS.map(days => (
+              <Button key={days} size="small" onClick={() => applyPreset(days)}>
+                {days} days
+              </Button>
+            ))}
+            <Input
+              type="date"
+              size="small"
+              value={range.from}
+              max={range.to}
+              onChange={event => event.target.value && setRange(prev => ({ ...prev, from: event.target.value }))}
+              style={{ width: 140 }}
+            />
+            <Text type="secondary">to</Text>
+            <Input
+              type="date"
+              size="small"
+              value={range.to}
+              min={range.from}
+              onChange={event => event.target.value && setRange(prev => ({ ...prev, to: event.target.value }))}
+              style={{ width: 140 }}
+            />
+            <Button icon={<ReloadOutlined />} onClick={fetchAnalytics} loading={loading} size="small">
+              Refresh
+            </Button>
+          </Space>
+        </div>
+      }
+      loading={loading && !analytics}
+    >
+      {analytics && (
+        <>
+          <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+            <Col xs={12} md={4}>
+              <Statistic title="Active Students" value={analytics.totals.activeStudents} />
+            </Col>
+            <Col xs={12} md={4}>
+              <Statistic title="New Students" value={analytics.totals.newRegistrations} />
+            </Col>
+            <Col xs={12} md={4}>
+              <Statistic title="Attempts" value={analytics.totals.attempts} />
+            </Col>
+            <Col xs={12} md={4}>
+              <Statistic
+                title="Accuracy"
+                value={analytics.totals.accuracy ?? '-'}
+                suffix={analytics.totals.accuracy === null ? undefined : '%'}
+              />
+            </Col>
+            <Col xs={12} md={4}>
+              <Statistic title="Sessions" value={analytics.totals.sessions} />
+            </Col>
+            <Col xs={12} md={4}>
+              <Statistic
+                title="Avg. Session"
+                value={analytics.totals.averageSessionMinutes ?? '-'}
+                suffix={analytics.totals.averageSessionMinutes === null ? undefined : 'min'}
+              />
+            </Col>
+          </Row>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+            <Segmented
+              options={TREND_METRICS.map(({ label, value }) => ({ label, value }))}
+              value={metric}
+              onChange={value => setMetric(value as TrendMetric)}
+            />
+            {csvButton('daily')}
+          </div>
+          <TrendChart daily={analytics.daily} metric={metric} />
+          <Text type="secondary" style={{ display: 'block', marginTop: 4, fontSize: '12px' }}>
+            Days are counted in {analytics.timeZone}.
+          </Text>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: 24 }}>
+            <Title level={5} style={{ margin: 0 }}>Accuracy by Subject</Title>
+            {csvButton('subjects')}
+          </div>
+          {analytics.subjects.length === 0 ? (
+            <Empty description="No subjects" />
+          ) : (
+            analytics.subjects.map(subject => (
+              <div key={subject.subjectId} style={{ marginTop: 8 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Text>{subject.name}</Text>
+                  <Text type="secondary">{subject.attempts} attempt{subject.attempts === 1 ? '' : 's'}</Text>
+                </div>
+                <Progress percent={subject.accuracy ?? 0} size="small" format={() => subject.accuracy === null ? '-' : `${subject.accuracy}%`} />
+              </div>
+            ))
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', margin: '24px 0 8px' }}>
+            <Title level={5} style={{ margin: 0 }}>Author Productivity</Title>
+            {csvButton('authors')}
+          </div>
+          <Table
+            dataSource={analytics.authors}
+            columns={authorColumns}
+            rowKey="authorId"
+            size="small"
+            pagination={false}
+            scroll={{ x: 'max-content' }}
+            locale={{ emptyText: 'No authored questions' }}
+          />
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default PlatformAnalytics;
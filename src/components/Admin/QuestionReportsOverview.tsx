@@ -0,0 +1,218 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, Table, Tag, Typography, Row, Col, Statistic, Button, Space, message } from 'antd';
+import { FlagOutlined, ReloadOutlined } from '@ant-design/icons';
+import { QuestionReportCategory, QuestionReportStatus } from '@/types';
+import {
+  REPORT_CATEGORIES,
+  REPORT_CATEGORY_LABELS,
+  REPORT_STATUSES,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUS_TAG_COLORS
+} from '@/lib/question-reports';
+
+const { Title, Text } = Typography;
+
+interface ReportedQuestion {
+  questionId: string;
+  title: string;
+  subjectName: string | null;
+  authorEmail: string | null;
+  unresolvedCount: number;
+  byCategory: Record<QuestionReportCategory, number>;
+  oldestReportAt: string;
+  heldFromDailySets: boolean;
+}
+
+interface AuthorBacklog {
+  authorId: string;
+  email: string | null;
+  unresolved: number;
+  closed: number;
+  averageResolutionHours: number | null;
+}
+
+interface ReportsOverview {
+  totalReports: number;
+  byStatus: Record<QuestionReportStatus, number>;
+  byCategory: Record<QuestionReportCategory, number>;
+  unresolvedByCategory: Record<QuestionReportCategory, number>;
+  reportThreshold: number;
+  heldFromDailySets: number;
+  topQuestions: ReportedQuestion[];
+  authors: AuthorBacklog[];
+}
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Student reports across every author: where they stand, which questions draw the
+// most and which are held out of daily sets until triaged
+const QuestionReportsOverview = () => {
+  const [overview, setOverview] = useState<ReportsOverview | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/question-reports', { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load question reports');
+      }
+      setOverview(data);
+    } catch (error) {
+      if (isDev) {
+        console.error('Error fetching question reports:', error);
+      }
+      message.error('Failed to load question reports');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  const questionColumns = [
+    {
+      title: 'Question',
+      dataIndex: 'title',
+      key: 'title',
+      render: (title: string, record: ReportedQuestion) => (
+        <div>
+          <Text strong>{title}</Text>
+          <br />
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            {[record.subjectName, record.authorEmail].filter(Boolean).join(' · ')}
+          </Text>
+        </div>
+      )
+    },
+    {
+      title: 'Unresolved',
+      dataIndex: 'unresolvedCount',
+      key: 'unresolvedCount',
+      width: 110,
+      render: (count: number, record: ReportedQuestion) => (
+        <Space direction="vertical" size={4}>
+          <Text strong>{count}</Text>
+          {record.heldFromDailySets && <Tag color="red">Held from daily sets</Tag>}
+        </Space>
+      )
+    },
+    {
+      title: 'Categories',
+      key: 'categories',
+      render: (_: unknown, record: ReportedQuestion) => (
+        <Space wrap size={4}>
+          {REPORT_CATEGORIES.filter(category => record.byCategory[category] > 0).map(category => (
+            <Tag key={category}>{REPORT_CATEGORY_LABELS[category]}: {record.byCategory[category]}</Tag>
+          ))}
+        </Space>
+      )
+    },
+    {
+      title: 'Oldest Report',
+      dataIndex: 'oldestReportAt',
+      key: 'oldestReportAt',
+      width: 130,
+      render: (date: string) => new Date(date).toLocaleDateString()
+    }
+  ];
+
+  const authorColumns = [
+    {
+      title: 'Author',
+      dataIndex: 'email',
+      key: 'email',
+      render: (email: string | null) => email || 'Unknown author'
+    },
+    { title: 'Unresolved', dataIndex: 'unresolved', key: 'unresolved', width: 110 },
+    { title: 'Closed', dataIndex: 'closed', key: 'closed', width: 90 },
+    {
+      title: 'Avg. Time to Close',
+      dataIndex: 'averageResolutionHours',
+      key: 'averageResolutionHours',
+      width: 150,
+      render: (hours: number | null) => hours === null ? '-' : hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} days`
+    }
+  ];
+
+  return (
+    <Card
+      style={{ marginTop: 16 }}
+      title={
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Title level={4} style={{ margin: 0 }}>
+            <FlagOutlined style={{ marginRight: 8 }} />
+            Question Reports
+          </Title>
+          <Button icon={<ReloadOutlined />} onClick={fetchOverview} loading={loading} size="small">
+            Refresh
+          </Button>
+        </div>
+      }
+      loading={loading && !overview}
+    >
+      {overview && (
+        <>
+          <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+            <Col xs={12} md={6}>
+              <Statistic title="Total Reports" value={overview.totalReports} />
+            </Col>
+            {REPORT_STATUSES.map(status => (
+              <Col xs={12} md={4} key={status}>
+                <Statistic
+                  title={<Tag color={REPORT_STATUS_TAG_COLORS[status]}>{REPORT_STATUS_LABELS[status]}</Tag>}
+                  value={overview.byStatus[status]}
+                />
+              </Col>
+            ))}
+          </Row>
+
+          <div style={{ marginBottom: 16 }}>
+            <Text type="secondary">Unresolved by category: </Text>
+            <Space wrap size={4}>
+              {REPORT_CATEGORIES.map(category => (
+                <Tag key={category}>
+                  {REPORT_CATEGORY_LABELS[category]}: {overview.unresolvedByCategory[category]} / {overview.byCategory[category]}
+                </Tag>
+              ))}
+            </Space>
+          </div>
+
+          <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+            {overview.heldFromDailySets} question{overview.heldFromDailySets === 1 ? ' is' : 's are'} held out of daily sets
+            (questions with {overview.reportThreshold} or more unresolved reports).
+          </Text>
+
+          <Title level={5}>Most Reported Questions</Title>
+          <Table
+            dataSource={overview.topQuestions}
+            columns={questionColumns}
+            rowKey="questionId"
+            size="small"
+            pagination={false}
+            scroll={{ x: 'max-content' }}
+            locale={{ emptyText: 'No unresolved reports' }}
+          />
+
+          <Title level={5} style={{ marginTop: 24 }}>Author Backlog</Title>
+          <Table
+            dataSource={overview.authors}
+            columns={authorColumns}
+            rowKey="authorId"
+            size="small"
+            pagination={false}
+            locale={{ emptyText: 'No reports yet' }}
+          />
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default QuestionReportsOverview;
@@ -0,0 +1,139 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, Table, InputNumber, Button, Typography, message } from 'antd';
+import { SaveOutlined } from '@ant-design/icons';
+import { ExamCategory, ScoringScheme } from '@/types';
+
+const { Title, Text } = Typography;
+
+interface CategoryScheme extends ScoringScheme {
+  examCategory: ExamCategory;
+}
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Marks per correct and wrong answer for each exam category. Subjects can
+// override these in Subject Management.
+const ScoringSchemeManager = () => {
+  const [schemes, setSchemes] = useState<CategoryScheme[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ScoringScheme>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<ExamCategory | null>(null);
+
+  const fetchSchemes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/scoring-schemes', { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load scoring schemes');
+      }
+      setSchemes(data.schemes || []);
+      setDrafts({});
+    } catch (error) {
+      if (isDev) {
+        console.error('Error fetching scoring schemes:', error);
+      }
+      message.error('Failed to load scoring schemes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchemes();
+  }, [fetchSchemes]);
+
+  const updateDraft = (scheme: CategoryScheme, changes: Partial<ScoringScheme>) => {
+    setDrafts(prev => ({
+      ...prev,
+      [scheme.examCategory]: { ...(prev[scheme.examCategory] || scheme), ...changes }
+    }));
+  };
+
+  const handleSave = async (examCategory: ExamCategory) => {
+    const draft = drafts[examCategory];
+    if (!draft) return;
+
+    try {
+      setSaving(examCategory);
+      const response = await fetch('/api/admin/scoring-schemes', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ examCategory, ...draft })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save scoring scheme');
+      }
+
+      message.success(`${examCategory} scoring scheme saved`);
+      fetchSchemes();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save scoring scheme');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card title={<Title level={4} style={{ margin: 0 }}>Scoring Schemes</Title>} style={{ marginTop: 16 }}>
+      <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+        Marks per question for each exam category. Unanswered questions score 0. Changes apply to
+        daily sets submitted from now on.
+      </Text>
+      <Table
+        rowKey="examCategory"
+        loading={loading}
+        dataSource={schemes}
+        pagination={false}
+        size="small"
+        columns={[
+          { title: 'Exam', dataIndex: 'examCategory' },
+          {
+            title: 'Correct',
+            render: (_, scheme: CategoryScheme) => (
+              <InputNumber
+                min={0.001}
+                max={100}
+                step={0.5}
+                value={(drafts[scheme.examCategory] || scheme).correctMarks}
+                onChange={(value) => updateDraft(scheme, { correctMarks: Number(value) })}
+              />
+            )
+          },
+          {
+            title: 'Wrong',
+            render: (_, scheme: CategoryScheme) => (
+              <InputNumber
+                min={-100}
+                max={0}
+                step={0.25}
+                value={(drafts[scheme.examCategory] || scheme).incorrectMarks}
+                onChange={(value) => updateDraft(scheme, { incorrectMarks: Number(value) || 0 })}
+              />
+            )
+          },
+          {
+            title: '',
+            render: (_, scheme: CategoryScheme) => (
+              <Button
+                icon={<SaveOutlined />}
+                disabled={!drafts[scheme.examCategory]}
+                loading={saving === scheme.examCategory}
+                onClick={() => handleSave(scheme.examCategory)}
+              >
+                Save
+              </Button>
+            )
+          }
+        ]}
+      />
+    </Card>
+  );
+};
+
+export default ScoringSchemeManager;
@@ -1,8 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Card, Button, List, Input, Form, Modal, message, Popconfirm, Typography, Space, Grid } from 'antd';
-import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import { Card, Button, List, Input, InputNumber, Form, Modal, message, Popconfirm, Typography, Space, Grid } from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined, ApartmentOutlined } from '@ant-design/icons';
+import TopicManager from './TopicManager';
+import { formatScheme, toScoringScheme } from '@/lib/scoring';
 
 const { Title } = Typography;
 const { useBreakpoint } = Grid;
@@ -11,6 +13,14 @@ interface Subject {
   id: string;
   name: string;
   created_at: string;
+  correct_marks?: number | null;
+  incorrect_marks?: number | null;
+}
+
+interface SubjectFormValues {
+  name: string;
+  correctMarks?: number | null;
+  incorrectMarks?: number | null;
 }
 
 interface SubjectManagerProps {
@@ -25,6 +35,7 @@ const SubjectManager = ({ onSubjectChange }: SubjectManagerProps) => {
   const [loading, setLoading] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingSubject, setEditingSubject] = useState<Subject | null>(null);
+  const [topicsSubject, setTopicsSubject] = useState<Subject | null>(null);
   const [form] = Form.useForm();
   const screens = useBreakpoint();
 
@@ -102,7 +113,7 @@ const SubjectManager = ({ onSubjectChange }: SubjectManagerProps) => {
     }
   };
 
-  const handleSave = async (values: { name: string }) => {
+  const handleSave = async (values: SubjectFormValues) => {
     try {
       if (editingSubject) {
         // Update existing subject
@@ -111,7 +122,12 @@ const SubjectManager = ({ onSubjectChange }: SubjectManagerProps) => {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ name: values.name }),
+          // Leaving correct marks empty removes the subject's scoring override
+          body: JSON.stringify({
+            name: values.name,
+            correctMarks: values.correctMarks ?? null,
+            incorrectMarks: values.correctMarks ? values.incorrectMarks ?? 0 : null
+          }),
         });
         
         if (!response.ok) {
@@ -176,7 +192,11 @@ const SubjectManager = ({ onSubjectChange }: SubjectManagerProps) => {
   const openModal = (subject?: Subject) => {
     setEditingSubject(subject || null);
     if (subject) {
-      form.setFieldsValue({ name: subject.name });
+      form.setFieldsValue({
+        name: subject.name,
+        correctMarks: subject.correct_marks ?? null,
+        incorrectMarks: subject.incorrect_marks ?? null
+      });
     } else {
       form.resetFields();
     }
@@ -233,6 +253,14 @@ const SubjectManager = ({ onSubjectChange }: SubjectManagerProps) => {
         renderItem={(subject) => (
           <List.Item
             actions={[
+              <Button
+                key="topics"
+                type="text"
+                icon={<ApartmentOutlined />}
+                onClick={() => setTopicsSubject(subject)}
+                size={isMobile ? "small" : "middle"}
+                title="Chapters & Topics"
+              />,
               <Button
                 key="edit"
                 type="text"
@@ -278,6 +306,9 @@ const SubjectManager = ({ onSubjectChange }: SubjectManagerProps) => {
                   color: '#666'
                 }}>
                   Created: {new Date(subject.created_at).toLocaleDateString()}
+                  {subject.correct_marks !== null && subject.correct_marks !== undefined && (
+                    <> · Marking: {formatScheme(toScoringScheme(subject.correct_marks, subject.incorrect_marks)!)}</>
+                  )}
                 </span>
               }
             />
@@ -331,6 +362,26 @@ const SubjectManager = ({ onSubjectChange }: SubjectManagerProps) => {
               size={isMobile ? "middle" : "large"}
             />
           </Form.Item>
+
+          {editingSubject && (
+            <>
+              <Form.Item
+                name="correctMarks"
+                label="Marks per Correct Answer (Optional)"
+                extra="Overrides the exam category's scoring scheme for this subject; leave empty to use it"
+              >
+                <InputNumber min={0.001} max={100} step={0.5} style={{ width: '100%' }} />
+              </Form.Item>
+
+              <Form.Item
+                name="incorrectMarks"
+                label="Marks per Wrong Answer"
+                extra="Zero or negative, e.g. -1 for JEE-style negative marking"
+              >
+                <InputNumber min={-100} max={0} step={0.25} style={{ width: '100%' }} />
+              </Form.Item>
+            </>
+          )}
           
           <Form.Item style={{ marginBottom: 0, textAlign: 'right' }}>
             <Space>
@@ -355,6 +406,18 @@ const SubjectManager = ({ onSubjectChange }: SubjectManagerProps) => {
           </Form.Item>
         </Form>
       </Modal>
+
+      <Modal
+        title={topicsSubject ? `Chapters & Topics: ${topicsSubject.name}` : 'Chapters & Topics'}
+        open={!!topicsSubject}
+        onCancel={() => setTopicsSubject(null)}
+        footer={null}
+        width={isMobile ? '90%' : 640}
+        style={{ top: isMobile ? 20 : undefined }}
+        destroyOnClose
+      >
+        {topicsSubject && <TopicManager subjectId={topicsSubject.id} />}
+      </Modal>
     </Card>
   );
 };
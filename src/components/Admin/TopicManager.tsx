@@ -0,0 +1,230 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Tree, Button, Input, Space, Popconfirm, Empty, Spin, Typography, message } from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined, CheckOutlined, CloseOutlined } from '@ant-design/icons';
+import { Topic } from '@/types';
+
+const { Text } = Typography;
+
+interface TopicManagerProps {
+  subjectId: string;
+}
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Chapters and topics of one subject, edited in place
+const TopicManager = ({ subjectId }: TopicManagerProps) => {
+  const [chapters, setChapters] = useState<Topic[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newChapterName, setNewChapterName] = useState('');
+  // Chapter currently receiving a new topic, and its draft name
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+  const [newTopicName, setNewTopicName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const fetchTopics = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/subjects/${subjectId}/topics`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load topics');
+      }
+      setChapters(data.chapters || []);
+    } catch (error) {
+      if (isDev) {
+        console.error('Error fetching topics:', error);
+      }
+      message.error('Failed to load topics');
+    } finally {
+      setLoading(false);
+    }
+  }, [subjectId]);
+
+  useEffect(() => {
+    fetchTopics();
+  }, [fetchTopics]);
+
+  const handleCreate = async (name: string, parentId?: string) => {
+    if (!name.trim()) return;
+
+    try {
+      const response = await fetch(`/api/subjects/${subjectId}/topics`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name, parentId })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create');
+      }
+
+      message.success(`${parentId ? 'Topic' : 'Chapter'} created`);
+      if (parentId) {
+        setAddingTo(null);
+        setNewTopicName('');
+      } else {
+        setNewChapterName('');
+      }
+      fetchTopics();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to create');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing || !editing.name.trim()) return;
+
+    try {
+      const response = await fetch(`/api/topics/${editing.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name: editing.name })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to rename');
+      }
+
+      setEditing(null);
+      fetchTopics();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to rename');
+    }
+  };
+
+  const handleDelete = async (topic: Topic) => {
+    try {
+      const response = await fetch(`/api/topics/${topic.id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete');
+      }
+
+      message.success(result.message);
+      fetchTopics();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to delete');
+    }
+  };
+
+  const renderNode = (topic: Topic) => {
+    if (editing?.id === topic.id) {
+      return (
+        <Space size={4} onClick={(e) => e.stopPropagation()}>
+          <Input
+            size="small"
+            value={editing.name}
+            onChange={(e) => setEditing({ id: topic.id, name: e.target.value })}
+            onPressEnter={handleRename}
+            maxLength={100}
+            autoFocus
+          />
+          <Button size="small" type="text" icon={<CheckOutlined />} onClick={handleRename} />
+          <Button size="small" type="text" icon={<CloseOutlined />} onClick={() => setEditing(null)} />
+        </Space>
+      );
+    }
+
+    return (
+      <Space size={4}>
+        <Text strong={topic.kind === 'chapter'}>{topic.name}</Text>
+        {topic.kind === 'chapter' && (
+          <Button
+            size="small"
+            type="text"
+            icon={<PlusOutlined />}
+            title="Add Topic"
+            onClick={() => { setAddingTo(topic.id); setNewTopicName(''); }}
+          />
+        )}
+        <Button
+          size="small"
+          type="text"
+          icon={<EditOutlined />}
+          title="Rename"
+          onClick={() => setEditing({ id: topic.id, name: topic.name })}
+        />
+        <Popconfirm
+          title={topic.kind === 'chapter' ? 'Delete this chapter and all its topics?' : 'Delete this topic?'}
+          onConfirm={() => handleDelete(topic)}
+          okText="Yes"
+          cancelText="No"
+        >
+          <Button size="small" type="text" danger icon={<DeleteOutlined />} title="Delete" />
+        </Popconfirm>
+      </Space>
+    );
+  };
+
+  const treeData = chapters.map(chapter => ({
+    key: chapter.id,
+    title: renderNode(chapter),
+    children: [
+      ...(chapter.topics || []).map(topic => ({
+        key: topic.id,
+        title: renderNode(topic),
+        isLeaf: true
+      })),
+      ...(addingTo === chapter.id ? [{
+        key: `${chapter.id}-new`,
+        isLeaf: true,
+        selectable: false,
+        title: (
+          <Space size={4}>
+            <Input
+              size="small"
+              placeholder="Topic name"
+              value={newTopicName}
+              onChange={(e) => setNewTopicName(e.target.value)}
+              onPressEnter={() => handleCreate(newTopicName, chapter.id)}
+              maxLength={100}
+              autoFocus
+            />
+            <Button size="small" type="text" icon={<CheckOutlined />} onClick={() => handleCreate(newTopicName, chapter.id)} />
+            <Button size="small" type="text" icon={<CloseOutlined />} onClick={() => setAddingTo(null)} />
+          </Space>
+        )
+      }] : [])
+    ]
+  }));
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Spin spinning={loading}>
+        {chapters.length === 0 && !loading ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No chapters yet" />
+        ) : (
+          <Tree
+            treeData={treeData}
+            expandedKeys={chapters.map(chapter => chapter.id)}
+            selectable={false}
+            blockNode
+          />
+        )}
+      </Spin>
+
+      <Space.Compact style={{ width: '100%' }}>
+        <Input
+          placeholder="New chapter name"
+          value={newChapterName}
+          onChange={(e) => setNewChapterName(e.target.value)}
+          onPressEnter={() => handleCreate(newChapterName)}
+          maxLength={100}
+        />
+        <Button type="primary" icon={<PlusOutlined />} onClick={() => handleCreate(newChapterName)}>
+          Add Chapter
+        </Button>
+      </Space.Compact>
+    </Space>
+  );
+};
+
+export default TopicManager;
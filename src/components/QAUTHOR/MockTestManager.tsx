@@ -0,0 +1,360 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Card,
+  Table,
+  Button,
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  Space,
+  Tag,
+  Typography,
+  Popconfirm,
+  message
+} from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined, MinusCircleOutlined } from '@ant-design/icons';
+import { DifficultyLevel, ExamCategory, MockTest, MockTestSection, Subject } from '@/types';
+
+const { Title, Text } = Typography;
+const { TextArea } = Input;
+
+interface MockTestListItem extends MockTest {
+  sections: (MockTestSection & { subjectName: string | null })[];
+  totalQuestions: number;
+}
+
+interface MockTestFormValues {
+  title: string;
+  description?: string;
+  examCategory: ExamCategory;
+  durationMinutes: number;
+  correctMarks?: number | null;
+  incorrectMarks?: number | null;
+  isPublished: boolean;
+  sections: MockTestSection[];
+}
+
+const EXAM_CATEGORY_OPTIONS: ExamCategory[] = ['UPSC', 'JEE', 'NEET', 'SSC', 'OTHER'];
+const DIFFICULTY_OPTIONS: DifficultyLevel[] = ['EASY', 'MEDIUM', 'HARD'];
+
+// Only log in development
+const isDev = process.env.NODE_ENV === 'development';
+
+// Mock test templates: sections drawing questions per subject and difficulty, a
+// duration and an optional scoring scheme. Students only see published tests.
+const MockTestManager = () => {
+  const [tests, setTests] = useState<MockTestListItem[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingTest, setEditingTest] = useState<MockTestListItem | null>(null);
+  const [form] = Form.useForm<MockTestFormValues>();
+
+  const fetchTests = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [testsResponse, subjectsResponse] = await Promise.all([
+        fetch('/api/mock-tests', { credentials: 'include' }),
+        fetch('/api/subjects', { credentials: 'include' })
+      ]);
+      const testsData = await testsResponse.json();
+      if (!testsResponse.ok) {
+        throw new Error(testsData.error || 'Failed to load mock tests');
+      }
+      setTests(testsData.tests || []);
+      if (subjectsResponse.ok) {
+        setSubjects(await subjectsResponse.json());
+      }
+    } catch (error) {
+      if (isDev) {
+        console.error('Error fetching mock tests:', error);
+      }
+      message.error('Failed to load mock tests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTests();
+  }, [fetchTests]);
+
+  const openCreate = () => {
+    setEditingTest(null);
+    form.resetFields();
+    form.setFieldsValue({
+      examCategory: 'OTHER',
+      durationMinutes: 60,
+      isPublished: false,
+      sections: [{ name: '', subjectId: '', difficulty: null, questionCount: 10 }]
+    });
+    setModalOpen(true);
+  };
+
+  const openEdit = (test: MockTestListItem) => {
+    setEditingTest(test);
+    form.resetFields();
+    form.setFieldsValue({
+      title: test.title,
+      description: test.description || '',
+      examCategory: test.examCategory,
+      durationMinutes: test.durationMinutes,
+      correctMarks: test.scheme?.correctMarks ?? null,
+      incorrectMarks: test.scheme?.incorrectMarks ?? null,
+      isPublished: test.isPublished,
+      sections: test.sections.map(({ name, subjectId, difficulty, questionCount }) => ({
+        name,
+        subjectId,
+        difficulty,
+        questionCount
+      }))
+    });
+    setModalOpen(true);
+  };
+
+  const handleSave = async () => {
+    let values: MockTestFormValues;
+    try {
+      values = await form.validateFields();
+    } catch {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingTest ? `/api/mock-tests/${editingTest.id}` : '/api/mock-tests', {
+        method: editingTest ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...values,
+          correctMarks: values.correctMarks ?? null,
+          incorrectMarks: values.correctMarks === null || values.correctMarks === undefined
+            ? null
+            : values.incorrectMarks ?? 0,
+          sections: (values.sections || []).map(section => ({
+            ...section,
+            difficulty: section.difficulty || null
+          }))
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save mock test');
+      }
+
+      message.success(editingTest ? 'Mock test updated' : 'Mock test created');
+      setModalOpen(false);
+      fetchTests();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save mock test');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (test: MockTestListItem) => {
+    try {
+      const response = await fetch(`/api/mock-tests/${test.id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to delete mock test');
+      }
+      message.success('Mock test deleted');
+      fetchTests();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to delete mock test');
+    }
+  };
+
+  return (
+    <Card
+      title={<Title level={4} style={{ margin: 0 }}>Mock Tests</Title>}
+      extra={<Button type="primary" icon={<PlusOutlined />} onClick={openCreate}>New Mock Test</Button>}
+      style={{ marginTop: 16 }}
+    >
+      <Table
+        rowKey="id"
+        loading={loading}
+        dataSource={tests}
+        pagination={{ pageSize: 10 }}
+        size="small"
+        columns={[
+          {
+            title: 'Title',
+            dataIndex: 'title',
+            render: (title: string, test: MockTestListItem) => (
+              <div>
+                <Text strong>{title}</Text>
+                <div>
+                  {test.sections.map((section, index) => (
+                    <Tag key={index} style={{ marginTop: 4 }}>
+                      {section.name}: {section.questionCount} {section.subjectName || 'Unknown subject'}
+                      {section.difficulty ? ` (${section.difficulty})` : ''}
+                    </Tag>
+                  ))}
+                </div>
+              </div>
+            )
+          },
+          { title: 'Exam', dataIndex: 'examCategory' },
+          { title: 'Questions', dataIndex: 'totalQuestions' },
+          {
+            title: 'Duration',
+            dataIndex: 'durationMinutes',
+            render: (minutes: number) => `${minutes} min`
+          },
+          {
+            title: 'Scoring',
+            render: (_, test: MockTestListItem) => test.scheme
+              ? `+${test.scheme.correctMarks} / ${test.scheme.incorrectMarks}`
+              : <Text type="secondary">Exam default</Text>
+          },
+          {
+            title: 'Status',
+            dataIndex: 'isPublished',
+            render: (isPublished: boolean) => isPublished
+              ? <Tag color="green">Published</Tag>
+              : <Tag>Draft</Tag>
+          },
+          {
+            title: 'Actions',
+            render: (_, test: MockTestListItem) => (
+              <Space>
+                <Button size="small" icon={<EditOutlined />} onClick={() => openEdit(test)}>Edit</Button>
+                <Popconfirm
+                  title="Delete this mock test?"
+                  onConfirm={() => handleDelete(test)}
+                  okText="Delete"
+                  okButtonProps={{ danger: true }}
+                >
+                  <Button size="small" danger icon={<DeleteOutlined />}>Delete</Button>
+                </Popconfirm>
+              </Space>
+            )
+          }
+        ]}
+      />
+
+      <Modal
+        title={editingTest ? 'Edit Mock Test' : 'New Mock Test'}
+        open={modalOpen}
+        onOk={handleSave}
+        onCancel={() => setModalOpen(false)}
+        confirmLoading={saving}
+        okText="Save"
+        width={760}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item name="title" label="Title" rules={[{ required: true, message: 'Please enter a title' }]}>
+            <Input maxLength={200} />
+          </Form.Item>
+          <Form.Item name="description" label="Description">
+            <TextArea rows={2} maxLength={1000} />
+          </Form.Item>
+          <Space wrap align="start">
+            <Form.Item name="examCategory" label="Exam" rules={[{ required: true }]}>
+              <Select style={{ width: 120 }} options={EXAM_CATEGORY_OPTIONS.map(value => ({ value, label: value }))} />
+            </Form.Item>
+            <Form.Item name="durationMinutes" label="Duration (minutes)" rules={[{ required: true, message: 'Please enter a duration' }]}>
+              <InputNumber min={5} max={360} precision={0} />
+            </Form.Item>
+            <Form.Item
+              name="correctMarks"
+              label="Marks per correct"
+              tooltip="Leave empty to use the exam's scoring scheme"
+            >
+              <InputNumber min={0.001} max={100} step={0.5} />
+            </Form.Item>
+            <Form.Item name="incorrectMarks" label="Marks per wrong">
+              <InputNumber min={-100} max={0} step={0.25} />
+            </Form.Item>
+            <Form.Item name="isPublished" label="Published" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Space>
+
+          <Text strong>Sections</Text>
+          <Form.List
+            name="sections"
+            rules={[{
+              validator: async (_, sections) => {
+                if (!sections || sections.length === 0) {
+                  throw new Error('Add at least one section');
+                }
+              }
+            }]}
+          >
+            {(fields, { add, remove }, { errors }) => (
+              <>
+                {fields.map(field => (
+                  <Space key={field.key} align="start" wrap style={{ display: 'flex', marginTop: 8 }}>
+                    <Form.Item
+                      name={[field.name, 'name']}
+                      rules={[{ required: true, message: 'Name' }]}
+                      style={{ marginBottom: 8 }}
+                    >
+                      <Input placeholder="Section name" maxLength={100} style={{ width: 160 }} />
+                    </Form.Item>
+                    <Form.Item
+                      name={[field.name, 'subjectId']}
+                      rules={[{ required: true, message: 'Subject' }]}
+                      style={{ marginBottom: 8 }}
+                    >
+                      <Select
+                        placeholder="Subject"
+                        style={{ width: 180 }}
+                        options={subjects.map(subject => ({ value: subject.id, label: subject.name }))}
+                      />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'difficulty']} style={{ marginBottom: 8 }}>
+                      <Select
+                        placeholder="Any difficulty"
+                        allowClear
+                        style={{ width: 140 }}
+                        options={DIFFICULTY_OPTIONS.map(value => ({ value, label: value }))}
+                      />
+                    </Form.Item>
+                    <Form.Item
+                      name={[field.name, 'questionCount']}
+                      rules={[{ required: true, message: 'Count' }]}
+                      style={{ marginBottom: 8 }}
+                    >
+                      <InputNumber min={1} max={100} precision={0} placeholder="Questions" />
+                    </Form.Item>
+                    {fields.length > 1 && (
+                      <MinusCircleOutlined style={{ marginTop: 8 }} onClick={() => remove(field.name)} />
+                    )}
+                  </Space>
+                ))}
+                <Form.ErrorList errors={errors} />
+                {fields.length < 10 && (
+                  <Button
+                    type="dashed"
+                    icon={<PlusOutlined />}
+                    onClick={() => add({ name: '', subjectId: undefined, difficulty: null, questionCount: 10 })}
+                    style={{ marginTop: 8 }}
+                  >
+                    Add Section
+                  </Button>
+                )}
+              </>
+            )}
+          </Form.List>
+        </Form>
+      </Modal>
+    </Card>
+  );
+};
+
+export default MockTestManager;
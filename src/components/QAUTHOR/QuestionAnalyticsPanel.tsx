@@ -0,0 +1,128 @@
+'use client';
+
+import { Alert, Col, Empty, Progress, Row, Statistic, Table, Tag, Typography } from 'antd';
+import { Option } from '@/types';
+import { DistractorShare, MIN_ATTEMPTS_FOR_DIFFICULTY_CHECK, QuestionAnalytics } from '@/lib/question-analytics';
+
+const { Title, Text } = Typography;
+
+interface QuestionAnalyticsPanelProps {
+  analytics: QuestionAnalytics;
+  optionTexts: Record<Option, string>;
+}
+
+// How students answer one of the author's questions: overall success, which
+// options they pick and whether the difficulty label matches what they manage
+const QuestionAnalyticsPanel = ({ analytics, optionTexts }: QuestionAnalyticsPanelProps) => {
+  if (analytics.attempts === 0) {
+    return <Empty description="No students have attempted this question yet" />;
+  }
+
+  const distractorColumns = [
+    {
+      title: 'Option',
+      dataIndex: 'option',
+      key: 'option',
+      width: 80,
+      render: (option: Option) => <Text strong>{option}</Text>
+    },
+    {
+      title: 'Text',
+      key: 'text',
+      ellipsis: true,
+      render: (_: unknown, record: DistractorShare) => optionTexts[record.option]
+    },
+    { title: 'Picks', dataIndex: 'picks', key: 'picks', width: 80 },
+    {
+      title: 'Share',
+      dataIndex: 'share',
+      key: 'share',
+      width: 80,
+      render: (share: number) => `${share}%`
+    },
+    {
+      title: 'Verdict',
+      dataIndex: 'flag',
+      key: 'flag',
+      width: 170,
+      render: (flag: DistractorShare['flag']) =>
+        flag === 'strong' ? <Tag color="red">Rivals the correct answer</Tag>
+          : flag === 'nonFunctioning' ? <Tag>Rarely picked</Tag>
+          : <Tag color="green">Working distractor</Tag>
+    }
+  ];
+
+  return (
+    <div>
+      <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+        <Col xs={12} md={6}>
+          <Statistic title="Attempts" value={analytics.attempts} />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic title="Students" value={analytics.uniqueStudents} />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic title="Correct" value={analytics.correctAttempts} />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic title="Success Rate" value={analytics.successRate ?? 0} suffix="%" />
+        </Col>
+      </Row>
+
+      {analytics.difficultyMismatch ? (
+        <Alert
+          type="warning"
+          showIcon
+          message="Difficulty label does not match student performance"
+          description={analytics.difficultyMismatch.message}
+          style={{ marginBottom: 16 }}
+        />
+      ) : analytics.attempts < MIN_ATTEMPTS_FOR_DIFFICULTY_CHECK && (
+        <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+          The difficulty label is checked once the question has {MIN_ATTEMPTS_FOR_DIFFICULTY_CHECK} attempts.
+        </Text>
+      )}
+
+      {analytics.optionDistribution.length === 0 ? (
+        <Text type="secondary">Option analysis is only available for questions answered by picking options.</Text>
+      ) : (
+        <>
+          <Title level={5}>Option Distribution</Title>
+          {analytics.optionDistribution.map(entry => (
+            <div key={entry.option} style={{ marginBottom: 8 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                <Text ellipsis style={{ maxWidth: '75%' }}>
+                  <Text strong>{entry.option}.</Text> {optionTexts[entry.option]}
+                </Text>
+                <span>
+                  {entry.isCorrect && <Tag color="green">Correct</Tag>}
+                  <Text type="secondary">{entry.picks} ({entry.share}%)</Text>
+                </span>
+              </div>
+              <Progress
+                percent={entry.share}
+                showInfo={false}
+                size="small"
+                strokeColor={entry.isCorrect ? '#52c41a' : '#faad14'}
+              />
+            </div>
+          ))}
+
+          <Title level={5} style={{ marginTop: 16 }}>Distractor Analysis</Title>
+          <Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+            Wrong options by how many students they attract. Multiple-correct responses count each chosen option.
+          </Text>
+          <Table
+            dataSource={analytics.distractors}
+            columns={distractorColumns}
+            rowKey="option"
+            size="small"
+            pagination={false}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QuestionAnalyticsPanel;
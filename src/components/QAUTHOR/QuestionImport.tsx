@@ -0,0 +1,241 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Modal,
+  Upload,
+  Button,
+  Table,
+  Tag,
+  Alert,
+  Space,
+  Typography,
+  Statistic,
+  Row,
+  Col,
+  Checkbox,
+  message
+} from 'antd';
+import { InboxOutlined, DownloadOutlined } from '@ant-design/icons';
+import { QUESTION_FILE_COLUMNS } from '@/lib/question-import';
+
+const { Text } = Typography;
+
+interface ImportRowReport {
+  row: number;
+  title: string;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+}
+
+interface ImportReport {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  rows: ImportRowReport[];
+  committed: boolean;
+  insertedCount: number;
+}
+
+interface QuestionImportProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (insertedCount: number) => void;
+}
+
+const STATUS_COLORS: Record<ImportRowReport['status'], string> = {
+  valid: 'green',
+  invalid: 'red',
+  duplicate: 'orange'
+};
+
+export default function QuestionImport({ open, onClose, onImported }: QuestionImportProps) {
+  const [file, setFile] = useState<{ name: string; format: 'csv' | 'json'; data: string } | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState<boolean>(false);
+  const [submitForReview, setSubmitForReview] = useState<boolean>(true);
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+    setError(null);
+    setProblemsOnly(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const submitImport = async (
+    selected: { format: 'csv' | 'json'; data: string },
+    commit: boolean
+  ): Promise<ImportReport | null> => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/qauthor/questions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ format: selected.format, data: selected.data, commit, submitForReview })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Import failed');
+      }
+
+      setReport(result);
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Read the file in the browser and validate it without importing
+  const handleFileSelected = async (selectedFile: File) => {
+    const format = selectedFile.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    const data = await selectedFile.text();
+    const selected = { name: selectedFile.name, format, data } as const;
+
+    setFile(selected);
+    setReport(null);
+    await submitImport(selected, false);
+  };
+
+  const handleCommit = async () => {
+    if (!file) return;
+
+    const result = await submitImport(file, true);
+    if (result?.committed) {
+      message.success(`Imported ${result.insertedCount} question(s)`);
+      onImported(result.insertedCount);
+      handleClose();
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([`${QUESTION_FILE_COLUMNS.join(',')}\n`], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'questions-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const visibleRows = (report?.rows || []).filter(row => !problemsOnly || row.status !== 'valid');
+
+  return (
+    <Modal
+      title="Import Questions"
+      open={open}
+      onCancel={handleClose}
+      width={900}
+      destroyOnClose
+      footer={[
+        <Button key="cancel" onClick={handleClose}>
+          Cancel
+        </Button>,
+        <Button
+          key="import"
+          type="primary"
+          loading={loading}
+          disabled={!report || report.validRows === 0}
+          onClick={handleCommit}
+        >
+          Import {report?.validRows || 0} Valid Question(s)
+        </Button>
+      ]}
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Text type="secondary">
+          Upload a CSV or JSON file with the columns {QUESTION_FILE_COLUMNS.join(', ')}.
+          Subjects, chapters and topics can be given by name or ID; separate tags with semicolons.
+          questionType defaults to single; typeData is JSON with the assertion and reason or the left and right match lists.
+          Nothing is imported until you confirm.
+        </Text>
+
+        <Button icon={<DownloadOutlined />} onClick={handleDownloadTemplate} size="small">
+          Download CSV Template
+        </Button>
+
+        <Upload.Dragger
+          accept=".csv,.json"
+          multiple={false}
+          showUploadList={false}
+          disabled={loading}
+          beforeUpload={(selectedFile) => {
+            handleFileSelected(selectedFile);
+            return false;
+          }}
+        >
+          <p className="ant-upload-drag-icon">
+            <InboxOutlined />
+          </p>
+          <p className="ant-upload-text">{file ? file.name : 'Click or drag a file to validate it'}</p>
+        </Upload.Dragger>
+
+        {error && (
+          <Alert message={error} type="error" showIcon closable onClose={() => setError(null)} />
+        )}
+
+        {report && (
+          <>
+            <Row gutter={16}>
+              <Col span={6}><Statistic title="Rows" value={report.totalRows} /></Col>
+              <Col span={6}><Statistic title="Valid" value={report.validRows} valueStyle={{ color: '#52c41a' }} /></Col>
+              <Col span={6}><Statistic title="Invalid" value={report.invalidRows} valueStyle={{ color: '#ff4d4f' }} /></Col>
+              <Col span={6}><Statistic title="Duplicates" value={report.duplicateRows} valueStyle={{ color: '#fa8c16' }} /></Col>
+            </Row>
+
+            <Space wrap>
+              <Checkbox checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)}>
+                Show only rows with problems
+              </Checkbox>
+              <Checkbox checked={submitForReview} onChange={(e) => setSubmitForReview(e.target.checked)}>
+                Submit imported questions for review
+              </Checkbox>
+            </Space>
+
+            <Table
+              dataSource={visibleRows}
+              rowKey="row"
+              size="small"
+              pagination={{ pageSize: 10 }}
+              columns={[
+                { title: 'Row', dataIndex: 'row', key: 'row', width: 70 },
+                { title: 'Title', dataIndex: 'title', key: 'title', ellipsis: true },
+                {
+                  title: 'Status',
+                  dataIndex: 'status',
+                  key: 'status',
+                  width: 110,
+                  render: (status: ImportRowReport['status']) => (
+                    <Tag color={STATUS_COLORS[status]}>{status.toUpperCase()}</Tag>
+                  )
+                },
+                {
+                  title: 'Problems',
+                  dataIndex: 'errors',
+                  key: 'errors',
+                  render: (errors: string[]) => errors.length > 0
+                    ? <Space direction="vertical" size={0}>{errors.map(e => <Text key={e} type="danger">{e}</Text>)}</Space>
+                    : <Text type="secondary">-</Text>
+                }
+              ]}
+            />
+          </>
+        )}
+      </Space>
+    </Modal>
+  );
+}
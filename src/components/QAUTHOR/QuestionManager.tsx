@@ -17,7 +17,9 @@ import {
   Result,
   Empty,
   Form,
-  Input
+  Input,
+  Badge,
+  Progress
 } from 'antd';
 import { 
   EditOutlined, 
@@ -27,9 +29,29 @@ import {
   BookOutlined,
   ExclamationCircleOutlined,
   LockOutlined,
-  UserOutlined
+  UserOutlined,
+  UploadOutlined,
+  DownloadOutlined,
+  SendOutlined,
+  RollbackOutlined,
+  CommentOutlined,
+  HistoryOutlined,
+  FlagOutlined,
+  BarChartOutlined,
+  WarningOutlined
 } from '@ant-design/icons';
 import { QuestionForm } from '@/components/Question/QuestionForm';
+import QuestionReviewHistory, { STATUS_LABELS, STATUS_TAG_COLORS } from '@/components/Question/QuestionReviewHistory';
+import { QuestionStatus, QuestionType, QuestionTypeData } from '@/types';
+import { QUESTION_TYPE_LABELS, formatResponse, usesChoiceOptions } from '@/lib/question-types';
+import QuestionExport from '@/components/Question/QuestionExport';
+import QuestionRevisionHistory from '@/components/QAUTHOR/QuestionRevisionHistory';
+import QuestionImport from './QuestionImport';
+import QuestionReportInbox from './QuestionReportInbox';
+import RichContent from '@/components/Question/RichContent';
+import { QuestionTypeContent } from '@/components/Question/AnswerInput';
+import QuestionAnalyticsPanel from './QuestionAnalyticsPanel';
+import { QuestionAnalytics } from '@/lib/question-analytics';
 
 const { Title, Text } = Typography;
 
@@ -48,12 +70,21 @@ interface Question {
   option_c: string;
   option_d: string;
   correct_option: string;
+  question_type: QuestionType | null;
+  type_data: QuestionTypeData | null;
+  numeric_tolerance: number | null;
   explanation: string;
   difficulty: string;
   exam_category: string;
   year: number;
   source: string;
+  status: QuestionStatus;
+  open_report_count: number | null;  // Open and acknowledged student reports
+  chapter_id: string | null;
+  topic_id: string | null;
+  tags: string[] | null;
   created_at: string;
+  analytics: QuestionAnalytics;  // From question_stats
   subjects?: {
     id: string;
     name: string;
@@ -81,8 +112,22 @@ export default function QuestionManager() {
 
   // New state for edit functionality
   const [editModalVisible, setEditModalVisible] = useState<boolean>(false);
+  const [importModalVisible, setImportModalVisible] = useState<boolean>(false);
+  const [exportModalVisible, setExportModalVisible] = useState<boolean>(false);
   const [questionToEdit, setQuestionToEdit] = useState<Question | null>(null);
 
+  // Review workflow state
+  const [reviewQuestion, setReviewQuestion] = useState<Question | null>(null);
+  const [historyQuestion, setHistoryQuestion] = useState<Question | null>(null);
+  const [reviewActionLoading, setReviewActionLoading] = useState<string | null>(null);
+
+  // Student report inbox
+  const [reportInboxVisible, setReportInboxVisible] = useState<boolean>(false);
+  const unresolvedReportCount = questions.reduce((sum, question) => sum + (question.open_report_count || 0), 0);
+
+  // Student performance analytics
+  const [analyticsQuestion, setAnalyticsQuestion] = useState<Question | null>(null);
+
   const addDebug = (message: string) => {
     if (isDev) {
       const timestamp = new Date().toLocaleTimeString();
@@ -273,11 +318,17 @@ export default function QuestionManager() {
       optionB: question.option_b,
       optionC: question.option_c,
       optionD: question.option_d,
-      correctOption: question.correct_option as 'A' | 'B' | 'C' | 'D',
+      correctOption: question.correct_option?.trim(),
+      questionType: question.question_type || 'single',
+      typeData: question.type_data,
+      numericTolerance: question.numeric_tolerance ?? undefined,
       explanation: question.explanation,
       difficulty: question.difficulty as 'EASY' | 'MEDIUM' | 'HARD',
       examCategory: question.exam_category as 'UPSC' | 'JEE' | 'NEET' | 'SSC' | 'OTHER',
       subject: question.subjects?.id || '',
+      chapterId: question.chapter_id,
+      topicId: question.topic_id,
+      tags: question.tags || [],
       year: question.year,
       source: question.source,
       createdBy: '',
@@ -303,11 +354,60 @@ export default function QuestionManager() {
     }
   };
 
+  // Edit a reported question straight from the report inbox
+  const handleEditReported = (questionId: string) => {
+    const question = questions.find(q => q.id === questionId);
+    if (!question) {
+      message.error('Question not found');
+      return;
+    }
+    setReportInboxVisible(false);
+    handleEdit(question);
+  };
+
+  const handleReportInboxClose = () => {
+    setReportInboxVisible(false);
+    // Report counts change as reports are triaged
+    if (user) fetchQuestions(user.id);
+  };
+
   const handleEditCancel = () => {
     setEditModalVisible(false);
     setQuestionToEdit(null);
   };
 
+  // Submit a draft for review, or withdraw it while it is waiting
+  const handleReviewAction = async (question: Question, action: 'submit' | 'withdraw') => {
+    try {
+      setReviewActionLoading(question.id);
+      const response = await fetch(`/api/questions/${question.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update question status');
+      }
+
+      message.success(action === 'submit' ? 'Question submitted for review' : 'Question withdrawn from review');
+      setQuestions(prev => prev.map(q => q.id === question.id ? { ...q, status: result.status } : q));
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to update question status');
+    } finally {
+      setReviewActionLoading(null);
+    }
+  };
+
+  const handleImported = async (insertedCount: number) => {
+    addDebug(`✅ Imported ${insertedCount} question(s)`);
+    if (user) {
+      await fetchQuestions(user.id);
+    }
+  };
+
   // Prevent hydration mismatch
   if (!isMounted) {
     return (
@@ -384,6 +484,11 @@ export default function QuestionManager() {
           <Text type="secondary" ellipsis style={{ fontSize: '12px' }}>
             {record.content.substring(0, 80)}...
           </Text>
+          {record.tags && record.tags.length > 0 && (
+            <div style={{ marginTop: 4 }}>
+              {record.tags.map(tag => <Tag key={tag} style={{ fontSize: '11px' }}>{tag}</Tag>)}
+            </div>
+          )}
         </div>
       ),
     },
@@ -415,6 +520,45 @@ export default function QuestionManager() {
         <Tag color="green">{category}</Tag>
       ),
     },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 110,
+      render: (status: QuestionStatus, record: Question) => (
+        <Space direction="vertical" size={4}>
+          <Tag color={STATUS_TAG_COLORS[status] || 'default'}>{STATUS_LABELS[status] || status}</Tag>
+          {(record.open_report_count || 0) > 0 && (
+            <Tag color="red" icon={<FlagOutlined />}>
+              {record.open_report_count} report{record.open_report_count === 1 ? '' : 's'}
+            </Tag>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: 'Performance',
+      dataIndex: 'analytics',
+      key: 'performance',
+      width: 140,
+      render: (analytics: QuestionAnalytics) => analytics.attempts === 0 ? (
+        <Text type="secondary" style={{ fontSize: '12px' }}>No attempts yet</Text>
+      ) : (
+        <div>
+          <Text style={{ fontSize: '12px' }}>
+            {analytics.attempts} attempt{analytics.attempts === 1 ? '' : 's'}
+          </Text>
+          <Progress percent={analytics.successRate ?? 0} size="small" />
+          {analytics.difficultyMismatch && (
+            <Tooltip title={analytics.difficultyMismatch.message}>
+              <Tag color="orange" icon={<WarningOutlined />}>
+                Looks {analytics.difficultyMismatch.suggested}
+              </Tag>
+            </Tooltip>
+          )}
+        </div>
+      ),
+    },
     {
       title: 'Created',
       dataIndex: 'created_at',
@@ -425,9 +569,55 @@ export default function QuestionManager() {
     {
       title: 'Actions',
       key: 'actions',
-      width: 150,
+      width: 200,
       render: (_: any, record: Question) => (
         <Space>
+          {(record.status === 'draft' || record.status === 'rejected') && (
+            <Tooltip title="Submit for Review">
+              <Button 
+                type="text" 
+                icon={<SendOutlined />} 
+                onClick={() => handleReviewAction(record, 'submit')}
+                loading={reviewActionLoading === record.id}
+                size="small"
+              />
+            </Tooltip>
+          )}
+          {record.status === 'in_review' && (
+            <Tooltip title="Withdraw from Review">
+              <Button 
+                type="text" 
+                icon={<RollbackOutlined />} 
+                onClick={() => handleReviewAction(record, 'withdraw')}
+                loading={reviewActionLoading === record.id}
+                size="small"
+              />
+            </Tooltip>
+          )}
+          <Tooltip title="Review Comments">
+            <Button 
+              type="text" 
+              icon={<CommentOutlined />} 
+              onClick={() => setReviewQuestion(record)}
+              size="small"
+            />
+          </Tooltip>
+          <Tooltip title="Revision History">
+            <Button 
+              type="text" 
+              icon={<HistoryOutlined />} 
+              onClick={() => setHistoryQuestion(record)}
+              size="small"
+            />
+          </Tooltip>
+          <Tooltip title="Student Performance">
+            <Button 
+              type="text" 
+              icon={<BarChartOutlined />} 
+              onClick={() => setAnalyticsQuestion(record)}
+              size="small"
+            />
+          </Tooltip>
           <Tooltip title="Preview Question">
             <Button 
               type="text" 
@@ -463,14 +653,39 @@ export default function QuestionManager() {
       title={
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <Title level={4} style={{ margin: 0 }}>My Questions</Title>
-          <Button 
-            icon={<ReloadOutlined />} 
-            onClick={handleRefresh}
-            loading={loading}
-            size="small"
-          >
-            Refresh
-          </Button>
+          <Space>
+            <Badge count={unresolvedReportCount} size="small">
+              <Button 
+                icon={<FlagOutlined />} 
+                onClick={() => setReportInboxVisible(true)}
+                size="small"
+              >
+                Reports
+              </Button>
+            </Badge>
+            <Button 
+              icon={<UploadOutlined />} 
+              onClick={() => setImportModalVisible(true)}
+              size="small"
+            >
+              Import
+            </Button>
+            <Button 
+              icon={<DownloadOutlined />} 
+              onClick={() => setExportModalVisible(true)}
+              size="small"
+            >
+              Export
+            </Button>
+            <Button 
+              icon={<ReloadOutlined />} 
+              onClick={handleRefresh}
+              loading={loading}
+              size="small"
+            >
+              Refresh
+            </Button>
+          </Space>
         </div>
       }
     >
@@ -591,26 +806,41 @@ export default function QuestionManager() {
           <div>
             <Title level={4}>{selectedQuestion.title}</Title>
             <Text strong>Question:</Text>
-            <p>{selectedQuestion.content}</p>
+            <RichContent>{selectedQuestion.content}</RichContent>
 
             <div style={{ marginTop: 16 }}>
-              <Text strong>Options:</Text>
-              <div style={{ marginLeft: 16, marginTop: 8 }}>
-                <p><strong>A.</strong> {selectedQuestion.option_a}</p>
-                <p><strong>B.</strong> {selectedQuestion.option_b}</p>
-                <p><strong>C.</strong> {selectedQuestion.option_c}</p>
-                <p><strong>D.</strong> {selectedQuestion.option_d}</p>
-              </div>
+              <Tag>{QUESTION_TYPE_LABELS[selectedQuestion.question_type || 'single']}</Tag>
             </div>
 
+            <div style={{ marginTop: 16 }}>
+              <QuestionTypeContent questionType={selectedQuestion.question_type} typeData={selectedQuestion.type_data} />
+            </div>
+
+            {usesChoiceOptions(selectedQuestion.question_type || 'single') && (
+              <div style={{ marginTop: 16 }}>
+                <Text strong>Options:</Text>
+                <div style={{ marginLeft: 16, marginTop: 8 }}>
+                  <p><strong>A.</strong> <RichContent inline>{selectedQuestion.option_a}</RichContent></p>
+                  <p><strong>B.</strong> <RichContent inline>{selectedQuestion.option_b}</RichContent></p>
+                  <p><strong>C.</strong> <RichContent inline>{selectedQuestion.option_c}</RichContent></p>
+                  <p><strong>D.</strong> <RichContent inline>{selectedQuestion.option_d}</RichContent></p>
+                </div>
+              </div>
+            )}
+
             <div style={{ marginTop: 16 }}>
               <Text strong>Correct Answer: </Text>
-              <Tag color="green">{selectedQuestion.correct_option}</Tag>
+              <Tag color="green">
+                {formatResponse(selectedQuestion.question_type || 'single', selectedQuestion.correct_option)}
+                {selectedQuestion.question_type === 'numeric' && Number(selectedQuestion.numeric_tolerance)
+                  ? ` (±${selectedQuestion.numeric_tolerance})`
+                  : null}
+              </Tag>
             </div>
 
             <div style={{ marginTop: 16 }}>
               <Text strong>Explanation:</Text>
-              <p>{selectedQuestion.explanation}</p>
+              <RichContent>{selectedQuestion.explanation}</RichContent>
             </div>
 
             <div style={{ marginTop: 16, display: 'flex', gap: 16, flexWrap: 'wrap' }}>
@@ -665,6 +895,83 @@ export default function QuestionManager() {
           />
         )}
       </Modal>
+
+      {/* Review Comments Modal */}
+      <Modal
+        title={reviewQuestion ? `Review: ${reviewQuestion.title}` : 'Review'}
+        open={!!reviewQuestion}
+        onCancel={() => setReviewQuestion(null)}
+        footer={null}
+        width={600}
+        destroyOnClose
+      >
+        {reviewQuestion && <QuestionReviewHistory questionId={reviewQuestion.id} />}
+      </Modal>
+
+      {/* Student Report Inbox Modal */}
+      <Modal
+        title="Reported Issues"
+        open={reportInboxVisible}
+        onCancel={handleReportInboxClose}
+        footer={null}
+        width={700}
+        destroyOnClose
+      >
+        <QuestionReportInbox onEditQuestion={handleEditReported} />
+      </Modal>
+
+      {/* Student Performance Modal */}
+      <Modal
+        title={analyticsQuestion ? `Performance: ${analyticsQuestion.title}` : 'Performance'}
+        open={!!analyticsQuestion}
+        onCancel={() => setAnalyticsQuestion(null)}
+        footer={null}
+        width={700}
+        destroyOnClose
+      >
+        {analyticsQuestion && (
+          <QuestionAnalyticsPanel
+            analytics={analyticsQuestion.analytics}
+            optionTexts={{
+              A: analyticsQuestion.option_a,
+              B: analyticsQuestion.option_b,
+              C: analyticsQuestion.option_c,
+              D: analyticsQuestion.option_d
+            }}
+          />
+        )}
+      </Modal>
+
+      {/* Revision History Modal */}
+      <Modal
+        title={historyQuestion ? `History: ${historyQuestion.title}` : 'History'}
+        open={!!historyQuestion}
+        onCancel={() => setHistoryQuestion(null)}
+        footer={null}
+        width={800}
+        destroyOnClose
+      >
+        {historyQuestion && (
+          <QuestionRevisionHistory
+            questionId={historyQuestion.id}
+            onRestored={() => user && fetchQuestions(user.id)}
+          />
+        )}
+      </Modal>
+
+      {/* Bulk Import Modal */}
+      <QuestionImport
+        open={importModalVisible}
+        onClose={() => setImportModalVisible(false)}
+        onImported={handleImported}
+      />
+
+      {/* Export Modal */}
+      <QuestionExport
+        open={exportModalVisible}
+        onClose={() => setExportModalVisible(false)}
+        endpoint="/api/qauthor/questions/export"
+      />
       
       {/* Debug Info Panel - Only show in development */}
       {debugInfo.length > 0 && (
@@ -0,0 +1,204 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button, Empty, Input, List, Segmented, Space, Spin, Tag, Typography, message } from 'antd';
+import { EditOutlined } from '@ant-design/icons';
+import { QuestionReport, QuestionReportStatus } from '@/types';
+import {
+  MAX_RESOLUTION_NOTE_LENGTH,
+  REPORT_CATEGORY_LABELS,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUS_TAG_COLORS
+} from '@/lib/question-reports';
+import { DAILY_SELECTION_CONFIG } from '@/lib/question-selection';
+
+const { Text, Paragraph } = Typography;
+const { TextArea } = Input;
+
+interface InboxReport extends QuestionReport {
+  question: {
+    id: string;
+    title: string;
+    status: string;
+    subjectName: string | null;
+    openReportCount: number;
+  };
+}
+
+type InboxFilter = 'unresolved' | QuestionReportStatus;
+
+const FILTERS: { label: string; value: InboxFilter }[] = [
+  { label: 'Unresolved', value: 'unresolved' },
+  { label: 'Resolved', value: 'resolved' },
+  { label: 'Dismissed', value: 'dismissed' }
+];
+
+interface QuestionReportInboxProps {
+  onEditQuestion: (questionId: string) => void;
+}
+
+// Student reports on the author's questions. Authors acknowledge a report while
+// they look into it, then resolve it (after fixing the question) or dismiss it.
+const QuestionReportInbox = ({ onEditQuestion }: QuestionReportInboxProps) => {
+  const [filter, setFilter] = useState<InboxFilter>('unresolved');
+  const [reports, setReports] = useState<InboxReport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const fetchReports = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/qauthor/reports?status=${filter}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load reports');
+      }
+      setReports(data.reports || []);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const updateStatus = async (report: InboxReport, status: QuestionReportStatus) => {
+    try {
+      setUpdating(report.id);
+      const note = notes[report.id];
+      const response = await fetch(`/api/qauthor/reports/${report.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ status, ...(note !== undefined ? { resolutionNote: note } : {}) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update report');
+      }
+
+      message.success(`Report ${REPORT_STATUS_LABELS[status].toLowerCase()}`);
+      fetchReports();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to update report');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <div>
+      <Segmented
+        options={FILTERS}
+        value={filter}
+        onChange={value => setFilter(value as InboxFilter)}
+        style={{ marginBottom: 16 }}
+      />
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: 24 }}>
+          <Spin />
+        </div>
+      ) : reports.length === 0 ? (
+        <Empty description={filter === 'unresolved' ? 'No unresolved reports on your questions' : 'No reports'} />
+      ) : (
+        <List
+          dataSource={reports}
+          renderItem={report => {
+            const unresolved = report.status === 'open' || report.status === 'acknowledged';
+            return (
+              <List.Item key={report.id} style={{ display: 'block' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, flexWrap: 'wrap' }}>
+                  <Space wrap>
+                    <Text strong>{report.question.title}</Text>
+                    {report.question.subjectName && <Tag color="blue">{report.question.subjectName}</Tag>}
+                    {report.question.openReportCount >= DAILY_SELECTION_CONFIG.reportThreshold && (
+                      <Tag color="red">Held from daily sets</Tag>
+                    )}
+                  </Space>
+                  <Button
+                    size="small"
+                    icon={<EditOutlined />}
+                    onClick={() => onEditQuestion(report.questionId)}
+                  >
+                    Edit Question
+                  </Button>
+                </div>
+                <Space wrap style={{ marginTop: 8 }}>
+                  <Tag color="purple">{REPORT_CATEGORY_LABELS[report.category]}</Tag>
+                  <Tag color={REPORT_STATUS_TAG_COLORS[report.status]}>{REPORT_STATUS_LABELS[report.status]}</Tag>
+                  <Text type="secondary" style={{ fontSize: '12px' }}>
+                    Reported {new Date(report.createdAt).toLocaleString()}
+                  </Text>
+                </Space>
+                {report.details && (
+                  <Paragraph style={{ margin: '8px 0 0 0', whiteSpace: 'pre-wrap' }}>{report.details}</Paragraph>
+                )}
+
+                {unresolved ? (
+                  <>
+                    <TextArea
+                      value={notes[report.id] ?? report.resolutionNote ?? ''}
+                      onChange={event => setNotes(prev => ({ ...prev, [report.id]: event.target.value }))}
+                      rows={2}
+                      maxLength={MAX_RESOLUTION_NOTE_LENGTH}
+                      placeholder="Resolution note (optional)"
+                      style={{ marginTop: 8 }}
+                    />
+                    <Space style={{ marginTop: 8 }}>
+                      {report.status === 'open' && (
+                        <Button
+                          size="small"
+                          loading={updating === report.id}
+                          onClick={() => updateStatus(report, 'acknowledged')}
+                        >
+                          Acknowledge
+                        </Button>
+                      )}
+                      <Button
+                        size="small"
+                        type="primary"
+                        loading={updating === report.id}
+                        onClick={() => updateStatus(report, 'resolved')}
+                      >
+                        Resolve
+                      </Button>
+                      <Button
+                        size="small"
+                        loading={updating === report.id}
+                        onClick={() => updateStatus(report, 'dismissed')}
+                      >
+                        Dismiss
+                      </Button>
+                    </Space>
+                  </>
+                ) : (
+                  <div style={{ marginTop: 8 }}>
+                    {report.resolutionNote && (
+                      <Paragraph type="secondary" style={{ margin: 0 }}>Note: {report.resolutionNote}</Paragraph>
+                    )}
+                    <Button
+                      size="small"
+                      type="link"
+                      style={{ padding: 0 }}
+                      loading={updating === report.id}
+                      onClick={() => updateStatus(report, 'open')}
+                    >
+                      Reopen
+                    </Button>
+                  </div>
+                )}
+              </List.Item>
+            );
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QuestionReportInbox;
@@ -0,0 +1,246 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Timeline,
+  Typography,
+  Table,
+  Tag,
+  Button,
+  Space,
+  Spin,
+  Empty,
+  Popconfirm,
+  Checkbox,
+  message
+} from 'antd';
+import { RollbackOutlined } from '@ant-design/icons';
+import {
+  QuestionSnapshot,
+  REVISION_FIELD_LABELS,
+  RevisionAction,
+  RevisionChanges,
+  RevisionField,
+  SnapshotValue
+} from '@/lib/question-revisions';
+import { QUESTION_TYPE_LABELS, isQuestionType } from '@/lib/question-types';
+
+const { Text } = Typography;
+
+interface QuestionRevision {
+  id: string;
+  revisionNumber: number;
+  action: RevisionAction;
+  snapshot: QuestionSnapshot;
+  changes: RevisionChanges;
+  rollbackTo: number | null;
+  regradedAttempts: number | null;
+  editorEmail: string | null;
+  createdAt: string;
+}
+
+interface QuestionRevisionHistoryProps {
+  questionId: string;
+  // Called after a rollback so the caller can refresh its copy of the question
+  onRestored?: () => void;
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: 'Created',
+  edit: 'Edited',
+  rollback: 'Restored'
+};
+
+const ACTION_COLORS: Record<RevisionAction, string> = {
+  create: 'green',
+  edit: 'blue',
+  rollback: 'orange'
+};
+
+// Everything grading depends on; snapshots from before question types are single-correct
+function answerKeyOf(snapshot: QuestionSnapshot): string {
+  return JSON.stringify([
+    snapshot.question_type ?? 'single',
+    snapshot.correct_option ?? null,
+    snapshot.numeric_tolerance ?? 0,
+    snapshot.type_data ?? null
+  ]);
+}
+
+export default function QuestionRevisionHistory({ questionId, onRestored }: QuestionRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [regradeAttempts, setRegradeAttempts] = useState<boolean>(false);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/qauthor/questions/${questionId}/revisions`, {
+        credentials: 'include'
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load revisions');
+      }
+      setRevisions(data.revisions || []);
+      setNames({ ...(data.subjects || {}), ...(data.topics || {}) });
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setLoading(false);
+    }
+  }, [questionId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const handleRestore = async (revisionNumber: number) => {
+    try {
+      setRestoring(revisionNumber);
+      const response = await fetch(`/api/qauthor/questions/${questionId}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ revisionNumber, regradeAttempts })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to restore revision');
+      }
+
+      message.success(result.message || `Restored revision ${revisionNumber}`);
+      if (result.regradePending) {
+        message.info('Existing attempts and daily set scores will be regraded when the new answer is approved');
+      }
+      if (result.sentBackToReview) {
+        message.info('The question was published, so it has been sent back for review');
+      }
+      setRegradeAttempts(false);
+      await fetchRevisions();
+      onRestored?.();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const formatValue = (field: RevisionField, value: SnapshotValue) => {
+    if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return <Text type="secondary">(empty)</Text>;
+    }
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'object') {
+      if (value.left || value.right) {
+        return `List I: ${(value.left || []).join('; ')}\nList II: ${(value.right || []).join('; ')}`;
+      }
+      return `Assertion: ${value.assertion || ''}\nReason: ${value.reason || ''}`;
+    }
+    if (field === 'question_type' && isQuestionType(value)) return QUESTION_TYPE_LABELS[value];
+    if (field === 'subject_id' || field === 'chapter_id' || field === 'topic_id') {
+      return names[value as string] || value;
+    }
+    return value;
+  };
+
+  const current = revisions[0];
+
+  return (
+    <Spin spinning={loading}>
+      {revisions.length === 0 && !loading ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No revisions recorded" />
+      ) : (
+        <Timeline
+          items={revisions.map(revision => {
+            const changedFields = Object.keys(revision.changes) as RevisionField[];
+            const changesCorrectOption = !!current && answerKeyOf(revision.snapshot) !== answerKeyOf(current.snapshot);
+
+            return {
+              key: revision.id,
+              color: ACTION_COLORS[revision.action],
+              children: (
+                <div>
+                  <Space size={4} wrap>
+                    <Text strong>Revision {revision.revisionNumber}</Text>
+                    <Tag color={ACTION_COLORS[revision.action]}>{ACTION_LABELS[revision.action]}</Tag>
+                    {revision.rollbackTo && <Text type="secondary">from revision {revision.rollbackTo}</Text>}
+                    {revision === current && <Tag>Current</Tag>}
+                    {revision.regradedAttempts !== null && (
+                      <Tag color="purple">{revision.regradedAttempts} attempt(s) regraded</Tag>
+                    )}
+                  </Space>
+                  <br />
+                  <Text type="secondary" style={{ fontSize: '12px' }}>
+                    {revision.editorEmail || 'Unknown'} · {new Date(revision.createdAt).toLocaleString()}
+                  </Text>
+
+                  {changedFields.length > 0 && (
+                    <Table
+                      size="small"
+                      pagination={false}
+                      rowKey="field"
+                      style={{ marginTop: 8 }}
+                      dataSource={changedFields.map(field => ({ field, ...revision.changes[field]! }))}
+                      columns={[
+                        {
+                          title: 'Field',
+                          dataIndex: 'field',
+                          key: 'field',
+                          width: 120,
+                          render: (field: RevisionField) => <Text strong>{REVISION_FIELD_LABELS[field]}</Text>
+                        },
+                        {
+                          title: 'Before',
+                          dataIndex: 'from',
+                          key: 'from',
+                          render: (value: SnapshotValue, row: { field: RevisionField }) => (
+                            <Text delete type="danger" style={{ whiteSpace: 'pre-wrap' }}>{formatValue(row.field, value)}</Text>
+                          )
+                        },
+                        {
+                          title: 'After',
+                          dataIndex: 'to',
+                          key: 'to',
+                          render: (value: SnapshotValue, row: { field: RevisionField }) => (
+                            <Text type="success" style={{ whiteSpace: 'pre-wrap' }}>{formatValue(row.field, value)}</Text>
+                          )
+                        }
+                      ]}
+                    />
+                  )}
+
+                  {revision !== current && (
+                    <Popconfirm
+                      title={`Restore revision ${revision.revisionNumber}?`}
+                      description={changesCorrectOption ? (
+                        <Checkbox checked={regradeAttempts} onChange={(e) => setRegradeAttempts(e.target.checked)}>
+                          This changes the correct answer. Regrade existing attempts once it is approved.
+                        </Checkbox>
+                      ) : 'The current content is kept as a revision.'}
+                      onConfirm={() => handleRestore(revision.revisionNumber)}
+                      onOpenChange={(open) => { if (!open) setRegradeAttempts(false); }}
+                      okText="Restore"
+                    >
+                      <Button
+                        size="small"
+                        icon={<RollbackOutlined />}
+                        loading={restoring === revision.revisionNumber}
+                        disabled={restoring !== null}
+                        style={{ marginTop: 8 }}
+                      >
+                        Restore this version
+                      </Button>
+                    </Popconfirm>
+                  )}
+                </div>
+              )
+            };
+          })}
+        />
+      )}
+    </Spin>
+  );
+}
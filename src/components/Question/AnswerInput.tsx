@@ -0,0 +1,213 @@
+'use client';
+
+import { Radio, Checkbox, Input, Select, Space, Typography, Row, Col } from 'antd';
+import { QuestionType, QuestionTypeData } from '@/types';
+import { UNMATCHED_ITEM, formatResponse, matchLetters, usesChoiceOptions } from '@/lib/question-types';
+import RichContent from '@/components/Question/RichContent';
+
+const { Text } = Typography;
+
+export interface AnswerOption {
+  key: string;
+  value: string;
+}
+
+interface AnswerInputProps {
+  questionType?: QuestionType | null;
+  typeData?: QuestionTypeData | null;
+  // Options A-D for single, multiple-correct and assertion-reason questions
+  options: AnswerOption[];
+  // Encoded response, see lib/question-types
+  value?: string;
+  // Optional so the input can sit inside a Form.Item, which injects both
+  onChange?: (value: string) => void;
+  disabled?: boolean;
+  // Show assertion-reason statements and match lists above the controls
+  showTypeContent?: boolean;
+}
+
+const optionStyle = { padding: '8px', fontSize: '16px' };
+
+// Statements and lists shown above the answer controls
+export function QuestionTypeContent({ questionType, typeData }: { questionType?: QuestionType | null; typeData?: QuestionTypeData | null }) {
+  if (questionType === 'assertion_reason') {
+    return (
+      <div style={{ marginBottom: '16px' }}>
+        <div style={{ marginBottom: '8px' }}>
+          <Text strong>Assertion (A): </Text><RichContent inline>{typeData?.assertion}</RichContent>
+        </div>
+        <div>
+          <Text strong>Reason (R): </Text><RichContent inline>{typeData?.reason}</RichContent>
+        </div>
+      </div>
+    );
+  }
+
+  if (questionType === 'match') {
+    const letters = matchLetters(typeData?.right?.length || 0);
+    return (
+      <Row gutter={16} style={{ marginBottom: '16px' }}>
+        <Col span={12}>
+          <Text strong>List I</Text>
+          {(typeData?.left || []).map((item, index) => (
+            <div key={index} style={{ padding: '4px 0' }}>
+              {index + 1}. <RichContent inline>{item}</RichContent>
+            </div>
+          ))}
+        </Col>
+        <Col span={12}>
+          <Text strong>List II</Text>
+          {(typeData?.right || []).map((item, index) => (
+            <div key={index} style={{ padding: '4px 0' }}>
+              {letters[index]}. <RichContent inline>{item}</RichContent>
+            </div>
+          ))}
+        </Col>
+      </Row>
+    );
+  }
+
+  return null;
+}
+
+// Answer controls for every question type. The value is the encoded response:
+// "A" for single-correct, "AC" for multiple-correct, "42" for numeric and one
+// List II letter per List I item for match-the-following.
+export default function AnswerInput({
+  questionType,
+  typeData,
+  options,
+  value = '',
+  onChange = () => {},
+  disabled,
+  showTypeContent = true
+}: AnswerInputProps) {
+  const type = questionType || 'single';
+
+  const content = (() => {
+    if (type === 'multiple') {
+      return (
+        <>
+          <Text type="secondary" style={{ display: 'block', marginBottom: '8px' }}>
+            Select all correct options
+          </Text>
+          <Checkbox.Group
+            value={value.split('').filter(Boolean)}
+            onChange={(checked) => onChange((checked as string[]).sort().join(''))}
+            style={{ width: '100%' }}
+            disabled={disabled}
+          >
+            <Space direction="vertical" style={{ width: '100%' }}>
+              {options.map(option => (
+                <Checkbox key={option.key} value={option.key} style={optionStyle}>
+                  <strong>{option.key})</strong> <RichContent inline>{option.value}</RichContent>
+                </Checkbox>
+              ))}
+            </Space>
+          </Checkbox.Group>
+        </>
+      );
+    }
+
+    if (type === 'numeric') {
+      return (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value.trim())}
+          placeholder="Enter a number"
+          inputMode="decimal"
+          size="large"
+          style={{ maxWidth: '240px' }}
+          disabled={disabled}
+        />
+      );
+    }
+
+    if (type === 'match') {
+      const left = typeData?.left || [];
+      const letters = matchLetters(typeData?.right?.length || 0);
+      const current = left.map((_, index) => value[index] || UNMATCHED_ITEM);
+      return (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          {left.map((item, index) => (
+            <Space key={index} style={optionStyle}>
+              <Text strong>{index + 1}.</Text>
+              <Select
+                value={current[index] === UNMATCHED_ITEM ? undefined : current[index]}
+                placeholder="Match"
+                style={{ width: '100px' }}
+                options={letters.map(letter => ({ value: letter, label: letter }))}
+                onChange={(letter: string) => {
+                  const next = [...current];
+                  next[index] = letter;
+                  onChange(next.join(''));
+                }}
+                disabled={disabled}
+              />
+            </Space>
+          ))}
+        </Space>
+      );
+    }
+
+    return (
+      <Radio.Group
+        value={value || undefined}
+        onChange={(e) => onChange(e.target.value)}
+        style={{ width: '100%' }}
+        disabled={disabled}
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          {options.map(option => (
+            <Radio key={option.key} value={option.key} style={optionStyle}>
+              <strong>{option.key})</strong> <RichContent inline>{option.value}</RichContent>
+            </Radio>
+          ))}
+        </Space>
+      </Radio.Group>
+    );
+  })();
+
+  return (
+    <>
+      {showTypeContent && <QuestionTypeContent questionType={type} typeData={typeData} />}
+      {content}
+    </>
+  );
+}
+
+// A response for display, with option text for choice questions
+export function ResponseText({
+  questionType,
+  value,
+  options,
+  numericTolerance
+}: {
+  questionType?: QuestionType | null;
+  value: string | null | undefined;
+  options: AnswerOption[];
+  numericTolerance?: number | null;
+}) {
+  const type = questionType || 'single';
+  if (!value) return null;
+
+  if (usesChoiceOptions(type)) {
+    return (
+      <>
+        {value.split('').map((letter, index) => (
+          <span key={letter}>
+            {index > 0 && '; '}
+            {letter}) <RichContent inline>{options.find(option => option.key === letter)?.value}</RichContent>
+          </span>
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {formatResponse(type, value)}
+      {type === 'numeric' && numericTolerance ? ` (±${numericTolerance})` : null}
+    </>
+  );
+}
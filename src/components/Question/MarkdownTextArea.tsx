@@ -0,0 +1,84 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Input, Upload, Button, message } from 'antd';
+import type { TextAreaRef } from 'antd/es/input/TextArea';
+import { PictureOutlined } from '@ant-design/icons';
+
+const { TextArea } = Input;
+
+interface MarkdownTextAreaProps {
+  // Injected by Form.Item
+  value?: string;
+  onChange?: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  maxLength?: number;
+}
+
+// TextArea for question Markdown with an image upload button that inserts the
+// uploaded image at the cursor
+export default function MarkdownTextArea({ value = '', onChange, placeholder, rows = 4, maxLength }: MarkdownTextAreaProps) {
+  const textAreaRef = useRef<TextAreaRef>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const insertAtCursor = (snippet: string) => {
+    const element = textAreaRef.current?.resizableTextArea?.textArea;
+    const start = element?.selectionStart ?? value.length;
+    const end = element?.selectionEnd ?? value.length;
+    // Images go on their own line
+    const before = value.slice(0, start);
+    const prefix = before && !before.endsWith('\n') ? '\n' : '';
+    onChange?.(`${before}${prefix}${snippet}\n${value.slice(end)}`);
+  };
+
+  const handleUpload = async (file: File) => {
+    try {
+      setUploading(true);
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch('/api/question-images', {
+        method: 'POST',
+        credentials: 'include',
+        body
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to upload image');
+      }
+
+      insertAtCursor(result.markdown);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to upload image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div>
+      <TextArea
+        ref={textAreaRef}
+        value={value}
+        onChange={(e) => onChange?.(e.target.value)}
+        placeholder={placeholder}
+        rows={rows}
+        showCount={!!maxLength}
+        maxLength={maxLength}
+      />
+      <Upload
+        accept="image/png,image/jpeg,image/gif,image/webp"
+        showUploadList={false}
+        beforeUpload={(file) => {
+          handleUpload(file);
+          return false;
+        }}
+      >
+        <Button size="small" type="link" icon={<PictureOutlined />} loading={uploading} style={{ paddingLeft: 0 }}>
+          Insert image
+        </Button>
+      </Upload>
+    </div>
+  );
+}
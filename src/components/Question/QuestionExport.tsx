@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Modal, Form, Select, InputNumber, Radio, Typography } from 'antd';
+
+const { Text } = Typography;
+
+interface QuestionExportProps {
+  open: boolean;
+  onClose: () => void;
+  // Export API, e.g. /api/qauthor/questions/export or /api/admin/questions/export
+  endpoint: string;
+}
+
+interface ExportFormValues {
+  format: 'csv' | 'json' | 'html';
+  subject?: string;
+  difficulty?: string;
+  examCategory?: string;
+  year?: number;
+}
+
+export default function QuestionExport({ open, onClose, endpoint }: QuestionExportProps) {
+  const [form] = Form.useForm<ExportFormValues>();
+  const [subjects, setSubjects] = useState<{ id: string; name: string }[]>([]);
+
+  useEffect(() => {
+    if (!open || subjects.length > 0) return;
+
+    const fetchSubjects = async () => {
+      try {
+        const response = await fetch('/api/subjects', {
+          method: 'GET',
+          credentials: 'include',
+        });
+        if (response.ok) {
+          setSubjects(await response.json() || []);
+        }
+      } catch (err) {
+        console.error('Error fetching subjects:', err);
+      }
+    };
+
+    fetchSubjects();
+  }, [open, subjects.length]);
+
+  // Downloads (and the worksheet) are served by the export API directly
+  const handleExport = (values: ExportFormValues) => {
+    const params = new URLSearchParams({ format: values.format });
+    if (values.subject) params.set('subject', values.subject);
+    if (values.difficulty) params.set('difficulty', values.difficulty);
+    if (values.examCategory) params.set('examCategory', values.examCategory);
+    if (values.year) params.set('year', String(values.year));
+
+    window.open(`${endpoint}?${params.toString()}`, '_blank');
+    onClose();
+  };
+
+  return (
+    <Modal
+      title="Export Questions"
+      open={open}
+      onCancel={onClose}
+      onOk={() => form.submit()}
+      okText="Export"
+      destroyOnClose
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        initialValues={{ format: 'csv' }}
+        onFinish={handleExport}
+        preserve={false}
+      >
+        <Form.Item name="format" label="Format">
+          <Radio.Group>
+            <Radio.Button value="csv">CSV</Radio.Button>
+            <Radio.Button value="json">JSON</Radio.Button>
+            <Radio.Button value="html">Printable Worksheet</Radio.Button>
+          </Radio.Group>
+        </Form.Item>
+        <Form.Item name="subject" label="Subject">
+          <Select
+            allowClear
+            placeholder="All subjects"
+            options={subjects.map(subject => ({ value: subject.id, label: subject.name }))}
+          />
+        </Form.Item>
+        <Form.Item name="difficulty" label="Difficulty">
+          <Select
+            allowClear
+            placeholder="All difficulties"
+            options={['EASY', 'MEDIUM', 'HARD'].map(value => ({ value, label: value }))}
+          />
+        </Form.Item>
+        <Form.Item name="examCategory" label="Exam Category">
+          <Select
+            allowClear
+            placeholder="All categories"
+            options={['UPSC', 'JEE', 'NEET', 'SSC', 'OTHER'].map(value => ({ value, label: value }))}
+          />
+        </Form.Item>
+        <Form.Item name="year" label="Year">
+          <InputNumber min={1900} max={2030} placeholder="Any year" style={{ width: '100%' }} />
+        </Form.Item>
+      </Form>
+      <Text type="secondary">
+        CSV and JSON files can be imported again. The worksheet opens in a new tab with an answer key at the end.
+      </Text>
+    </Modal>
+  );
+}
@@ -3,24 +3,40 @@ import {
   Form,
   Input,
   Select,
-  Radio,
   Button,
   Alert,
   Typography,
   Space,
   Divider,
   Spin,
+  Checkbox,
+  Card,
+  InputNumber,
   message
 } from 'antd';
 import { 
   QuestionCircleOutlined, 
   SaveOutlined, 
-  CloseOutlined 
+  CloseOutlined,
+  PlusOutlined,
+  MinusCircleOutlined
 } from '@ant-design/icons';
-import { Question, DifficultyLevel, ExamCategory, Option, Subject } from '@/types';
+import { Question, DifficultyLevel, ExamCategory, Option, QuestionType, QuestionTypeData, Subject, Topic } from '@/types';
+import { MAX_TAGS, MAX_TAG_LENGTH } from '@/lib/topics';
+import {
+  ASSERTION_REASON_OPTIONS,
+  MAX_MATCH_ITEMS,
+  MIN_MATCH_ITEMS,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  isCompleteResponse,
+  usesChoiceOptions
+} from '@/lib/question-types';
+import RichContent from './RichContent';
+import MarkdownTextArea from './MarkdownTextArea';
+import AnswerInput, { QuestionTypeContent, ResponseText } from './AnswerInput';
 
 const { Title, Text } = Typography;
-const { TextArea } = Input;
 const { Option: SelectOption } = Select;
 
 interface QuestionFormProps {
@@ -33,14 +49,37 @@ interface QuestionFormProps {
 export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create' }: QuestionFormProps) => {
   const [form] = Form.useForm();
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [chapters, setChapters] = useState<Topic[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [submitting, setSubmitting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [regradeAttempts, setRegradeAttempts] = useState<boolean>(false);
+  const questionType: QuestionType = Form.useWatch('questionType', form) || 'single';
+  const typeData = Form.useWatch('typeData', form) as QuestionTypeData | undefined;
+  const correctOption = Form.useWatch('correctOption', form);
+  const numericTolerance = Form.useWatch('numericTolerance', form);
+  // Any change to what grading compares against
+  const correctOptionChanged = mode === 'edit' && !!initialData && !!correctOption
+    && (correctOption !== initialData.correctOption?.trim()
+      || questionType !== (initialData.questionType || 'single')
+      || (questionType === 'numeric' && Number(numericTolerance || 0) !== Number(initialData.numericTolerance || 0))
+      || (questionType === 'match' && JSON.stringify(typeData) !== JSON.stringify(initialData.typeData)));
+  const selectedSubject = Form.useWatch('subject', form);
+  const selectedChapter = Form.useWatch('chapter', form);
+  const chapterTopics = chapters.find(chapter => chapter.id === selectedChapter)?.topics || [];
+  // Every field the preview renders
+  const preview = Form.useWatch([], form) as Record<string, string | undefined> | undefined;
+  // Assertion-reason questions always have the standard four options
+  const answerOptions = (['A', 'B', 'C', 'D'] as const).map(letter => ({
+    key: letter,
+    value: questionType === 'assertion_reason' ? ASSERTION_REASON_OPTIONS[letter] : preview?.[`option${letter}`] || ''
+  }));
   
   // Set initial form values when editing
   useEffect(() => {
     if (mode === 'edit' && initialData) {
       form.setFieldsValue({
+        questionType: initialData.questionType || 'single',
         title: initialData.title,
         content: initialData.content,
         optionA: initialData.optionA,
@@ -48,9 +87,14 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
         optionC: initialData.optionC,
         optionD: initialData.optionD,
         correctOption: initialData.correctOption,
+        typeData: initialData.typeData || undefined,
+        numericTolerance: initialData.numericTolerance || undefined,
         explanation: initialData.explanation,
         difficulty: initialData.difficulty,
         subject: initialData.subject,
+        chapter: initialData.chapterId || undefined,
+        topic: initialData.topicId || undefined,
+        tags: initialData.tags || [],
         examCategory: initialData.examCategory,
         year: initialData.year,
         source: initialData.source
@@ -87,6 +131,40 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
 
     fetchSubjects();
   }, []);
+
+  // Load the chapters and topics of the selected subject
+  useEffect(() => {
+    if (!selectedSubject) {
+      setChapters([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchTopics = async () => {
+      try {
+        const response = await fetch(`/api/subjects/${selectedSubject}/topics`, {
+          credentials: 'include',
+        });
+        if (!response.ok) {
+          throw new Error('Failed to load topics');
+        }
+        const data = await response.json();
+        if (!cancelled) {
+          setChapters(data.chapters || []);
+        }
+      } catch (err) {
+        console.error('Error fetching topics:', err);
+        if (!cancelled) {
+          setChapters([]);
+        }
+      }
+    };
+
+    fetchTopics();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSubject]);
   
   const handleSubmit = async (values: any) => {
     // Only log in development
@@ -113,6 +191,7 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
 
     try {
       const questionData = {
+        questionType: values.questionType || 'single',
         title: values.title,
         content: values.content,
         optionA: values.optionA,
@@ -120,12 +199,18 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
         optionC: values.optionC,
         optionD: values.optionD,
         correctAnswer: values.correctOption,
+        typeData: values.typeData || null,
+        numericTolerance: values.numericTolerance ?? null,
         explanation: values.explanation,
         difficulty: values.difficulty,
         subject: values.subject,
+        chapter: values.chapter || null,
+        topic: values.topic || null,
+        tags: values.tags || [],
         examCategory: values.examCategory,
         year: values.year,
-        source: values.source || null
+        source: values.source || null,
+        ...(mode === 'edit' ? { regradeAttempts: correctOptionChanged && regradeAttempts } : {})
       };
 
       if (isDev) {
@@ -164,6 +249,12 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
       }
 
       message.success(`Question ${mode}d successfully!`);
+      if (result.regradePending) {
+        message.info('Existing attempts and daily set scores will be regraded when the new answer is approved');
+      }
+      if (result.sentBackToReview) {
+        message.info('The question was published, so it has been sent back for review');
+      }
       
       if (mode === 'create') {
         form.resetFields();
@@ -191,7 +282,7 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
       <Text>
         {mode === 'edit' 
           ? 'Update the fields below to modify this question.'
-          : 'Fill out the required fields below to create a complete question. Each question must have four options with one correct answer and belong to a specific subject.'
+          : 'Fill out the required fields below to create a complete question. Choose a question type, enter its options or answer, and select a subject.'
         }
       </Text>
       
@@ -211,8 +302,20 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
         form={form}
         layout="vertical"
         onFinish={handleSubmit}
+        initialValues={{ questionType: 'single' }}
         style={{ marginTop: 24 }}
       >
+        <Form.Item
+          name="questionType"
+          label="Question Type"
+          rules={[{ required: true, message: 'Please select a question type' }]}
+        >
+          <Select
+            options={QUESTION_TYPES.map(type => ({ value: type, label: QUESTION_TYPE_LABELS[type] }))}
+            onChange={() => form.setFieldsValue({ correctOption: undefined })}
+          />
+        </Form.Item>
+
         <Form.Item
           name="title"
           label="Question Title"
@@ -225,72 +328,161 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
           name="content"
           label="Question Content"
           rules={[{ required: true, message: 'Please enter the question content' }]}
+          extra="Supports Markdown and LaTeX: $x^2$ inline, or $$ on the lines above and below a display equation"
         >
-          <TextArea 
-            placeholder="Enter the full question text" 
-            rows={4} 
-            showCount 
-            maxLength={1000} 
+          <MarkdownTextArea
+            placeholder="Enter the full question text"
+            rows={4}
+            maxLength={2000}
           />
         </Form.Item>
         
-        <Divider>Options</Divider>
-        
-        <Form.Item
-          name="optionA"
-          label="Option A"
-          rules={[{ required: true, message: 'Please enter option A' }]}
-        >
-          <Input placeholder="Enter option A" />
-        </Form.Item>
-        
-        <Form.Item
-          name="optionB"
-          label="Option B"
-          rules={[{ required: true, message: 'Please enter option B' }]}
-        >
-          <Input placeholder="Enter option B" />
-        </Form.Item>
-        
-        <Form.Item
-          name="optionC"
-          label="Option C"
-          rules={[{ required: true, message: 'Please enter option C' }]}
-        >
-          <Input placeholder="Enter option C" />
-        </Form.Item>
-        
-        <Form.Item
-          name="optionD"
-          label="Option D"
-          rules={[{ required: true, message: 'Please enter option D' }]}
-        >
-          <Input placeholder="Enter option D" />
-        </Form.Item>
-        
+        {questionType === 'assertion_reason' && (
+          <>
+            <Divider>Statements</Divider>
+
+            <Form.Item
+              name={['typeData', 'assertion']}
+              label="Assertion (A)"
+              rules={[{ required: true, message: 'Please enter the assertion' }]}
+            >
+              <MarkdownTextArea placeholder="Enter the assertion" rows={2} maxLength={500} />
+            </Form.Item>
+
+            <Form.Item
+              name={['typeData', 'reason']}
+              label="Reason (R)"
+              rules={[{ required: true, message: 'Please enter the reason' }]}
+            >
+              <MarkdownTextArea placeholder="Enter the reason" rows={2} maxLength={500} />
+            </Form.Item>
+          </>
+        )}
+
+        {questionType === 'match' && (
+          <>
+            <Divider>Lists</Divider>
+
+            {([['left', 'List I'], ['right', 'List II']] as const).map(([list, label]) => (
+              <Form.List
+                key={list}
+                name={['typeData', list]}
+                initialValue={['', '']}
+                rules={[{
+                  validator: (_, items: string[] | undefined) =>
+                    (items?.length || 0) < MIN_MATCH_ITEMS
+                      ? Promise.reject(new Error(`${label} needs at least ${MIN_MATCH_ITEMS} items`))
+                      : Promise.resolve()
+                }]}
+              >
+                {(fields, { add, remove }, { errors }) => (
+                  <Form.Item label={label}>
+                    {fields.map((field, index) => (
+                      <Space key={field.key} align="baseline" style={{ display: 'flex' }}>
+                        <Text strong>{list === 'left' ? index + 1 : String.fromCharCode(65 + index)}.</Text>
+                        <Form.Item
+                          {...field}
+                          rules={[{ required: true, whitespace: true, message: 'Please enter the item or remove it' }]}
+                          style={{ marginBottom: 8, width: 400 }}
+                        >
+                          <Input placeholder={`${label} item`} maxLength={200} />
+                        </Form.Item>
+                        {fields.length > MIN_MATCH_ITEMS && (
+                          <MinusCircleOutlined
+                            onClick={() => {
+                              remove(field.name);
+                              form.setFieldsValue({ correctOption: undefined });
+                            }}
+                          />
+                        )}
+                      </Space>
+                    ))}
+                    {fields.length < MAX_MATCH_ITEMS && (
+                      <Button type="dashed" onClick={() => add('')} icon={<PlusOutlined />}>
+                        Add item
+                      </Button>
+                    )}
+                    <Form.ErrorList errors={errors} />
+                  </Form.Item>
+                )}
+              </Form.List>
+            ))}
+          </>
+        )}
+
+        {(questionType === 'single' || questionType === 'multiple') && (
+          <>
+            <Divider>Options</Divider>
+
+            {(['A', 'B', 'C', 'D'] as const).map(letter => (
+              <Form.Item
+                key={letter}
+                name={`option${letter}`}
+                label={`Option ${letter}`}
+                rules={[{ required: true, message: `Please enter option ${letter}` }]}
+              >
+                <Input placeholder={`Enter option ${letter}`} />
+              </Form.Item>
+            ))}
+          </>
+        )}
+
         <Form.Item
           name="correctOption"
-          label="Correct Answer"
-          rules={[{ required: true, message: 'Please select the correct answer' }]}
+          label={questionType === 'multiple' ? 'Correct Answers' : 'Correct Answer'}
+          extra={questionType === 'multiple'
+            ? 'Students earn partial credit for choosing some of the correct options and none of the wrong ones'
+            : questionType === 'match' ? 'Match every List I item to a List II item' : undefined}
+          rules={[{
+            validator: (_, value: string | undefined) =>
+              isCompleteResponse(questionType, value, typeData)
+                ? Promise.resolve()
+                : Promise.reject(new Error(questionType === 'numeric'
+                  ? 'Please enter the numeric answer'
+                  : 'Please select the correct answer'))
+          }]}
         >
-          <Radio.Group>
-            <Radio value="A">Option A</Radio>
-            <Radio value="B">Option B</Radio>
-            <Radio value="C">Option C</Radio>
-            <Radio value="D">Option D</Radio>
-          </Radio.Group>
+          <AnswerInput
+            questionType={questionType}
+            typeData={typeData}
+            options={answerOptions}
+            showTypeContent={false}
+          />
         </Form.Item>
+
+        {questionType === 'numeric' && (
+          <Form.Item
+            name="numericTolerance"
+            label="Tolerance (Optional)"
+            extra="Answers within this distance of the correct answer are accepted; leave empty for an exact integer answer"
+          >
+            <InputNumber min={0} step={0.01} placeholder="0" style={{ width: 200 }} />
+          </Form.Item>
+        )}
+
+        {correctOptionChanged && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 24 }}
+            message="The correct answer has changed"
+            description={
+              <Checkbox checked={regradeAttempts} onChange={(e) => setRegradeAttempts(e.target.checked)}>
+                Regrade existing student attempts and daily set scores against the new answer once it is approved
+              </Checkbox>
+            }
+          />
+        )}
         
         <Form.Item
           name="explanation"
           label="Explanation"
           rules={[{ required: true, message: 'Please provide an explanation for the correct answer' }]}
         >
-          <TextArea 
-            placeholder="Explain why this is the correct answer" 
-            rows={3} 
-            showCount 
-            maxLength={500}
+          <MarkdownTextArea
+            placeholder="Explain why this is the correct answer"
+            rows={3}
+            maxLength={1000}
           />
         </Form.Item>
         
@@ -301,7 +493,10 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
           label="Subject"
           rules={[{ required: true, message: 'Please select a subject' }]}
         >
-          <Select placeholder="Select a subject">
+          <Select
+            placeholder="Select a subject"
+            onChange={() => form.setFieldsValue({ chapter: undefined, topic: undefined })}
+          >
             {subjects.map((subject) => (
               <SelectOption key={subject.id} value={subject.id}>
                 {subject.name}
@@ -310,6 +505,58 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
           </Select>
         </Form.Item>
         
+        <Form.Item
+          name="chapter"
+          label="Chapter (Optional)"
+        >
+          <Select
+            placeholder={chapters.length > 0 ? 'Select a chapter' : 'No chapters for this subject'}
+            disabled={chapters.length === 0}
+            allowClear
+            onChange={() => form.setFieldsValue({ topic: undefined })}
+          >
+            {chapters.map((chapter) => (
+              <SelectOption key={chapter.id} value={chapter.id}>
+                {chapter.name}
+              </SelectOption>
+            ))}
+          </Select>
+        </Form.Item>
+
+        <Form.Item
+          name="topic"
+          label="Topic (Optional)"
+        >
+          <Select
+            placeholder={selectedChapter ? 'Select a topic' : 'Select a chapter first'}
+            disabled={chapterTopics.length === 0}
+            allowClear
+          >
+            {chapterTopics.map((topic) => (
+              <SelectOption key={topic.id} value={topic.id}>
+                {topic.name}
+              </SelectOption>
+            ))}
+          </Select>
+        </Form.Item>
+
+        <Form.Item
+          name="tags"
+          label="Tags (Optional)"
+          extra={`Up to ${MAX_TAGS} tags, ${MAX_TAG_LENGTH} characters each`}
+          rules={[
+            { type: 'array', max: MAX_TAGS, message: `At most ${MAX_TAGS} tags` },
+            {
+              validator: (_, value: string[] | undefined) =>
+                (value || []).some(tag => tag.trim().length > MAX_TAG_LENGTH)
+                  ? Promise.reject(new Error(`Tags cannot exceed ${MAX_TAG_LENGTH} characters`))
+                  : Promise.resolve()
+            }
+          ]}
+        >
+          <Select mode="tags" placeholder="Type a tag and press Enter" tokenSeparators={[',', ';']} />
+        </Form.Item>
+
         <Form.Item
           name="difficulty"
           label="Difficulty Level"
@@ -349,6 +596,47 @@ export const QuestionForm = ({ onComplete, onCancel, initialData, mode = 'create
         >
           <Input placeholder="Enter source (e.g., Previous Year Paper, Mock Test)" />
         </Form.Item>
+
+        <Divider>Preview</Divider>
+
+        <Card size="small" style={{ marginBottom: 24 }}>
+          <Title level={5}>{preview?.title || 'Untitled question'}</Title>
+          <RichContent>{preview?.content || '*Question content appears here*'}</RichContent>
+          <div style={{ marginTop: 12 }}>
+            <QuestionTypeContent questionType={questionType} typeData={typeData} />
+            {usesChoiceOptions(questionType) ? answerOptions.map(({ key: letter, value }) => (
+              <div
+                key={letter}
+                style={{
+                  padding: '6px 10px',
+                  marginBottom: 6,
+                  borderRadius: 6,
+                  border: `1px solid ${correctOption?.includes(letter) ? '#52c41a' : '#f0f0f0'}`,
+                  background: correctOption?.includes(letter) ? '#f6ffed' : undefined
+                }}
+              >
+                <strong>{letter}.</strong>{' '}
+                <RichContent inline>{value}</RichContent>
+              </div>
+            )) : (
+              <div style={{ marginBottom: 6 }}>
+                <Text strong>Answer: </Text>
+                <ResponseText
+                  questionType={questionType}
+                  value={correctOption}
+                  options={answerOptions}
+                  numericTolerance={numericTolerance}
+                />
+              </div>
+            )}
+          </div>
+          {preview?.explanation && (
+            <>
+              <Text strong>Explanation</Text>
+              <RichContent>{preview.explanation}</RichContent>
+            </>
+          )}
+        </Card>
         
         <Form.Item>
           <Space>
@@ -0,0 +1,155 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Timeline, Typography, Input, Button, Space, Spin, Empty, Tag, message } from 'antd';
+import { QuestionStatus } from '@/types';
+
+const { Text, Paragraph } = Typography;
+
+interface QuestionReview {
+  id: string;
+  action: 'submit' | 'withdraw' | 'approve' | 'reject' | 'comment';
+  fromStatus: QuestionStatus | null;
+  toStatus: QuestionStatus | null;
+  comment: string | null;
+  reviewerEmail: string | null;
+  isAuthor: boolean;
+  createdAt: string;
+}
+
+interface QuestionReviewHistoryProps {
+  questionId: string;
+  // Bump to reload after an action taken elsewhere
+  refreshKey?: number;
+  allowComment?: boolean;
+}
+
+export const STATUS_TAG_COLORS: Record<QuestionStatus, string> = {
+  draft: 'default',
+  in_review: 'processing',
+  published: 'success',
+  rejected: 'error'
+};
+
+export const STATUS_LABELS: Record<QuestionStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  published: 'Published',
+  rejected: 'Rejected'
+};
+
+const ACTION_LABELS: Record<QuestionReview['action'], string> = {
+  submit: 'Submitted for review',
+  withdraw: 'Withdrawn from review',
+  approve: 'Approved and published',
+  reject: 'Rejected',
+  comment: 'Commented'
+};
+
+const ACTION_COLORS: Record<QuestionReview['action'], string> = {
+  submit: 'blue',
+  withdraw: 'gray',
+  approve: 'green',
+  reject: 'red',
+  comment: 'gray'
+};
+
+export default function QuestionReviewHistory({ questionId, refreshKey = 0, allowComment = true }: QuestionReviewHistoryProps) {
+  const [reviews, setReviews] = useState<QuestionReview[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [comment, setComment] = useState<string>('');
+  const [posting, setPosting] = useState<boolean>(false);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/questions/${questionId}/review`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Failed to load review history');
+      }
+      const data = await response.json();
+      setReviews(data.reviews || []);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to load review history');
+    } finally {
+      setLoading(false);
+    }
+  }, [questionId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews, refreshKey]);
+
+  const handleComment = async () => {
+    try {
+      setPosting(true);
+      const response = await fetch(`/api/questions/${questionId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action: 'comment', comment })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to add comment');
+      }
+      setComment('');
+      await fetchReviews();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to add comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Spin spinning={loading}>
+        {reviews.length === 0 && !loading ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No review activity yet" />
+        ) : (
+          <Timeline
+            items={reviews.map(review => ({
+              key: review.id,
+              color: ACTION_COLORS[review.action],
+              children: (
+                <div>
+                  <Space size={4} wrap>
+                    <Text strong>{ACTION_LABELS[review.action]}</Text>
+                    {review.toStatus && review.toStatus !== review.fromStatus && (
+                      <Tag color={STATUS_TAG_COLORS[review.toStatus]}>{STATUS_LABELS[review.toStatus]}</Tag>
+                    )}
+                  </Space>
+                  <br />
+                  <Text type="secondary" style={{ fontSize: '12px' }}>
+                    {review.reviewerEmail || (review.isAuthor ? 'Author' : 'Reviewer')} · {new Date(review.createdAt).toLocaleString()}
+                  </Text>
+                  {review.comment && (
+                    <Paragraph style={{ marginTop: 4, marginBottom: 0, whiteSpace: 'pre-wrap' }}>{review.comment}</Paragraph>
+                  )}
+                </div>
+              )
+            }))}
+          />
+        )}
+      </Spin>
+
+      {allowComment && (
+        <>
+          <Input.TextArea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Add a comment"
+            autoSize={{ minRows: 2, maxRows: 6 }}
+            maxLength={1000}
+          />
+          <Button onClick={handleComment} loading={posting} disabled={!comment.trim()}>
+            Add Comment
+          </Button>
+        </>
+      )}
+    </Space>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize from 'rehype-sanitize';
+import 'katex/dist/katex.min.css';
+import { RICH_CONTENT_SCHEMA } from '@/lib/rich-content';
+
+// Question text is Markdown with $inline$ and $$display$$ LaTeX (see rich-content.ts
+// for the sanitizing rules shared with exported worksheets).
+
+interface RichContentProps {
+  children: string | null | undefined;
+  // Render without block wrappers, for option labels and other one-line text
+  inline?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+export default function RichContent({ children, inline = false, className, style }: RichContentProps) {
+  const Wrapper = inline ? 'span' : 'div';
+
+  return (
+    <Wrapper className={`rich-content${className ? ` ${className}` : ''}`} style={style}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, RICH_CONTENT_SCHEMA], rehypeKatex]}
+        disallowedElements={inline ? ['p'] : undefined}
+        unwrapDisallowed={inline}
+        components={{
+          // Links open outside the practice session
+          a: ({ href, title, children }) => (
+            <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>
+          ),
+          // Uploaded images have no known size, so next/image does not apply
+          // eslint-disable-next-line @next/next/no-img-element
+          img: ({ src, alt, title }) => <img src={src} alt={alt || ''} title={title} loading="lazy" />
+        }}
+      >
+        {children || ''}
+      </ReactMarkdown>
+    </Wrapper>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button, Tooltip, message } from 'antd';
+import { StarFilled, StarOutlined } from '@ant-design/icons';
+
+// Matches the ?questionIds= limit of GET /api/student/bookmarks
+const LOOKUP_BATCH_SIZE = 100;
+
+interface BookmarkButtonProps {
+  bookmarked: boolean;
+  loading?: boolean;
+  onToggle: () => void;
+}
+
+const BookmarkButton = ({ bookmarked, loading, onToggle }: BookmarkButtonProps) => (
+  <Tooltip title={bookmarked ? 'Remove bookmark' : 'Bookmark this question'}>
+    <Button
+      type="text"
+      size="small"
+      icon={bookmarked ? <StarFilled style={{ color: '#faad14' }} /> : <StarOutlined />}
+      loading={loading}
+      onClick={onToggle}
+      aria-pressed={bookmarked}
+    >
+      <span className="hidden-mobile">{bookmarked ? 'Bookmarked' : 'Bookmark'}</span>
+    </Button>
+  </Tooltip>
+);
+
+// Which of the given questions the student has bookmarked, and a toggle for each.
+// Removing a bookmark also removes its note.
+export function useQuestionBookmarks(questionIds: string[]) {
+  const [bookmarked, setBookmarked] = useState<Set<string>>(new Set());
+  const [pending, setPending] = useState<string | null>(null);
+  const idsKey = questionIds.join(',');
+
+  useEffect(() => {
+    if (!idsKey) return;
+
+    const fetchBookmarks = async () => {
+      try {
+        const ids = idsKey.split(',');
+        const batches: string[][] = [];
+        for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+          batches.push(ids.slice(i, i + LOOKUP_BATCH_SIZE));
+        }
+
+        const results = await Promise.all(batches.map(async batch => {
+          const response = await fetch(`/api/student/bookmarks?questionIds=${encodeURIComponent(batch.join(','))}`, {
+            method: 'GET',
+            credentials: 'include',
+          });
+          if (!response.ok) return [];
+
+          const data = await response.json();
+          return (data.bookmarks || []).map((bookmark: { questionId: string }) => bookmark.questionId) as string[];
+        }));
+
+        setBookmarked(new Set(results.flat()));
+      } catch (err) {
+        console.error('Error fetching bookmarks:', err);
+      }
+    };
+
+    fetchBookmarks();
+  }, [idsKey]);
+
+  const toggleBookmark = useCallback(async (questionId: string) => {
+    const removing = bookmarked.has(questionId);
+
+    try {
+      setPending(questionId);
+      const response = removing
+        ? await fetch(`/api/student/bookmarks/${questionId}`, {
+          method: 'DELETE',
+          credentials: 'include',
+        })
+        : await fetch('/api/student/bookmarks', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ questionId })
+        });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update bookmark');
+      }
+
+      setBookmarked(prev => {
+        const next = new Set(prev);
+        if (removing) next.delete(questionId);
+        else next.add(questionId);
+        return next;
+      });
+    } catch (err) {
+      console.error('Error updating bookmark:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to update bookmark');
+    } finally {
+      setPending(null);
+    }
+  }, [bookmarked]);
+
+  return {
+    isBookmarked: (questionId: string) => bookmarked.has(questionId),
+    isPending: (questionId: string) => pending === questionId,
+    toggleBookmark
+  };
+}
+
+export default BookmarkButton;
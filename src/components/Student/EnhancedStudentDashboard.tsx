@@ -16,7 +16,9 @@ import {
   Tag,
   Space,
   Divider,
-  Grid
+  Grid,
+  Badge,
+  Table
 } from 'antd';
 import { 
   TrophyOutlined,
@@ -26,9 +28,15 @@ import {
   PlayCircleOutlined,
   BarChartOutlined,
   CalendarOutlined,
-  UserOutlined
+  UserOutlined,
+  RedoOutlined,
+  StarOutlined
 } from '@ant-design/icons';
 import Link from 'next/link';
+import ReviewQueue from './ReviewQueue';
+import Leaderboard from './Leaderboard';
+import { ScoringScheme } from '@/types';
+import { formatScheme } from '@/lib/scoring';
 
 const { Title, Text, Paragraph } = Typography;
 const { TabPane } = Tabs;
@@ -52,6 +60,34 @@ interface Subject {
   timeSpent: number; // in minutes
   questionsAttempted: number;
   totalQuestions: number;
+  dailySetScore: number | null; // percentage across completed daily sets
+  dailySetQuestions: number;
+  marks: number; // under the exam's scoring scheme, negative marking included
+  maxMarks: number;
+  scheme: ScoringScheme | null; // subject override, null when marked by exam category
+  dailySetMarks: number | null;
+  dailySetMaxMarks: number | null;
+  comparison: SubjectComparison | null; // null until the platform standings include the subject
+}
+
+// The student against everyone else answering the subject
+interface SubjectComparison {
+  platformAverage: number | null; // mean student accuracy, percentage
+  platformStudents: number;
+  percentile: number | null; // share of ranked students with lower accuracy; null until ranked
+  rank: number | null;
+  rankedStudents: number;
+}
+
+interface TopicAccuracy {
+  id: string;
+  kind: 'chapter' | 'topic';
+  name: string;
+  chapterName: string | null;
+  subjectId: string;
+  correct: number;
+  total: number;
+  accuracy: number; // percentage
 }
 
 interface SessionData {
@@ -61,6 +97,24 @@ interface SessionData {
   totalTimeSpent: number; // in minutes
   totalQuestionsAnswered: number;
   overallScore: number; // percentage
+  overallMarks: number;
+  overallMaxMarks: number;
+}
+
+interface TimeAverage {
+  attempts: number;
+  averageSeconds: number;
+  accuracy: number; // percentage
+}
+
+// Time per question from the seconds recorded on each attempt
+interface TimeAnalytics {
+  overall: TimeAverage;
+  untrackedAttempts: number; // answered before time was tracked per question
+  bySubject: (TimeAverage & { subjectId: string; byDifficulty: (TimeAverage & { difficulty: string })[] })[];
+  byDifficulty: (TimeAverage & { difficulty: string })[];
+  slowestTopics: (TimeAverage & { id: string; name: string; chapterName: string | null; subjectId: string })[];
+  accuracyByTime: (TimeAverage & { label: string })[];
 }
 
 interface EnhancedStudentDashboardProps {
@@ -75,15 +129,20 @@ const EnhancedStudentDashboard = ({ user }: EnhancedStudentDashboardProps) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [topics, setTopics] = useState<TopicAccuracy[]>([]);
   const [sessionData, setSessionData] = useState<SessionData>({
     currentStreak: 0,
     longestStreak: 0,
     todayTimeSpent: 0,
     totalTimeSpent: 0,
     totalQuestionsAnswered: 0,
-    overallScore: 0
+    overallScore: 0,
+    overallMarks: 0,
+    overallMaxMarks: 0
   });
+  const [timeAnalytics, setTimeAnalytics] = useState<TimeAnalytics | null>(null);
   const [selectedTimeRange, setSelectedTimeRange] = useState<string>('today');
+  const [dueReviewCount, setDueReviewCount] = useState(0);
 
   useEffect(() => {
     if (user?.id) {
@@ -109,13 +168,17 @@ const EnhancedStudentDashboard = ({ user }: EnhancedStudentDashboardProps) => {
       const data = await response.json();
       
       setSubjects(data.subjects || []);
+      setTopics(data.topics || []);
+      setTimeAnalytics(data.timeAnalytics || null);
       setSessionData(data.sessionData || {
         currentStreak: 0,
         longestStreak: 0,
         todayTimeSpent: 0,
         totalTimeSpent: 0,
         totalQuestionsAnswered: 0,
-        overallScore: 0
+        overallScore: 0,
+        overallMarks: 0,
+        overallMaxMarks: 0
       });
 
     } catch (err) {
@@ -135,6 +198,15 @@ const EnhancedStudentDashboard = ({ user }: EnhancedStudentDashboardProps) => {
     return `${hours}h ${remainingMinutes}m`;
   };
 
+  const formatSeconds = (seconds: number): string => {
+    if (seconds < 60) {
+      return `${seconds}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return remainingSeconds > 0 ? `${minutes}m ${remainingSeconds}s` : `${minutes}m`;
+  };
+
   const getScoreColor = (score: number): string => {
     if (score >= 80) return '#52c41a'; // green
     if (score >= 60) return '#faad14'; // orange
@@ -197,6 +269,11 @@ const EnhancedStudentDashboard = ({ user }: EnhancedStudentDashboardProps) => {
               valueStyle={{ color: getScoreColor(sessionData.overallScore) }}
               prefix={<TrophyOutlined />}
             />
+            {sessionData.overallMaxMarks > 0 && (
+              <Text type="secondary" style={{ fontSize: '12px' }}>
+                Marks: {sessionData.overallMarks} / {sessionData.overallMaxMarks}
+              </Text>
+            )}
           </Card>
         </Col>
         <Col xs={12} sm={6}>
@@ -235,221 +312,464 @@ const EnhancedStudentDashboard = ({ user }: EnhancedStudentDashboardProps) => {
         </Col>
       </Row>
 
-      {/* Subject Performance Grid */}
-      <Card title="Subject Performance" style={{ marginBottom: '24px' }}>
-        {subjects.length === 0 ? (
-          <div style={{ textAlign: 'center', padding: '40px 20px' }}>
-            <BookOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
-            <Title level={5} style={{ color: '#999', margin: 0 }}>
-              No Performance Data Yet
-            </Title>
-            <Text type="secondary">
-              Start practicing questions to see your performance metrics here.
-            </Text>
-          </div>
-        ) : (
-          <Row gutter={[16, 16]}>
-            {subjects.map((subject) => (
-              <Col xs={24} sm={12} md={8} lg={6} key={subject.id}>
-                <Card 
-                  size="small"
-                  actions={[
-                    <Link href={`/practice?subject=${subject.id}`} key="practice">
-                      <Button type="link" icon={<PlayCircleOutlined />}>
-                        Practice
-                      </Button>
-                    </Link>
-                  ]}
-                >
-                  <div style={{ textAlign: 'center' }}>
-                    <Title level={5} style={{ margin: '0 0 8px 0' }}>
-                      {subject.name}
-                    </Title>
-                    {subject.questionsAttempted > 0 ? (
-                      <Progress
-                        type="circle"
-                        size={60}
-                        percent={subject.score}
-                        format={(percent) => `${percent}%`}
-                        strokeColor={getScoreColor(subject.score)}
-                      />
-                    ) : (
-                      <div style={{ 
-                        width: '60px', 
-                        height: '60px', 
-                        border: '2px dashed #d9d9d9', 
-                        borderRadius: '50%', 
-                        display: 'flex', 
-                        alignItems: 'center', 
-                        justifyContent: 'center',
-                        margin: '0 auto',
-                        color: '#999'
-                      }}>
-                        <Text type="secondary" style={{ fontSize: '12px' }}>
-                          No data
-                        </Text>
-                      </div>
-                    )}
-                    <div style={{ marginTop: '12px' }}>
-                      <Space direction="vertical" size="small">
-                        <Text type="secondary">
-                          Time: {subject.timeSpent > 0 ? formatTime(subject.timeSpent) : 'No time logged'}
-                        </Text>
-                        <Text type="secondary">
-                          {subject.questionsAttempted}/{subject.totalQuestions || 'Unknown'} questions
-                        </Text>
-                        {subject.questionsAttempted === 0 && subject.totalQuestions === 0 && (
-                          <Text type="secondary" style={{ fontSize: '11px', fontStyle: 'italic' }}>
-                            No questions available
-                          </Text>
-                        )}
-                      </Space>
+      <Tabs
+        defaultActiveKey="overview"
+        items={[
+          {
+            key: 'overview',
+            label: 'Overview',
+            children: (
+              <>
+                {/* Subject Performance Grid */}
+                <Card title="Subject Performance" style={{ marginBottom: '24px' }}>
+                  {subjects.length === 0 ? (
+                    <div style={{ textAlign: 'center', padding: '40px 20px' }}>
+                      <BookOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
+                      <Title level={5} style={{ color: '#999', margin: 0 }}>
+                        No Performance Data Yet
+                      </Title>
+                      <Text type="secondary">
+                        Start practicing questions to see your performance metrics here.
+                      </Text>
                     </div>
-                  </div>
+                  ) : (
+                    <Row gutter={[16, 16]}>
+                      {subjects.map((subject) => (
+                        <Col xs={24} sm={12} md={8} lg={6} key={subject.id}>
+                          <Card 
+                            size="small"
+                            actions={[
+                              <Link href={`/practice?subject=${subject.id}`} key="practice">
+                                <Button type="link" icon={<PlayCircleOutlined />}>
+                                  Practice
+                                </Button>
+                              </Link>
+                            ]}
+                          >
+                            <div style={{ textAlign: 'center' }}>
+                              <Title level={5} style={{ margin: '0 0 8px 0' }}>
+                                {subject.name}
+                              </Title>
+                              {subject.questionsAttempted > 0 ? (
+                                <Progress
+                                  type="circle"
+                                  size={60}
+                                  percent={subject.score}
+                                  format={(percent) => `${percent}%`}
+                                  strokeColor={getScoreColor(subject.score)}
+                                />
+                              ) : (
+                                <div style={{ 
+                                  width: '60px', 
+                                  height: '60px', 
+                                  border: '2px dashed #d9d9d9', 
+                                  borderRadius: '50%', 
+                                  display: 'flex', 
+                                  alignItems: 'center', 
+                                  justifyContent: 'center',
+                                  margin: '0 auto',
+                                  color: '#999'
+                                }}>
+                                  <Text type="secondary" style={{ fontSize: '12px' }}>
+                                    No data
+                                  </Text>
+                                </div>
+                              )}
+                              <div style={{ marginTop: '12px' }}>
+                                <Space direction="vertical" size="small">
+                                  <Text type="secondary">
+                                    Time: {subject.timeSpent > 0 ? formatTime(subject.timeSpent) : 'No time logged'}
+                                  </Text>
+                                  <Text type="secondary">
+                                    {subject.questionsAttempted}/{subject.totalQuestions || 'Unknown'} questions
+                                  </Text>
+                                  {subject.maxMarks > 0 && (
+                                    <Text type="secondary">
+                                      Marks: {subject.marks} / {subject.maxMarks}
+                                      {subject.scheme && ` (${formatScheme(subject.scheme)})`}
+                                    </Text>
+                                  )}
+                                  {subject.dailySetScore !== null && (
+                                    <Text type="secondary">
+                                      Daily sets: {subject.dailySetScore}% ({subject.dailySetQuestions} questions)
+                                      {subject.dailySetMaxMarks !== null && `, ${subject.dailySetMarks} / ${subject.dailySetMaxMarks} marks`}
+                                    </Text>
+                                  )}
+                                  {subject.comparison && subject.comparison.platformAverage !== null && (
+                                    <Text type="secondary">
+                                      Platform average: {subject.comparison.platformAverage}%
+                                    </Text>
+                                  )}
+                                  {subject.comparison && subject.comparison.percentile !== null && (
+                                    <Tag color={subject.comparison.percentile >= 50 ? 'green' : 'orange'}>
+                                      Better than {subject.comparison.percentile}% of students
+                                    </Tag>
+                                  )}
+                                  {subject.questionsAttempted === 0 && subject.totalQuestions === 0 && (
+                                    <Text type="secondary" style={{ fontSize: '11px', fontStyle: 'italic' }}>
+                                      No questions available
+                                    </Text>
+                                  )}
+                                </Space>
+                              </div>
+                            </div>
+                          </Card>
+                        </Col>
+                      ))}
+                    </Row>
+                  )}
                 </Card>
-              </Col>
-            ))}
-          </Row>
-        )}
-      </Card>
 
-      {/* Time Spent Analytics */}
-      <Card title="Time Spent Analytics" style={{ marginBottom: '24px' }} data-analytics-section>
-        <Tabs 
-          defaultActiveKey="today" 
-          onChange={setSelectedTimeRange}
-          items={[
-            {
-              key: 'today',
-              label: 'Today',
-              children: (
-                <div>
-                  {subjects.length === 0 || subjects.every(s => s.timeSpent === 0) ? (
-                    <div style={{ textAlign: 'center', padding: '40px' }}>
-                      <ClockCircleOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
-                      <Text type="secondary">No time logged today. Start practicing to track your progress!</Text>
-                    </div>
-                  ) : (
-                    subjects.map((subject) => (
-                      <div key={subject.id} style={{ marginBottom: '16px' }}>
-                        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
-                          <Text>{subject.name}</Text>
-                          <Text strong>
-                            {subject.timeSpent > 0 ? formatTime(subject.timeSpent) : 'No time logged'}
-                          </Text>
-                        </div>
-                        {subject.timeSpent > 0 && (
-                          <Progress 
-                            percent={(subject.timeSpent / Math.max(...subjects.map(s => s.timeSpent), 1)) * 100} 
-                            showInfo={false}
-                            strokeColor="#1890ff"
-                          />
-                        )}
-                        {subject.timeSpent === 0 && (
-                          <Progress 
-                            percent={0} 
-                            showInfo={false}
-                            strokeColor="#f0f0f0"
-                            trailColor="#f0f0f0"
+                {/* Topic Accuracy, weakest first */}
+                {topics.length > 0 && (
+                  <Card title="Topic Accuracy" style={{ marginBottom: '24px' }}>
+                    <Table
+                      size="small"
+                      rowKey="id"
+                      dataSource={topics}
+                      pagination={topics.length > 10 ? { pageSize: 10, size: 'small' } : false}
+                      scroll={isMobile ? { x: 480 } : undefined}
+                      columns={[
+                        {
+                          title: 'Topic',
+                          dataIndex: 'name',
+                          key: 'name',
+                          render: (name: string, topic: TopicAccuracy) => (
+                            <div>
+                              <Text strong>{name}</Text>
+                              {topic.kind === 'chapter' && <Tag style={{ marginLeft: 8 }}>Chapter</Tag>}
+                              {topic.chapterName && (
+                                <>
+                                  <br />
+                                  <Text type="secondary" style={{ fontSize: '12px' }}>{topic.chapterName}</Text>
+                                </>
+                              )}
+                            </div>
+                          )
+                        },
+                        {
+                          title: 'Subject',
+                          dataIndex: 'subjectId',
+                          key: 'subject',
+                          render: (subjectId: string) => subjects.find(s => s.id === subjectId)?.name || '-'
+                        },
+                        {
+                          title: 'Accuracy',
+                          dataIndex: 'accuracy',
+                          key: 'accuracy',
+                          width: 180,
+                          render: (accuracy: number) => (
+                            <Progress percent={accuracy} size="small" strokeColor={getScoreColor(accuracy)} />
+                          )
+                        },
+                        {
+                          title: 'Answered',
+                          key: 'answered',
+                          width: 100,
+                          render: (_: unknown, topic: TopicAccuracy) => `${topic.correct}/${topic.total}`
+                        }
+                      ]}
+                    />
+                  </Card>
+                )}
+
+                {/* Time per Question */}
+                {timeAnalytics && timeAnalytics.overall.attempts > 0 && (
+                  <Card title="Time per Question" style={{ marginBottom: '24px' }}>
+                    <Row gutter={[16, 16]} style={{ marginBottom: '16px' }}>
+                      <Col xs={12} md={6}>
+                        <Statistic title="Average Time" value={formatSeconds(timeAnalytics.overall.averageSeconds)} />
+                      </Col>
+                      {timeAnalytics.byDifficulty.map(level => (
+                        <Col xs={12} md={6} key={level.difficulty}>
+                          <Statistic
+                            title={`${level.difficulty.charAt(0)}${level.difficulty.slice(1).toLowerCase()} Questions`}
+                            value={formatSeconds(level.averageSeconds)}
                           />
+                          <Text type="secondary" style={{ fontSize: '12px' }}>
+                            {level.accuracy}% correct · {level.attempts} answered
+                          </Text>
+                        </Col>
+                      ))}
+                    </Row>
+
+                    <Table
+                      size="small"
+                      rowKey="subjectId"
+                      dataSource={timeAnalytics.bySubject.filter(entry => subjects.some(s => s.id === entry.subjectId))}
+                      pagination={false}
+                      scroll={isMobile ? { x: 480 } : undefined}
+                      style={{ marginBottom: '16px' }}
+                      columns={[
+                        {
+                          title: 'Subject',
+                          dataIndex: 'subjectId',
+                          key: 'subject',
+                          render: (subjectId: string) => subjects.find(s => s.id === subjectId)?.name || '-'
+                        },
+                        {
+                          title: 'Average',
+                          dataIndex: 'averageSeconds',
+                          key: 'average',
+                          render: (seconds: number) => formatSeconds(seconds)
+                        },
+                        ...['EASY', 'MEDIUM', 'HARD'].map(difficulty => ({
+                          title: `${difficulty.charAt(0)}${difficulty.slice(1).toLowerCase()}`,
+                          key: difficulty,
+                          render: (_: unknown, entry: TimeAnalytics['bySubject'][number]) => {
+                            const level = entry.byDifficulty.find(item => item.difficulty === difficulty);
+                            return level ? formatSeconds(level.averageSeconds) : '-';
+                          }
+                        })),
+                        {
+                          title: 'Answered',
+                          dataIndex: 'attempts',
+                          key: 'attempts'
+                        }
+                      ]}
+                    />
+
+                    <Row gutter={[24, 16]}>
+                      <Col xs={24} md={12}>
+                        <Text strong>Slowest Topics</Text>
+                        {timeAnalytics.slowestTopics.length === 0 ? (
+                          <div><Text type="secondary">Tag questions with topics to see where you spend the most time.</Text></div>
+                        ) : (
+                          timeAnalytics.slowestTopics.map(topic => (
+                            <div key={topic.id} style={{ display: 'flex', justifyContent: 'space-between', padding: '6px 0', borderBottom: '1px solid #f0f0f0' }}>
+                              <div>
+                                <Text>{topic.name}</Text>
+                                {topic.chapterName && (
+                                  <Text type="secondary" style={{ fontSize: '12px' }}> · {topic.chapterName}</Text>
+                                )}
+                              </div>
+                              <Text strong>{formatSeconds(topic.averageSeconds)}</Text>
+                            </div>
+                          ))
                         )}
-                      </div>
-                    ))
-                  )}
-                </div>
-              )
-            },
-            {
-              key: 'week',
-              label: 'This Week',
-              children: (
-                <div style={{ textAlign: 'center', padding: '40px' }}>
-                  <BarChartOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
-                  <Text type="secondary">Weekly analytics will be available once you have more practice data.</Text>
-                </div>
-              )
-            },
-            {
-              key: 'month',
-              label: 'This Month',
-              children: (
-                <div style={{ textAlign: 'center', padding: '40px' }}>
-                  <BarChartOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
-                  <Text type="secondary">Monthly analytics will be available once you have more practice data.</Text>
-                </div>
-              )
-            },
-            {
-              key: 'all',
-              label: 'All Time',
-              children: (
-                <div style={{ textAlign: 'center', padding: '40px' }}>
-                  <BarChartOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
-                  <Text type="secondary">All-time analytics will be available once you have more practice data.</Text>
-                </div>
-              )
-            }
-          ]}
-        />
-      </Card>
+                      </Col>
+                      <Col xs={24} md={12}>
+                        <Text strong>Accuracy vs Time</Text>
+                        {timeAnalytics.accuracyByTime.map(band => (
+                          <div key={band.label} style={{ marginTop: '8px' }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                              <Text>{band.label}</Text>
+                              <Text type="secondary" style={{ fontSize: '12px' }}>{band.attempts} answered</Text>
+                            </div>
+                            <Progress
+                              percent={band.accuracy}
+                              size="small"
+                              strokeColor={band.attempts > 0 ? getScoreColor(band.accuracy) : '#f0f0f0'}
+                              format={(percent) => band.attempts > 0 ? `${percent}%` : '-'}
+                            />
+                          </div>
+                        ))}
+                      </Col>
+                    </Row>
 
-      {/* Quick Actions */}
-      <Row gutter={[16, 16]}>
-        <Col xs={24} sm={12} md={8}>
-          <Card>
-            <div style={{ textAlign: 'center' }}>
-              <CalendarOutlined style={{ fontSize: '32px', color: '#52c41a', marginBottom: '12px' }} />
-              <Title level={4}>Daily Questions</Title>
-              <Paragraph type="secondary">
-                Access your personalized daily question set for focused preparation.
-              </Paragraph>
-              <Link href="/daily-questions">
-                <Button type="primary" size="large" block>
-                  View Today's Questions
-                </Button>
-              </Link>
-            </div>
-          </Card>
-        </Col>
-        <Col xs={24} sm={12} md={8}>
-          <Card>
-            <div style={{ textAlign: 'center' }}>
-              <BookOutlined style={{ fontSize: '32px', color: '#1890ff', marginBottom: '12px' }} />
-              <Title level={4}>Subject Selection</Title>
-              <Paragraph type="secondary">
-                Add or modify your selected subjects for comprehensive exam preparation.
-              </Paragraph>
-              <Link href="/subjects/select">
-                <Button size="large" block>
-                  Manage Subjects
-                </Button>
-              </Link>
-            </div>
-          </Card>
-        </Col>
-        <Col xs={24} sm={12} md={8}>
-          <Card>
-            <div style={{ textAlign: 'center' }}>
-              <BarChartOutlined style={{ fontSize: '32px', color: '#faad14', marginBottom: '12px' }} />
-              <Title level={4}>Performance Analytics</Title>
-              <Paragraph type="secondary">
-                Your detailed performance analytics are displayed above in the Time Spent section.
-              </Paragraph>
-              <Button 
-                size="large" 
-                block
-                onClick={() => {
-                  // Scroll to Time Spent Analytics section
-                  const analyticsSection = document.querySelector('[data-analytics-section]');
-                  analyticsSection?.scrollIntoView({ behavior: 'smooth' });
-                }}
-              >
-                View Analytics Above
-              </Button>
-            </div>
-          </Card>
-        </Col>
-      </Row>
+                    {timeAnalytics.untrackedAttempts > 0 && (
+                      <Text type="secondary" style={{ display: 'block', marginTop: '12px', fontSize: '12px' }}>
+                        {timeAnalytics.untrackedAttempts} earlier answers have no recorded time and are not included.
+                      </Text>
+                    )}
+                  </Card>
+                )}
+
+                {/* Time Spent Analytics */}
+                <Card title="Time Spent Analytics" style={{ marginBottom: '24px' }} data-analytics-section>
+                  <Tabs 
+                    defaultActiveKey="today" 
+                    onChange={setSelectedTimeRange}
+                    items={[
+                      {
+                        key: 'today',
+                        label: 'Today',
+                        children: (
+                          <div>
+                            {subjects.length === 0 || subjects.every(s => s.timeSpent === 0) ? (
+                              <div style={{ textAlign: 'center', padding: '40px' }}>
+                                <ClockCircleOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
+                                <Text type="secondary">No time logged today. Start practicing to track your progress!</Text>
+                              </div>
+                            ) : (
+                              subjects.map((subject) => (
+                                <div key={subject.id} style={{ marginBottom: '16px' }}>
+                                  <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+                                    <Text>{subject.name}</Text>
+                                    <Text strong>
+                                      {subject.timeSpent > 0 ? formatTime(subject.timeSpent) : 'No time logged'}
+                                    </Text>
+                                  </div>
+                                  {subject.timeSpent > 0 && (
+                                    <Progress 
+                                      percent={(subject.timeSpent / Math.max(...subjects.map(s => s.timeSpent), 1)) * 100} 
+                                      showInfo={false}
+                                      strokeColor="#1890ff"
+                                    />
+                                  )}
+                                  {subject.timeSpent === 0 && (
+                                    <Progress 
+                                      percent={0} 
+                                      showInfo={false}
+                                      strokeColor="#f0f0f0"
+                                      trailColor="#f0f0f0"
+                                    />
+                                  )}
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        )
+                      },
+                      {
+                        key: 'week',
+                        label: 'This Week',
+                        children: (
+                          <div style={{ textAlign: 'center', padding: '40px' }}>
+                            <BarChartOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
+                            <Text type="secondary">Weekly analytics will be available once you have more practice data.</Text>
+                          </div>
+                        )
+                      },
+                      {
+                        key: 'month',
+                        label: 'This Month',
+                        children: (
+                          <div style={{ textAlign: 'center', padding: '40px' }}>
+                            <BarChartOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
+                            <Text type="secondary">Monthly analytics will be available once you have more practice data.</Text>
+                          </div>
+                        )
+                      },
+                      {
+                        key: 'all',
+                        label: 'All Time',
+                        children: (
+                          <div style={{ textAlign: 'center', padding: '40px' }}>
+                            <BarChartOutlined style={{ fontSize: '32px', color: '#d9d9d9', marginBottom: '16px' }} />
+                            <Text type="secondary">All-time analytics will be available once you have more practice data.</Text>
+                          </div>
+                        )
+                      }
+                    ]}
+                  />
+                </Card>
+
+                {/* Quick Actions */}
+                <Row gutter={[16, 16]}>
+                  <Col xs={24} sm={12} md={8}>
+                    <Card>
+                      <div style={{ textAlign: 'center' }}>
+                        <CalendarOutlined style={{ fontSize: '32px', color: '#52c41a', marginBottom: '12px' }} />
+                        <Title level={4}>Daily Questions</Title>
+                        <Paragraph type="secondary">
+                          Access your personalized daily question set for focused preparation.
+                        </Paragraph>
+                        <Link href="/daily-questions">
+                          <Button type="primary" size="large" block>
+                            View Today's Questions
+                          </Button>
+                        </Link>
+                        <Link href="/daily-questions/history">
+                          <Button type="link" block>
+                            View Past Sets
+                          </Button>
+                        </Link>
+                      </div>
+                    </Card>
+                  </Col>
+                  <Col xs={24} sm={12} md={8}>
+                    <Card>
+                      <div style={{ textAlign: 'center' }}>
+                        <ClockCircleOutlined style={{ fontSize: '32px', color: '#722ed1', marginBottom: '12px' }} />
+                        <Title level={4}>Mock Tests</Title>
+                        <Paragraph type="secondary">
+                          Take timed, exam-style tests with negative marking and a detailed report.
+                        </Paragraph>
+                        <Link href="/mock-tests">
+                          <Button size="large" block>
+                            View Mock Tests
+                          </Button>
+                        </Link>
+                      </div>
+                    </Card>
+                  </Col>
+                  <Col xs={24} sm={12} md={8}>
+                    <Card>
+                      <div style={{ textAlign: 'center' }}>
+                        <StarOutlined style={{ fontSize: '32px', color: '#faad14', marginBottom: '12px' }} />
+                        <Title level={4}>Bookmarks</Title>
+                        <Paragraph type="secondary">
+                          Revisit questions you bookmarked, read your notes and practice them again.
+                        </Paragraph>
+                        <Link href="/bookmarks">
+                          <Button size="large" block>
+                            View Bookmarks
+                          </Button>
+                        </Link>
+                      </div>
+                    </Card>
+                  </Col>
+                  <Col xs={24} sm={12} md={8}>
+                    <Card>
+                      <div style={{ textAlign: 'center' }}>
+                        <BookOutlined style={{ fontSize: '32px', color: '#1890ff', marginBottom: '12px' }} />
+                        <Title level={4}>Subject Selection</Title>
+                        <Paragraph type="secondary">
+                          Add or modify your selected subjects for comprehensive exam preparation.
+                        </Paragraph>
+                        <Link href="/subjects/select">
+                          <Button size="large" block>
+                            Manage Subjects
+                          </Button>
+                        </Link>
+                      </div>
+                    </Card>
+                  </Col>
+                  <Col xs={24} sm={12} md={8}>
+                    <Card>
+                      <div style={{ textAlign: 'center' }}>
+                        <BarChartOutlined style={{ fontSize: '32px', color: '#faad14', marginBottom: '12px' }} />
+                        <Title level={4}>Performance Analytics</Title>
+                        <Paragraph type="secondary">
+                          Your detailed performance analytics are displayed above in the Time Spent section.
+                        </Paragraph>
+                        <Button 
+                          size="large" 
+                          block
+                          onClick={() => {
+                            // Scroll to Time Spent Analytics section
+                            const analyticsSection = document.querySelector('[data-analytics-section]');
+                            analyticsSection?.scrollIntoView({ behavior: 'smooth' });
+                          }}
+                        >
+                          View Analytics Above
+                        </Button>
+                      </div>
+                    </Card>
+                  </Col>
+                </Row>
+              </>
+            )
+          },
+          {
+            key: 'review',
+            label: (
+              <Badge count={dueReviewCount} size="small" offset={[8, 0]}>
+                <span><RedoOutlined /> Review</span>
+              </Badge>
+            ),
+            // Mount up front so the due count badge is populated
+            forceRender: true,
+            children: <ReviewQueue onDueCountChange={setDueReviewCount} />
+          },
+          {
+            key: 'leaderboard',
+            label: <span><TrophyOutlined /> Leaderboard</span>,
+            children: <Leaderboard />
+          }
+        ]}
+      />
     </div>
   );
 };
@@ -0,0 +1,184 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, Card, Empty, Segmented, Select, Space, Spin, Switch, Table, Tag, Typography, message } from 'antd';
+import { TrophyOutlined } from '@ant-design/icons';
+
+const { Text } = Typography;
+
+type LeaderboardScope = 'subject' | 'exam_category';
+
+interface LeaderboardEntry {
+  position: number;
+  alias: string;
+  accuracy: number; // percentage
+  attempts: number;
+  percentile: number | null;
+  isSelf: boolean;
+}
+
+interface LeaderboardData {
+  optedIn: boolean;
+  alias: string | null;
+  scope: LeaderboardScope;
+  key: string | null;
+  subjects: { id: string; name: string }[];
+  examCategories: string[];
+  entries: LeaderboardEntry[];
+  self: { accuracy: number; attempts: number; percentile: number | null; rank: number | null } | null;
+  minAttempts: number;
+}
+
+const SCOPE_OPTIONS: { label: string; value: LeaderboardScope }[] = [
+  { label: 'By Subject', value: 'subject' },
+  { label: 'By Exam', value: 'exam_category' }
+];
+
+// Opt-in leaderboards per subject and exam category. Students are listed under
+// an anonymous alias only, and only after opting in.
+const Leaderboard = () => {
+  const [scope, setScope] = useState<LeaderboardScope>('subject');
+  const [key, setKey] = useState<string | null>(null);
+  const [data, setData] = useState<LeaderboardData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchLeaderboard = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ scope });
+      if (key) params.set('key', key);
+      const response = await fetch(`/api/student/leaderboard?${params.toString()}`, { credentials: 'include' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load leaderboard');
+      }
+      setData(result);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to load leaderboard');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, key]);
+
+  useEffect(() => {
+    fetchLeaderboard();
+  }, [fetchLeaderboard]);
+
+  const handleScopeChange = (value: LeaderboardScope) => {
+    setScope(value);
+    setKey(null);
+  };
+
+  const handleOptInChange = async (optIn: boolean) => {
+    try {
+      setSaving(true);
+      const response = await fetch('/api/student/leaderboard', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ optIn })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update leaderboard preference');
+      }
+      message.success(optIn ? `You appear on leaderboards as ${result.alias}` : 'You are no longer listed on leaderboards');
+      fetchLeaderboard();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to update leaderboard preference');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!data) {
+    return (
+      <div style={{ textAlign: 'center', padding: 24 }}>
+        <Spin />
+      </div>
+    );
+  }
+
+  const keyOptions = data.scope === 'subject'
+    ? data.subjects.map(subject => ({ label: subject.name, value: subject.id }))
+    : data.examCategories.map(category => ({ label: category, value: category }));
+
+  const columns = [
+    { title: '#', dataIndex: 'position', key: 'position', width: 60 },
+    {
+      title: 'Student',
+      dataIndex: 'alias',
+      key: 'alias',
+      render: (alias: string, entry: LeaderboardEntry) => (
+        <Space>
+          <Text strong={entry.isSelf}>{alias}</Text>
+          {entry.isSelf && <Tag color="blue">You</Tag>}
+        </Space>
+      )
+    },
+    {
+      title: 'Accuracy',
+      dataIndex: 'accuracy',
+      key: 'accuracy',
+      width: 100,
+      render: (accuracy: number) => `${accuracy}%`
+    },
+    { title: 'Answered', dataIndex: 'attempts', key: 'attempts', width: 100 }
+  ];
+
+  return (
+    <Card
+      title={<span><TrophyOutlined /> Leaderboard</span>}
+      extra={
+        <Space>
+          <Text type="secondary">Show me</Text>
+          <Switch checked={data.optedIn} loading={saving} onChange={handleOptInChange} />
+        </Space>
+      }
+    >
+      <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+        {data.optedIn && data.alias
+          ? `You are listed as ${data.alias}. Other students never see your name or email.`
+          : 'Leaderboards only list students who opt in, under an anonymous alias.'}
+      </Text>
+
+      <Space wrap style={{ marginBottom: 16 }}>
+        <Segmented options={SCOPE_OPTIONS} value={scope} onChange={value => handleScopeChange(value as LeaderboardScope)} />
+        <Select
+          value={data.key}
+          options={keyOptions}
+          onChange={value => setKey(value)}
+          placeholder={scope === 'subject' ? 'Subject' : 'Exam'}
+          style={{ minWidth: 180 }}
+          disabled={keyOptions.length === 0}
+        />
+      </Space>
+
+      {data.self && (
+        <Alert
+          type="info"
+          style={{ marginBottom: 16 }}
+          message={data.self.percentile === null
+            ? `Answer ${data.minAttempts - data.self.attempts} more question${data.minAttempts - data.self.attempts === 1 ? '' : 's'} here to be ranked.`
+            : `Your accuracy is ${data.self.accuracy}%: better than ${data.self.percentile}% of ranked students (rank ${data.self.rank}).`}
+        />
+      )}
+
+      {data.entries.length === 0 ? (
+        <Empty description={data.key ? 'No students on this leaderboard yet' : 'Nothing to rank yet'} />
+      ) : (
+        <Table
+          size="small"
+          rowKey="position"
+          dataSource={data.entries}
+          columns={columns}
+          pagination={false}
+          loading={loading}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,250 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, Table, Tag, Typography, Space, Statistic, Row, Col, Alert, Segmented } from 'antd';
+import { CheckCircleOutlined, CloseCircleOutlined, FlagOutlined } from '@ant-design/icons';
+import RichContent from '@/components/Question/RichContent';
+import { QuestionTypeContent, ResponseText } from '@/components/Question/AnswerInput';
+import { QuestionType, QuestionTypeData, ScoringScheme } from '@/types';
+
+const { Title, Text } = Typography;
+
+export interface MockTestReportQuestion {
+  id: string;
+  section: number;
+  questionType: QuestionType;
+  typeData: QuestionTypeData | null;
+  title: string;
+  content: string;
+  difficulty: string | null;
+  options: { key: string; value: string }[];
+  selectedOption: string | null;
+  correctOption: string | null;
+  numericTolerance: number;
+  isCorrect: boolean | null;
+  score: number | null;
+  marks: number;
+  markedForReview: boolean;
+  timeSpentSeconds: number;
+  explanation: string | null;
+}
+
+export interface MockTestSectionResult {
+  name: string;
+  subjectId: string;
+  subjectName: string | null;
+  total: number;
+  correct: number;
+  incorrect: number;
+  unanswered: number;
+  score: number;
+  marks: number;
+  maxMarks: number;
+  timeSpentSeconds: number;
+}
+
+export interface MockTestReportData {
+  id: string;
+  title: string;
+  submittedAt: string | null;
+  autoSubmitted: boolean;
+  timeTakenSeconds: number | null;
+  scheme: ScoringScheme;
+  score: number | null;
+  marks: number | null;
+  maxMarks: number | null;
+  totalQuestions: number;
+  sectionResults: MockTestSectionResult[];
+  questions: MockTestReportQuestion[];
+}
+
+type QuestionFilter = 'all' | 'incorrect' | 'unanswered' | 'marked';
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+}
+
+// Option letters are compared per letter so multiple-correct answers highlight every option
+function getOptionStyle(question: MockTestReportQuestion, optionKey: string): React.CSSProperties {
+  if (question.correctOption?.includes(optionKey)) {
+    return { background: '#f6ffed', border: '1px solid #b7eb8f' };
+  }
+  if (question.selectedOption?.includes(optionKey)) {
+    return { background: '#fff1f0', border: '1px solid #ffa39e' };
+  }
+  return { border: '1px solid #f0f0f0' };
+}
+
+// Result of a submitted mock test: totals, a per-section breakdown and every
+// question with the student's answer, the correct answer and the explanation
+export default function MockTestReport({ report }: { report: MockTestReportData }) {
+  const [filter, setFilter] = useState<QuestionFilter>('all');
+
+  const answered = report.questions.filter(question => question.selectedOption !== null);
+  const correct = answered.filter(question => question.isCorrect).length;
+  const accuracy = answered.length > 0 ? Math.round((correct / answered.length) * 100) : 0;
+
+  const visibleQuestions = report.questions
+    .map((question, index) => ({ question, number: index + 1 }))
+    .filter(({ question }) => {
+      if (filter === 'incorrect') return question.selectedOption !== null && !question.isCorrect;
+      if (filter === 'unanswered') return question.selectedOption === null;
+      if (filter === 'marked') return question.markedForReview;
+      return true;
+    });
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <Card>
+        <Row gutter={[16, 16]}>
+          <Col xs={12} md={6}>
+            <Statistic title="Marks" value={report.marks ?? 0} suffix={`/ ${report.maxMarks ?? 0}`} />
+          </Col>
+          <Col xs={12} md={6}>
+            <Statistic title="Attempted" value={answered.length} suffix={`/ ${report.totalQuestions}`} />
+          </Col>
+          <Col xs={12} md={6}>
+            <Statistic title="Accuracy" value={accuracy} suffix="%" />
+          </Col>
+          <Col xs={12} md={6}>
+            <Statistic
+              title="Time taken"
+              value={report.timeTakenSeconds !== null ? formatDuration(report.timeTakenSeconds) : '-'}
+            />
+          </Col>
+        </Row>
+        <Space direction="vertical" size={0} style={{ marginTop: 16 }}>
+          <Text type="secondary">
+            Scoring: +{report.scheme.correctMarks} per correct answer, {report.scheme.incorrectMarks} per wrong answer, 0 when unanswered
+          </Text>
+          {report.autoSubmitted && (
+            <Text type="secondary">Submitted automatically when time ran out</Text>
+          )}
+        </Space>
+      </Card>
+
+      <Card title="Sections">
+        <Table
+          rowKey="name"
+          size="small"
+          pagination={false}
+          dataSource={report.sectionResults}
+          scroll={{ x: true }}
+          columns={[
+            {
+              title: 'Section',
+              dataIndex: 'name',
+              render: (name: string, result: MockTestSectionResult) => (
+                <Space direction="vertical" size={0}>
+                  <Text strong>{name}</Text>
+                  {result.subjectName && <Text type="secondary">{result.subjectName}</Text>}
+                </Space>
+              )
+            },
+            {
+              title: 'Marks',
+              render: (_, result: MockTestSectionResult) => `${result.marks} / ${result.maxMarks}`
+            },
+            { title: 'Correct', dataIndex: 'correct' },
+            { title: 'Wrong', dataIndex: 'incorrect' },
+            { title: 'Skipped', dataIndex: 'unanswered' },
+            {
+              title: 'Accuracy',
+              render: (_, result: MockTestSectionResult) => {
+                const attempted = result.correct + result.incorrect;
+                return attempted > 0 ? `${Math.round((result.correct / attempted) * 100)}%` : '-';
+              }
+            },
+            {
+              title: 'Time',
+              dataIndex: 'timeSpentSeconds',
+              render: (seconds: number) => formatDuration(seconds)
+            }
+          ]}
+        />
+      </Card>
+
+      <Segmented
+        value={filter}
+        onChange={(value) => setFilter(value as QuestionFilter)}
+        options={[
+          { label: `All (${report.questions.length})`, value: 'all' },
+          { label: 'Incorrect', value: 'incorrect' },
+          { label: 'Unanswered', value: 'unanswered' },
+          { label: 'Marked for review', value: 'marked' }
+        ]}
+      />
+
+      {visibleQuestions.map(({ question, number }) => (
+        <Card
+          key={question.id}
+          title={`Question ${number}`}
+          extra={
+            <Space wrap>
+              <Tag color="blue">{report.sectionResults[question.section]?.name}</Tag>
+              {question.markedForReview && <Tag icon={<FlagOutlined />} color="purple">Marked</Tag>}
+              <Tag>{formatDuration(question.timeSpentSeconds)}</Tag>
+              <Tag color={question.marks < 0 ? 'red' : undefined}>
+                {question.marks > 0 ? `+${question.marks}` : question.marks}
+              </Tag>
+              {question.isCorrect === null
+                ? <Tag>Not answered</Tag>
+                : question.isCorrect
+                  ? <Tag color="success" icon={<CheckCircleOutlined />}>Correct</Tag>
+                  : question.score
+                    ? <Tag color="warning">Partially correct</Tag>
+                    : <Tag color="error" icon={<CloseCircleOutlined />}>Incorrect</Tag>}
+            </Space>
+          }
+          style={{ width: '100%' }}
+        >
+          <Title level={4}>{question.title}</Title>
+          <RichContent style={{ marginBottom: '1em' }}>{question.content}</RichContent>
+          <QuestionTypeContent questionType={question.questionType} typeData={question.typeData} />
+
+          <Space direction="vertical" style={{ width: '100%' }}>
+            {question.options.map(option => (
+              <div
+                key={option.key}
+                style={{ padding: '8px 12px', borderRadius: 6, ...getOptionStyle(question, option.key) }}
+              >
+                <Text strong>{option.key}.</Text> <RichContent inline>{option.value}</RichContent>
+                {question.selectedOption?.includes(option.key) && <Text type="secondary"> (your answer)</Text>}
+              </div>
+            ))}
+            {question.options.length === 0 && (
+              <>
+                <Text>
+                  <Text strong>Your answer:</Text>{' '}
+                  {question.selectedOption
+                    ? <ResponseText questionType={question.questionType} value={question.selectedOption} options={[]} />
+                    : <Text type="secondary">Not answered</Text>}
+                </Text>
+                <Text>
+                  <Text strong>Correct answer:</Text>{' '}
+                  <ResponseText
+                    questionType={question.questionType}
+                    value={question.correctOption}
+                    options={[]}
+                    numericTolerance={question.numericTolerance}
+                  />
+                </Text>
+              </>
+            )}
+          </Space>
+
+          {question.explanation && (
+            <Alert
+              type="info"
+              message="Explanation"
+              description={<RichContent>{question.explanation}</RichContent>}
+              style={{ marginTop: 16 }}
+            />
+          )}
+        </Card>
+      ))}
+    </Space>
+  );
+}
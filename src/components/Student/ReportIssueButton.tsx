@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Modal, Radio, Input, Space, Tooltip, Typography, message } from 'antd';
+import { FlagOutlined } from '@ant-design/icons';
+import { QuestionReportCategory } from '@/types';
+import { MAX_REPORT_DETAILS_LENGTH, REPORT_CATEGORIES, REPORT_CATEGORY_LABELS } from '@/lib/question-reports';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+const CATEGORY_HINTS: Record<QuestionReportCategory, string> = {
+  wrong_answer: 'The answer key or explanation is incorrect',
+  ambiguous: 'More than one answer could be right, or the wording is unclear',
+  typo: 'A spelling, formatting or rendering mistake',
+  out_of_syllabus: 'The question is not part of the exam syllabus'
+};
+
+interface ReportIssueButtonProps {
+  questionId: string;
+}
+
+// "Report issue" action for a question card; the report goes to the question's author
+const ReportIssueButton = ({ questionId }: ReportIssueButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [category, setCategory] = useState<QuestionReportCategory | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [reported, setReported] = useState(false);
+
+  const closeModal = () => {
+    setOpen(false);
+    setCategory(null);
+    setDetails('');
+  };
+
+  const handleSubmit = async () => {
+    if (!category) return;
+
+    try {
+      setSubmitting(true);
+      const response = await fetch('/api/student/question-reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ questionId, category, details: details || null })
+      });
+      const data = await response.json().catch(() => ({}));
+
+      // Already reported counts as reported
+      if (!response.ok && response.status !== 409) {
+        throw new Error(data.error || 'Failed to report issue');
+      }
+
+      message.success(response.ok ? 'Thanks! The question author has been notified.' : data.error);
+      setReported(true);
+      closeModal();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to report issue');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title={reported ? 'Reported' : 'Report a problem with this question'}>
+        <Button
+          type="text"
+          size="small"
+          icon={<FlagOutlined />}
+          onClick={() => setOpen(true)}
+          disabled={reported}
+        >
+          <span className="hidden-mobile">{reported ? 'Reported' : 'Report issue'}</span>
+        </Button>
+      </Tooltip>
+
+      <Modal
+        title="Report an issue"
+        open={open}
+        onCancel={closeModal}
+        onOk={handleSubmit}
+        okText="Send Report"
+        okButtonProps={{ disabled: !category, loading: submitting }}
+        destroyOnClose
+      >
+        <Radio.Group
+          value={category}
+          onChange={event => setCategory(event.target.value)}
+          style={{ width: '100%' }}
+        >
+          <Space direction="vertical" style={{ width: '100%' }}>
+            {REPORT_CATEGORIES.map(key => (
+              <Radio key={key} value={key}>
+                <Text strong>{REPORT_CATEGORY_LABELS[key]}</Text>
+                <br />
+                <Text type="secondary" style={{ fontSize: '12px' }}>{CATEGORY_HINTS[key]}</Text>
+              </Radio>
+            ))}
+          </Space>
+        </Radio.Group>
+        <TextArea
+          value={details}
+          onChange={event => setDetails(event.target.value)}
+          rows={3}
+          maxLength={MAX_REPORT_DETAILS_LENGTH}
+          showCount
+          placeholder="What is wrong? (optional)"
+          style={{ marginTop: 16 }}
+        />
+      </Modal>
+    </>
+  );
+};
+
+export default ReportIssueButton;
@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Card,
+  Button,
+  Typography,
+  Alert,
+  Spin,
+  Space,
+  Tag
+} from 'antd';
+import {
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  RedoOutlined,
+  SmileOutlined
+} from '@ant-design/icons';
+import RichContent from '@/components/Question/RichContent';
+import AnswerInput, { ResponseText } from '@/components/Question/AnswerInput';
+import BookmarkButton, { useQuestionBookmarks } from '@/components/Student/BookmarkButton';
+import { isCompleteResponse } from '@/lib/question-types';
+import { QuestionType, QuestionTypeData } from '@/types';
+
+const { Title, Text, Paragraph } = Typography;
+
+interface ReviewQuestion {
+  id: string;
+  question_type?: QuestionType | null;
+  type_data?: QuestionTypeData | null;
+  title: string;
+  content: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  difficulty: string;
+}
+
+interface ReviewCard {
+  questionId: string;
+  question: ReviewQuestion;
+  dueDate: string;
+  intervalDays: number;
+  repetitions: number;
+  reviewCount: number;
+}
+
+interface ReviewResult {
+  isCorrect: boolean;
+  correctOption: string;
+  explanation: string;
+  nextDueDate: string;
+  intervalDays: number;
+}
+
+interface ReviewQueueProps {
+  onDueCountChange?: (count: number) => void;
+}
+
+const ReviewQueue = ({ onDueCountChange }: ReviewQueueProps) => {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const [upcomingCount, setUpcomingCount] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const [result, setResult] = useState<ReviewResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { isBookmarked, isPending, toggleBookmark } = useQuestionBookmarks(cards.map(card => card.questionId));
+
+  const fetchReviewQueue = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/student/review', {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load review queue');
+      }
+
+      const data = await response.json();
+      setCards(data.cards || []);
+      setUpcomingCount(data.upcomingCount || 0);
+      setCurrentIndex(0);
+      setSelectedOption(null);
+      setResult(null);
+      onDueCountChange?.(data.dueCount || 0);
+    } catch (err) {
+      console.error('Error fetching review queue:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [onDueCountChange]);
+
+  useEffect(() => {
+    fetchReviewQueue();
+  }, [fetchReviewQueue]);
+
+  const handleSubmit = async () => {
+    const card = cards[currentIndex];
+    if (!card || !selectedOption) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const response = await fetch('/api/student/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ questionId: card.questionId, selectedOption })
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to submit review');
+      }
+
+      setResult(await response.json());
+    } catch (err) {
+      console.error('Error submitting review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to submit review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleNext = () => {
+    setCurrentIndex(index => index + 1);
+    setSelectedOption(null);
+    setResult(null);
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px' }}>
+        <Spin size="large" tip="Loading your review queue..." />
+      </div>
+    );
+  }
+
+  const card = cards[currentIndex];
+
+  if (!card) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px 20px' }}>
+        <SmileOutlined style={{ fontSize: '32px', color: '#52c41a', marginBottom: '16px' }} />
+        <Title level={5} style={{ margin: 0 }}>
+          {cards.length > 0 ? 'Review complete for today!' : 'Nothing to review right now'}
+        </Title>
+        <Text type="secondary">
+          {upcomingCount > 0
+            ? `${upcomingCount} question${upcomingCount === 1 ? '' : 's'} scheduled for later review.`
+            : 'Questions you answer incorrectly will appear here for review.'}
+        </Text>
+        {cards.length > 0 && (
+          <div style={{ marginTop: '16px' }}>
+            <Button icon={<RedoOutlined />} onClick={fetchReviewQueue}>
+              Check Again
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const { question } = card;
+  const options = [
+    { key: 'A', value: question.option_a },
+    { key: 'B', value: question.option_b },
+    { key: 'C', value: question.option_c },
+    { key: 'D', value: question.option_d }
+  ];
+
+  return (
+    <div>
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          showIcon
+          closable
+          onClose={() => setError(null)}
+          style={{ marginBottom: '16px' }}
+        />
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '12px' }}>
+        <Text type="secondary">
+          Card {currentIndex + 1} of {cards.length}
+        </Text>
+        <Space>
+          <Tag color={question.difficulty === 'EASY' ? 'green' :
+                     question.difficulty === 'MEDIUM' ? 'orange' : 'red'}>
+            {question.difficulty}
+          </Tag>
+          <Tag>Reviewed {card.reviewCount}x</Tag>
+          <BookmarkButton
+            bookmarked={isBookmarked(card.questionId)}
+            loading={isPending(card.questionId)}
+            onToggle={() => toggleBookmark(card.questionId)}
+          />
+        </Space>
+      </div>
+
+      <Card size="small">
+        <Title level={5}>{question.title}</Title>
+        <RichContent style={{ fontSize: '15px', lineHeight: '1.6', marginBottom: '1em' }}>
+          {question.content}
+        </RichContent>
+
+        <AnswerInput
+          questionType={question.question_type}
+          typeData={question.type_data}
+          options={options}
+          value={selectedOption || ''}
+          onChange={setSelectedOption}
+          disabled={!!result}
+        />
+
+        {result && (
+          <div style={{
+            marginTop: '16px',
+            padding: '12px',
+            backgroundColor: result.isCorrect ? '#f6ffed' : '#fff2f0',
+            borderRadius: '6px',
+            border: `1px solid ${result.isCorrect ? '#b7eb8f' : '#ffccc7'}`
+          }}>
+            <Text strong style={{ color: result.isCorrect ? '#52c41a' : '#ff4d4f' }}>
+              {result.isCorrect ? <CheckCircleOutlined /> : <CloseCircleOutlined />}
+              <span style={{ marginLeft: '8px' }}>
+                {result.isCorrect ? 'Correct!' : 'Incorrect'}
+              </span>
+            </Text>
+            <Paragraph style={{ margin: '8px 0 0 0' }}>
+              <strong>Correct Answer:</strong> <ResponseText questionType={question.question_type} value={result.correctOption} options={options} />
+            </Paragraph>
+            {result.explanation && (
+              <div style={{ margin: '8px 0 0 0' }}>
+                <strong>Explanation:</strong>
+                <RichContent>{result.explanation}</RichContent>
+              </div>
+            )}
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              Next review in {result.intervalDays} day{result.intervalDays === 1 ? '' : 's'} ({result.nextDueDate})
+            </Text>
+          </div>
+        )}
+
+        <div style={{ marginTop: '16px', textAlign: 'right' }}>
+          {result ? (
+            <Button type="primary" onClick={handleNext}>
+              {currentIndex + 1 < cards.length ? 'Next Card' : 'Finish Review'}
+            </Button>
+          ) : (
+            <Button
+              type="primary"
+              onClick={handleSubmit}
+              disabled={!isCompleteResponse(question.question_type || 'single', selectedOption, question.type_data) || submitting}
+              loading={submitting}
+            >
+              Check Answer
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ReviewQueue;
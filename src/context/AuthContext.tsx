@@ -234,6 +234,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Set user data immediately
       setUser(userData);
       setSession(data.session);
+
+      // Seed the profile timezone from the browser, then record the login
+      // for the student's streak in that timezone - never blocks login
+      if (userData.role === 'STUDENT') {
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        fetch('/api/auth/update-timezone', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ timeZone, onlyIfUnset: true })
+        })
+          .catch(error => logAuthError('Failed to sync timezone', error))
+          .then(() => fetch('/api/student/streak', { method: 'POST', credentials: 'include' }))
+          .catch(error => logAuthError('Failed to record login streak', error));
+      }
       
       log('✅ Login complete:', { email: userData.email, role: userData.role });
       return { success: true };
@@ -0,0 +1,73 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+
+// Question bookmarks and private notes (see migration 20)
+
+export const MAX_NOTE_LENGTH = 5000;
+
+export const BOOKMARK_COLUMNS = 'id, question_id, note, created_at, updated_at';
+
+export interface BookmarkRow {
+  id: string;
+  question_id: string;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function toBookmark(row: BookmarkRow) {
+  return {
+    id: row.id,
+    questionId: row.question_id,
+    note: row.note,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Note from a request body: undefined leaves it unchanged, null or blank clears it
+export function parseNote(value: unknown): { note: string | null | undefined } | { error: string } {
+  if (value === undefined) return { note: undefined };
+  if (value === null) return { note: null };
+  if (typeof value !== 'string') {
+    return { error: 'Note must be a string' };
+  }
+  if (value.length > MAX_NOTE_LENGTH) {
+    return { error: `Note cannot exceed ${MAX_NOTE_LENGTH} characters` };
+  }
+  return { note: value.trim() ? value : null };
+}
+
+// Whether a student has seen a question: published questions are open to practice;
+// others only once the student answered them or was served them in a mock test.
+// Both are recorded by the server (migrations 19 and 24), so a student cannot forge them.
+export async function hasSeenQuestion(
+  supabase: SupabaseClient,
+  studentId: string,
+  questionId: string
+): Promise<boolean | { error: string }> {
+  const { data: question, error } = await supabase
+    .from('questions')
+    .select('id, status')
+    .eq('id', questionId)
+    .maybeSingle();
+
+  if (error) return { error: error.message };
+  if (!question) return false;
+  if (question.status === PUBLISHED_STATUS) return true;
+
+  const [attempts, mockAttempts] = await Promise.all([
+    supabase
+      .from('student_attempts')
+      .select('id', { count: 'exact', head: true })
+      .eq('studentid', studentId)
+      .eq('questionid', questionId),
+    supabase
+      .from('mock_test_attempts')
+      .select('id', { count: 'exact', head: true })
+      .eq('studentid', studentId)
+      .contains('questions', [questionId])
+  ]);
+
+  return [attempts, mockAttempts].some(result => (result.count || 0) > 0);
+}
@@ -0,0 +1,292 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { QuestionType, QuestionTypeData } from '@/types';
+import { gradeQuestionResponse, questionTypeOf, roundScore } from '@/lib/grading';
+import { CANONICAL_ORDER, isValidOptionOrder, toCanonicalResponse } from '@/lib/option-order';
+import { DEFAULT_QUESTION_TYPE, normalizeResponse } from '@/lib/question-types';
+import { loadScoringSchemes, marksFor, schemeFor } from '@/lib/scoring';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { MAX_TIME_PER_QUESTION_SECONDS, toTimeSpentSeconds } from '@/lib/time-analytics';
+
+// Saved progress and finalization for daily_question_sets.
+// Answers are autosaved into saved_answers as displayed positions (see option-order.ts)
+// and only graded when the set is finalized - by the student, or automatically once
+// the set's date has passed in the student's timezone.
+// Scores are credit sums, so partially correct multiple-correct answers add fractions.
+// Marks under each question's scoring scheme (see scoring.ts) are recorded alongside.
+
+export interface SavedAnswer {
+  selectedOption: string; // encoded response in displayed positions
+  timeSpentSeconds: number;
+  savedAt: string;
+}
+
+export type SavedAnswers = Record<string, SavedAnswer>;
+
+export interface DailySetRow {
+  id: string;
+  studentid: string;
+  date: string;
+  questions: string[];
+  question_subjects: string[] | null;
+  option_orders: string[] | null;
+  saved_answers: SavedAnswers | null;
+  completed: boolean;
+}
+
+export interface AnswerInput {
+  questionId: string;
+  selectedOption: unknown;
+  timeSpentSeconds?: unknown;
+}
+
+// What a valid answer to a question looks like
+export interface AnswerFormat {
+  questionType: QuestionType;
+  typeData: QuestionTypeData | null;
+}
+
+// Per-subject result stored in daily_question_sets.subject_scores. Sets finalized
+// before migration 18 have no marks.
+export interface SubjectScore {
+  correct: number;
+  total: number;
+  marks?: number;
+  maxMarks?: number;
+}
+
+export interface DailySetResult {
+  score: number;
+  marks: number;
+  maxMarks: number;
+  totalQuestions: number;
+  answeredQuestions: number;
+  subjectScores: Record<string, SubjectScore>;
+}
+
+// Answer formats of a set's questions, keyed by question ID
+export async function loadAnswerFormats(
+  supabase: SupabaseClient,
+  questionIds: string[]
+): Promise<Map<string, AnswerFormat> | { error: string }> {
+  const { data, error } = await supabase
+    .from('questions')
+    .select('id, question_type, type_data')
+    .in('id', questionIds);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  return new Map((data || []).map(question => [
+    question.id,
+    { questionType: questionTypeOf(question), typeData: question.type_data || null }
+  ]));
+}
+
+// Merge answer updates into saved answers. Time accumulates across saves so a
+// student who comes back to a question keeps the time already spent on it.
+// Questions without a known format take single-correct answers.
+// Returns the merged answers, or an error message for invalid input.
+export function mergeSavedAnswers(
+  saved: SavedAnswers | null,
+  updates: AnswerInput[],
+  questionIds: string[],
+  formats: Map<string, AnswerFormat> = new Map(),
+  now: Date = new Date()
+): { answers: SavedAnswers } | { error: string } {
+  const answers: SavedAnswers = { ...(saved || {}) };
+
+  for (const update of updates) {
+    if (!update || !questionIds.includes(update.questionId)) {
+      return { error: 'Invalid question IDs in submission' };
+    }
+    const format = formats.get(update.questionId);
+    const selectedOption = normalizeResponse(
+      format?.questionType || DEFAULT_QUESTION_TYPE,
+      update.selectedOption,
+      format?.typeData
+    );
+    if (selectedOption === null) {
+      return { error: 'Invalid selected option in submission' };
+    }
+
+    const previousTime = answers[update.questionId]?.timeSpentSeconds || 0;
+    answers[update.questionId] = {
+      selectedOption,
+      timeSpentSeconds: Math.min(previousTime + toTimeSpentSeconds(update.timeSpentSeconds), MAX_TIME_PER_QUESTION_SECONDS),
+      savedAt: now.toISOString()
+    };
+  }
+
+  return { answers };
+}
+
+// Grade the saved answers of a set, record attempts and mark it completed.
+// Unanswered questions count towards the total but create no attempt.
+// Students can only read their sets (migration 27), so the set is completed as the server.
+// Returns alreadyCompleted when another request finalized the set first.
+export async function finalizeDailySet(
+  supabase: SupabaseClient,
+  set: DailySetRow,
+  { auto = false }: { auto?: boolean } = {}
+): Promise<DailySetResult | { alreadyCompleted: true } | null> {
+  const questionIds = set.questions || [];
+  const saved = set.saved_answers || {};
+
+  // Answer keys are only selectable with the service role client
+  const { data: questionsData, error: questionsError } = await getServiceRoleClient()
+    .from('questions')
+    .select('id, question_type, type_data, numeric_tolerance, correct_option, subject_id, exam_category')
+    .in('id', questionIds);
+
+  if (questionsError || !questionsData) {
+    console.error('❌ Daily set: failed to fetch questions for grading:', questionsError);
+    return null;
+  }
+
+  const questionsById = new Map(questionsData.map(q => [q.id, q]));
+
+  // Subject of each slot, falling back to the question's subject for older sets
+  const slotSubjects = new Map<string, string>(questionsData.map(q => [q.id, q.subject_id]));
+  questionIds.forEach((id, slot) => {
+    if (set.question_subjects?.[slot]) slotSubjects.set(id, set.question_subjects[slot]);
+  });
+
+  // Answers are displayed positions; sets without a stored order were shown canonically
+  const optionOrders = new Map<string, string>();
+  questionIds.forEach((id, slot) => {
+    const order = set.option_orders?.[slot];
+    optionOrders.set(id, isValidOptionOrder(order) ? order : CANONICAL_ORDER);
+  });
+
+  const schemes = await loadScoringSchemes(supabase, [...slotSubjects.values()]);
+  if ('error' in schemes) {
+    console.error('❌ Daily set: failed to load scoring schemes:', schemes.error);
+    return null;
+  }
+  const questionSchemes = new Map(questionIds.map(id => [
+    id,
+    schemeFor(schemes, slotSubjects.get(id), questionsById.get(id)?.exam_category)
+  ]));
+
+  const subjectScores: Record<string, SubjectScore> = {};
+  let maxMarks = 0;
+  questionIds.forEach(id => {
+    const correctMarks = questionSchemes.get(id)!.correctMarks;
+    maxMarks = roundScore(maxMarks + correctMarks);
+    const subjectId = slotSubjects.get(id);
+    if (subjectId) {
+      subjectScores[subjectId] = subjectScores[subjectId] || { correct: 0, total: 0, marks: 0, maxMarks: 0 };
+      subjectScores[subjectId].total++;
+      subjectScores[subjectId].maxMarks = roundScore(subjectScores[subjectId].maxMarks! + correctMarks);
+    }
+  });
+
+  let totalScore = 0;
+  let totalMarks = 0;
+  const attempts = [];
+
+  for (const questionId of questionIds) {
+    const answer = saved[questionId];
+    const question = questionsById.get(questionId);
+    if (!answer || typeof answer.selectedOption !== 'string' || !question) continue;
+
+    const selectedOption = toCanonicalResponse(questionTypeOf(question), answer.selectedOption, optionOrders.get(questionId)!);
+    const { isCorrect, score } = gradeQuestionResponse(question, selectedOption);
+    const subjectId = slotSubjects.get(questionId);
+    const marks = marksFor(questionSchemes.get(questionId)!, score);
+    totalScore = roundScore(totalScore + score);
+    totalMarks = roundScore(totalMarks + marks);
+    if (subjectId && subjectScores[subjectId]) {
+      subjectScores[subjectId].correct = roundScore(subjectScores[subjectId].correct + score);
+      subjectScores[subjectId].marks = roundScore(subjectScores[subjectId].marks! + marks);
+    }
+
+    attempts.push({
+      studentid: set.studentid,
+      questionid: questionId,
+      selectedoption: selectedOption,
+      iscorrect: isCorrect,
+      score,
+      subject_id: subjectId,
+      time_spent_seconds: answer.timeSpentSeconds || 0,
+      attemptedat: answer.savedAt || new Date().toISOString()
+    });
+  }
+
+  // Record attempts - the first attempt on a question is kept, so previously-wrong
+  // questions served again are only graded in this set's results.
+  // Students cannot write attempts (migration 24), so they are recorded as the server.
+  if (attempts.length > 0) {
+    const { error: attemptsError } = await getServiceRoleClient()
+      .from('student_attempts')
+      .upsert(attempts, { onConflict: 'studentid,questionid', ignoreDuplicates: true });
+
+    if (attemptsError) {
+      console.error('❌ Daily set: failed to record attempts:', attemptsError);
+      return null;
+    }
+  }
+
+  // Guard on completed so a concurrent finalize cannot grade the set twice
+  const { data: completedRows, error: updateError } = await getServiceRoleClient()
+    .from('daily_question_sets')
+    .update({
+      completed: true,
+      score: totalScore,
+      marks: totalMarks,
+      max_marks: maxMarks,
+      subject_scores: subjectScores,
+      finalized_at: new Date().toISOString(),
+      auto_finalized: auto
+    })
+    .eq('id', set.id)
+    .eq('completed', false)
+    .select('id');
+
+  if (updateError) {
+    console.error('❌ Daily set: failed to mark set completed:', updateError);
+    return null;
+  }
+
+  if (!completedRows || completedRows.length === 0) {
+    return { alreadyCompleted: true };
+  }
+
+  return {
+    score: totalScore,
+    marks: totalMarks,
+    maxMarks,
+    totalQuestions: questionIds.length,
+    answeredQuestions: attempts.length,
+    subjectScores
+  };
+}
+
+// Auto-finalize a student's unfinished sets from days before `today`
+export async function finalizeExpiredDailySets(
+  supabase: SupabaseClient,
+  studentId: string,
+  today: string
+): Promise<number> {
+  const { data: expiredSets, error } = await supabase
+    .from('daily_question_sets')
+    .select('id, studentid, date, questions, question_subjects, option_orders, saved_answers, completed')
+    .eq('studentid', studentId)
+    .eq('completed', false)
+    .lt('date', today);
+
+  if (error) {
+    console.error('❌ Daily set: failed to load expired sets:', error);
+    return 0;
+  }
+
+  let finalized = 0;
+  for (const set of expiredSets || []) {
+    const result = await finalizeDailySet(supabase, set as DailySetRow, { auto: true });
+    if (result && !('alreadyCompleted' in result)) {
+      finalized++;
+    }
+  }
+  return finalized;
+}
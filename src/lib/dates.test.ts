@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { daysBetween, getDateInTimeZone } from '@/lib/dates';
+
+describe('getDateInTimeZone', () => {
+  // IST is UTC+05:30, so its midnight is 18:30 UTC on the previous day
+  it('keeps an instant just before midnight in Asia/Kolkata on that day', () => {
+    expect(getDateInTimeZone(new Date('2025-03-10T18:29:59Z'), 'Asia/Kolkata')).toBe('2025-03-10');
+  });
+
+  it('moves an instant just after midnight in Asia/Kolkata to the next day', () => {
+    expect(getDateInTimeZone(new Date('2025-03-10T18:30:00Z'), 'Asia/Kolkata')).toBe('2025-03-11');
+  });
+
+  it('defaults to Asia/Kolkata', () => {
+    expect(getDateInTimeZone(new Date('2025-03-10T18:30:00Z'))).toBe('2025-03-11');
+  });
+
+  it('uses the given timezone rather than UTC', () => {
+    const instant = new Date('2025-03-10T03:00:00Z');
+    expect(getDateInTimeZone(instant, 'UTC')).toBe('2025-03-10');
+    expect(getDateInTimeZone(instant, 'America/New_York')).toBe('2025-03-09');
+  });
+});
+
+describe('daysBetween', () => {
+  it('is 0 for the same date', () => {
+    expect(daysBetween('2025-03-10', '2025-03-10')).toBe(0);
+  });
+
+  it('counts calendar days across month and year ends', () => {
+    expect(daysBetween('2025-02-28', '2025-03-01')).toBe(1);
+    expect(daysBetween('2024-02-28', '2024-03-01')).toBe(2);
+    expect(daysBetween('2024-12-31', '2025-01-01')).toBe(1);
+  });
+
+  it('is negative when the second date is earlier', () => {
+    expect(daysBetween('2025-03-11', '2025-03-10')).toBe(-1);
+  });
+});
@@ -0,0 +1,95 @@
+// Shared calendar-date helpers. Dates are exchanged as YYYY-MM-DD strings,
+// matching user_sessions.date, users.last_login_date and daily_question_sets.date.
+
+// Most students prepare for Indian exams, so IST is the fallback timezone
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+// Calendar date (YYYY-MM-DD) of an instant as seen in the given IANA timezone
+export function getDateInTimeZone(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+// Whole calendar days from one YYYY-MM-DD date to another (negative if `to` is earlier)
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  const fromUtc = Date.UTC(fromYear, fromMonth - 1, fromDay);
+  const toUtc = Date.UTC(toYear, toMonth - 1, toDay);
+  return Math.round((toUtc - fromUtc) / (24 * 60 * 60 * 1000));
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.trim().length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A user's stored timezone, or the default when it is unset or no longer valid
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+// Today's calendar date (YYYY-MM-DD) for a user's timezone
+export function getToday(timeZone: string | null | undefined): string {
+  return getDateInTimeZone(new Date(), resolveTimeZone(timeZone));
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// UTC instant at which a local calendar date starts in the timezone
+function getStartOfDayUtc(date: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const midnightAsUtc = Date.UTC(year, month - 1, day);
+  // Re-check the offset at the estimated start so DST transitions land correctly
+  const estimate = midnightAsUtc - getTimeZoneOffsetMs(new Date(midnightAsUtc), timeZone);
+  return midnightAsUtc - getTimeZoneOffsetMs(new Date(estimate), timeZone);
+}
+
+// ISO timestamps bounding a local calendar date: start inclusive, end exclusive
+export function getDayBounds(date: string, timeZone: string | null | undefined): { start: string; end: string } {
+  const zone = resolveTimeZone(timeZone);
+  const nextDate = addDays(date, 1);
+  return {
+    start: new Date(getStartOfDayUtc(date, zone)).toISOString(),
+    end: new Date(getStartOfDayUtc(nextDate, zone)).toISOString()
+  };
+}
+
+// Calendar date `days` after a YYYY-MM-DD date
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// Strict YYYY-MM-DD check that also rejects impossible dates such as 2025-02-30
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
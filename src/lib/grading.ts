@@ -0,0 +1,81 @@
+import { Option, QuestionType, QuestionTypeData } from '@/types';
+import { DEFAULT_QUESTION_TYPE, isQuestionType, normalizeResponse } from '@/lib/question-types';
+
+export const VALID_OPTIONS: Option[] = ['A', 'B', 'C', 'D'];
+
+export function isValidOption(value: unknown): value is Option {
+  return typeof value === 'string' && (VALID_OPTIONS as string[]).includes(value);
+}
+
+// Grade a selected option against the stored correct_option.
+// correct_option is a CHARACTER column, so trim and normalise case before comparing.
+export function gradeAnswer(selectedOption: Option, correctOption: string | null | undefined): boolean {
+  if (!correctOption) return false;
+  return correctOption.trim().toUpperCase() === selectedOption;
+}
+
+export interface ResponseGrade {
+  isCorrect: boolean;
+  // Credit earned, 0-1
+  score: number;
+}
+
+// Absorbs floating point noise in numeric comparisons
+const NUMERIC_EPSILON = 1e-9;
+
+// Grade a normalised response (see normalizeResponse in lib/question-types).
+// Multiple-correct questions earn partial credit for a subset of the correct
+// options, and nothing if any wrong option is chosen; every other type is all or nothing.
+export function gradeResponse(
+  questionType: QuestionType,
+  response: string,
+  correctAnswer: string | null | undefined,
+  numericTolerance?: number | null
+): ResponseGrade {
+  const correct = correctAnswer?.trim().toUpperCase();
+  if (!correct) return { isCorrect: false, score: 0 };
+
+  if (questionType === 'numeric') {
+    const isCorrect = Math.abs(Number(response) - Number(correct)) <= Math.abs(Number(numericTolerance) || 0) + NUMERIC_EPSILON;
+    return { isCorrect, score: isCorrect ? 1 : 0 };
+  }
+
+  if (questionType === 'multiple') {
+    const chosen = response.split('');
+    if (chosen.length === 0 || chosen.some(option => !correct.includes(option))) {
+      return { isCorrect: false, score: 0 };
+    }
+    const isCorrect = chosen.length === correct.length;
+    return { isCorrect, score: isCorrect ? 1 : roundScore(chosen.length / correct.length) };
+  }
+
+  const isCorrect = response === correct;
+  return { isCorrect, score: isCorrect ? 1 : 0 };
+}
+
+// Scores are stored with three decimals
+export function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+// Columns of a questions row needed for grading
+export interface GradableQuestion {
+  question_type?: string | null;
+  correct_option: string | null;
+  numeric_tolerance?: number | string | null;
+  type_data?: QuestionTypeData | null;
+}
+
+// Questions created before migration 17 have no type and are single-correct
+export function questionTypeOf(question: { question_type?: string | null }): QuestionType {
+  return isQuestionType(question.question_type) ? question.question_type : DEFAULT_QUESTION_TYPE;
+}
+
+// Grade a raw response against a questions row; responses that are not a valid
+// answer for the question type earn nothing
+export function gradeQuestionResponse(question: GradableQuestion, response: unknown): ResponseGrade {
+  const questionType = questionTypeOf(question);
+  const normalized = normalizeResponse(questionType, response, question.type_data);
+  if (normalized === null) return { isCorrect: false, score: 0 };
+  return gradeResponse(questionType, normalized, question.correct_option, Number(question.numeric_tolerance) || 0);
+}
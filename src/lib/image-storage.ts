@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Storage for images embedded in question Markdown. The adapter is chosen with
+// IMAGE_STORAGE_DRIVER: 'local' keeps files on disk and serves them through
+// /api/question-images, 'supabase' uses a public Storage bucket (see migration 16).
+// Local disk is the default in development, Supabase everywhere else.
+
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// SVG is not accepted: it can carry script
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+const CONTENT_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(IMAGE_EXTENSIONS).map(([contentType, extension]) => [extension, contentType])
+);
+
+// Keys are generated here, so anything else is rejected before touching storage
+const IMAGE_KEY_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(png|jpg|gif|webp)$/;
+
+export function isValidImageKey(key: string): boolean {
+  return IMAGE_KEY_PATTERN.test(key);
+}
+
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[key.split('.').pop() || ''] || 'application/octet-stream';
+}
+
+// Check the file signature so the declared content type cannot be spoofed
+export function matchesImageSignature(data: Buffer, contentType: string): boolean {
+  switch (contentType) {
+    case 'image/png':
+      return data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    case 'image/jpeg':
+      return data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff;
+    case 'image/gif':
+      return data.subarray(0, 6).toString('ascii') === 'GIF87a' || data.subarray(0, 6).toString('ascii') === 'GIF89a';
+    case 'image/webp':
+      return data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP';
+    default:
+      return false;
+  }
+}
+
+export interface ImageStorageAdapter {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Buffer | null>;
+  url(key: string): string;
+}
+
+export class LocalDiskImageStorage implements ImageStorageAdapter {
+  constructor(private readonly directory: string) {}
+
+  async save(key: string, data: Buffer): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, key), data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(path.join(this.directory, key));
+    } catch {
+      return null;
+    }
+  }
+
+  url(key: string): string {
+    return `/api/question-images/${key}`;
+  }
+}
+
+export class SupabaseImageStorage implements ImageStorageAdapter {
+  constructor(private readonly bucket: string) {}
+
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    const { error } = await getServiceRoleClient()
+      .storage
+      .from(this.bucket)
+      .upload(key, data, { contentType, cacheControl: '31536000', upsert: false });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const { data, error } = await getServiceRoleClient().storage.from(this.bucket).download(key);
+    if (error || !data) {
+      return null;
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  url(key: string): string {
+    return getServiceRoleClient().storage.from(this.bucket).getPublicUrl(key).data.publicUrl;
+  }
+}
+
+export function getImageStorage(): ImageStorageAdapter {
+  const driver = process.env.IMAGE_STORAGE_DRIVER
+    || (process.env.NODE_ENV === 'development' ? 'local' : 'supabase');
+
+  if (driver === 'supabase') {
+    return new SupabaseImageStorage(process.env.IMAGE_STORAGE_BUCKET || 'question-images');
+  }
+
+  return new LocalDiskImageStorage(
+    process.env.IMAGE_STORAGE_DIR || path.join(process.cwd(), '.uploads', 'question-images')
+  );
+}
+
+// Validate and store an uploaded image; returns its key and public URL
+export async function storeQuestionImage(
+  storage: ImageStorageAdapter,
+  data: Buffer,
+  contentType: string
+): Promise<{ key: string; url: string } | { error: string }> {
+  const extension = IMAGE_EXTENSIONS[contentType];
+  if (!extension) {
+    return { error: 'Images must be PNG, JPEG, GIF or WebP' };
+  }
+  if (data.length === 0) {
+    return { error: 'Image file is empty' };
+  }
+  if (data.length > MAX_IMAGE_BYTES) {
+    return { error: `Images cannot exceed ${MAX_IMAGE_BYTES / (1024 * 1024)} MB` };
+  }
+  if (!matchesImageSignature(data, contentType)) {
+    return { error: 'File contents do not match its image type' };
+  }
+
+  const key = `${randomUUID()}.${extension}`;
+  await storage.save(key, data, contentType);
+  return { key, url: storage.url(key) };
+}
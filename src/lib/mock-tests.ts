@@ -0,0 +1,573 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DifficultyLevel, ExamCategory, MockTest, MockTestAttemptStatus, MockTestSection, ScoringScheme } from '@/types';
+import { VALID_OPTIONS, gradeQuestionResponse, questionTypeOf, roundScore } from '@/lib/grading';
+import { CANONICAL_ORDER, isValidOptionOrder, optionOrderFor, toCanonicalResponse } from '@/lib/option-order';
+import { DEFAULT_QUESTION_TYPE, normalizeResponse, usesChoiceOptions } from '@/lib/question-types';
+import { DIFFICULTY_LEVELS, EXAM_CATEGORIES } from '@/lib/question-validation';
+import { PUBLISHED_STATUS } from '@/lib/question-review';
+import { createSeededRandom, seededShuffle } from '@/lib/question-selection';
+import type { AnswerFormat } from '@/lib/daily-sets';
+import { ScoringSchemes, marksFor, toScoringScheme, validateScoringScheme } from '@/lib/scoring';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { MAX_TIME_PER_QUESTION_SECONDS } from '@/lib/time-analytics';
+
+// Timed mock tests (see migration 19). Templates define sections drawn from the
+// published questions of a subject; an attempt draws its questions when it starts
+// and must be submitted before its deadline. Answers are autosaved as displayed
+// positions, like daily sets, and graded with the scheme copied onto the attempt.
+
+export const MOCK_TEST_LIMITS = {
+  titleLength: 200,
+  descriptionLength: 1000,
+  sectionNameLength: 100,
+  maxSections: 10,
+  maxSectionQuestions: 100,
+  maxQuestions: 200,
+  minDurationMinutes: 5,
+  maxDurationMinutes: 360
+};
+
+// Saves and submissions are accepted this long after the deadline, covering
+// requests already in flight when the timer ran out
+export const DEADLINE_GRACE_SECONDS = 15;
+
+export const MOCK_TEST_COLUMNS = 'id, title, description, exam_category, duration_minutes, sections, correct_marks, incorrect_marks, is_published, created_by, created_at, updated_at';
+
+export const MOCK_ATTEMPT_COLUMNS = 'id, mock_test_id, studentid, status, started_at, deadline_at, submitted_at, auto_submitted, sections, questions, question_sections, option_orders, responses, correct_marks, incorrect_marks, score, marks, max_marks, section_results';
+
+export interface MockTestRow {
+  id: string;
+  title: string;
+  description: string | null;
+  exam_category: ExamCategory;
+  duration_minutes: number;
+  sections: MockTestSection[];
+  correct_marks: number | null;
+  incorrect_marks: number | null;
+  is_published: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function toMockTest(row: MockTestRow): MockTest {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    examCategory: row.exam_category,
+    durationMinutes: row.duration_minutes,
+    sections: row.sections || [],
+    scheme: toScoringScheme(row.correct_marks, row.incorrect_marks),
+    isPublished: row.is_published,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export function totalQuestionCount(sections: MockTestSection[]): number {
+  return sections.reduce((sum, section) => sum + section.questionCount, 0);
+}
+
+// The scheme a test is marked with: its own, or its exam category's
+export function testScheme(schemes: ScoringSchemes, test: Pick<MockTestRow, 'exam_category' | 'correct_marks' | 'incorrect_marks'>): ScoringScheme {
+  return toScoringScheme(test.correct_marks, test.incorrect_marks)
+    || schemes.categories[test.exam_category]
+    || schemes.categories.OTHER;
+}
+
+function validateText(errors: string[], value: unknown, label: string, maxLength: number, required = true) {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    if (required || (value !== undefined && value !== null && value !== '')) {
+      errors.push(`${label} is required`);
+    }
+  } else if (value.length > maxLength) {
+    errors.push(`${label} cannot exceed ${maxLength} characters`);
+  }
+}
+
+// Validation of a template from the request body, in the style of validateQuestionInput
+export function validateMockTestInput(input: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  validateText(errors, input.title, 'Title', MOCK_TEST_LIMITS.titleLength);
+  validateText(errors, input.description, 'Description', MOCK_TEST_LIMITS.descriptionLength, false);
+
+  if (!EXAM_CATEGORIES.includes(input.examCategory as ExamCategory)) {
+    errors.push('Exam category must be UPSC, JEE, NEET, SSC, or OTHER');
+  }
+
+  const duration = input.durationMinutes;
+  if (!Number.isInteger(duration)
+    || (duration as number) < MOCK_TEST_LIMITS.minDurationMinutes
+    || (duration as number) > MOCK_TEST_LIMITS.maxDurationMinutes) {
+    errors.push(`Duration must be a whole number of minutes between ${MOCK_TEST_LIMITS.minDurationMinutes} and ${MOCK_TEST_LIMITS.maxDurationMinutes}`);
+  }
+
+  const sections = input.sections;
+  if (!Array.isArray(sections) || sections.length === 0 || sections.length > MOCK_TEST_LIMITS.maxSections) {
+    errors.push(`A mock test needs between 1 and ${MOCK_TEST_LIMITS.maxSections} sections`);
+  } else {
+    sections.forEach((section, index) => {
+      const label = `Section ${index + 1}`;
+      if (!section || typeof section !== 'object') {
+        errors.push(`${label} is invalid`);
+        return;
+      }
+      validateText(errors, section.name, `${label} name`, MOCK_TEST_LIMITS.sectionNameLength);
+      if (typeof section.subjectId !== 'string' || !section.subjectId) {
+        errors.push(`${label} subject is required`);
+      }
+      if (section.difficulty !== undefined && section.difficulty !== null
+        && !DIFFICULTY_LEVELS.includes(section.difficulty as DifficultyLevel)) {
+        errors.push(`${label} difficulty must be EASY, MEDIUM, or HARD`);
+      }
+      if (!Number.isInteger(section.questionCount)
+        || section.questionCount < 1
+        || section.questionCount > MOCK_TEST_LIMITS.maxSectionQuestions) {
+        errors.push(`${label} question count must be between 1 and ${MOCK_TEST_LIMITS.maxSectionQuestions}`);
+      }
+    });
+
+    const total = sections.reduce((sum, section) => sum + (Number(section?.questionCount) || 0), 0);
+    if (total > MOCK_TEST_LIMITS.maxQuestions) {
+      errors.push(`A mock test cannot have more than ${MOCK_TEST_LIMITS.maxQuestions} questions`);
+    }
+  }
+
+  // An empty correctMarks uses the exam category's scheme
+  if (input.correctMarks !== undefined && input.correctMarks !== null && input.correctMarks !== '') {
+    errors.push(...validateScoringScheme(input.correctMarks, input.incorrectMarks));
+  }
+
+  return errors;
+}
+
+// Map validated input to the mock_tests columns it sets
+export function buildMockTestRow(input: Record<string, unknown>) {
+  const hasScheme = input.correctMarks !== undefined && input.correctMarks !== null && input.correctMarks !== '';
+  return {
+    title: (input.title as string).trim(),
+    description: typeof input.description === 'string' ? input.description.trim() || null : null,
+    exam_category: input.examCategory as ExamCategory,
+    duration_minutes: input.durationMinutes as number,
+    sections: (input.sections as MockTestSection[]).map(section => ({
+      name: section.name.trim(),
+      subjectId: section.subjectId,
+      difficulty: section.difficulty || null,
+      questionCount: section.questionCount
+    })),
+    correct_marks: hasScheme ? Number(input.correctMarks) : null,
+    incorrect_marks: hasScheme ? Number(input.incorrectMarks ?? 0) : null,
+    is_published: input.isPublished === true,
+    updated_at: new Date().toISOString()
+  };
+}
+
+// Attempts
+
+export interface MockResponse {
+  selectedOption: string | null; // encoded response in displayed positions, null when cleared
+  markedForReview: boolean;
+  timeSpentSeconds: number;
+  visitedAt: string;
+  savedAt: string;
+}
+
+export type MockResponses = Record<string, MockResponse>;
+
+export interface MockResponseInput {
+  questionId: string;
+  selectedOption?: unknown; // undefined keeps the saved answer, null clears it
+  markedForReview?: unknown;
+  timeSpentSeconds?: unknown;
+}
+
+// Section of an attempt, copied from the template when the attempt starts
+export interface AttemptSection {
+  name: string;
+  subjectId: string;
+  questionCount: number;
+}
+
+export interface SectionResult {
+  name: string;
+  subjectId: string;
+  total: number;
+  correct: number;
+  incorrect: number;
+  unanswered: number;
+  score: number; // credit sum, see gradeResponse
+  marks: number;
+  maxMarks: number;
+  timeSpentSeconds: number;
+}
+
+export interface MockAttemptRow {
+  id: string;
+  mock_test_id: string;
+  studentid: string;
+  status: MockTestAttemptStatus;
+  started_at: string;
+  deadline_at: string;
+  submitted_at: string | null;
+  auto_submitted: boolean;
+  sections: AttemptSection[];
+  questions: string[];
+  question_sections: number[];
+  option_orders: string[];
+  responses: MockResponses | null;
+  correct_marks: number;
+  incorrect_marks: number;
+  score: number | null;
+  marks: number | null;
+  max_marks: number | null;
+  section_results: SectionResult[] | null;
+}
+
+export interface MockAttemptResult {
+  score: number;
+  marks: number;
+  maxMarks: number;
+  totalQuestions: number;
+  answeredQuestions: number;
+  sectionResults: SectionResult[];
+}
+
+export function isPastDeadline(attempt: Pick<MockAttemptRow, 'deadline_at'>, now: Date = new Date(), graceSeconds = 0): boolean {
+  return now.getTime() > new Date(attempt.deadline_at).getTime() + graceSeconds * 1000;
+}
+
+// Draw each section's questions from the published questions of its subject and
+// difficulty. A question is drawn at most once per attempt.
+export async function drawMockTestQuestions(
+  supabase: SupabaseClient,
+  sections: MockTestSection[],
+  seed: string
+): Promise<{ questions: { id: string; question_type: string | null }[]; questionSections: number[] } | { error: string }> {
+  const questions: { id: string; question_type: string | null }[] = [];
+  const questionSections: number[] = [];
+  const drawn = new Set<string>();
+
+  for (const [index, section] of sections.entries()) {
+    let query = supabase
+      .from('questions')
+      .select('id, question_type')
+      .eq('subject_id', section.subjectId)
+      .eq('status', PUBLISHED_STATUS)
+      .order('created_at', { ascending: true });
+    if (section.difficulty) {
+      query = query.eq('difficulty', section.difficulty);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      return { error: error.message };
+    }
+
+    const candidates = (data || []).filter(question => !drawn.has(question.id));
+    if (candidates.length < section.questionCount) {
+      return {
+        error: `Section "${section.name}" needs ${section.questionCount} questions but only ${candidates.length} are available`
+      };
+    }
+
+    seededShuffle(candidates, createSeededRandom(`${seed}:${index}`))
+      .slice(0, section.questionCount)
+      .forEach(question => {
+        drawn.add(question.id);
+        questions.push(question);
+        questionSections.push(index);
+      });
+  }
+
+  return { questions, questionSections };
+}
+
+// Columns of a new attempt for a student starting a test now
+export function buildAttemptRow(
+  test: MockTestRow,
+  studentId: string,
+  scheme: ScoringScheme,
+  drawn: { questions: { id: string; question_type: string | null }[]; questionSections: number[] },
+  now: Date = new Date()
+) {
+  const seed = `${studentId}:${test.id}:${now.toISOString()}`;
+  return {
+    mock_test_id: test.id,
+    studentid: studentId,
+    status: 'in_progress' as MockTestAttemptStatus,
+    started_at: now.toISOString(),
+    deadline_at: new Date(now.getTime() + test.duration_minutes * 60 * 1000).toISOString(),
+    sections: test.sections.map(section => ({
+      name: section.name,
+      subjectId: section.subjectId,
+      questionCount: section.questionCount
+    })),
+    questions: drawn.questions.map(question => question.id),
+    question_sections: drawn.questionSections,
+    option_orders: drawn.questions.map(question => optionOrderFor(questionTypeOf(question), `${seed}:${question.id}`)),
+    responses: {},
+    correct_marks: scheme.correctMarks,
+    incorrect_marks: scheme.incorrectMarks
+  };
+}
+
+// Merge autosaved responses. Time accumulates across saves; visiting a question
+// without answering it records the visit.
+// Returns the merged responses, or an error message for invalid input.
+export function mergeMockResponses(
+  saved: MockResponses | null,
+  updates: MockResponseInput[],
+  questionIds: string[],
+  formats: Map<string, AnswerFormat>,
+  now: Date = new Date()
+): { responses: MockResponses } | { error: string } {
+  const responses: MockResponses = { ...(saved || {}) };
+
+  for (const update of updates) {
+    if (!update || !questionIds.includes(update.questionId)) {
+      return { error: 'Invalid question IDs in submission' };
+    }
+
+    const previous = responses[update.questionId];
+    let selectedOption = previous?.selectedOption ?? null;
+    if (update.selectedOption === null || update.selectedOption === '') {
+      selectedOption = null;
+    } else if (update.selectedOption !== undefined) {
+      const format = formats.get(update.questionId);
+      selectedOption = normalizeResponse(
+        format?.questionType || DEFAULT_QUESTION_TYPE,
+        update.selectedOption,
+        format?.typeData
+      );
+      if (selectedOption === null) {
+        return { error: 'Invalid selected option in submission' };
+      }
+    }
+
+    const addedTime = Math.max(Math.round(Number(update.timeSpentSeconds) || 0), 0);
+    responses[update.questionId] = {
+      selectedOption,
+      markedForReview: typeof update.markedForReview === 'boolean'
+        ? update.markedForReview
+        : previous?.markedForReview || false,
+      timeSpentSeconds: Math.min((previous?.timeSpentSeconds || 0) + addedTime, MAX_TIME_PER_QUESTION_SECONDS),
+      visitedAt: previous?.visitedAt || now.toISOString(),
+      savedAt: now.toISOString()
+    };
+  }
+
+  return { responses };
+}
+
+export interface MockQuestionRow {
+  id: string;
+  question_type: string | null;
+  type_data: unknown;
+  title: string;
+  content: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  difficulty: string | null;
+}
+
+// Student payload for an attempt's question with options in the slot's order.
+// Numeric and match questions have no options.
+export function toAttemptQuestion(question: MockQuestionRow, optionOrder: string, section: number) {
+  const questionType = questionTypeOf(question);
+  const optionText: Record<string, string | null> = {
+    A: question.option_a,
+    B: question.option_b,
+    C: question.option_c,
+    D: question.option_d
+  };
+
+  return {
+    id: question.id,
+    section,
+    questionType,
+    typeData: question.type_data,
+    title: question.title,
+    content: question.content,
+    difficulty: question.difficulty,
+    options: usesChoiceOptions(questionType)
+      ? VALID_OPTIONS.map((displayed, position) => ({
+        key: displayed,
+        value: optionText[optionOrder[position]] || ''
+      }))
+      : []
+  };
+}
+
+// Option order of a slot; attempts always store one, but guard against bad data
+export function slotOrder(attempt: Pick<MockAttemptRow, 'option_orders'>, slot: number): string {
+  const order = attempt.option_orders?.[slot];
+  return isValidOptionOrder(order) ? order : CANONICAL_ORDER;
+}
+
+// Grade an attempt's saved responses, record student_attempts and mark it submitted.
+// Unanswered questions score 0 and create no attempt.
+// Students can only read their attempts (migration 19), so this writes as the server.
+// Returns alreadySubmitted when another request graded the attempt first.
+export async function finalizeMockAttempt(
+  attempt: MockAttemptRow,
+  { auto = false }: { auto?: boolean } = {}
+): Promise<MockAttemptResult | { alreadySubmitted: true } | null> {
+  const questionIds = attempt.questions || [];
+  const responses = attempt.responses || {};
+
+  // Answer keys are only selectable with the service role client
+  const { data: questionsData, error: questionsError } = await getServiceRoleClient()
+    .from('questions')
+    .select('id, question_type, type_data, numeric_tolerance, correct_option')
+    .in('id', questionIds);
+
+  if (questionsError || !questionsData) {
+    console.error('❌ Mock test: failed to fetch questions for grading:', questionsError);
+    return null;
+  }
+
+  const questionsById = new Map(questionsData.map(q => [q.id, q]));
+  const scheme: ScoringScheme = {
+    correctMarks: Number(attempt.correct_marks),
+    incorrectMarks: Number(attempt.incorrect_marks)
+  };
+
+  const sectionResults: SectionResult[] = (attempt.sections || []).map(section => ({
+    name: section.name,
+    subjectId: section.subjectId,
+    total: 0,
+    correct: 0,
+    incorrect: 0,
+    unanswered: 0,
+    score: 0,
+    marks: 0,
+    maxMarks: 0,
+    timeSpentSeconds: 0
+  }));
+
+  let totalScore = 0;
+  let totalMarks = 0;
+  let maxMarks = 0;
+  const attempts = [];
+
+  for (const [slot, questionId] of questionIds.entries()) {
+    const section = sectionResults[attempt.question_sections?.[slot]];
+    const response = responses[questionId];
+    const question = questionsById.get(questionId);
+    maxMarks = roundScore(maxMarks + scheme.correctMarks);
+    if (section) {
+      section.total++;
+      section.maxMarks = roundScore(section.maxMarks + scheme.correctMarks);
+      section.timeSpentSeconds += response?.timeSpentSeconds || 0;
+    }
+
+    if (!response || typeof response.selectedOption !== 'string' || !question) {
+      if (section) section.unanswered++;
+      continue;
+    }
+
+    const selectedOption = toCanonicalResponse(questionTypeOf(question), response.selectedOption, slotOrder(attempt, slot));
+    const { isCorrect, score } = gradeQuestionResponse(question, selectedOption);
+    const marks = marksFor(scheme, score);
+    totalScore = roundScore(totalScore + score);
+    totalMarks = roundScore(totalMarks + marks);
+    if (section) {
+      if (isCorrect) section.correct++;
+      else section.incorrect++;
+      section.score = roundScore(section.score + score);
+      section.marks = roundScore(section.marks + marks);
+    }
+
+    attempts.push({
+      studentid: attempt.studentid,
+      questionid: questionId,
+      selectedoption: selectedOption,
+      iscorrect: isCorrect,
+      score,
+      subject_id: section?.subjectId,
+      time_spent_seconds: response.timeSpentSeconds || 0,
+      attemptedat: response.savedAt || new Date().toISOString()
+    });
+  }
+
+  // Record attempts - the first attempt on a question is kept, so a question seen
+  // before is only graded in this sitting's results.
+  // Students cannot write attempts (migration 24), so they are recorded as the server.
+  if (attempts.length > 0) {
+    const { error: attemptsError } = await getServiceRoleClient()
+      .from('student_attempts')
+      .upsert(attempts, { onConflict: 'studentid,questionid', ignoreDuplicates: true });
+
+    if (attemptsError) {
+      console.error('❌ Mock test: failed to record attempts:', attemptsError);
+      return null;
+    }
+  }
+
+  // Guard on status so a concurrent submission cannot grade the attempt twice
+  const { data: submittedRows, error: updateError } = await getServiceRoleClient()
+    .from('mock_test_attempts')
+    .update({
+      status: 'submitted',
+      submitted_at: new Date().toISOString(),
+      auto_submitted: auto,
+      score: totalScore,
+      marks: totalMarks,
+      max_marks: maxMarks,
+      section_results: sectionResults
+    })
+    .eq('id', attempt.id)
+    .eq('status', 'in_progress')
+    .select('id');
+
+  if (updateError) {
+    console.error('❌ Mock test: failed to mark attempt submitted:', updateError);
+    return null;
+  }
+
+  if (!submittedRows || submittedRows.length === 0) {
+    return { alreadySubmitted: true };
+  }
+
+  return {
+    score: totalScore,
+    marks: totalMarks,
+    maxMarks,
+    totalQuestions: questionIds.length,
+    answeredQuestions: attempts.length,
+    sectionResults
+  };
+}
+
+// Auto-submit a student's attempts whose deadline has passed
+export async function finalizeExpiredMockAttempts(
+  supabase: SupabaseClient,
+  studentId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const { data: expired, error } = await supabase
+    .from('mock_test_attempts')
+    .select(MOCK_ATTEMPT_COLUMNS)
+    .eq('studentid', studentId)
+    .eq('status', 'in_progress')
+    .lt('deadline_at', new Date(now.getTime() - DEADLINE_GRACE_SECONDS * 1000).toISOString());
+
+  if (error) {
+    console.error('❌ Mock test: failed to load expired attempts:', error);
+    return 0;
+  }
+
+  let finalized = 0;
+  for (const attempt of (expired || []) as MockAttemptRow[]) {
+    const result = await finalizeMockAttempt(attempt, { auto: true });
+    if (result && !('alreadySubmitted' in result)) {
+      finalized++;
+    }
+  }
+  return finalized;
+}
@@ -0,0 +1,58 @@
+import { Option, QuestionType } from '@/types';
+import { VALID_OPTIONS } from '@/lib/grading';
+import { allowsOptionShuffle } from '@/lib/question-types';
+import { createSeededRandom, seededShuffle } from '@/lib/question-selection';
+
+// Option permutations for daily question sets. An order is a 4-letter string where
+// position i is the canonical option shown in displayed slot i: with order "CADB"
+// the student sees option C labelled A, option A labelled B, and so on.
+// Orders are stored per slot in daily_question_sets.option_orders.
+
+export const CANONICAL_ORDER = VALID_OPTIONS.join('');
+
+export function createOptionOrder(seed: string): string {
+  return seededShuffle(VALID_OPTIONS, createSeededRandom(seed)).join('');
+}
+
+// Order for a question in a new set; types that are not shuffled keep the canonical order
+export function optionOrderFor(questionType: QuestionType, seed: string): string {
+  return allowsOptionShuffle(questionType) ? createOptionOrder(seed) : CANONICAL_ORDER;
+}
+
+export function isValidOptionOrder(order: unknown): order is string {
+  return typeof order === 'string'
+    && order.length === VALID_OPTIONS.length
+    && [...order].sort().join('') === CANONICAL_ORDER;
+}
+
+// Canonical option for a displayed position
+export function toCanonicalOption(displayed: Option, order: string): Option {
+  return order[VALID_OPTIONS.indexOf(displayed)] as Option;
+}
+
+// Displayed position of a canonical option
+export function toDisplayedOption(canonical: Option, order: string): Option {
+  return VALID_OPTIONS[order.indexOf(canonical)];
+}
+
+// Map every option letter of an encoded response between displayed and canonical
+// positions. Only single and multiple-correct questions are shuffled; other
+// responses are returned as they are.
+function mapResponse(
+  questionType: QuestionType,
+  response: string,
+  order: string,
+  mapOption: (option: Option, order: string) => Option
+): string {
+  if (!allowsOptionShuffle(questionType)) return response;
+  const mapped = response.split('').map(option => mapOption(option as Option, order));
+  return questionType === 'multiple' ? mapped.sort().join('') : mapped.join('');
+}
+
+export function toCanonicalResponse(questionType: QuestionType, displayed: string, order: string): string {
+  return mapResponse(questionType, displayed, order, toCanonicalOption);
+}
+
+export function toDisplayedResponse(questionType: QuestionType, canonical: string, order: string): string {
+  return mapResponse(questionType, canonical, order, toDisplayedOption);
+}
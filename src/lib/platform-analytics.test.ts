@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { AuthorProductivity, PlatformAnalytics, buildAnalyticsCsv } from '@/lib/platform-analytics';
+
+function withAuthors(authors: Partial<AuthorProductivity>[]): PlatformAnalytics {
+  return {
+    range: { from: '2025-03-01', to: '2025-03-10' },
+    timeZone: 'Asia/Kolkata',
+    totals: { activeStudents: 0, newRegistrations: 0, attempts: 0, accuracy: null, sessions: 0, averageSessionMinutes: null },
+    daily: [],
+    subjects: [],
+    authors: authors.map(author => ({
+      authorId: 'author-1',
+      email: null,
+      questionsAuthored: 1,
+      totalQuestions: 2,
+      attempts: 3,
+      accuracy: 50,
+      reportsReceived: 0,
+      unresolvedReports: 0,
+      ...author
+    }))
+  };
+}
+
+describe('buildAnalyticsCsv', () => {
+  it('names the file after the section and range', () => {
+    expect(buildAnalyticsCsv('authors', withAuthors([])).filename).toBe('authors-2025-03-01-to-2025-03-10.csv');
+  });
+
+  it('prefixes values that would be read as formulas with a quote', () => {
+    const { content } = buildAnalyticsCsv('authors', withAuthors([
+      { email: '=HYPERLINK("http://example.com")' },
+      { email: '+1@example.com' },
+      { email: '-1@example.com' },
+      { email: '@author' }
+    ]));
+
+    expect(content.split('\n').slice(1).map(line => line.split(',')[0])).toEqual([
+      '"\'=HYPERLINK(""http://example.com"")"',
+      '\'+1@example.com',
+      '\'-1@example.com',
+      '\'@author'
+    ]);
+  });
+
+  it('leaves ordinary values and empty cells unchanged', () => {
+    const { content } = buildAnalyticsCsv('authors', withAuthors([{ email: 'author@example.com' }, { email: null }]));
+    expect(content.split('\n').slice(1)).toEqual([
+      'author@example.com,1,2,3,50,0,0',
+      ',1,2,3,50,0,0'
+    ]);
+  });
+});
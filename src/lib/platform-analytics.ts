@@ -0,0 +1,231 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_TIMEZONE, addDays, daysBetween, getToday, isValidDateString } from '@/lib/dates';
+import { toSafeCsvValue } from '@/lib/question-import';
+
+// Platform-wide trends for SUPERADMINs over a date range. Days are calendar
+// days in DEFAULT_TIMEZONE, the timezone most students are in; both ends of
+// the range are inclusive.
+
+export const DEFAULT_RANGE_DAYS = 30;
+export const MAX_RANGE_DAYS = 366;
+
+export const ANALYTICS_SECTIONS = ['daily', 'subjects', 'authors'] as const;
+export type AnalyticsSection = typeof ANALYTICS_SECTIONS[number];
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface DailyTrend {
+  date: string;
+  activeStudents: number; // Students who logged in or attempted a question
+  newRegistrations: number; // Student accounts created
+  attempts: number;
+  accuracy: number | null; // Percent, rounded; null without attempts
+  sessions: number;
+  averageSessionMinutes: number | null; // Over sessions with a recorded duration
+}
+
+export interface SubjectTrend {
+  subjectId: string;
+  name: string;
+  attempts: number;
+  accuracy: number | null;
+}
+
+export interface AuthorProductivity {
+  authorId: string;
+  email: string | null;
+  questionsAuthored: number; // Created in the range
+  totalQuestions: number;
+  attempts: number; // On any of their questions, in the range
+  accuracy: number | null;
+  reportsReceived: number; // Filed in the range
+  unresolvedReports: number; // Currently open or acknowledged
+}
+
+export interface PlatformAnalytics {
+  range: DateRange;
+  timeZone: string;
+  totals: {
+    activeStudents: number;
+    newRegistrations: number;
+    attempts: number;
+    accuracy: number | null;
+    sessions: number;
+    averageSessionMinutes: number | null;
+  };
+  daily: DailyTrend[];
+  subjects: SubjectTrend[];
+  authors: AuthorProductivity[];
+}
+
+// Date range from ?from=&to= (YYYY-MM-DD); defaults to the last DEFAULT_RANGE_DAYS days
+export function parseDateRange(searchParams: URLSearchParams): DateRange | { error: string } {
+  const today = getToday(DEFAULT_TIMEZONE);
+  const to = searchParams.get('to') || today;
+  const from = searchParams.get('from') || addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+
+  if (!isValidDateString(from) || !isValidDateString(to)) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' };
+  }
+  if (daysBetween(from, to) < 0) {
+    return { error: 'from must not be after to' };
+  }
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) {
+    return { error: `The date range can span at most ${MAX_RANGE_DAYS} days` };
+  }
+
+  return { from, to };
+}
+
+function percent(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 100) : null;
+}
+
+function averageMinutes(totalSeconds: number, count: number): number | null {
+  return count > 0 ? Math.round(totalSeconds / count / 60) : null;
+}
+
+// Counts returned by get_platform_analytics (migration 26)
+interface DailyCounts {
+  day: string;
+  active_students: number;
+  new_registrations: number;
+  attempts: number;
+  correct_attempts: number;
+  sessions: number;
+  timed_sessions: number;
+  session_seconds: number;
+}
+
+interface SubjectCounts {
+  subject_id: string;
+  name: string;
+  attempts: number;
+  correct_attempts: number;
+}
+
+interface AuthorCounts {
+  author_id: string;
+  email: string | null;
+  questions_authored: number;
+  total_questions: number;
+  attempts: number;
+  correct_attempts: number;
+  reports_received: number;
+  unresolved_reports: number;
+}
+
+interface AnalyticsCounts {
+  daily: DailyCounts[];
+  subjects: SubjectCounts[];
+  authors: AuthorCounts[];
+  active_students: number;
+}
+
+// Aggregated by the database; the function only answers SUPERADMIN callers
+export async function loadPlatformAnalytics(
+  supabase: SupabaseClient,
+  range: DateRange
+): Promise<PlatformAnalytics | { error: string }> {
+  const { data, error } = await supabase.rpc('get_platform_analytics', {
+    range_from: range.from,
+    range_to: range.to,
+    time_zone: DEFAULT_TIMEZONE
+  });
+
+  if (error || !data) {
+    return { error: error?.message || 'No analytics returned' };
+  }
+
+  const counts = data as AnalyticsCounts;
+
+  const daily: DailyTrend[] = counts.daily.map(day => ({
+    date: day.day,
+    activeStudents: day.active_students,
+    newRegistrations: day.new_registrations,
+    attempts: day.attempts,
+    accuracy: percent(day.correct_attempts, day.attempts),
+    sessions: day.sessions,
+    averageSessionMinutes: averageMinutes(day.session_seconds, day.timed_sessions)
+  }));
+
+  const subjects: SubjectTrend[] = counts.subjects.map(subject => ({
+    subjectId: subject.subject_id,
+    name: subject.name,
+    attempts: subject.attempts,
+    accuracy: percent(subject.correct_attempts, subject.attempts)
+  }));
+
+  const authors: AuthorProductivity[] = counts.authors
+    .map(author => ({
+      authorId: author.author_id,
+      email: author.email,
+      questionsAuthored: author.questions_authored,
+      totalQuestions: author.total_questions,
+      attempts: author.attempts,
+      accuracy: percent(author.correct_attempts, author.attempts),
+      reportsReceived: author.reports_received,
+      unresolvedReports: author.unresolved_reports
+    }))
+    .sort((a, b) => b.questionsAuthored - a.questionsAuthored || b.totalQuestions - a.totalQuestions);
+
+  const sum = (key: keyof Omit<DailyCounts, 'day'>) => counts.daily.reduce((total, day) => total + day[key], 0);
+  const totalAttempts = sum('attempts');
+
+  return {
+    range,
+    timeZone: DEFAULT_TIMEZONE,
+    totals: {
+      activeStudents: counts.active_students,
+      newRegistrations: sum('new_registrations'),
+      attempts: totalAttempts,
+      accuracy: percent(sum('correct_attempts'), totalAttempts),
+      sessions: sum('sessions'),
+      averageSessionMinutes: averageMinutes(sum('session_seconds'), sum('timed_sessions'))
+    },
+    daily,
+    subjects,
+    authors
+  };
+}
+
+const CSV_COLUMNS: { [S in AnalyticsSection]: { header: string; value: (row: PlatformAnalytics[S][number]) => unknown }[] } = {
+  daily: [
+    { header: 'date', value: row => row.date },
+    { header: 'active_students', value: row => row.activeStudents },
+    { header: 'new_registrations', value: row => row.newRegistrations },
+    { header: 'attempts', value: row => row.attempts },
+    { header: 'accuracy_percent', value: row => row.accuracy },
+    { header: 'sessions', value: row => row.sessions },
+    { header: 'average_session_minutes', value: row => row.averageSessionMinutes }
+  ],
+  subjects: [
+    { header: 'subject', value: row => row.name },
+    { header: 'attempts', value: row => row.attempts },
+    { header: 'accuracy_percent', value: row => row.accuracy }
+  ],
+  authors: [
+    { header: 'author_email', value: row => row.email },
+    { header: 'questions_authored', value: row => row.questionsAuthored },
+    { header: 'total_questions', value: row => row.totalQuestions },
+    { header: 'attempts', value: row => row.attempts },
+    { header: 'accuracy_percent', value: row => row.accuracy },
+    { header: 'reports_received', value: row => row.reportsReceived },
+    { header: 'unresolved_reports', value: row => row.unresolvedReports }
+  ]
+};
+
+// One section of the analytics as a CSV file
+export function buildAnalyticsCsv(section: AnalyticsSection, analytics: PlatformAnalytics): { content: string; filename: string } {
+  const columns = CSV_COLUMNS[section] as { header: string; value: (row: unknown) => unknown }[];
+  const rows = analytics[section] as unknown[];
+  const content = [
+    columns.map(column => column.header).join(','),
+    ...rows.map(row => columns.map(column => toSafeCsvValue(column.value(row))).join(','))
+  ].join('\n');
+
+  return { content, filename: `${section}-${analytics.range.from}-to-${analytics.range.to}.csv` };
+}
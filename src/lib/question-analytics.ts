@@ -0,0 +1,132 @@
+import { DifficultyLevel, Option, QuestionType } from '@/types';
+import { DEFAULT_QUESTION_TYPE, usesChoiceOptions } from '@/lib/question-types';
+
+// Per-question analytics for authors from question_stats, which triggers keep in
+// step with student_attempts (see migration 22).
+
+// Attempts needed before a difficulty label is checked against accuracy
+export const MIN_ATTEMPTS_FOR_DIFFICULTY_CHECK = 20;
+
+// Success rates (percent) consistent with each difficulty label, inclusive
+export const EXPECTED_SUCCESS_RATES: Record<DifficultyLevel, { min: number; max: number }> = {
+  EASY: { min: 70, max: 100 },
+  MEDIUM: { min: 40, max: 80 },
+  HARD: { min: 0, max: 50 }
+};
+
+// A wrong option picked by fewer responses than this (percent) is not distracting anyone
+const NON_FUNCTIONING_DISTRACTOR_SHARE = 5;
+
+const OPTION_LETTERS: Option[] = ['A', 'B', 'C', 'D'];
+
+export interface QuestionStatsRow {
+  total_attempts: number | null;
+  unique_students: number | null;
+  correct_attempts: number | null;
+  option_counts: Record<string, number> | null;
+}
+
+export interface OptionShare {
+  option: Option;
+  picks: number;
+  share: number; // Percent of attempts, rounded
+  isCorrect: boolean;
+}
+
+export interface DistractorShare extends OptionShare {
+  // strong: picked at least as often as a correct option; nonFunctioning: hardly picked
+  flag: 'strong' | 'nonFunctioning' | null;
+}
+
+export interface DifficultyMismatch {
+  label: DifficultyLevel;
+  suggested: DifficultyLevel;
+  message: string;
+}
+
+export interface QuestionAnalytics {
+  attempts: number;
+  uniqueStudents: number;
+  correctAttempts: number;
+  successRate: number | null; // Percent, rounded; null before the first attempt
+  optionDistribution: OptionShare[]; // Empty for numeric and match questions
+  distractors: DistractorShare[];
+  difficultyMismatch: DifficultyMismatch | null;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+// The label the observed success rate points to
+export function suggestDifficulty(successRate: number): DifficultyLevel {
+  if (successRate >= 75) return 'EASY';
+  if (successRate >= 40) return 'MEDIUM';
+  return 'HARD';
+}
+
+function checkDifficulty(
+  difficulty: DifficultyLevel | null | undefined,
+  attempts: number,
+  successRate: number | null
+): DifficultyMismatch | null {
+  if (!difficulty || successRate === null || attempts < MIN_ATTEMPTS_FOR_DIFFICULTY_CHECK) return null;
+
+  const expected = EXPECTED_SUCCESS_RATES[difficulty];
+  if (!expected || (successRate >= expected.min && successRate <= expected.max)) return null;
+
+  const suggested = suggestDifficulty(successRate);
+  return {
+    label: difficulty,
+    suggested,
+    message: `Labelled ${difficulty} but ${successRate}% of ${attempts} attempts were correct ` +
+      `(expected ${expected.min}-${expected.max}%). Consider ${suggested}.`
+  };
+}
+
+export function buildQuestionAnalytics(
+  question: {
+    difficulty?: DifficultyLevel | null;
+    question_type?: QuestionType | null;
+    correct_option?: string | null;
+  },
+  stats: QuestionStatsRow | null
+): QuestionAnalytics {
+  const attempts = stats?.total_attempts || 0;
+  const correctAttempts = stats?.correct_attempts || 0;
+  const successRate = attempts > 0 ? percent(correctAttempts, attempts) : null;
+
+  const type = question.question_type || DEFAULT_QUESTION_TYPE;
+  const correctLetters = (question.correct_option || '').toUpperCase();
+  const optionCounts = stats?.option_counts || {};
+
+  const optionDistribution: OptionShare[] = usesChoiceOptions(type)
+    ? OPTION_LETTERS.map(option => {
+        const picks = Number(optionCounts[option]) || 0;
+        return { option, picks, share: percent(picks, attempts), isCorrect: correctLetters.includes(option) };
+      })
+    : [];
+
+  const correctPicks = optionDistribution.filter(entry => entry.isCorrect).map(entry => entry.picks);
+  const leastPickedCorrect = correctPicks.length > 0 ? Math.min(...correctPicks) : 0;
+
+  const distractors: DistractorShare[] = attempts === 0 ? [] : optionDistribution
+    .filter(entry => !entry.isCorrect)
+    .map(entry => ({
+      ...entry,
+      flag: entry.picks > 0 && entry.picks >= leastPickedCorrect
+        ? 'strong' as const
+        : entry.share < NON_FUNCTIONING_DISTRACTOR_SHARE ? 'nonFunctioning' as const : null
+    }))
+    .sort((a, b) => b.picks - a.picks);
+
+  return {
+    attempts,
+    uniqueStudents: stats?.unique_students || 0,
+    correctAttempts,
+    successRate,
+    optionDistribution,
+    distractors,
+    difficultyMismatch: checkDifficulty(question.difficulty, attempts, successRate)
+  };
+}
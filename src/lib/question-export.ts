@@ -0,0 +1,302 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DifficultyLevel, ExamCategory, QuestionTypeData } from '@/types';
+import { QUESTION_FILE_COLUMNS, toSafeCsvValue } from '@/lib/question-import';
+import { DIFFICULTY_LEVELS, EXAM_CATEGORIES } from '@/lib/question-validation';
+import { formatResponse, isQuestionType, matchLetters, usesChoiceOptions } from '@/lib/question-types';
+import { KATEX_STYLESHEET_URL, renderRichContentHtml } from '@/lib/rich-content';
+
+// Question bank export. CSV and JSON use the import file format (QUESTION_FILE_COLUMNS,
+// subjects by name) so an export can be imported again; HTML is a printable worksheet
+// with question text rendered like the app (Markdown and LaTeX, sanitized).
+
+export type QuestionExportFormat = 'csv' | 'json' | 'html';
+
+export interface QuestionExportFilters {
+  subject?: string; // Subject ID
+  difficulty?: DifficultyLevel;
+  examCategory?: ExamCategory;
+  year?: number;
+}
+
+export const EXPORT_QUESTION_COLUMNS = 'id, question_type, type_data, numeric_tolerance, title, content, option_a, option_b, option_c, option_d, correct_option, explanation, difficulty, exam_category, year, source, tags, subjects!subject_id(name), chapter:topics!chapter_id(name), topic:topics!topic_id(name)';
+
+export interface ExportQuestionRow {
+  question_type: string | null;
+  type_data: QuestionTypeData | null;
+  numeric_tolerance: number | null;
+  title: string;
+  content: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  correct_option: string;
+  explanation: string;
+  difficulty: string;
+  exam_category: string;
+  year: number | null;
+  source: string | null;
+  tags: string[] | null;
+  subjects?: { name: string } | { name: string }[] | null;
+  chapter?: { name: string } | { name: string }[] | null;
+  topic?: { name: string } | { name: string }[] | null;
+}
+
+type QuestionFileRecord = Record<typeof QUESTION_FILE_COLUMNS[number], string | number | null>;
+
+// Read format and filters from the query string; returns an error message for bad values
+export function parseExportRequest(
+  searchParams: URLSearchParams
+): { format: QuestionExportFormat; filters: QuestionExportFilters } | { error: string } {
+  const format = (searchParams.get('format') || 'csv').toLowerCase();
+  if (format !== 'csv' && format !== 'json' && format !== 'html') {
+    return { error: 'format must be csv, json or html' };
+  }
+
+  const filters: QuestionExportFilters = {};
+
+  const subject = searchParams.get('subject');
+  if (subject) filters.subject = subject;
+
+  const difficulty = searchParams.get('difficulty');
+  if (difficulty) {
+    if (!DIFFICULTY_LEVELS.includes(difficulty as DifficultyLevel)) {
+      return { error: 'Difficulty must be EASY, MEDIUM, or HARD' };
+    }
+    filters.difficulty = difficulty as DifficultyLevel;
+  }
+
+  const examCategory = searchParams.get('examCategory');
+  if (examCategory) {
+    if (!EXAM_CATEGORIES.includes(examCategory as ExamCategory)) {
+      return { error: 'Exam category must be UPSC, JEE, NEET, SSC, or OTHER' };
+    }
+    filters.examCategory = examCategory as ExamCategory;
+  }
+
+  const year = searchParams.get('year');
+  if (year) {
+    const parsedYear = parseInt(year, 10);
+    if (isNaN(parsedYear)) {
+      return { error: 'Year must be a number' };
+    }
+    filters.year = parsedYear;
+  }
+
+  return { format, filters };
+}
+
+// PostgREST caps rows per request, so exports are read in pages
+const EXPORT_PAGE_SIZE = 1000;
+
+// Fetch every question matching the filters, oldest first. createdBy limits the
+// export to one author's questions. The client must be able to select answer keys,
+// i.e. the service role client once the caller has been authorized.
+export async function fetchExportQuestions(
+  supabase: SupabaseClient,
+  filters: QuestionExportFilters,
+  createdBy?: string
+): Promise<{ questions: ExportQuestionRow[] } | { error: unknown }> {
+  const questions: ExportQuestionRow[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    let query = supabase
+      .from('questions')
+      .select(EXPORT_QUESTION_COLUMNS);
+
+    if (createdBy) query = query.eq('created_by', createdBy);
+    if (filters.subject) query = query.eq('subject_id', filters.subject);
+    if (filters.difficulty) query = query.eq('difficulty', filters.difficulty);
+    if (filters.examCategory) query = query.eq('exam_category', filters.examCategory);
+    if (filters.year) query = query.eq('year', filters.year);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      return { error };
+    }
+
+    questions.push(...((data || []) as unknown as ExportQuestionRow[]));
+    if (!data || data.length < EXPORT_PAGE_SIZE) {
+      return { questions };
+    }
+  }
+}
+
+// Embedded rows come back as an object or a one-element array
+function embeddedName(value: { name: string } | { name: string }[] | null | undefined): string {
+  const row = Array.isArray(value) ? value[0] : value;
+  return row?.name || '';
+}
+
+function toFileRecord(question: ExportQuestionRow): QuestionFileRecord {
+  return {
+    title: question.title,
+    content: question.content,
+    questionType: question.question_type || 'single',
+    optionA: question.option_a,
+    optionB: question.option_b,
+    optionC: question.option_c,
+    optionD: question.option_d,
+    correctOption: (question.correct_option || '').trim(),
+    typeData: question.type_data ? JSON.stringify(question.type_data) : null,
+    numericTolerance: Number(question.numeric_tolerance) || null,
+    explanation: question.explanation,
+    difficulty: question.difficulty,
+    examCategory: question.exam_category,
+    subject: embeddedName(question.subjects),
+    chapter: embeddedName(question.chapter) || null,
+    topic: embeddedName(question.topic) || null,
+    tags: (question.tags || []).join(';') || null,
+    year: question.year ?? null,
+    source: question.source ?? null
+  };
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Option labels, list items and statements render inline
+function inlineHtml(value: unknown): string {
+  return renderRichContentHtml(value === null || value === undefined ? '' : String(value), { inline: true });
+}
+
+// Answer area of a worksheet question for its type
+function worksheetAnswerHtml(record: QuestionFileRecord): string {
+  const questionType = isQuestionType(record.questionType) ? record.questionType : 'single';
+  const typeData: QuestionTypeData = record.typeData ? JSON.parse(String(record.typeData)) : {};
+  let html = '';
+
+  if (questionType === 'assertion_reason') {
+    html += `
+      <p><strong>Assertion (A):</strong> ${inlineHtml(typeData.assertion)}</p>
+      <p><strong>Reason (R):</strong> ${inlineHtml(typeData.reason)}</p>`;
+  }
+
+  if (questionType === 'match') {
+    const letters = matchLetters((typeData.right || []).length);
+    html += `
+      <table class="match">
+        <tr><th>List I</th><th>List II</th></tr>
+        ${Array.from({ length: Math.max((typeData.left || []).length, letters.length) }, (_, row) => `
+        <tr><td>${typeData.left?.[row] ? `${row + 1}. ${inlineHtml(typeData.left[row])}` : ''}</td><td>${letters[row] ? `${letters[row]}. ${inlineHtml(typeData.right?.[row])}` : ''}</td></tr>`).join('')}
+      </table>`;
+  }
+
+  if (usesChoiceOptions(questionType)) {
+    html += `
+      <ol class="options" type="A">
+        <li>${inlineHtml(record.optionA)}</li>
+        <li>${inlineHtml(record.optionB)}</li>
+        <li>${inlineHtml(record.optionC)}</li>
+        <li>${inlineHtml(record.optionD)}</li>
+      </ol>${questionType === 'multiple' ? '\n      <p class="meta">One or more options may be correct.</p>' : ''}`;
+  } else if (questionType === 'numeric') {
+    html += `
+      <p>Answer: ____________</p>`;
+  }
+
+  return html;
+}
+
+function worksheetAnswerKey(record: QuestionFileRecord): string {
+  const questionType = isQuestionType(record.questionType) ? record.questionType : 'single';
+  const answer = formatResponse(questionType, String(record.correctOption || ''));
+  return record.numericTolerance ? `${answer} (±${record.numericTolerance})` : answer;
+}
+
+function buildWorksheetHtml(records: QuestionFileRecord[], title: string): string {
+  const questions = records.map((record, index) => `
+    <li class="question">
+      <p class="title">${escapeHtml(record.title)}</p>
+      <div class="rich-content">${renderRichContentHtml(String(record.content ?? ''))}</div>${worksheetAnswerHtml(record)}
+      <p class="meta">Q${index + 1} · ${escapeHtml(record.subject)} · ${escapeHtml(record.difficulty)} · ${escapeHtml(record.examCategory)}${record.year ? ` · ${record.year}` : ''}</p>
+    </li>`).join('');
+
+  const answers = records.map((record, index) => `
+    <li><strong>Q${index + 1}: ${escapeHtml(worksheetAnswerKey(record))}</strong>
+      <div class="rich-content">${renderRichContentHtml(String(record.explanation ?? ''))}</div></li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${KATEX_STYLESHEET_URL}">
+<style>
+  body { font-family: Georgia, serif; max-width: 800px; margin: 32px auto; padding: 0 16px; color: #222; }
+  h1 { font-size: 24px; }
+  .question { margin-bottom: 24px; page-break-inside: avoid; }
+  .question .title { font-weight: bold; }
+  .options li { margin: 4px 0; }
+  .match { border-collapse: collapse; margin: 8px 0; }
+  .match th, .match td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+  .meta { font-size: 12px; color: #888; }
+  .rich-content img { max-width: 100%; height: auto; }
+  .rich-content table { border-collapse: collapse; }
+  .rich-content th, .rich-content td { border: 1px solid #ccc; padding: 4px 8px; }
+  .answer-key { page-break-before: always; }
+  .answer-key li { margin-bottom: 8px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${records.length} question(s)</p>
+<ol>${questions}
+</ol>
+<section class="answer-key">
+<h2>Answer Key</h2>
+<ol>${answers}
+</ol>
+</section>
+</body>
+</html>
+`;
+}
+
+// Serialize questions for download
+export function buildQuestionExport(
+  format: QuestionExportFormat,
+  questions: ExportQuestionRow[],
+  filters: QuestionExportFilters,
+  exportedAt: Date = new Date()
+): { body: string; contentType: string; filename: string } {
+  const records = questions.map(toFileRecord);
+  const stamp = exportedAt.toISOString().slice(0, 10);
+
+  if (format === 'json') {
+    return {
+      body: JSON.stringify({ exportedAt: exportedAt.toISOString(), filters, questions: records }, null, 2),
+      contentType: 'application/json; charset=utf-8',
+      filename: `questions-${stamp}.json`
+    };
+  }
+
+  if (format === 'html') {
+    return {
+      body: buildWorksheetHtml(records, `Question Worksheet - ${stamp}`),
+      contentType: 'text/html; charset=utf-8',
+      filename: `questions-${stamp}.html`
+    };
+  }
+
+  // Leading BOM so spreadsheet apps read the file as UTF-8; import strips it
+  const lines = [
+    QUESTION_FILE_COLUMNS.join(','),
+    ...records.map(record => QUESTION_FILE_COLUMNS.map(column => toSafeCsvValue(record[column])).join(','))
+  ];
+  return {
+    body: `\uFEFF${lines.join('\r\n')}\r\n`,
+    contentType: 'text/csv; charset=utf-8',
+    filename: `questions-${stamp}.csv`
+  };
+}
@@ -0,0 +1,248 @@
+import type { QuestionInput } from '@/lib/question-validation';
+import type { TopicRow } from '@/lib/topics';
+
+// Parsing of bulk question files (CSV or JSON) into QuestionInput rows.
+// Files use the Question field names; the same columns are written by export so
+// an exported file can be imported again unchanged.
+
+export type QuestionFileFormat = 'csv' | 'json';
+
+export const QUESTION_FILE_COLUMNS = [
+  'title',
+  'content',
+  'questionType',
+  'optionA',
+  'optionB',
+  'optionC',
+  'optionD',
+  'correctOption',
+  'typeData',
+  'numericTolerance',
+  'explanation',
+  'difficulty',
+  'examCategory',
+  'subject',
+  'chapter',
+  'topic',
+  'tags',
+  'year',
+  'source'
+] as const;
+
+// Columns a CSV header may leave out
+const OPTIONAL_FILE_COLUMNS: readonly string[] = [
+  'questionType', 'typeData', 'numericTolerance', 'chapter', 'topic', 'tags', 'year', 'source'
+];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Alternative column names accepted on import, e.g. database column names
+const COLUMN_ALIASES: Record<string, typeof QUESTION_FILE_COLUMNS[number]> = {
+  option_a: 'optionA',
+  option_b: 'optionB',
+  option_c: 'optionC',
+  option_d: 'optionD',
+  correct_option: 'correctOption',
+  correctanswer: 'correctOption',
+  correct_answer: 'correctOption',
+  exam_category: 'examCategory',
+  subject_id: 'subject',
+  subjectname: 'subject',
+  chapter_id: 'chapter',
+  topic_id: 'topic',
+  question_type: 'questionType',
+  type_data: 'typeData',
+  numeric_tolerance: 'numericTolerance'
+};
+
+function normalizeColumnName(name: string): string | null {
+  const key = name.trim().replace(/^\uFEFF/, '');
+  const match = QUESTION_FILE_COLUMNS.find(column => column.toLowerCase() === key.toLowerCase());
+  return match || COLUMN_ALIASES[key.toLowerCase()] || null;
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  return records.filter(r => r.some(value => value.trim().length > 0));
+}
+
+export function toCsvValue(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Text that spreadsheet apps would evaluate as a formula, e.g. "=HYPERLINK(...)",
+// is written with a leading quote so it opens as plain text; CSV import drops it
+const FORMULA_START = /^[=+\-@\t\r]/;
+const FORMULA_GUARD = /^'(?=[=+\-@\t\r])/;
+
+export function toSafeCsvValue(value: unknown): string {
+  return typeof value === 'string' && FORMULA_START.test(value) ? toCsvValue(`'${value}`) : toCsvValue(value);
+}
+
+// Parse a file into raw rows keyed by Question field names
+export function parseQuestionFile(
+  format: QuestionFileFormat,
+  data: string
+): { rows: Record<string, unknown>[] } | { error: string } {
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return { error: 'File is not valid JSON' };
+    }
+
+    // Accept a bare array or the { questions: [...] } shape written by export
+    const items = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(items)) {
+      return { error: 'JSON must be an array of questions or an object with a questions array' };
+    }
+
+    return {
+      rows: items.map(item => {
+        const row: Record<string, unknown> = {};
+        if (item && typeof item === 'object') {
+          Object.entries(item as Record<string, unknown>).forEach(([key, value]) => {
+            const column = normalizeColumnName(key);
+            if (column) row[column] = value;
+          });
+        }
+        return row;
+      })
+    };
+  }
+
+  const records = parseCsv(data);
+  if (records.length === 0) {
+    return { error: 'CSV file is empty' };
+  }
+
+  const header = records[0].map(normalizeColumnName);
+  const missing = QUESTION_FILE_COLUMNS
+    .filter(column => !OPTIONAL_FILE_COLUMNS.includes(column))
+    .filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    return { error: `CSV header is missing columns: ${missing.join(', ')}` };
+  }
+
+  return {
+    rows: records.slice(1).map(record => {
+      const row: Record<string, unknown> = {};
+      header.forEach((column, index) => {
+        if (column) row[column] = (record[index] ?? '').replace(FORMULA_GUARD, '');
+      });
+      return row;
+    })
+  };
+}
+
+// Convert a raw row to create-path input. The subject, chapter and topic may be
+// given as IDs or names; names are resolved case-insensitively, chapters within
+// the subject and topics within the chapter.
+export function toQuestionInput(
+  row: Record<string, unknown>,
+  subjects: { id: string; name: string }[],
+  topics: TopicRow[] = []
+): Partial<Record<keyof QuestionInput, unknown>> {
+  const text = (value: unknown) => (typeof value === 'string' ? value : value === null || value === undefined ? '' : String(value));
+  const upper = (value: unknown) => text(value).trim().toUpperCase();
+
+  const subjectValue = text(row.subject).trim();
+  const subject = subjects.find(s => s.id === subjectValue)
+    || subjects.find(s => s.name.toLowerCase() === subjectValue.toLowerCase());
+
+  const findTopic = (value: string, matches: (topic: TopicRow) => boolean) =>
+    topics.find(t => t.id === value)
+    || topics.find(t => matches(t) && t.name.toLowerCase() === value.toLowerCase());
+
+  const chapterValue = text(row.chapter).trim();
+  const chapter = chapterValue && subject
+    ? findTopic(chapterValue, t => t.kind === 'chapter' && t.subject_id === subject.id)
+    : undefined;
+
+  const topicValue = text(row.topic).trim();
+  const topic = topicValue && subject
+    ? findTopic(topicValue, t => t.kind === 'topic' && t.subject_id === subject.id
+      && (!chapter || t.parent_id === chapter.id))
+    : undefined;
+
+  const yearValue = text(row.year).trim();
+
+  // Type data is a JSON object, written as JSON text in CSV files
+  let typeData = row.typeData;
+  if (typeof typeData === 'string') {
+    try {
+      typeData = typeData.trim() ? JSON.parse(typeData) : null;
+    } catch {
+      typeData = null;
+    }
+  }
+
+  return {
+    questionType: text(row.questionType).trim().toLowerCase() || null,
+    title: text(row.title),
+    content: text(row.content),
+    optionA: text(row.optionA),
+    optionB: text(row.optionB),
+    optionC: text(row.optionC),
+    optionD: text(row.optionD),
+    correctAnswer: upper(row.correctOption),
+    typeData,
+    numericTolerance: text(row.numericTolerance).trim() || null,
+    explanation: text(row.explanation),
+    difficulty: upper(row.difficulty),
+    examCategory: upper(row.examCategory),
+    // Unknown subjects are reported by the route rather than as a blank subject
+    subject: subject ? subject.id : subjectValue,
+    // Unresolved names are kept so placement checks report them
+    chapter: chapter ? chapter.id : chapterValue || null,
+    topic: topic ? topic.id : topicValue || null,
+    // Tags are separated by ';' in CSV files
+    tags: row.tags,
+    // Non-numeric years are passed through so validation reports them
+    year: yearValue ? (isNaN(Number(yearValue)) ? yearValue : Number(yearValue)) : null,
+    source: text(row.source).trim() || null
+  };
+}
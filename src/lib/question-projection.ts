@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Column projections for the questions table.
+// STUDENT callers must never receive correct_option or explanation before they
+// have a student_attempts row for the question - use /api/student/questions/[id]/answer
+// to reveal them after answering.
+// Signed-in users cannot select those columns at all (migration 25), so
+// queries that need them run on the service role client once the caller's role
+// and access have been checked.
+
+export const STUDENT_QUESTION_COLUMNS = `
+  id,
+  question_type,
+  type_data,
+  title,
+  content,
+  option_a,
+  option_b,
+  option_c,
+  option_d,
+  difficulty,
+  subject_id,
+  chapter_id,
+  topic_id,
+  tags
+`;
+
+export const FULL_QUESTION_COLUMNS = `
+  id,
+  question_type,
+  type_data,
+  numeric_tolerance,
+  title,
+  content,
+  option_a,
+  option_b,
+  option_c,
+  option_d,
+  correct_option,
+  explanation,
+  difficulty,
+  subject_id,
+  chapter_id,
+  topic_id,
+  tags
+`;
+
+export function getQuestionColumnsForRole(role: string): string {
+  return role === 'STUDENT' ? STUDENT_QUESTION_COLUMNS : FULL_QUESTION_COLUMNS;
+}
+
+// Client for reading getQuestionColumnsForRole(role)
+export function getQuestionClientForRole(supabase: SupabaseClient, role: string): SupabaseClient {
+  return role === 'STUDENT' ? supabase : getServiceRoleClient();
+}
@@ -0,0 +1,111 @@
+import { QuestionReport, QuestionReportCategory, QuestionReportStatus } from '@/types';
+
+// Student-reported question issues (see migration 21). Reports move
+// open -> acknowledged -> resolved | dismissed; open and acknowledged reports are
+// unresolved and count toward questions.open_report_count.
+
+export const REPORT_CATEGORIES: QuestionReportCategory[] = ['wrong_answer', 'ambiguous', 'typo', 'out_of_syllabus'];
+
+export const REPORT_CATEGORY_LABELS: Record<QuestionReportCategory, string> = {
+  wrong_answer: 'Wrong answer',
+  ambiguous: 'Ambiguous',
+  typo: 'Typo',
+  out_of_syllabus: 'Out of syllabus'
+};
+
+export const REPORT_STATUSES: QuestionReportStatus[] = ['open', 'acknowledged', 'resolved', 'dismissed'];
+
+export const UNRESOLVED_REPORT_STATUSES: QuestionReportStatus[] = ['open', 'acknowledged'];
+
+export const REPORT_STATUS_LABELS: Record<QuestionReportStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed'
+};
+
+export const REPORT_STATUS_TAG_COLORS: Record<QuestionReportStatus, string> = {
+  open: 'red',
+  acknowledged: 'orange',
+  resolved: 'green',
+  dismissed: 'default'
+};
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+export const MAX_RESOLUTION_NOTE_LENGTH = 1000;
+
+export const REPORT_COLUMNS = 'id, question_id, category, details, status, resolution_note, resolved_at, created_at, updated_at';
+
+export interface ReportRow {
+  id: string;
+  question_id: string;
+  category: QuestionReportCategory;
+  details: string | null;
+  status: QuestionReportStatus;
+  resolution_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function toQuestionReport(row: ReportRow): QuestionReport {
+  return {
+    id: row.id,
+    questionId: row.question_id,
+    category: row.category,
+    details: row.details,
+    status: row.status,
+    resolutionNote: row.resolution_note,
+    resolvedAt: row.resolved_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function optionalText(value: unknown, field: string, maxLength: number): { text: string | null } | { error: string } {
+  if (value === undefined || value === null) return { text: null };
+  if (typeof value !== 'string') {
+    return { error: `${field} must be a string` };
+  }
+  if (value.length > maxLength) {
+    return { error: `${field} cannot exceed ${maxLength} characters` };
+  }
+  return { text: value.trim() || null };
+}
+
+// A new report from a student: { category, details? }
+export function validateReportInput(body: Record<string, unknown>):
+  { category: QuestionReportCategory; details: string | null } | { error: string } {
+  if (!REPORT_CATEGORIES.includes(body.category as QuestionReportCategory)) {
+    return { error: `category must be one of: ${REPORT_CATEGORIES.join(', ')}` };
+  }
+
+  const details = optionalText(body.details, 'Details', MAX_REPORT_DETAILS_LENGTH);
+  if ('error' in details) return details;
+
+  return { category: body.category as QuestionReportCategory, details: details.text };
+}
+
+// A triage update from the question's author: { status, resolutionNote? }.
+// Closing a report records who closed it and when; reopening clears both.
+export function buildTriageUpdate(body: Record<string, unknown>, triagedBy: string):
+  Record<string, unknown> | { error: string } {
+  if (!REPORT_STATUSES.includes(body.status as QuestionReportStatus)) {
+    return { error: `status must be one of: ${REPORT_STATUSES.join(', ')}` };
+  }
+
+  const note = optionalText(body.resolutionNote, 'Resolution note', MAX_RESOLUTION_NOTE_LENGTH);
+  if ('error' in note) return note;
+
+  const status = body.status as QuestionReportStatus;
+  const closed = !UNRESOLVED_REPORT_STATUSES.includes(status);
+  const now = new Date().toISOString();
+
+  return {
+    status,
+    ...(body.resolutionNote !== undefined ? { resolution_note: note.text } : {}),
+    resolved_by: closed ? triagedBy : null,
+    resolved_at: closed ? now : null,
+    updated_at: now
+  };
+}
@@ -0,0 +1,76 @@
+import { QuestionStatus, UserRole } from '@/types';
+
+// Review workflow for questions. Authors submit drafts for review; a SUPERADMIN or
+// a peer QAUTHOR (anyone but the author) approves or rejects them. Only published
+// questions are served to students.
+
+export const QUESTION_STATUSES: QuestionStatus[] = ['draft', 'in_review', 'published', 'rejected'];
+
+// Served to students
+export const PUBLISHED_STATUS: QuestionStatus = 'published';
+
+export type ReviewAction = 'submit' | 'withdraw' | 'approve' | 'reject' | 'comment';
+
+export const REVIEW_ACTIONS: ReviewAction[] = ['submit', 'withdraw', 'approve', 'reject', 'comment'];
+
+interface ReviewActor {
+  role: UserRole;
+  isAuthor: boolean;
+}
+
+const TRANSITIONS: Record<Exclude<ReviewAction, 'comment'>, {
+  from: QuestionStatus[];
+  to: QuestionStatus;
+  by: 'author' | 'reviewer';
+}> = {
+  submit: { from: ['draft', 'rejected'], to: 'in_review', by: 'author' },
+  withdraw: { from: ['in_review'], to: 'draft', by: 'author' },
+  approve: { from: ['in_review'], to: 'published', by: 'reviewer' },
+  reject: { from: ['in_review'], to: 'rejected', by: 'reviewer' }
+};
+
+// Reviewers are SUPERADMINs and QAUTHORs other than the question's author
+export function isReviewer(actor: ReviewActor): boolean {
+  return actor.role === 'SUPERADMIN' || (actor.role === 'QAUTHOR' && !actor.isAuthor);
+}
+
+export type ReviewTransitionError = {
+  error: string;
+  reason: 'forbidden' | 'invalid_state' | 'comment_required';
+};
+
+// Resolve the status a review action leads to, or why the actor cannot take it
+export function getReviewTransition(
+  action: ReviewAction,
+  currentStatus: QuestionStatus,
+  actor: ReviewActor,
+  comment: string | null
+): { status: QuestionStatus } | ReviewTransitionError {
+  if (action === 'comment') {
+    if (!actor.isAuthor && !isReviewer(actor)) {
+      return { error: 'Only the author or a reviewer can comment on this question', reason: 'forbidden' };
+    }
+    if (!comment) {
+      return { error: 'A comment is required', reason: 'comment_required' };
+    }
+    return { status: currentStatus };
+  }
+
+  const transition = TRANSITIONS[action];
+
+  if (transition.by === 'author' && !actor.isAuthor) {
+    return { error: 'Only the question author can do this', reason: 'forbidden' };
+  }
+  if (transition.by === 'reviewer' && !isReviewer(actor)) {
+    return { error: 'Authors cannot review their own questions', reason: 'forbidden' };
+  }
+  if (!transition.from.includes(currentStatus)) {
+    return { error: `Cannot ${action} a question that is ${currentStatus.replace('_', ' ')}`, reason: 'invalid_state' };
+  }
+  // Authors need to know what to fix
+  if (action === 'reject' && !comment) {
+    return { error: 'A comment explaining the rejection is required', reason: 'comment_required' };
+  }
+
+  return { status: transition.to };
+}
@@ -0,0 +1,530 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { QuestionTypeData } from '@/types';
+import { GradableQuestion, gradeQuestionResponse, questionTypeOf, roundScore } from '@/lib/grading';
+import { CANONICAL_ORDER, isValidOptionOrder, toCanonicalResponse } from '@/lib/option-order';
+import type { SavedAnswers, SubjectScore } from '@/lib/daily-sets';
+import { loadQuestionScheme, marksFor } from '@/lib/scoring';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+import { normalizeTags } from '@/lib/topics';
+
+// Revision history for questions (see migration 14). Each revision stores a
+// snapshot of the editable columns plus the diff against the previous revision,
+// so any revision can be restored and every change is attributable.
+
+export const REVISION_FIELDS = [
+  'question_type',
+  'title',
+  'content',
+  'option_a',
+  'option_b',
+  'option_c',
+  'option_d',
+  'correct_option',
+  'numeric_tolerance',
+  'type_data',
+  'explanation',
+  'difficulty',
+  'exam_category',
+  'subject_id',
+  'chapter_id',
+  'topic_id',
+  'tags',
+  'year',
+  'source'
+] as const;
+
+export type RevisionField = typeof REVISION_FIELDS[number];
+export type RevisionAction = 'create' | 'edit' | 'rollback';
+export type SnapshotValue = string | number | string[] | QuestionTypeData | null;
+export type QuestionSnapshot = Record<RevisionField, SnapshotValue>;
+export type RevisionChanges = Partial<Record<RevisionField, { from: SnapshotValue; to: SnapshotValue }>>;
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  question_type: 'Question Type',
+  title: 'Title',
+  content: 'Question',
+  option_a: 'Option A',
+  option_b: 'Option B',
+  option_c: 'Option C',
+  option_d: 'Option D',
+  correct_option: 'Correct Answer',
+  numeric_tolerance: 'Numeric Tolerance',
+  type_data: 'Statements / Lists',
+  explanation: 'Explanation',
+  difficulty: 'Difficulty',
+  exam_category: 'Exam Category',
+  subject_id: 'Subject',
+  chapter_id: 'Chapter',
+  topic_id: 'Topic',
+  tags: 'Tags',
+  year: 'Year',
+  source: 'Source'
+};
+
+export interface RegradeResult {
+  attemptsRegraded: number;
+  setsRescored: number;
+}
+
+// Page size when scanning attempts and daily sets of a regraded question
+const SET_PAGE_SIZE = 1000;
+
+// Snapshot of a questions row. correct_option was a CHARACTER column, so it is
+// trimmed to keep padding out of diffs. Snapshots saved before tags or question
+// types existed read as untagged single-correct questions.
+export function toQuestionSnapshot(row: Record<string, unknown>): QuestionSnapshot {
+  const snapshot = {} as QuestionSnapshot;
+  for (const field of REVISION_FIELDS) {
+    const value = row[field];
+    snapshot[field] = typeof value === 'string' || typeof value === 'number' ? value : null;
+  }
+  if (typeof snapshot.correct_option === 'string') {
+    snapshot.correct_option = snapshot.correct_option.trim();
+  }
+  snapshot.tags = normalizeTags(row.tags) || [];
+  snapshot.question_type = questionTypeOf(row as { question_type?: string | null });
+  snapshot.type_data = row.type_data && typeof row.type_data === 'object' ? row.type_data as QuestionTypeData : null;
+  snapshot.numeric_tolerance = Number(row.numeric_tolerance) || 0;
+  return snapshot;
+}
+
+// Grading columns of a snapshot
+function toGradableQuestion(snapshot: QuestionSnapshot): GradableQuestion {
+  return {
+    question_type: snapshot.question_type as string,
+    correct_option: snapshot.correct_option as string | null,
+    numeric_tolerance: snapshot.numeric_tolerance as number,
+    type_data: snapshot.type_data as QuestionTypeData | null
+  };
+}
+
+// Grade a daily set answer, which is stored in displayed option positions
+function gradeSavedAnswer(question: GradableQuestion, selectedOption: string, order: string) {
+  return gradeQuestionResponse(question, toCanonicalResponse(questionTypeOf(question), selectedOption, order));
+}
+
+// Fields that differ between two snapshots
+export function diffSnapshots(before: QuestionSnapshot, after: QuestionSnapshot): RevisionChanges {
+  const changes: RevisionChanges = {};
+  for (const field of REVISION_FIELDS) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Record a revision after a question was created, edited or rolled back.
+// Questions without any revision get the `before` snapshot as revision 1 first,
+// so the state being replaced can always be restored.
+export async function saveQuestionRevision(
+  supabase: SupabaseClient,
+  {
+    questionId,
+    before,
+    after,
+    editedBy,
+    action,
+    rollbackTo = null
+  }: {
+    questionId: string;
+    before: QuestionSnapshot | null;
+    after: QuestionSnapshot;
+    editedBy: string;
+    action: RevisionAction;
+    rollbackTo?: number | null;
+  }
+): Promise<{ revisionNumber: number } | { error: string }> {
+  const { data: latest, error: latestError } = await supabase
+    .from('question_revisions')
+    .select('revision_number')
+    .eq('question_id', questionId)
+    .order('revision_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    return { error: latestError.message };
+  }
+
+  let revisionNumber = (latest?.revision_number || 0) + 1;
+  const rows = [];
+
+  if (!latest && before && action !== 'create') {
+    rows.push({
+      question_id: questionId,
+      revision_number: revisionNumber++,
+      action: 'create',
+      snapshot: before,
+      changes: {},
+      edited_by: editedBy
+    });
+  }
+
+  rows.push({
+    question_id: questionId,
+    revision_number: revisionNumber,
+    action,
+    snapshot: after,
+    changes: before ? diffSnapshots(before, after) : {},
+    rollback_to: rollbackTo,
+    edited_by: editedBy
+  });
+
+  const { error: insertError } = await supabase
+    .from('question_revisions')
+    .insert(rows);
+
+  if (insertError) {
+    return { error: insertError.message };
+  }
+
+  return { revisionNumber };
+}
+
+// Regrade every student_attempt of a question against its new answer key and
+// rescore the completed daily sets that answered it. Students' rows are only
+// writable by the server, so this needs the service role client; callers must
+// have checked that the user may publish the question.
+// Sets finalized before answers were autosaved have no saved_answers and keep their score.
+export async function regradeQuestionAttempts(
+  supabaseAdmin: SupabaseClient,
+  questionId: string,
+  previous: GradableQuestion,
+  current: GradableQuestion
+): Promise<RegradeResult | { error: string }> {
+  let attemptsRegraded = 0;
+  for (let from = 0; ; from += SET_PAGE_SIZE) {
+    const { data: attempts, error: attemptsError } = await supabaseAdmin
+      .from('student_attempts')
+      .select('id, selectedoption, iscorrect, score')
+      .eq('questionid', questionId)
+      .order('id')
+      .range(from, from + SET_PAGE_SIZE - 1);
+
+    if (attemptsError) {
+      return { error: attemptsError.message };
+    }
+
+    // One update per distinct new grade rather than per attempt
+    const regraded = new Map<string, { isCorrect: boolean; score: number; ids: string[] }>();
+    for (const attempt of attempts || []) {
+      const grade = gradeQuestionResponse(current, attempt.selectedoption);
+      if (grade.isCorrect === attempt.iscorrect && grade.score === Number(attempt.score ?? Number(attempt.iscorrect))) continue;
+
+      const key = `${grade.isCorrect}:${grade.score}`;
+      if (!regraded.has(key)) regraded.set(key, { ...grade, ids: [] });
+      regraded.get(key)!.ids.push(attempt.id);
+    }
+
+    for (const { isCorrect, score, ids } of regraded.values()) {
+      const { error: updateError } = await supabaseAdmin
+        .from('student_attempts')
+        .update({ iscorrect: isCorrect, score })
+        .in('id', ids);
+
+      if (updateError) {
+        return { error: updateError.message };
+      }
+      attemptsRegraded += ids.length;
+    }
+
+    if (!attempts || attempts.length < SET_PAGE_SIZE) break;
+  }
+
+  // question_stats follows the regraded attempts through its trigger
+
+  // Marks change by the difference under the question's current scheme
+  const scheme = await loadQuestionScheme(supabaseAdmin, questionId);
+  if ('error' in scheme) {
+    return scheme;
+  }
+
+  let setsRescored = 0;
+  for (let from = 0; ; from += SET_PAGE_SIZE) {
+    const { data: sets, error: setsError } = await supabaseAdmin
+      .from('daily_question_sets')
+      .select('id, questions, question_subjects, option_orders, saved_answers, score, marks, subject_scores')
+      .eq('completed', true)
+      .contains('questions', [questionId])
+      .order('id')
+      .range(from, from + SET_PAGE_SIZE - 1);
+
+    if (setsError) {
+      return { error: setsError.message };
+    }
+
+    for (const set of sets || []) {
+      const answer = (set.saved_answers as SavedAnswers | null)?.[questionId];
+      if (!answer || typeof answer.selectedOption !== 'string') continue;
+
+      const slot = (set.questions as string[]).indexOf(questionId);
+      const order = set.option_orders?.[slot];
+      const validOrder = isValidOptionOrder(order) ? order : CANONICAL_ORDER;
+      const newScore = gradeSavedAnswer(current, answer.selectedOption, validOrder).score;
+      const oldScore = gradeSavedAnswer(previous, answer.selectedOption, validOrder).score;
+      const delta = newScore - oldScore;
+      if (delta === 0) continue;
+      const marksDelta = marksFor(scheme, newScore) - marksFor(scheme, oldScore);
+
+      const subjectScores = { ...(set.subject_scores || {}) } as Record<string, SubjectScore>;
+      const subjectId = set.question_subjects?.[slot];
+      if (subjectId && subjectScores[subjectId]) {
+        const subjectScore = subjectScores[subjectId];
+        subjectScores[subjectId] = {
+          ...subjectScore,
+          correct: roundScore(Math.max(subjectScore.correct + delta, 0)),
+          ...(subjectScore.marks !== undefined ? { marks: roundScore(subjectScore.marks + marksDelta) } : {})
+        };
+      }
+
+      const { error: updateError } = await supabaseAdmin
+        .from('daily_question_sets')
+        .update({
+          score: roundScore(Math.max(Number(set.score || 0) + delta, 0)),
+          // Sets finalized before scoring schemes have no marks to adjust
+          marks: set.marks === null ? null : roundScore(Number(set.marks) + marksDelta),
+          subject_scores: set.subject_scores ? subjectScores : null
+        })
+        .eq('id', set.id);
+
+      if (updateError) {
+        return { error: updateError.message };
+      }
+      setsRescored++;
+    }
+
+    if (!sets || sets.length < SET_PAGE_SIZE) break;
+  }
+
+  return { attemptsRegraded, setsRescored };
+}
+
+// Keep the key students were graded against (see migration 28). Later edits before
+// approval leave it alone, since attempts were never graded against their keys.
+async function recordPendingRegrade(
+  questionId: string,
+  gradedKey: GradableQuestion,
+  regrade: boolean
+): Promise<{ success: true } | { error: string }> {
+  const supabaseAdmin = getServiceRoleClient();
+
+  const { error: insertError } = await supabaseAdmin
+    .from('pending_regrades')
+    .upsert({ question_id: questionId, graded_key: gradedKey, regrade }, { onConflict: 'question_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    return { error: insertError.message };
+  }
+
+  if (regrade) {
+    const { error: updateError } = await supabaseAdmin
+      .from('pending_regrades')
+      .update({ regrade: true })
+      .eq('question_id', questionId);
+
+    if (updateError) {
+      return { error: updateError.message };
+    }
+  }
+
+  return { success: true };
+}
+
+// Regrade a question that was just approved against the key students were graded
+// against before its answer key changed, when the author asked for it. The pending
+// key is cleared either way, since the approved key is now the one graded against.
+// Callers must have published the question.
+export async function applyPendingRegrade(
+  supabaseAdmin: SupabaseClient,
+  questionId: string
+): Promise<RegradeResult | null | { error: string }> {
+  const { data: pending, error: pendingError } = await supabaseAdmin
+    .from('pending_regrades')
+    .select('graded_key, regrade')
+    .eq('question_id', questionId)
+    .maybeSingle();
+
+  if (pendingError) {
+    return { error: pendingError.message };
+  }
+  if (!pending) {
+    return null;
+  }
+
+  let regrade: RegradeResult | null = null;
+  if (pending.regrade) {
+    const { data: question, error: questionError } = await supabaseAdmin
+      .from('questions')
+      .select('question_type, correct_option, numeric_tolerance, type_data')
+      .eq('id', questionId)
+      .single();
+
+    if (questionError || !question) {
+      return { error: questionError?.message || 'Question not found' };
+    }
+
+    const current = toGradableQuestion(toQuestionSnapshot(question));
+    if (current.correct_option) {
+      const result = await regradeQuestionAttempts(supabaseAdmin, questionId, pending.graded_key as GradableQuestion, current);
+      if ('error' in result) {
+        return result;
+      }
+      regrade = result;
+
+      // Shown on the revision history next to the edit that changed the key
+      const { data: latest, error: latestError } = await supabaseAdmin
+        .from('question_revisions')
+        .select('id')
+        .eq('question_id', questionId)
+        .order('revision_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) {
+        return { error: latestError.message };
+      }
+      if (latest) {
+        const { error: revisionError } = await supabaseAdmin
+          .from('question_revisions')
+          .update({ regraded_attempts: result.attemptsRegraded })
+          .eq('id', latest.id);
+
+        if (revisionError) {
+          return { error: revisionError.message };
+        }
+      }
+    }
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('pending_regrades')
+    .delete()
+    .eq('question_id', questionId);
+
+  if (deleteError) {
+    return { error: deleteError.message };
+  }
+
+  return regrade;
+}
+
+// Columns returned to the QuestionManager after an edit or rollback
+const UPDATED_QUESTION_COLUMNS = `
+  id,
+  title,
+  content,
+  option_a,
+  option_b,
+  option_c,
+  option_d,
+  correct_option,
+  question_type,
+  type_data,
+  numeric_tolerance,
+  explanation,
+  difficulty,
+  exam_category,
+  year,
+  source,
+  chapter_id,
+  topic_id,
+  tags,
+  status,
+  created_at,
+  updated_at,
+  subjects (
+    id,
+    name
+  )
+`;
+
+// Write a new snapshot to a question the editor owns and record the revision.
+// Changing the answer key keeps the key students were graded against until the
+// change is approved; regradeOnApproval asks for past attempts to be regraded then.
+// An edit is only a request while in review, so nothing is regraded here.
+export async function updateQuestionWithRevision(
+  supabase: SupabaseClient,
+  {
+    questionId,
+    before,
+    after,
+    editedBy,
+    action,
+    rollbackTo = null,
+    regradeOnApproval = false
+  }: {
+    questionId: string;
+    before: QuestionSnapshot;
+    after: QuestionSnapshot;
+    editedBy: string;
+    action: Exclude<RevisionAction, 'create'>;
+    rollbackTo?: number | null;
+    regradeOnApproval?: boolean;
+  }
+): Promise<{
+  question: Record<string, unknown>;
+  changes: RevisionChanges;
+  revisionNumber: number | null;
+  regradePending: boolean;
+} | { error: string }> {
+  const changes = diffSnapshots(before, after);
+
+  const { data: updated, error: updateError } = await supabase
+    .from('questions')
+    .update({ ...after, updated_at: new Date().toISOString() })
+    .eq('id', questionId)
+    .eq('created_by', editedBy) // Double-check ownership
+    .select('id')
+    .single();
+
+  if (updateError || !updated) {
+    return { error: updateError?.message || 'Question not updated' };
+  }
+
+  // The answer key is not selectable with the editor's client (migration 25)
+  const { data: question, error: fetchError } = await getServiceRoleClient()
+    .from('questions')
+    .select(UPDATED_QUESTION_COLUMNS)
+    .eq('id', questionId)
+    .single();
+
+  if (fetchError || !question) {
+    return { error: fetchError?.message || 'Question not updated' };
+  }
+
+  // Saving an unchanged form is not a revision
+  if (Object.keys(changes).length === 0) {
+    return { question, changes, revisionNumber: null, regradePending: false };
+  }
+
+  const answerKeyChanged = Boolean(changes.correct_option || changes.question_type || changes.numeric_tolerance || changes.type_data);
+  if (answerKeyChanged) {
+    const pending = await recordPendingRegrade(questionId, toGradableQuestion(before), regradeOnApproval);
+    if ('error' in pending) {
+      return { error: `Question saved but its regrade was not recorded: ${pending.error}` };
+    }
+  }
+
+  const revision = await saveQuestionRevision(supabase, {
+    questionId,
+    before,
+    after,
+    editedBy,
+    action,
+    rollbackTo
+  });
+
+  if ('error' in revision) {
+    return { error: `Question saved but its revision was not recorded: ${revision.error}` };
+  }
+
+  return {
+    question,
+    changes,
+    revisionNumber: revision.revisionNumber,
+    regradePending: answerKeyChanged && regradeOnApproval
+  };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { DifficultyLevel } from '@/types';
+import {
+  DAILY_SELECTION_CONFIG,
+  SelectionCandidate,
+  SelectionContext,
+  adaptiveStrategy,
+  createSeededRandom,
+  planDailyQuotas
+} from '@/lib/question-selection';
+
+// 12 fresh questions of each difficulty over two exam categories, plus 6 previously wrong
+function buildCandidates(): SelectionCandidate[] {
+  const candidates: SelectionCandidate[] = [];
+  (['EASY', 'MEDIUM', 'HARD'] as DifficultyLevel[]).forEach(difficulty => {
+    for (let i = 0; i < 12; i++) {
+      candidates.push({
+        id: `${difficulty.toLowerCase()}-${i}`,
+        difficulty,
+        examCategory: i % 2 === 0 ? 'JEE' : 'NEET',
+        previouslyWrong: false
+      });
+    }
+  });
+  for (let i = 0; i < 6; i++) {
+    candidates.push({ id: `wrong-${i}`, difficulty: 'MEDIUM', examCategory: 'JEE', previouslyWrong: true });
+  }
+  return candidates;
+}
+
+const context: SelectionContext = {
+  count: 10,
+  recentAccuracy: null,
+  wrongShare: DAILY_SELECTION_CONFIG.wrongShare,
+  seed: 'student-1:2025-03-10:subject-1'
+};
+
+describe('createSeededRandom', () => {
+  const draw = (seed: string) => {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: 5 }, () => random());
+  };
+
+  it('repeats the same sequence for the same seed', () => {
+    expect(draw('student-1:2025-03-10')).toEqual(draw('student-1:2025-03-10'));
+  });
+
+  it('gives a different sequence for another seed', () => {
+    expect(draw('student-1:2025-03-10')).not.toEqual(draw('student-1:2025-03-11'));
+  });
+
+  it('returns floats in [0, 1)', () => {
+    draw('bounds').forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('adaptiveStrategy', () => {
+  const candidates = buildCandidates();
+  const byId = new Map(candidates.map(candidate => [candidate.id, candidate]));
+
+  it('returns the same questions in the same order for the same seed', () => {
+    expect(adaptiveStrategy.select(candidates, context)).toEqual(adaptiveStrategy.select([...candidates], { ...context }));
+  });
+
+  it('draws a different set for another seed', () => {
+    expect(adaptiveStrategy.select(candidates, { ...context, seed: 'student-1:2025-03-11:subject-1' }))
+      .not.toEqual(adaptiveStrategy.select(candidates, context));
+  });
+
+  it('fills the requested count without repeating a question', () => {
+    const selected = adaptiveStrategy.select(candidates, context);
+    expect(selected).toHaveLength(context.count);
+    expect(new Set(selected).size).toBe(context.count);
+  });
+
+  it('reserves the wrong share and splits the rest by the difficulty mix', () => {
+    const selected = adaptiveStrategy.select(candidates, context).map(id => byId.get(id)!);
+    const fresh = selected.filter(candidate => !candidate.previouslyWrong);
+
+    expect(selected.filter(candidate => candidate.previouslyWrong)).toHaveLength(2);
+    // Without history the mix is 30% EASY, 50% MEDIUM and 20% HARD of the 8 fresh slots
+    expect(fresh.filter(candidate => candidate.difficulty === 'EASY')).toHaveLength(2);
+    expect(fresh.filter(candidate => candidate.difficulty === 'MEDIUM')).toHaveLength(4);
+    expect(fresh.filter(candidate => candidate.difficulty === 'HARD')).toHaveLength(2);
+  });
+
+  it('tops up from other buckets when one runs short', () => {
+    const withoutHard = candidates.filter(candidate => candidate.difficulty !== 'HARD');
+    const selected = adaptiveStrategy.select(withoutHard, { ...context, recentAccuracy: 0.9 });
+    expect(selected).toHaveLength(context.count);
+  });
+
+  it('returns every candidate when there are fewer than the count', () => {
+    const few = candidates.slice(0, 4);
+    expect([...adaptiveStrategy.select(few, context)].sort()).toEqual(few.map(candidate => candidate.id).sort());
+  });
+});
+
+describe('planDailyQuotas', () => {
+  it('uses positive quotas in selection order, capped per subject', () => {
+    expect(planDailyQuotas([
+      { subject_id: 'physics', is_primary: true, daily_quota: 5 },
+      { subject_id: 'chemistry', is_primary: false, daily_quota: 0 },
+      { subject_id: 'biology', is_primary: false, daily_quota: null },
+      { subject_id: 'maths', is_primary: false, daily_quota: 50 }
+    ])).toEqual([
+      { subjectId: 'physics', quota: 5 },
+      { subjectId: 'maths', quota: DAILY_SELECTION_CONFIG.maxSubjectQuota }
+    ]);
+  });
+
+  it('falls back to the primary subject without quotas', () => {
+    expect(planDailyQuotas([
+      { subject_id: 'physics', is_primary: false, daily_quota: null },
+      { subject_id: 'chemistry', is_primary: true, daily_quota: 0 }
+    ])).toEqual([{ subjectId: 'chemistry', quota: DAILY_SELECTION_CONFIG.setSize }]);
+  });
+
+  it('plans nothing without quotas or a primary subject', () => {
+    expect(planDailyQuotas([{ subject_id: 'physics', is_primary: false, daily_quota: null }])).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+import { DifficultyLevel } from '@/types';
+
+// Pluggable selection of questions for a student's daily set.
+// Strategies are pure: given the same candidates, context and seed they return
+// the same question IDs, so a set can be reproduced from its seed.
+
+export interface SelectionCandidate {
+  id: string;
+  difficulty: DifficultyLevel | null;
+  examCategory: string | null;
+  previouslyWrong: boolean; // the student's recorded attempt on this question is incorrect
+}
+
+export interface SelectionContext {
+  count: number;
+  recentAccuracy: number | null; // 0-1 over recent attempts, null with no history
+  wrongShare: number; // 0-1 share of the set reserved for previously-wrong questions
+  seed: string;
+}
+
+export interface SelectionStrategy {
+  name: string;
+  select(candidates: SelectionCandidate[], context: SelectionContext): string[];
+}
+
+export const DAILY_SELECTION_CONFIG = {
+  strategy: 'adaptive',
+  setSize: 10, // used when the student has no per-subject quotas
+  maxSubjectQuota: 20, // matches user_subjects_daily_quota_check
+  maxSetSize: 40,
+  wrongShare: 0.2,
+  recentAttemptWindow: 50,
+  reportThreshold: 3 // questions with this many unresolved student reports are left out until triaged
+};
+
+export interface SubjectQuota {
+  subjectId: string;
+  quota: number;
+}
+
+// How many questions each subject contributes to today's set. Active subjects with
+// a positive daily_quota are used in selection order; without any quotas the set
+// falls back to setSize questions from the primary subject.
+export function planDailyQuotas(
+  userSubjects: { subject_id: string; is_primary: boolean | null; daily_quota: number | null }[]
+): SubjectQuota[] {
+  const withQuota = userSubjects
+    .filter(us => (us.daily_quota || 0) > 0)
+    .map(us => ({ subjectId: us.subject_id, quota: Math.min(us.daily_quota!, DAILY_SELECTION_CONFIG.maxSubjectQuota) }));
+
+  if (withQuota.length > 0) {
+    return withQuota;
+  }
+
+  const primary = userSubjects.find(us => us.is_primary);
+  return primary ? [{ subjectId: primary.subject_id, quota: DAILY_SELECTION_CONFIG.setSize }] : [];
+}
+
+// Validate a { subjectId: quota } map from the client; returns an error message or null
+export function validateDailyQuotas(quotas: unknown, subjectIds: string[]): string | null {
+  if (typeof quotas !== 'object' || quotas === null || Array.isArray(quotas)) {
+    return 'quotas must be an object of subjectId to number';
+  }
+
+  let total = 0;
+  for (const [subjectId, quota] of Object.entries(quotas)) {
+    if (!subjectIds.includes(subjectId)) {
+      return 'Quotas can only be set for selected subjects';
+    }
+    if (!Number.isInteger(quota) || (quota as number) < 0 || (quota as number) > DAILY_SELECTION_CONFIG.maxSubjectQuota) {
+      return `Each quota must be a whole number between 0 and ${DAILY_SELECTION_CONFIG.maxSubjectQuota}`;
+    }
+    total += quota as number;
+  }
+
+  if (total > DAILY_SELECTION_CONFIG.maxSetSize) {
+    return `Daily quotas cannot add up to more than ${DAILY_SELECTION_CONFIG.maxSetSize} questions`;
+  }
+
+  return null;
+}
+
+type DifficultyMix = Record<DifficultyLevel, number>;
+
+const DIFFICULTIES: DifficultyLevel[] = ['EASY', 'MEDIUM', 'HARD'];
+
+// Difficulty mix by recent accuracy - struggling students get more EASY,
+// strong students are pushed towards HARD
+export function getDifficultyMix(recentAccuracy: number | null): DifficultyMix {
+  if (recentAccuracy === null) return { EASY: 0.3, MEDIUM: 0.5, HARD: 0.2 };
+  if (recentAccuracy < 0.5) return { EASY: 0.5, MEDIUM: 0.4, HARD: 0.1 };
+  if (recentAccuracy < 0.75) return { EASY: 0.3, MEDIUM: 0.5, HARD: 0.2 };
+  return { EASY: 0.1, MEDIUM: 0.4, HARD: 0.5 };
+}
+
+// Seeded PRNG (mulberry32 over a string hash) returning floats in [0, 1)
+export function createSeededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seededShuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Split `total` slots by weight using largest remainders so the parts always sum to total
+function allocateByWeight<K extends string>(total: number, weights: Record<K, number>): Record<K, number> {
+  const keys = Object.keys(weights) as K[];
+  const weightSum = keys.reduce((sum, key) => sum + weights[key], 0) || 1;
+  const exact = keys.map(key => ({ key, value: (total * weights[key]) / weightSum }));
+  const allocation = {} as Record<K, number>;
+  exact.forEach(({ key, value }) => { allocation[key] = Math.floor(value); });
+
+  let remaining = total - keys.reduce((sum, key) => sum + allocation[key], 0);
+  const byRemainder = [...exact].sort((a, b) => (b.value % 1) - (a.value % 1));
+  for (let i = 0; remaining > 0; i = (i + 1) % byRemainder.length, remaining--) {
+    allocation[byRemainder[i].key]++;
+  }
+  return allocation;
+}
+
+// Take up to `count` candidates, rotating through exam categories so no single
+// category dominates when others are available
+function takeBalancedByCategory(
+  candidates: SelectionCandidate[],
+  count: number,
+  random: () => number
+): SelectionCandidate[] {
+  const byCategory = new Map<string, SelectionCandidate[]>();
+  for (const candidate of seededShuffle(candidates, random)) {
+    const category = candidate.examCategory || 'OTHER';
+    byCategory.set(category, [...(byCategory.get(category) || []), candidate]);
+  }
+
+  const queues = [...byCategory.keys()].sort().map(category => byCategory.get(category)!);
+  const taken: SelectionCandidate[] = [];
+  while (taken.length < count && queues.some(queue => queue.length > 0)) {
+    for (const queue of queues) {
+      if (taken.length >= count) break;
+      const next = queue.shift();
+      if (next) taken.push(next);
+    }
+  }
+  return taken;
+}
+
+export const adaptiveStrategy: SelectionStrategy = {
+  name: 'adaptive',
+  select(candidates, context) {
+    const random = createSeededRandom(context.seed);
+    const count = Math.min(context.count, candidates.length);
+    const selected: SelectionCandidate[] = [];
+    const selectedIds = new Set<string>();
+    const add = (items: SelectionCandidate[]) => {
+      items.forEach(item => {
+        if (!selectedIds.has(item.id)) {
+          selectedIds.add(item.id);
+          selected.push(item);
+        }
+      });
+    };
+
+    // 1. Reserved share of previously-wrong questions
+    const wrongShare = Math.min(Math.max(context.wrongShare, 0), 1);
+    const wrongSlots = Math.round(count * wrongShare);
+    add(takeBalancedByCategory(candidates.filter(c => c.previouslyWrong), wrongSlots, random));
+
+    // 2. Fresh questions split by the accuracy-driven difficulty mix
+    const fresh = candidates.filter(c => !c.previouslyWrong);
+    const perDifficulty = allocateByWeight(count - selected.length, getDifficultyMix(context.recentAccuracy));
+    for (const difficulty of DIFFICULTIES) {
+      add(takeBalancedByCategory(fresh.filter(c => c.difficulty === difficulty), perDifficulty[difficulty], random));
+    }
+
+    // 3. Top up from whatever is left when a bucket ran short
+    if (selected.length < count) {
+      const leftovers = candidates.filter(c => !selectedIds.has(c.id));
+      add(takeBalancedByCategory(leftovers.filter(c => !c.previouslyWrong), count - selected.length, random));
+      add(takeBalancedByCategory(leftovers.filter(c => c.previouslyWrong), count - selected.length, random));
+    }
+
+    return seededShuffle(selected, random).map(c => c.id);
+  }
+};
+
+// Previous behaviour: the first `count` candidates in the order given (oldest first)
+export const oldestFirstStrategy: SelectionStrategy = {
+  name: 'oldest-first',
+  select(candidates, context) {
+    return candidates.filter(c => !c.previouslyWrong).slice(0, context.count).map(c => c.id);
+  }
+};
+
+const SELECTION_STRATEGIES: Record<string, SelectionStrategy> = {
+  [adaptiveStrategy.name]: adaptiveStrategy,
+  [oldestFirstStrategy.name]: oldestFirstStrategy
+};
+
+export function getSelectionStrategy(name: string = DAILY_SELECTION_CONFIG.strategy): SelectionStrategy {
+  return SELECTION_STRATEGIES[name] || adaptiveStrategy;
+}
+
+// Accuracy over the most recent attempts (expects attempts newest first)
+export function computeRecentAccuracy(
+  attempts: { iscorrect: boolean | null }[],
+  window: number = DAILY_SELECTION_CONFIG.recentAttemptWindow
+): number | null {
+  const recent = attempts.slice(0, window);
+  if (recent.length === 0) return null;
+  return recent.filter(attempt => attempt.iscorrect).length / recent.length;
+}
@@ -0,0 +1,115 @@
+import { Option, QuestionType, QuestionTypeData } from '@/types';
+
+// Question types (see migration 17). Every answer - the stored correct_option and
+// a student's response alike - is encoded as a string:
+//   single, assertion_reason  one option letter, e.g. "B"
+//   multiple                  the chosen option letters in order, e.g. "AC"
+//   numeric                   a decimal number, e.g. "42" or "-3.5"
+//   match                     one List II letter per List I item, e.g. "CADB";
+//                             "-" marks an item not matched yet
+// Responses are normalised before grading and storage so equal answers compare equal.
+
+export const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'numeric', 'assertion_reason', 'match'];
+
+export const DEFAULT_QUESTION_TYPE: QuestionType = 'single';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'Single correct',
+  multiple: 'Multiple correct',
+  numeric: 'Numeric answer',
+  assertion_reason: 'Assertion-Reason',
+  match: 'Match the following'
+};
+
+const CHOICE_LETTERS: Option[] = ['A', 'B', 'C', 'D'];
+
+// The fixed options of every assertion-reason question, in the usual exam order
+export const ASSERTION_REASON_OPTIONS: Record<Option, string> = {
+  A: 'Both A and R are true, and R is the correct explanation of A',
+  B: 'Both A and R are true, but R is not the correct explanation of A',
+  C: 'A is true, but R is false',
+  D: 'A is false, but R is true'
+};
+
+export const MIN_MATCH_ITEMS = 2;
+export const MAX_MATCH_ITEMS = 8;
+
+const MATCH_LETTERS = 'ABCDEFGH';
+// Placeholder for a List I item that has not been matched yet
+export const UNMATCHED_ITEM = '-';
+
+export function isQuestionType(value: unknown): value is QuestionType {
+  return typeof value === 'string' && (QUESTION_TYPES as string[]).includes(value);
+}
+
+// Types answered by picking among options A-D
+export function usesChoiceOptions(type: QuestionType): boolean {
+  return type === 'single' || type === 'multiple' || type === 'assertion_reason';
+}
+
+// Types whose options may be shuffled in daily sets; assertion-reason options
+// keep their conventional order
+export function allowsOptionShuffle(type: QuestionType): boolean {
+  return type === 'single' || type === 'multiple';
+}
+
+// Letter labels of List II for a match question
+export function matchLetters(count: number): string[] {
+  return MATCH_LETTERS.slice(0, count).split('');
+}
+
+export function parseNumericAnswer(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !/^\s*-?(\d+\.?\d*|\.\d+)\s*$/.test(value)) return null;
+  return Number(value);
+}
+
+// Canonical string form of a response, or null when it is not a complete,
+// well-formed answer for the type
+export function normalizeResponse(
+  type: QuestionType,
+  value: unknown,
+  typeData?: QuestionTypeData | null
+): string | null {
+  if (type === 'numeric') {
+    const number = parseNumericAnswer(value);
+    return number === null ? null : String(number);
+  }
+
+  if (typeof value !== 'string') return null;
+  const letters = value.trim().toUpperCase();
+
+  if (type === 'multiple') {
+    const chosen = [...new Set(letters.split(''))];
+    if (chosen.length === 0 || !chosen.every(letter => (CHOICE_LETTERS as string[]).includes(letter))) return null;
+    return CHOICE_LETTERS.filter(letter => chosen.includes(letter)).join('');
+  }
+
+  if (type === 'match') {
+    const left = typeData?.left?.length || 0;
+    const right = matchLetters(typeData?.right?.length || 0);
+    if (left === 0 || letters.length !== left || ![...letters].every(letter => right.includes(letter))) return null;
+    return letters;
+  }
+
+  return (CHOICE_LETTERS as string[]).includes(letters) ? letters : null;
+}
+
+// Whether a response can be submitted; incomplete match answers are kept as drafts
+export function isCompleteResponse(
+  type: QuestionType,
+  value: string | null | undefined,
+  typeData?: QuestionTypeData | null
+): boolean {
+  return !!value && normalizeResponse(type, value, typeData) !== null;
+}
+
+// Human-readable form of an encoded answer, e.g. "A, C" or "1 → B, 2 → D"
+export function formatResponse(type: QuestionType, value: string | null | undefined): string {
+  if (!value) return '';
+  if (type === 'multiple') return value.split('').join(', ');
+  if (type === 'match') {
+    return value.split('').map((letter, index) => `${index + 1} → ${letter === UNMATCHED_ITEM ? '?' : letter}`).join(', ');
+  }
+  return value.trim();
+}
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import { DifficultyLevel, ExamCategory, QuestionStatus, QuestionType, QuestionTypeData } from '@/types';
+import { normalizeTags, validateTags } from '@/lib/topics';
+import {
+  ASSERTION_REASON_OPTIONS,
+  DEFAULT_QUESTION_TYPE,
+  MAX_MATCH_ITEMS,
+  MIN_MATCH_ITEMS,
+  QUESTION_TYPES,
+  isQuestionType,
+  normalizeResponse,
+  parseNumericAnswer,
+  usesChoiceOptions
+} from '@/lib/question-types';
+
+// Validation and row mapping shared by question creation and bulk import, so an
+// imported question passes exactly the rules a question created in the form does.
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['EASY', 'MEDIUM', 'HARD'];
+export const EXAM_CATEGORIES: ExamCategory[] = ['UPSC', 'JEE', 'NEET', 'SSC', 'OTHER'];
+
+// Request body shape of POST /api/questions
+export interface QuestionInput {
+  questionType?: QuestionType; // Defaults to 'single'
+  title: string;
+  content: string;
+  // Required for single and multiple-correct questions; filled in for
+  // assertion-reason and unused by numeric and match questions
+  optionA?: string;
+  optionB?: string;
+  optionC?: string;
+  optionD?: string;
+  correctAnswer: string | number; // Encoded answer, see lib/question-types
+  typeData?: QuestionTypeData | null; // Assertion-reason statements or match lists
+  numericTolerance?: number | string | null; // Accepted distance from a numeric answer
+  explanation: string;
+  difficulty: DifficultyLevel;
+  examCategory: ExamCategory;
+  subject: string; // Subject ID
+  chapter?: string | null; // Chapter topic ID
+  topic?: string | null; // Topic ID within the chapter
+  tags?: string[] | string | null;
+  year?: number | null;
+  source?: string | null;
+}
+
+// Unique hash of a question's content, options and subject used to detect duplicates
+export function generateQuestionHash(question: {
+  content: string;
+  optionA: string;
+  optionB: string;
+  optionC: string;
+  optionD: string;
+  subject: string;
+  typeData?: QuestionTypeData | null;
+}): string {
+  let stringToHash = `${question.content}-${question.optionA}-${question.optionB}-${question.optionC}-${question.optionD}-${question.subject}`;
+  // Statements and lists are part of the question for the types that have them
+  if (question.typeData) {
+    stringToHash += `-${JSON.stringify(question.typeData)}`;
+  }
+  return crypto.createHash('md5').update(stringToHash).digest('hex');
+}
+
+function isBlank(value: unknown): boolean {
+  return typeof value !== 'string' || value.trim().length === 0;
+}
+
+function validateText(errors: string[], value: unknown, label: string, maxLength: number) {
+  if (isBlank(value)) {
+    errors.push(`${label} is required`);
+  } else if ((value as string).length > maxLength) {
+    errors.push(`${label} cannot exceed ${maxLength} characters`);
+  }
+}
+
+export function resolveQuestionType(value: unknown): QuestionType | null {
+  if (value === undefined || value === null || value === '') return DEFAULT_QUESTION_TYPE;
+  return isQuestionType(value) ? value : null;
+}
+
+function validateMatchList(errors: string[], value: unknown, label: string) {
+  if (!Array.isArray(value) || value.length < MIN_MATCH_ITEMS || value.length > MAX_MATCH_ITEMS) {
+    errors.push(`${label} must have between ${MIN_MATCH_ITEMS} and ${MAX_MATCH_ITEMS} items`);
+    return;
+  }
+  value.forEach((item, index) => validateText(errors, item, `${label} item ${index + 1}`, 200));
+}
+
+// Type-specific rules for the answer, options and type data
+function validateQuestionType(
+  errors: string[],
+  questionType: QuestionType,
+  input: Partial<Record<keyof QuestionInput, unknown>>
+) {
+  const typeData = (input.typeData && typeof input.typeData === 'object' ? input.typeData : {}) as QuestionTypeData;
+
+  if (questionType === 'single' || questionType === 'multiple') {
+    validateText(errors, input.optionA, 'Option A', 500);
+    validateText(errors, input.optionB, 'Option B', 500);
+    validateText(errors, input.optionC, 'Option C', 500);
+    validateText(errors, input.optionD, 'Option D', 500);
+  }
+
+  if (questionType === 'assertion_reason') {
+    validateText(errors, typeData.assertion, 'Assertion', 500);
+    validateText(errors, typeData.reason, 'Reason', 500);
+  }
+
+  if (questionType === 'match') {
+    validateMatchList(errors, typeData.left, 'List I');
+    validateMatchList(errors, typeData.right, 'List II');
+  }
+
+  if (questionType === 'numeric') {
+    const tolerance = input.numericTolerance;
+    if (tolerance !== undefined && tolerance !== null && tolerance !== '') {
+      const value = parseNumericAnswer(tolerance);
+      if (value === null || value < 0) {
+        errors.push('Numeric tolerance must be a number of zero or more');
+      }
+    }
+  }
+
+  if (normalizeResponse(questionType, input.correctAnswer, typeData) === null) {
+    switch (questionType) {
+      case 'multiple':
+        errors.push('Correct answer must be one or more of A, B, C, and D');
+        break;
+      case 'numeric':
+        errors.push('Correct answer must be a number');
+        break;
+      case 'match':
+        errors.push('Correct answer must match every List I item to a List II item');
+        break;
+      default:
+        errors.push('Correct answer must be exactly A, B, C, or D');
+    }
+  }
+}
+
+// Validation per APPLICATION_SPECIFICATION.md; returns the list of errors (empty when valid)
+export function validateQuestionInput(input: Partial<Record<keyof QuestionInput, unknown>>): string[] {
+  const errors: string[] = [];
+
+  validateText(errors, input.title, 'Title', 200);
+  validateText(errors, input.content, 'Question content', 2000);
+
+  const questionType = resolveQuestionType(input.questionType);
+  if (questionType) {
+    validateQuestionType(errors, questionType, input);
+  } else {
+    errors.push(`Question type must be one of: ${QUESTION_TYPES.join(', ')}`);
+  }
+
+  validateText(errors, input.explanation, 'Explanation', 1000);
+
+  if (!input.difficulty || !DIFFICULTY_LEVELS.includes(input.difficulty as DifficultyLevel)) {
+    errors.push('Difficulty must be EASY, MEDIUM, or HARD');
+  }
+
+  if (!input.examCategory || !EXAM_CATEGORIES.includes(input.examCategory as ExamCategory)) {
+    errors.push('Exam category must be UPSC, JEE, NEET, SSC, or OTHER');
+  }
+
+  if (isBlank(input.subject)) {
+    errors.push('Subject is required');
+  }
+
+  errors.push(...validateTags(input.tags));
+
+  // Year validation (if provided)
+  const year = input.year as number;
+  if (year && (isNaN(year) || year < 1900 || year > 2030)) {
+    errors.push('Year must be between 1900 and 2030');
+  }
+
+  return errors;
+}
+
+// Map validated input to a questions table row. New questions start as drafts
+// until their author submits them for review.
+export function buildQuestionRow(input: QuestionInput, createdBy: string, status: QuestionStatus = 'draft') {
+  const now = new Date().toISOString();
+  const questionType = resolveQuestionType(input.questionType) || DEFAULT_QUESTION_TYPE;
+  const typeData = buildTypeData(questionType, input.typeData);
+  const options = questionType === 'assertion_reason'
+    ? ASSERTION_REASON_OPTIONS
+    : { A: input.optionA, B: input.optionB, C: input.optionC, D: input.optionD };
+  // Numeric and match questions have no options; the columns hold empty strings
+  const optionText = (value: string | undefined) => (usesChoiceOptions(questionType) ? value?.trim() || '' : '');
+  const trimmed = {
+    content: input.content.trim(),
+    optionA: optionText(options.A),
+    optionB: optionText(options.B),
+    optionC: optionText(options.C),
+    optionD: optionText(options.D),
+    subject: input.subject,
+    typeData
+  };
+
+  return {
+    question_type: questionType,              // TEXT NOT NULL - 'single', 'multiple', 'numeric', 'assertion_reason', 'match'
+    title: input.title.trim(),                // TEXT NOT NULL - Brief question title/heading
+    content: trimmed.content,                 // TEXT NOT NULL - Full detailed question text
+    option_a: trimmed.optionA,                // TEXT NOT NULL - Answer option A text
+    option_b: trimmed.optionB,                // TEXT NOT NULL - Answer option B text
+    option_c: trimmed.optionC,                // TEXT NOT NULL - Answer option C text
+    option_d: trimmed.optionD,                // TEXT NOT NULL - Answer option D text
+    correct_option: normalizeResponse(questionType, input.correctAnswer, typeData), // TEXT NOT NULL - Encoded answer, e.g. 'A', 'AC', '42'
+    type_data: typeData,                      // JSONB (nullable) - Assertion-reason statements or match lists
+    numeric_tolerance: questionType === 'numeric' ? parseNumericAnswer(input.numericTolerance) || 0 : 0, // NUMERIC NOT NULL
+    correct_answer: null,                     // TEXT (nullable) - Legacy field, not used
+    explanation: input.explanation.trim(),    // TEXT NOT NULL - Detailed explanation
+    difficulty: input.difficulty,             // TEXT NOT NULL - 'EASY', 'MEDIUM', 'HARD'
+    exam_category: input.examCategory,        // TEXT NOT NULL - 'UPSC', 'JEE', 'NEET', 'SSC', 'OTHER'
+    year: input.year || null,                 // INTEGER (nullable) - Year the question was from
+    source: input.source?.trim() || null,     // TEXT (nullable) - Source/reference information
+    questionhash: generateQuestionHash(trimmed), // TEXT (nullable) - Unique hash to prevent duplicates
+    options: {                                // JSONB (nullable) - Alternative JSON storage
+      A: trimmed.optionA,
+      B: trimmed.optionB,
+      C: trimmed.optionC,
+      D: trimmed.optionD
+    },
+    subject_id: input.subject,                // UUID (nullable) - Foreign key to subjects.id
+    chapter_id: input.chapter || null,        // UUID (nullable) - Foreign key to topics.id (chapter)
+    topic_id: input.topic || null,            // UUID (nullable) - Foreign key to topics.id (topic)
+    tags: normalizeTags(input.tags) || [],    // TEXT[] NOT NULL - Lowercase free-form tags
+    status,                                   // TEXT NOT NULL - 'draft', 'in_review', 'published', 'rejected'
+    created_by: createdBy,                    // UUID NOT NULL - Foreign key to users.id (QAUTHOR)
+    created_at: now,                          // TIMESTAMP WITH TIME ZONE
+    updated_at: now                           // TIMESTAMP WITH TIME ZONE
+  };
+}
+
+// Trimmed type data for the types that have it, null for the rest
+export function buildTypeData(questionType: QuestionType, typeData: QuestionTypeData | null | undefined): QuestionTypeData | null {
+  if (questionType === 'assertion_reason') {
+    return { assertion: typeData?.assertion?.trim() || '', reason: typeData?.reason?.trim() || '' };
+  }
+  if (questionType === 'match') {
+    return {
+      left: (typeData?.left || []).map(item => item.trim()),
+      right: (typeData?.right || []).map(item => item.trim())
+    };
+  }
+  return null;
+}
@@ -0,0 +1,58 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkRehype from 'remark-rehype';
+import rehypeSanitize, { defaultSchema, type Options as SanitizeSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeStringify from 'rehype-stringify';
+import type { Root } from 'hast';
+
+// Question text is Markdown with $inline$ and $$display$$ LaTeX. Raw HTML in the
+// source is never rendered, and the generated tree is sanitized before KaTeX runs
+// so only KaTeX's own markup bypasses the allow-list. RichContent renders it in
+// the app; renderRichContentHtml renders the same way for exported worksheets.
+export const RICH_CONTENT_SCHEMA: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+    img: ['src', 'alt', 'title']
+  }
+};
+
+// Stylesheet for KaTeX output in standalone HTML; keep in step with the katex dependency
+export const KATEX_STYLESHEET_URL = 'https://cdn.jsdelivr.net/npm/katex@0.16.47/dist/katex.min.css';
+
+// Drop the paragraph around one-line text such as an option label
+function unwrapSingleParagraph() {
+  return (tree: Root) => {
+    const [only] = tree.children;
+    if (tree.children.length === 1 && only.type === 'element' && only.tagName === 'p') {
+      tree.children = only.children;
+    }
+  };
+}
+
+// Processors are built on first use, since the app only needs the schema
+function buildProcessor(inline: boolean) {
+  const processor = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath)
+    .use(remarkRehype)
+    .use(rehypeSanitize, RICH_CONTENT_SCHEMA);
+  return (inline ? processor.use(unwrapSingleParagraph) : processor)
+    .use(rehypeKatex)
+    .use(rehypeStringify);
+}
+
+const processors = new Map<boolean, ReturnType<typeof buildProcessor>>();
+
+// Sanitized HTML for question text
+export function renderRichContentHtml(markdown: string | null | undefined, { inline = false } = {}): string {
+  if (!processors.has(inline)) {
+    processors.set(inline, buildProcessor(inline));
+  }
+  return String(processors.get(inline)!.processSync(markdown || ''));
+}
@@ -0,0 +1,141 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ExamCategory, ScoringScheme } from '@/types';
+import { roundScore } from '@/lib/grading';
+
+// Scoring schemes and negative marking (see migration 18). A question is marked by
+// its subject's scheme when the subject overrides it, otherwise by the scheme of
+// the question's exam category. Raw scores stay credit sums (see gradeResponse);
+// marks are reported next to them.
+
+// Mirrors the rows seeded by migration 18, for categories missing from the table
+export const DEFAULT_SCORING_SCHEMES: Record<ExamCategory, ScoringScheme> = {
+  UPSC: { correctMarks: 2, incorrectMarks: -0.667 },
+  JEE: { correctMarks: 4, incorrectMarks: -1 },
+  NEET: { correctMarks: 4, incorrectMarks: -1 },
+  SSC: { correctMarks: 2, incorrectMarks: -0.5 },
+  OTHER: { correctMarks: 1, incorrectMarks: 0 }
+};
+
+export const MAX_SCHEME_MARKS = 100;
+
+export interface ScoringSchemes {
+  categories: Record<ExamCategory, ScoringScheme>;
+  subjects: Map<string, ScoringScheme>; // Subject overrides, by subject ID
+}
+
+// Marks earned against the most available
+export interface MarksTotal {
+  marks: number;
+  maxMarks: number;
+}
+
+// A scheme from a row's correct_marks and incorrect_marks, null when not set
+export function toScoringScheme(correctMarks: unknown, incorrectMarks: unknown): ScoringScheme | null {
+  if (correctMarks === null || correctMarks === undefined || correctMarks === '') return null;
+  return { correctMarks: Number(correctMarks), incorrectMarks: Number(incorrectMarks) || 0 };
+}
+
+// Category schemes and the overrides of the given subjects
+export async function loadScoringSchemes(
+  supabase: SupabaseClient,
+  subjectIds: string[]
+): Promise<ScoringSchemes | { error: string }> {
+  const { data: schemeRows, error: schemesError } = await supabase
+    .from('scoring_schemes')
+    .select('exam_category, correct_marks, incorrect_marks');
+
+  if (schemesError) {
+    return { error: schemesError.message };
+  }
+
+  const categories = { ...DEFAULT_SCORING_SCHEMES };
+  schemeRows?.forEach(row => {
+    const scheme = toScoringScheme(row.correct_marks, row.incorrect_marks);
+    if (scheme && row.exam_category in categories) {
+      categories[row.exam_category as ExamCategory] = scheme;
+    }
+  });
+
+  const subjects = new Map<string, ScoringScheme>();
+  const uniqueSubjectIds = [...new Set(subjectIds.filter(Boolean))];
+  if (uniqueSubjectIds.length > 0) {
+    const { data: subjectRows, error: subjectsError } = await supabase
+      .from('subjects')
+      .select('id, correct_marks, incorrect_marks')
+      .in('id', uniqueSubjectIds)
+      .not('correct_marks', 'is', null);
+
+    if (subjectsError) {
+      return { error: subjectsError.message };
+    }
+
+    subjectRows?.forEach(row => {
+      const scheme = toScoringScheme(row.correct_marks, row.incorrect_marks);
+      if (scheme) subjects.set(row.id, scheme);
+    });
+  }
+
+  return { categories, subjects };
+}
+
+// The scheme that marks one question
+export function schemeFor(
+  schemes: ScoringSchemes,
+  subjectId: string | null | undefined,
+  examCategory: string | null | undefined
+): ScoringScheme {
+  return (subjectId && schemes.subjects.get(subjectId))
+    || schemes.categories[examCategory as ExamCategory]
+    || schemes.categories.OTHER;
+}
+
+// Scheme of a single question, for callers that grade one question at a time
+export async function loadQuestionScheme(
+  supabase: SupabaseClient,
+  questionId: string
+): Promise<ScoringScheme | { error: string }> {
+  const { data: question, error } = await supabase
+    .from('questions')
+    .select('subject_id, exam_category')
+    .eq('id', questionId)
+    .single();
+
+  if (error || !question) {
+    return { error: error?.message || 'Question not found' };
+  }
+
+  const schemes = await loadScoringSchemes(supabase, question.subject_id ? [question.subject_id] : []);
+  if ('error' in schemes) {
+    return schemes;
+  }
+  return schemeFor(schemes, question.subject_id, question.exam_category);
+}
+
+// Marks for an answered question from its credit (0-1). Any credit earns its
+// share of the correct marks; a wrong answer takes the negative marks.
+// Unanswered questions score 0 and should not be passed here.
+export function marksFor(scheme: ScoringScheme, score: number): number {
+  return roundScore(score > 0 ? score * scheme.correctMarks : scheme.incorrectMarks);
+}
+
+// Validation errors for a scheme, in the style of validateQuestionInput
+export function validateScoringScheme(correctMarks: unknown, incorrectMarks: unknown): string[] {
+  const errors: string[] = [];
+  const correct = Number(correctMarks);
+  const incorrect = Number(incorrectMarks ?? 0);
+
+  if (correctMarks === null || correctMarks === undefined || correctMarks === '' || !Number.isFinite(correct)
+    || correct <= 0 || correct > MAX_SCHEME_MARKS) {
+    errors.push(`Marks for a correct answer must be more than 0 and at most ${MAX_SCHEME_MARKS}`);
+  }
+  if (!Number.isFinite(incorrect) || incorrect > 0 || incorrect < -MAX_SCHEME_MARKS) {
+    errors.push(`Marks for a wrong answer must be between -${MAX_SCHEME_MARKS} and 0`);
+  }
+  return errors;
+}
+
+// Short form of a scheme, e.g. "+4 / −1"
+export function formatScheme(scheme: ScoringScheme): string {
+  const incorrect = scheme.incorrectMarks < 0 ? `−${Math.abs(scheme.incorrectMarks)}` : '0';
+  return `+${scheme.correctMarks} / ${incorrect}`;
+}
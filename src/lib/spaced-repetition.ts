@@ -0,0 +1,56 @@
+import { addDays } from '@/lib/dates';
+
+// SM-2 scheduling for the per-student review queue (review_cards table).
+// Quality follows SM-2: 0-5, where anything below 3 counts as a lapse.
+
+export const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+export interface ReviewCardState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+}
+
+export interface ReviewSchedule extends ReviewCardState {
+  dueDate: string; // YYYY-MM-DD in the student's timezone
+}
+
+// Review answers are graded automatically, so correctness maps to a fixed quality
+export function qualityFromAnswer(isCorrect: boolean): number {
+  return isCorrect ? 4 : 1;
+}
+
+export function scheduleReview(card: ReviewCardState, quality: number, today: string): ReviewSchedule {
+  const q = Math.min(Math.max(Math.round(quality), 0), 5);
+
+  let repetitions: number;
+  let intervalDays: number;
+
+  if (q < 3) {
+    // Lapse: relearn from the start, see it again tomorrow
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(Math.max(card.intervalDays, 1) * card.easeFactor);
+    }
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueDate: addDays(today, intervalDays)
+  };
+}
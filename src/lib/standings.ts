@@ -0,0 +1,88 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServiceRoleClient } from '@/lib/supabase-server';
+
+// Platform comparison from the standings cache of migration 23. Percentiles are
+// the share of ranked students with a lower accuracy in the same subject or
+// exam category.
+
+// Attempts a student needs in a scope before being ranked in it; keep in step
+// with refresh_platform_standings in migration 23
+export const MIN_ATTEMPTS_FOR_RANKING = 10;
+
+export const LEADERBOARD_SIZE = 20;
+
+export const STANDING_SCOPES = ['subject', 'exam_category'] as const;
+export type StandingScope = typeof STANDING_SCOPES[number];
+
+export interface SubjectComparison {
+  platformAverage: number | null; // Mean student accuracy, percent
+  platformStudents: number;
+  percentile: number | null; // Null until the student has MIN_ATTEMPTS_FOR_RANKING attempts
+  rank: number | null;
+  rankedStudents: number;
+}
+
+export interface LeaderboardEntry {
+  position: number;
+  alias: string;
+  accuracy: number;
+  attempts: number;
+  percentile: number | null;
+  isSelf: boolean;
+}
+
+// Recompute the standings when the cache is more than an hour old. Only the
+// service role may run the refresh (migration 23).
+// Failures are left to the caller to log; the stale cache is still served.
+export async function refreshStandingsIfStale(): Promise<{ error?: string }> {
+  const { error } = await getServiceRoleClient().rpc('refresh_platform_standings');
+  return error ? { error: error.message } : {};
+}
+
+// The student's cached standing in each subject next to the platform's
+export async function loadSubjectComparison(
+  supabase: SupabaseClient,
+  studentId: string,
+  subjectIds: string[]
+): Promise<{ bySubject: Map<string, SubjectComparison>; computedAt: string | null } | { error: string }> {
+  const [platformResult, ownResult] = await Promise.all([
+    supabase
+      .from('platform_standings')
+      .select('scope_key, students, ranked_students, average_accuracy, computed_at')
+      .eq('scope', 'subject')
+      .in('scope_key', subjectIds),
+    supabase
+      .from('student_standings')
+      .select('scope_key, percentile, rank')
+      .eq('scope', 'subject')
+      .eq('student_id', studentId)
+      .in('scope_key', subjectIds)
+  ]);
+
+  if (platformResult.error) return { error: platformResult.error.message };
+  if (ownResult.error) return { error: ownResult.error.message };
+
+  const own = new Map((ownResult.data || []).map(row => [row.scope_key, row]));
+  const bySubject = new Map<string, SubjectComparison>();
+  let computedAt: string | null = null;
+
+  (platformResult.data || []).forEach(row => {
+    const standing = own.get(row.scope_key);
+    bySubject.set(row.scope_key, {
+      platformAverage: row.students > 0 ? Math.round(Number(row.average_accuracy)) : null,
+      platformStudents: row.students,
+      percentile: standing?.percentile === null || standing?.percentile === undefined ? null : Math.round(Number(standing.percentile)),
+      rank: standing?.rank ?? null,
+      rankedStudents: row.ranked_students
+    });
+    if (!computedAt || row.computed_at > computedAt) computedAt = row.computed_at;
+  });
+
+  return { bySubject, computedAt };
+}
+
+// "Aspirant 3FA91C": anonymous, stable once stored
+export function generateLeaderboardAlias(): string {
+  return `Aspirant ${randomUUID().replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+}
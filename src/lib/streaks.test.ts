@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getDateInTimeZone } from '@/lib/dates';
+import { computeStreak } from '@/lib/streaks';
+
+describe('computeStreak', () => {
+  it('starts at 1 without previous activity', () => {
+    expect(computeStreak({ currentStreak: 0, longestStreak: 0, lastActiveDate: null }, '2025-03-10')).toEqual({
+      currentStreak: 1,
+      longestStreak: 1,
+      lastActiveDate: '2025-03-10',
+      change: 'started'
+    });
+  });
+
+  it('holds for a second login on the same day', () => {
+    const first = computeStreak({ currentStreak: 4, longestStreak: 6, lastActiveDate: '2025-03-09' }, '2025-03-10');
+    const second = computeStreak(first, '2025-03-10');
+
+    expect(first.change).toBe('incremented');
+    expect(second).toEqual({
+      currentStreak: 5,
+      longestStreak: 6,
+      lastActiveDate: '2025-03-10',
+      change: 'held'
+    });
+  });
+
+  it('increments for activity just after midnight in Asia/Kolkata', () => {
+    const beforeMidnight = getDateInTimeZone(new Date('2025-03-10T18:29:59Z'), 'Asia/Kolkata');
+    const afterMidnight = getDateInTimeZone(new Date('2025-03-10T18:30:00Z'), 'Asia/Kolkata');
+
+    const state = computeStreak({ currentStreak: 2, longestStreak: 2, lastActiveDate: '2025-03-09' }, beforeMidnight);
+    expect(state).toMatchObject({ currentStreak: 3, lastActiveDate: '2025-03-10', change: 'incremented' });
+
+    expect(computeStreak(state, afterMidnight)).toEqual({
+      currentStreak: 4,
+      longestStreak: 4,
+      lastActiveDate: '2025-03-11',
+      change: 'incremented'
+    });
+  });
+
+  it('resets after a missed day but keeps the longest streak', () => {
+    expect(computeStreak({ currentStreak: 7, longestStreak: 7, lastActiveDate: '2025-03-10' }, '2025-03-12')).toEqual({
+      currentStreak: 1,
+      longestStreak: 7,
+      lastActiveDate: '2025-03-12',
+      change: 'reset'
+    });
+  });
+
+  it('holds when the day goes backwards after a timezone change', () => {
+    expect(computeStreak({ currentStreak: 3, longestStreak: 5, lastActiveDate: '2025-03-11' }, '2025-03-10')).toMatchObject({
+      currentStreak: 3,
+      lastActiveDate: '2025-03-11',
+      change: 'held'
+    });
+  });
+});
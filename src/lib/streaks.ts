@@ -0,0 +1,111 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { daysBetween, getDateInTimeZone, resolveTimeZone } from '@/lib/dates';
+
+// Matches users_current_streak_check / users_longest_streak_check
+const MAX_STREAK = 9999;
+
+export type StreakChange = 'started' | 'incremented' | 'held' | 'reset';
+
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  lastActiveDate: string | null; // YYYY-MM-DD in the student's timezone
+}
+
+export interface StreakUpdate extends StreakState {
+  change: StreakChange;
+}
+
+// Pure streak transition for activity on `today` (YYYY-MM-DD in the student's timezone).
+// - no previous activity: start at 1
+// - same day (or an earlier day after a timezone change): hold
+// - the next calendar day: increment
+// - any gap of two or more days: reset to 1
+export function computeStreak(state: StreakState, today: string): StreakUpdate {
+  const longestStreak = Math.max(state.longestStreak || 0, state.currentStreak || 0);
+
+  if (!state.lastActiveDate) {
+    return {
+      currentStreak: 1,
+      longestStreak: Math.max(longestStreak, 1),
+      lastActiveDate: today,
+      change: 'started'
+    };
+  }
+
+  const gap = daysBetween(state.lastActiveDate, today);
+
+  if (gap <= 0) {
+    return {
+      currentStreak: state.currentStreak || 1,
+      longestStreak: Math.max(longestStreak, state.currentStreak || 1),
+      lastActiveDate: state.lastActiveDate,
+      change: 'held'
+    };
+  }
+
+  if (gap === 1) {
+    const currentStreak = Math.min((state.currentStreak || 0) + 1, MAX_STREAK);
+    return {
+      currentStreak,
+      longestStreak: Math.max(longestStreak, currentStreak),
+      lastActiveDate: today,
+      change: 'incremented'
+    };
+  }
+
+  return {
+    currentStreak: 1,
+    longestStreak: Math.max(longestStreak, 1),
+    lastActiveDate: today,
+    change: 'reset'
+  };
+}
+
+// Record streak activity for a user (called on login and on daily set completion).
+// The day is taken in `timeZone` when given, otherwise in the user's stored timezone.
+// Returns the resulting streak, or null if the user row could not be read or written.
+export async function recordStreakActivity(
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone?: string | null,
+  now: Date = new Date()
+): Promise<StreakUpdate | null> {
+  const { data: userRow, error: fetchError } = await supabase
+    .from('users')
+    .select('current_streak, longest_streak, last_login_date, timezone')
+    .eq('id', userId)
+    .single();
+
+  if (fetchError || !userRow) {
+    console.error('❌ Streak: failed to read user streak:', fetchError);
+    return null;
+  }
+
+  const update = computeStreak({
+    currentStreak: userRow.current_streak || 0,
+    longestStreak: userRow.longest_streak || 0,
+    lastActiveDate: userRow.last_login_date
+  }, getDateInTimeZone(now, resolveTimeZone(timeZone ?? userRow.timezone)));
+
+  if (update.change === 'held') {
+    return update;
+  }
+
+  const { error: updateError } = await supabase
+    .from('users')
+    .update({
+      current_streak: update.currentStreak,
+      longest_streak: update.longestStreak,
+      last_login_date: update.lastActiveDate,
+      updated_at: now.toISOString()
+    })
+    .eq('id', userId);
+
+  if (updateError) {
+    console.error('❌ Streak: failed to update user streak:', updateError);
+    return null;
+  }
+
+  return update;
+}
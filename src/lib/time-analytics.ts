@@ -0,0 +1,164 @@
+import { TopicRow } from '@/lib/topics';
+
+// Time-on-question analytics from student_attempts.time_spent_seconds.
+// Attempts recorded before per-question timing have 0 seconds and are left out
+// of every average; their count is reported as untracked.
+
+// Longest time credited to a single question
+export const MAX_TIME_PER_QUESTION_SECONDS = 60 * 60;
+
+// How many of the slowest topics to report
+const SLOWEST_TOPIC_COUNT = 5;
+
+// Time bands for accuracy versus time, upper bound exclusive
+export const TIME_BANDS = [
+  { label: 'Under 30s', maxSeconds: 30 },
+  { label: '30s - 1m', maxSeconds: 60 },
+  { label: '1 - 2m', maxSeconds: 120 },
+  { label: '2 - 5m', maxSeconds: 300 },
+  { label: 'Over 5m', maxSeconds: Infinity }
+];
+
+// Seconds as sent by a client, rounded and clamped; anything else counts as 0
+export function toTimeSpentSeconds(value: unknown): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) return 0;
+  return Math.min(Math.round(seconds), MAX_TIME_PER_QUESTION_SECONDS);
+}
+
+export interface TimedAttempt {
+  questionid: string;
+  iscorrect: boolean;
+  subject_id: string;
+  time_spent_seconds: number | null;
+}
+
+export interface TimeAverage {
+  attempts: number;
+  averageSeconds: number; // Rounded
+  accuracy: number; // Percent, rounded
+}
+
+export interface TimeAnalytics {
+  overall: TimeAverage;
+  untrackedAttempts: number;
+  bySubject: (TimeAverage & { subjectId: string; byDifficulty: (TimeAverage & { difficulty: string })[] })[];
+  byDifficulty: (TimeAverage & { difficulty: string })[];
+  slowestTopics: (TimeAverage & { id: string; name: string; chapterName: string | null; subjectId: string })[];
+  accuracyByTime: (TimeAverage & { label: string })[];
+}
+
+interface Totals {
+  attempts: number;
+  seconds: number;
+  correct: number;
+}
+
+function emptyTotals(): Totals {
+  return { attempts: 0, seconds: 0, correct: 0 };
+}
+
+function addAttempt(totals: Totals, attempt: TimedAttempt) {
+  totals.attempts++;
+  totals.seconds += attempt.time_spent_seconds || 0;
+  totals.correct += attempt.iscorrect ? 1 : 0;
+}
+
+function toAverage(totals: Totals): TimeAverage {
+  return {
+    attempts: totals.attempts,
+    averageSeconds: totals.attempts > 0 ? Math.round(totals.seconds / totals.attempts) : 0,
+    accuracy: totals.attempts > 0 ? Math.round((totals.correct / totals.attempts) * 100) : 0
+  };
+}
+
+function totalsFor<K>(map: Map<K, Totals>, key: K): Totals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+const DIFFICULTY_ORDER = ['EASY', 'MEDIUM', 'HARD'];
+
+function byDifficultyOrder(a: { difficulty: string }, b: { difficulty: string }) {
+  return DIFFICULTY_ORDER.indexOf(a.difficulty) - DIFFICULTY_ORDER.indexOf(b.difficulty);
+}
+
+// Average time per question by subject and difficulty, the slowest topics and
+// accuracy per time band. Topics follow buildTopicAccuracy: a question placed only
+// in a chapter counts toward the chapter.
+export function buildTimeAnalytics(
+  attempts: TimedAttempt[],
+  difficulties: Map<string, string>,
+  placements: Map<string, { chapterId: string | null; topicId: string | null }>,
+  topicRows: TopicRow[]
+): TimeAnalytics {
+  const topicsById = new Map(topicRows.map(row => [row.id, row]));
+  const overall = emptyTotals();
+  const subjects = new Map<string, Totals>();
+  const subjectDifficulties = new Map<string, Map<string, Totals>>();
+  const difficultyTotals = new Map<string, Totals>();
+  const topics = new Map<string, Totals>();
+  const bands = TIME_BANDS.map(() => emptyTotals());
+  let untrackedAttempts = 0;
+
+  attempts.forEach(attempt => {
+    const seconds = attempt.time_spent_seconds || 0;
+    if (seconds <= 0) {
+      untrackedAttempts++;
+      return;
+    }
+
+    addAttempt(overall, attempt);
+    addAttempt(totalsFor(subjects, attempt.subject_id), attempt);
+
+    const difficulty = difficulties.get(attempt.questionid);
+    if (difficulty) {
+      addAttempt(totalsFor(difficultyTotals, difficulty), attempt);
+      if (!subjectDifficulties.has(attempt.subject_id)) {
+        subjectDifficulties.set(attempt.subject_id, new Map());
+      }
+      addAttempt(totalsFor(subjectDifficulties.get(attempt.subject_id)!, difficulty), attempt);
+    }
+
+    const placement = placements.get(attempt.questionid);
+    const topicId = placement?.topicId || placement?.chapterId;
+    if (topicId && topicsById.has(topicId)) {
+      addAttempt(totalsFor(topics, topicId), attempt);
+    }
+
+    addAttempt(bands[TIME_BANDS.findIndex(band => seconds < band.maxSeconds)], attempt);
+  });
+
+  return {
+    overall: toAverage(overall),
+    untrackedAttempts,
+    bySubject: [...subjects.entries()].map(([subjectId, totals]) => ({
+      subjectId,
+      ...toAverage(totals),
+      byDifficulty: [...(subjectDifficulties.get(subjectId) || new Map<string, Totals>()).entries()]
+        .map(([difficulty, levelTotals]) => ({ difficulty, ...toAverage(levelTotals) }))
+        .sort(byDifficultyOrder)
+    })),
+    byDifficulty: [...difficultyTotals.entries()]
+      .map(([difficulty, totals]) => ({ difficulty, ...toAverage(totals) }))
+      .sort(byDifficultyOrder),
+    slowestTopics: [...topics.entries()]
+      .map(([id, totals]) => {
+        const row = topicsById.get(id)!;
+        return {
+          id,
+          name: row.name,
+          chapterName: row.parent_id ? topicsById.get(row.parent_id)?.name || null : null,
+          subjectId: row.subject_id,
+          ...toAverage(totals)
+        };
+      })
+      .sort((a, b) => b.averageSeconds - a.averageSeconds || b.attempts - a.attempts)
+      .slice(0, SLOWEST_TOPIC_COUNT),
+    accuracyByTime: TIME_BANDS.map((band, index) => ({ label: band.label, ...toAverage(bands[index]) }))
+  };
+}
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Topic, TopicKind } from '@/types';
+
+// Subject -> chapter -> topic taxonomy (see migration 15) and question tags.
+
+export const MAX_TOPIC_NAME_LENGTH = 100;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export interface TopicRow {
+  id: string;
+  subject_id: string;
+  parent_id: string | null;
+  kind: TopicKind;
+  name: string;
+  position: number;
+}
+
+export const TOPIC_COLUMNS = 'id, subject_id, parent_id, kind, name, position';
+
+export function toTopic(row: TopicRow): Topic {
+  return {
+    id: row.id,
+    subjectId: row.subject_id,
+    parentId: row.parent_id,
+    kind: row.kind,
+    name: row.name,
+    position: row.position
+  };
+}
+
+const byPosition = (a: TopicRow, b: TopicRow) => a.position - b.position || a.name.localeCompare(b.name);
+
+// Chapters of a subject with their topics nested, both in display order
+export function buildTopicTree(rows: TopicRow[]): Topic[] {
+  const chapters = rows.filter(row => row.kind === 'chapter').sort(byPosition);
+  return chapters.map(chapter => ({
+    ...toTopic(chapter),
+    topics: rows
+      .filter(row => row.kind === 'topic' && row.parent_id === chapter.id)
+      .sort(byPosition)
+      .map(toTopic)
+  }));
+}
+
+// Tags are lowercase with single spaces. Accepts an array or a string separated
+// by commas or semicolons (the CSV import format). Returns null for other types.
+export function normalizeTags(value: unknown): string[] | null {
+  if (value === null || value === undefined || value === '') return [];
+
+  const items = typeof value === 'string' ? value.split(/[,;]/) : value;
+  if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+    return null;
+  }
+
+  const tags = (items as string[])
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(tag => tag.length > 0);
+  return [...new Set(tags)];
+}
+
+// Validation errors for a tag list, in the style of validateQuestionInput
+export function validateTags(value: unknown): string[] {
+  const tags = normalizeTags(value);
+  if (tags === null) {
+    return ['Tags must be a list of text values'];
+  }
+
+  const errors: string[] = [];
+  if (tags.length > MAX_TAGS) {
+    errors.push(`A question can have at most ${MAX_TAGS} tags`);
+  }
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    errors.push(`Tags cannot exceed ${MAX_TAG_LENGTH} characters`);
+  }
+  return errors;
+}
+
+// Check that a chapter belongs to the subject and a topic to the chapter.
+// A topic given without its chapter is placed in its parent chapter.
+export function resolvePlacement(
+  rows: TopicRow[],
+  subjectId: string,
+  chapterId: string | null | undefined,
+  topicId: string | null | undefined
+): { chapterId: string | null; topicId: string | null } | { error: string } {
+  const topic = topicId ? rows.find(row => row.id === topicId) : null;
+  if (topicId && (!topic || topic.kind !== 'topic' || topic.subject_id !== subjectId)) {
+    return { error: 'Selected topic does not exist in this subject' };
+  }
+
+  const chapter = chapterId ? rows.find(row => row.id === chapterId) : null;
+  if (chapterId && (!chapter || chapter.kind !== 'chapter' || chapter.subject_id !== subjectId)) {
+    return { error: 'Selected chapter does not exist in this subject' };
+  }
+
+  // Topics are created inside a chapter of their own subject
+  const resolvedChapterId = chapterId || topic?.parent_id || null;
+
+  if (topic && topic.parent_id !== resolvedChapterId) {
+    return { error: 'Selected topic does not belong to the selected chapter' };
+  }
+
+  return { chapterId: resolvedChapterId, topicId: topicId || null };
+}
+
+// Load the referenced chapter and topic rows and resolve the placement
+export async function checkQuestionPlacement(
+  supabase: SupabaseClient,
+  subjectId: string,
+  chapterId: string | null | undefined,
+  topicId: string | null | undefined
+): Promise<{ chapterId: string | null; topicId: string | null } | { error: string }> {
+  const ids = [chapterId, topicId].filter((id): id is string => !!id);
+  if (ids.length === 0) {
+    return { chapterId: null, topicId: null };
+  }
+
+  const { data: rows, error } = await supabase
+    .from('topics')
+    .select(TOPIC_COLUMNS)
+    .in('id', ids);
+
+  if (error) {
+    return { error: 'Failed to check chapter and topic' };
+  }
+
+  return resolvePlacement((rows || []) as TopicRow[], subjectId, chapterId, topicId);
+}
+
+export interface TopicAccuracy {
+  id: string;
+  kind: TopicKind;
+  name: string;
+  chapterName: string | null;
+  subjectId: string;
+  correct: number;
+  total: number;
+  accuracy: number; // Percent, rounded
+}
+
+// Accuracy per topic from graded attempts, weakest first. Attempts on questions
+// placed only in a chapter count toward the chapter; unplaced questions are skipped.
+export function buildTopicAccuracy(
+  attempts: { questionid: string; iscorrect: boolean }[],
+  placements: Map<string, { chapterId: string | null; topicId: string | null }>,
+  rows: TopicRow[]
+): TopicAccuracy[] {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const totals = new Map<string, { correct: number; total: number }>();
+
+  attempts.forEach(attempt => {
+    const placement = placements.get(attempt.questionid);
+    const key = placement?.topicId || placement?.chapterId;
+    if (!key || !byId.has(key)) return;
+
+    const running = totals.get(key) || { correct: 0, total: 0 };
+    totals.set(key, {
+      correct: running.correct + (attempt.iscorrect ? 1 : 0),
+      total: running.total + 1
+    });
+  });
+
+  return [...totals.entries()]
+    .map(([id, { correct, total }]) => {
+      const row = byId.get(id)!;
+      return {
+        id,
+        kind: row.kind,
+        name: row.name,
+        chapterName: row.parent_id ? byId.get(row.parent_id)?.name || null : null,
+        subjectId: row.subject_id,
+        correct,
+        total,
+        accuracy: Math.round((correct / total) * 100)
+      };
+    })
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total || a.name.localeCompare(b.name));
+}
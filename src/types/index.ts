@@ -2,36 +2,75 @@ export type UserRole = 'SUPERADMIN' | 'QAUTHOR' | 'STUDENT';
 export type DifficultyLevel = 'EASY' | 'MEDIUM' | 'HARD';
 export type ExamCategory = 'UPSC' | 'JEE' | 'NEET' | 'SSC' | 'OTHER';
 export type Option = 'A' | 'B' | 'C' | 'D';
+export type QuestionType = 'single' | 'multiple' | 'numeric' | 'assertion_reason' | 'match';
+export type QuestionStatus = 'draft' | 'in_review' | 'published' | 'rejected';
+export type TopicKind = 'chapter' | 'topic';
 
 export interface Subject {
     id: string;
     name: string;
     created_at: string;
+    examcategory?: ExamCategory;
+    correct_marks?: number | null;  // Scoring override; null uses the exam category scheme
+    incorrect_marks?: number | null;
+}
+
+// Marks per question under an exam's scoring scheme
+export interface ScoringScheme {
+    correctMarks: number;
+    incorrectMarks: number;  // Zero or negative
+}
+
+// Chapter (no parent) or topic within a chapter, below a subject
+export interface Topic {
+    id: string;
+    subjectId: string;
+    parentId: string | null;
+    kind: TopicKind;
+    name: string;
+    position: number;
+    topics?: Topic[];  // Topics of a chapter, when returned as a tree
 }
 
 export interface User {
     id: string;
     email: string;
     role: UserRole;
+    timezone?: string | null; // IANA timezone; null uses the app default
     created_at?: string;
     updated_at?: string;
 }
 
+// Extra content of assertion-reason and match-the-following questions
+export interface QuestionTypeData {
+    assertion?: string;
+    reason?: string;
+    left?: string[];   // List I
+    right?: string[];  // List II, labelled A, B, C, ...
+}
+
 export interface Question {
     id: string;
+    questionType?: QuestionType;  // Defaults to 'single'
     title: string;
     content: string;
     optionA: string;
     optionB: string;
     optionC: string;
     optionD: string;
-    correctOption: Option;
+    correctOption: string;  // Encoded answer, see lib/question-types
+    typeData?: QuestionTypeData | null;
+    numericTolerance?: number;
     explanation: string;
     difficulty: DifficultyLevel;
     examCategory: ExamCategory;
     subject: string;  // Subject ID
+    chapterId?: string | null;
+    topicId?: string | null;
+    tags?: string[];
     year?: number;
     source?: string;
+    status?: QuestionStatus;  // Only published questions are served to students
     createdBy: string;  // QAUTHOR ID
     createdAt: Date;
     updatedAt: Date;
@@ -41,8 +80,9 @@ export interface StudentAttempt {
     id: string;
     studentId: string;
     questionId: string;
-    selectedOption: Option;
+    selectedOption: string;
     isCorrect: boolean;
+    score?: number;  // Credit earned, 0-1; partial for multiple-correct questions
     attemptedAt: Date;
 }
 
@@ -51,11 +91,57 @@ export interface DailyQuestionSet {
     studentId: string;
     date: string;
     questions: string[];  // Array of question IDs
+    questionSubjects?: string[];  // Subject of each slot, parallel to questions
+    optionOrders?: string[];  // Option permutation of each slot, e.g. "CADB"
     completed: boolean;
     score?: number;
+    subjectScores?: Record<string, { correct: number; total: number }>;
+    savedAnswers?: Record<string, { selectedOption: string; timeSpentSeconds: number; savedAt: string }>;
+    finalizedAt?: string;
+    autoFinalized?: boolean;
     created_at: Date;
 }
 
+export type MockTestAttemptStatus = 'in_progress' | 'submitted';
+
+// A mock test section draws questionCount published questions of one subject
+export interface MockTestSection {
+    name: string;
+    subjectId: string;
+    difficulty: DifficultyLevel | null;  // null draws any difficulty
+    questionCount: number;
+}
+
+export interface MockTest {
+    id: string;
+    title: string;
+    description: string | null;
+    examCategory: ExamCategory;
+    durationMinutes: number;
+    sections: MockTestSection[];
+    scheme: ScoringScheme | null;  // null uses the exam category's scoring scheme
+    isPublished: boolean;  // Only published tests are offered to students
+    createdBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type QuestionReportCategory = 'wrong_answer' | 'ambiguous' | 'typo' | 'out_of_syllabus';
+export type QuestionReportStatus = 'open' | 'acknowledged' | 'resolved' | 'dismissed';
+
+// A student's report of a problem with a question, triaged by its author
+export interface QuestionReport {
+    id: string;
+    questionId: string;
+    category: QuestionReportCategory;
+    details: string | null;
+    status: QuestionReportStatus;
+    resolutionNote: string | null;
+    resolvedAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
 // Supabase auth data types
 export interface SupabaseUser {
     id: string;